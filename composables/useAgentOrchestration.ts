@@ -0,0 +1,52 @@
+import { watch, onUnmounted } from 'vue';
+import { useAgentOrchestrationStore } from '~/stores/agent-orchestration';
+import { useClaudeInstancesStore } from '~/stores/claude-instances';
+import { useWorkspaceManager } from '~/composables/useWorkspaceManager';
+
+/**
+ * Track the progress of orchestrated agents: turns and edited files come from
+ * the Claude turn tracker, exits from the instances' connection status.
+ */
+export function useAgentOrchestration() {
+  const orchestrationStore = useAgentOrchestrationStore();
+  const instancesStore = useClaudeInstancesStore();
+  const { currentWorkspacePath } = useWorkspaceManager();
+
+  const turnsApi = window.electronAPI?.claude?.turns;
+  if (!turnsApi) return;
+
+  watch(currentWorkspacePath, (path) => {
+    if (path) orchestrationStore.loadRuns();
+  }, { immediate: true });
+
+  // Turns are only reported while some agent may still be working
+  watch(() => orchestrationStore.hasActiveAgents, (active) => {
+    turnsApi.setEnabled(active, 'orchestration');
+  }, { immediate: true });
+
+  // The terminal tab marks an instance disconnected when its process exits
+  watch(
+    () => orchestrationStore.allAgents
+      .filter(agent => agent.instanceId)
+      .map(agent => [agent.instanceId!, instancesStore.instances.get(agent.instanceId!)?.status] as const),
+    (statuses, previous) => {
+      const before = new Map(previous || []);
+      for (const [instanceId, status] of statuses) {
+        if (before.get(instanceId) === 'connected' && status !== 'connected') {
+          orchestrationStore.recordExited(instanceId);
+        }
+      }
+    }
+  );
+
+  const cleanups = [
+    turnsApi.onStarted((turn: any) => orchestrationStore.recordTurnStarted(turn.instanceId)),
+    turnsApi.onEnded((turn: any) => orchestrationStore.recordTurnEnded(turn.instanceId, turn.files || [], turn.toolUses || 0)),
+    turnsApi.onStopped((stopped: any) => orchestrationStore.recordStopped(stopped.instanceId))
+  ];
+
+  onUnmounted(() => {
+    cleanups.forEach(cleanup => cleanup());
+    turnsApi.setEnabled(false, 'orchestration');
+  });
+}
@@ -0,0 +1,45 @@
+import { onMounted, onUnmounted } from 'vue';
+import { useTasksStore, type ClaudeTodosUpdate } from '~/stores/tasks';
+import { useClaudeInstancesStore } from '~/stores/claude-instances';
+
+/**
+ * Keeps the Kanban board in sync with the TodoWrite list of every running
+ * Claude instance. Board-side changes are written back by the tasks store.
+ */
+export const useClaudeTodoSync = () => {
+  const tasksStore = useTasksStore();
+  const instancesStore = useClaudeInstancesStore();
+  let stopListening: (() => void) | undefined;
+
+  const handleUpdate = (update: ClaudeTodosUpdate) => {
+    instancesStore.updateInstanceSessionId(update.instanceId, update.sessionId);
+    tasksStore.syncWithClaudeNative(update);
+  };
+
+  // Pick up todos Claude wrote while nothing was listening
+  const loadCurrentTodos = async () => {
+    for (const instance of instancesStore.instancesList) {
+      if (instance.status !== 'connected') continue;
+
+      try {
+        const result = await window.electronAPI.claude.todos.get(instance.id);
+        if (result.success && result.sessionId) {
+          handleUpdate({ instanceId: instance.id, sessionId: result.sessionId, todos: result.todos || [] });
+        }
+      } catch (error) {
+        console.error(`Failed to load todos for Claude instance ${instance.id}:`, error);
+      }
+    }
+  };
+
+  onMounted(() => {
+    if (!window.electronAPI?.claude?.onTodosUpdated) return;
+
+    stopListening = window.electronAPI.claude.onTodosUpdated(handleUpdate);
+    loadCurrentTodos();
+  });
+
+  onUnmounted(() => {
+    stopListening?.();
+  });
+};
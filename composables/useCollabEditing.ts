@@ -0,0 +1,341 @@
+/**
+ * Collaborative Editing Composable
+ * Binds a CodeMirror editor to the shared copy of its file: local edits go
+ * out to the other participants, theirs come in along with their cursors, and
+ * file trees can show who has which file open
+ */
+import { ref, watch } from 'vue';
+import { EditorView, Decoration, WidgetType } from '@codemirror/view';
+import type { DecorationSet, ViewUpdate } from '@codemirror/view';
+import { Annotation, ChangeSet, Compartment, EditorState, StateEffect, StateField, Transaction } from '@codemirror/state';
+import type { Extension, Range } from '@codemirror/state';
+import { CollabClient, ElectronCollabTransport, SocketCollabTransport } from '~/services/collab/collab-client';
+import type { CollabCursor, CollabDocument } from '~/services/collab/collab-client';
+import { remoteConnection } from '~/services/remote-client/RemoteConnectionSingleton';
+import type { CollabProtocol } from '~/electron/services/remote-protocol';
+
+// Marks transactions that carry other participants' edits
+const remoteChange = Annotation.define<boolean>();
+
+const setRemoteCursors = StateEffect.define<CollabCursor[]>();
+
+class RemoteCaretWidget extends WidgetType {
+  constructor(private name: string, private color: string) {
+    super();
+  }
+
+  override eq(other: RemoteCaretWidget) {
+    return other.name === this.name && other.color === this.color;
+  }
+
+  toDOM() {
+    const caret = document.createElement('span');
+    caret.className = 'cm-remote-caret';
+    caret.style.borderLeftColor = this.color;
+
+    const label = document.createElement('span');
+    label.className = 'cm-remote-caret-label';
+    label.style.backgroundColor = this.color;
+    label.textContent = this.name;
+    caret.appendChild(label);
+
+    return caret;
+  }
+
+  override ignoreEvent() {
+    return true;
+  }
+}
+
+function createCursorDecorations(cursors: CollabCursor[], state: EditorState): DecorationSet {
+  const decorations: Range<Decoration>[] = [];
+  const length = state.doc.length;
+
+  for (const { participant, anchor, head } of cursors) {
+    const from = Math.min(anchor, head, length);
+    const to = Math.min(Math.max(anchor, head), length);
+    if (from < to) {
+      decorations.push(Decoration.mark({
+        attributes: { style: `background-color: ${participant.color}33` }
+      }).range(from, to));
+    }
+    decorations.push(Decoration.widget({
+      widget: new RemoteCaretWidget(participant.name, participant.color),
+      side: 1
+    }).range(Math.min(head, length)));
+  }
+
+  return Decoration.set(decorations, true);
+}
+
+const remoteCursorsField = StateField.define<DecorationSet>({
+  create() {
+    return Decoration.none;
+  },
+  update(cursors, tr) {
+    cursors = cursors.map(tr.changes);
+    for (const effect of tr.effects) {
+      if (effect.is(setRemoteCursors)) {
+        cursors = createCursorDecorations(effect.value, tr.state);
+      }
+    }
+    return cursors;
+  },
+  provide: field => EditorView.decorations.from(field)
+});
+
+const remoteCursorTheme = EditorView.baseTheme({
+  '.cm-remote-caret': {
+    position: 'relative',
+    borderLeft: '2px solid',
+    marginLeft: '-1px',
+    marginRight: '-1px'
+  },
+  '.cm-remote-caret-label': {
+    position: 'absolute',
+    top: '-1.3em',
+    left: '-2px',
+    padding: '0 4px',
+    borderRadius: '3px 3px 3px 0',
+    fontSize: '10px',
+    lineHeight: '1.3em',
+    color: '#fff',
+    whiteSpace: 'nowrap',
+    pointerEvents: 'none',
+    opacity: '0.85'
+  }
+});
+
+// One client per window, shared by every editor and file tree in it
+let client: CollabClient | null = null;
+const presence = ref<Record<string, CollabProtocol.Participant[]>>({});
+const selfId = ref<string | null>(null);
+
+function applyPresence(event: CollabProtocol.PresenceEvent) {
+  presence.value = event.files;
+  if (event.self) {
+    selfId.value = event.self.id;
+  }
+}
+
+function refreshPresence() {
+  client?.getPresence().then(applyPresence).catch(() => {
+    // Not connected yet; the host sends presence once we are
+  });
+}
+
+function getClient(): CollabClient | null {
+  if (client) return client;
+
+  if (window.electronAPI?.collab) {
+    client = new CollabClient(new ElectronCollabTransport());
+  } else if (remoteConnection.getSocket()) {
+    client = new CollabClient(new SocketCollabTransport(() => remoteConnection.getSocket()));
+    // Listen on the new socket after a reconnect
+    watch(() => remoteConnection.getSocket(), refreshPresence);
+  } else {
+    return null;
+  }
+
+  client.onPresence(applyPresence);
+  refreshPresence();
+  return client;
+}
+
+/**
+ * Text changes that leave the start and end of the replaced text as they
+ * were only share the part in between, so reloading a file with the same
+ * content doesn't rewrite it for everyone
+ */
+function trimChange(removed: string, inserted: string): { start: number; end: number } {
+  let start = 0;
+  while (start < removed.length && start < inserted.length && removed[start] === inserted[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < removed.length - start &&
+    end < inserted.length - start &&
+    removed[removed.length - 1 - end] === inserted[inserted.length - 1 - end]
+  ) {
+    end++;
+  }
+  return { start, end };
+}
+
+/**
+ * Whether an editor update only carries other participants' edits
+ */
+export function isRemoteUpdate(update: ViewUpdate): boolean {
+  return update.transactions.some(tr => tr.annotation(remoteChange));
+}
+
+export function useCollabEditing() {
+  let view: EditorView | null = null;
+  let shared: CollabDocument | null = null;
+  // Bumped on every attach and detach so a slow join can't bind a stale file
+  let generation = 0;
+  const readOnly = new Compartment();
+
+  const dispatchRemote = (changes: ChangeSet) => {
+    if (!view || changes.empty) return;
+    view.dispatch({
+      changes,
+      annotations: [remoteChange.of(true), Transaction.addToHistory.of(false)]
+    });
+  };
+
+  const applyRemoteChanges = (changes: { from: number; to: number; insert: string }[]) => {
+    if (!view) return;
+    let combined = ChangeSet.empty(view.state.doc.length);
+    for (const change of changes) {
+      combined = combined.compose(ChangeSet.of(change, combined.newLength));
+    }
+    dispatchRemote(combined);
+  };
+
+  const showCursors = (cursors: CollabCursor[]) => {
+    view?.dispatch({ effects: setRemoteCursors.of(cursors) });
+  };
+
+  const shareLocalChanges = (update: ViewUpdate) => {
+    if (!shared) return;
+    let offset = 0;
+
+    update.changes.iterChanges((fromA, toA, _fromB, _toB, insertedText) => {
+      const removed = update.startState.doc.sliceString(fromA, toA);
+      const inserted = insertedText.toString();
+      const { start, end } = trimChange(removed, inserted);
+
+      const from = fromA + offset + start;
+      shared!.edit(from, from + removed.length - start - end, inserted.slice(start, inserted.length - end));
+      offset += inserted.length - removed.length;
+    });
+  };
+
+  const shareCursor = (state: EditorState) => {
+    const { anchor, head } = state.selection.main;
+    shared?.moveCursor(anchor, head);
+  };
+
+  /**
+   * Editor extension; include it in every state the editor is given
+   */
+  const createCollabExtension = (): Extension => [
+    remoteCursorsField,
+    remoteCursorTheme,
+    readOnly.of([]),
+    EditorView.updateListener.of((update) => {
+      if (!shared || update.view !== view) return;
+
+      if (update.docChanged && !isRemoteUpdate(update)) {
+        shareLocalChanges(update);
+      }
+      if (update.selectionSet || (update.docChanged && !isRemoteUpdate(update))) {
+        shareCursor(update.state);
+      }
+    })
+  ];
+
+  /**
+   * Join the shared session of the file the editor shows
+   */
+  const attach = async (editorView: EditorView, path: string): Promise<void> => {
+    detach();
+    const collab = getClient();
+    if (!collab) return;
+
+    const current = ++generation;
+    view = editorView;
+    // Typing while joining would be lost when the shared text comes back
+    view.dispatch({ effects: readOnly.reconfigure(EditorState.readOnly.of(true)) });
+
+    try {
+      const document = await collab.join(path, editorView.state.doc.toString(), {
+        onRemoteChanges: applyRemoteChanges,
+        onCursorsChanged: showCursors
+      });
+      if (current !== generation) {
+        collab.leave(document).catch(() => {});
+        return;
+      }
+
+      shared = document;
+      // Someone else had the file open first; take over their text
+      const text = document.getText();
+      const doc = editorView.state.doc.toString();
+      if (text !== doc) {
+        const { start, end } = trimChange(doc, text);
+        dispatchRemote(ChangeSet.of({
+          from: start,
+          to: doc.length - end,
+          insert: text.slice(start, text.length - end)
+        }, doc.length));
+      }
+
+      editorView.dispatch({
+        effects: readOnly.reconfigure(document.readOnly ? EditorState.readOnly.of(true) : [])
+      });
+      shareCursor(editorView.state);
+    } catch (error) {
+      console.warn('[Collab] Editing without sharing:', error);
+      if (current === generation) {
+        editorView.dispatch({ effects: readOnly.reconfigure([]) });
+      }
+    }
+  };
+
+  /**
+   * Leave the shared session; call before the editor switches files or goes away
+   */
+  const detach = () => {
+    generation++;
+    const document = shared;
+    shared = null;
+
+    if (view) {
+      view.dispatch({
+        effects: [setRemoteCursors.of([]), readOnly.reconfigure([])]
+      });
+      view = null;
+    }
+    if (document) {
+      client?.leave(document).catch(error => {
+        console.warn('[Collab] Failed to leave shared session:', error);
+      });
+    }
+  };
+
+  return {
+    createCollabExtension,
+    attach,
+    detach
+  };
+}
+
+/**
+ * Who else has files open, for file trees
+ */
+export function useCollabPresence() {
+  getClient();
+
+  /**
+   * Other participants in a file; remote file trees list workspace-relative
+   * paths, presence is keyed by absolute ones
+   */
+  const participantsIn = (path: string): CollabProtocol.Participant[] => {
+    const files = presence.value;
+    let participants = files[path];
+    if (!participants && !path.startsWith('/')) {
+      const suffix = '/' + path.replace(/^\.\//, '');
+      const match = Object.keys(files).find(filePath => filePath.endsWith(suffix));
+      participants = match ? files[match] : [];
+    }
+    return (participants || []).filter(participant => participant.id !== selfId.value);
+  };
+
+  return {
+    presence,
+    participantsIn
+  };
+}
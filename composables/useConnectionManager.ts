@@ -5,6 +5,7 @@
 import { ref, computed, watch } from 'vue';
 import { useServices } from './useServices';
 import { useToast } from './useToast';
+import { useDeviceHandoff } from './useDeviceHandoff';
 
 export type ConnectionState = 
   | 'offline'
@@ -244,52 +245,11 @@ class ConnectionManager {
       return;
     }
     
-    try {
-      this.toast.info(`Switching to ${device.name}...`);
-      
-      // Import device switching service
-      const { DeviceSwitchingService } = await import('../services/device-switching');
-      const provider = this.servicesComposable.services.value;
-      if (!provider) {
-        throw new Error('Service provider not available');
-      }
-      
-      const deviceSwitcher = new DeviceSwitchingService(provider);
-      
-      // Create checkpoint of current state
-      this.toast.info('Creating checkpoint...');
-      const checkpoint = await deviceSwitcher.createCheckpoint();
-      
-      // Emit device switch event with checkpoint
-      if (this.socket) {
-        this.socket.emit('device:switch', { 
-          from: this.currentDeviceId.value,
-          to: deviceId,
-          checkpoint
-        });
-        
-        // Listen for switch confirmation
-        this.socket.once('device:switch:complete', async (data) => {
-          if (data.success && data.checkpoint) {
-            // Restore the other device's checkpoint
-            this.toast.info('Restoring device state...');
-            await deviceSwitcher.restoreCheckpoint(data.checkpoint);
-            
-            // Update current device
-            this.currentDeviceId.value = deviceId;
-            this.toast.success(`Switched to ${device.name}`);
-          } else {
-            this.toast.error('Device switch failed: ' + (data.error || 'Unknown error'));
-          }
-        });
-      } else {
-        // Local switch (no socket connection)
-        this.currentDeviceId.value = deviceId;
-        this.toast.success(`Switched to ${device.name} (local only)`);
-      }
-    } catch (error) {
-      console.error('Device switch error:', error);
-      this.toast.error('Failed to switch device: ' + (error as Error).message);
+    // The other device restores the checkpoint it is handed
+    const { continueOn } = useDeviceHandoff();
+    const checkpoint = await continueOn(device.id, device.name);
+    if (checkpoint) {
+      this.currentDeviceId.value = deviceId;
     }
   }
   
@@ -0,0 +1,103 @@
+/**
+ * Device Handoff Composable
+ * "Continue on other device": captures the editor and Claude state into a
+ * checkpoint, sends it to another device and restores checkpoints sent here
+ */
+import { watch, onUnmounted } from 'vue';
+import { useServices } from './useServices';
+import { useToast } from './useToast';
+import { useEditorStore } from '~/stores/editor';
+import { useClaudeInstancesStore } from '~/stores/claude-instances';
+import { DeviceSwitchingService } from '~/services/device-switching';
+import type { CheckpointWorkspace, DeviceCheckpoint } from '~/services/device-switching';
+
+/**
+ * Workspace backed by the editor and Claude instance stores
+ */
+function createWorkspace(): CheckpointWorkspace {
+  const editorStore = useEditorStore();
+  const claudeStore = useClaudeInstancesStore();
+
+  return {
+    getOpenFiles: () => editorStore.openFiles,
+    getActiveFile: () => editorStore.activeTab?.path || null,
+    getCursorPositions: () => editorStore.getCursorPositions(),
+    getClaudeInstances: () => claudeStore.instancesList.map(instance => ({
+      id: instance.id,
+      name: instance.name,
+      workingDirectory: instance.workingDirectory,
+      personality: instance.personalityId || ''
+    })),
+    getActiveClaudeInstance: () => claudeStore.activeInstanceId,
+
+    openFile: (path) => editorStore.openFile(path),
+    setActiveFile: (path) => {
+      const tab = editorStore.tabs.find(t => t.path === path);
+      if (tab) {
+        editorStore.setActiveTab(tab.id);
+      }
+    },
+    restoreCursorPositions: (positions) => editorStore.restoreCursorPositions(positions),
+    setActiveClaudeInstance: (instanceId) => claudeStore.setActiveInstance(instanceId),
+    restoreScrollback: (instanceId, buffer) => {
+      window.dispatchEvent(new CustomEvent('claude:restore-scrollback', {
+        detail: { instanceId, buffer }
+      }));
+    }
+  };
+}
+
+export function useDeviceHandoff() {
+  const { services } = useServices();
+  const toast = useToast();
+
+  const getSwitcher = () => {
+    if (!services.value) {
+      throw new Error('Service provider not available');
+    }
+    return new DeviceSwitchingService(services.value, createWorkspace());
+  };
+
+  /**
+   * Send the current state to another device. On the desktop the target is
+   * a connected remote session; remote clients always continue on the desktop.
+   */
+  const continueOn = async (sessionId?: string, deviceName = 'desktop'): Promise<DeviceCheckpoint | null> => {
+    try {
+      const checkpoint = await getSwitcher().handOff(sessionId);
+      toast.success(`Continuing on ${deviceName}`);
+      return checkpoint;
+    } catch (error) {
+      console.error('Device handoff failed:', error);
+      toast.error('Failed to continue on ' + deviceName + ': ' + (error as Error).message);
+      return null;
+    }
+  };
+
+  /**
+   * Restore checkpoints other devices hand to this one, for as long as the
+   * calling component is mounted
+   */
+  const receiveHandoffs = () => {
+    let stop: (() => void) | null = null;
+
+    watch(services, (provider) => {
+      stop?.();
+      stop = null;
+      if (!provider) return;
+
+      stop = new DeviceSwitchingService(provider, createWorkspace()).listenForHandoffs((checkpoint) => {
+        toast.info(`Continued from ${checkpoint.deviceName}`);
+      });
+    }, { immediate: true });
+
+    onUnmounted(() => {
+      stop?.();
+    });
+  };
+
+  return {
+    continueOn,
+    receiveHandoffs
+  };
+}
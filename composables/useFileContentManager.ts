@@ -4,7 +4,10 @@ import type {
   ContentObject, 
   DiffObject, 
   ChangeSummary,
-  StorageInfo 
+  StorageInfo,
+  RetentionPolicy,
+  GarbageCollectionReport,
+  SnapshotComparison
 } from '~/types/snapshot';
 
 /**
@@ -207,6 +210,51 @@ export class FileContentManager {
     }
   }
 
+  /**
+   * Compare two snapshots, or a snapshot and 'working-tree' (via IPC or Socket.IO in remote mode)
+   */
+  async compareSnapshots(fromId: string, toId: string, includePatches: boolean = true): Promise<SnapshotComparison> {
+    const isRemoteMode = !window.electronAPI;
+    let result: any;
+    
+    if (isRemoteMode) {
+      // Remote mode - use Socket.IO
+      const { remoteConnection } = await import('~/services/remote-client/RemoteConnectionSingleton');
+      
+      if (!remoteConnection.isConnected()) {
+        throw new Error('Remote connection not available');
+      }
+      
+      const socket = remoteConnection.getSocket();
+      if (!socket) {
+        throw new Error('Socket not available');
+      }
+      
+      result = await new Promise<any>((resolve, reject) => {
+        const request = {
+          id: `req-${Date.now()}`,
+          payload: { fromId, toId, includePatches }
+        };
+        
+        socket.emit('snapshot:compare', request, (response: any) => {
+          if (response.success) {
+            resolve(response.data);
+          } else {
+            reject(new Error(response.error || 'Request failed'));
+          }
+        });
+      });
+    } else {
+      // Desktop mode - use Electron API
+      result = await window.electronAPI.snapshots.compare({ fromId, toId, includePatches });
+    }
+    
+    if (!result?.success || !result.comparison) {
+      throw new Error(result?.error || 'Failed to compare snapshots');
+    }
+    return result.comparison;
+  }
+
   /**
    * Scan project files (via IPC or Socket.IO in remote mode)
    */
@@ -650,19 +698,25 @@ export class FileContentManager {
   }
 
   /**
-   * Cleanup old content objects (via IPC)
+   * Apply a retention policy and garbage collect unreferenced objects (via IPC)
    */
-  async cleanup(olderThanDays: number = 30): Promise<{ removed: number; sizeFreed: number }> {
+  async cleanup(retention?: Partial<RetentionPolicy>, collectGarbage: boolean = false): Promise<{
+    removed: number;
+    sizeFreed: number;
+    removedIds: string[];
+    report?: GarbageCollectionReport | null;
+  }> {
     try {
       const result = await window.electronAPI.snapshots.cleanup({
         projectPath: this.projectPath,
-        olderThanDays
+        retention: retention ? { ...retention } : undefined,
+        collectGarbage
       });
       
-      return result.success ? result.stats : { removed: 0, sizeFreed: 0 };
+      return result.success ? result.stats : { removed: 0, sizeFreed: 0, removedIds: [] };
     } catch (error) {
       console.error('Failed to cleanup storage:', error);
-      return { removed: 0, sizeFreed: 0 };
+      return { removed: 0, sizeFreed: 0, removedIds: [] };
     }
   }
 
@@ -694,6 +748,7 @@ export function useFileContentManager(projectPath?: string) {
     getContent: manager.getContent.bind(manager),
     getDiff: manager.getDiff.bind(manager),
     scanProjectFiles: manager.scanProjectFiles.bind(manager),
+    compareSnapshots: manager.compareSnapshots.bind(manager),
     createDiff: manager.createDiff.bind(manager),
     applyDiff: manager.applyDiff.bind(manager),
     restoreFiles: manager.restoreFiles.bind(manager),
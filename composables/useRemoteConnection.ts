@@ -1,11 +1,15 @@
 import { ref, readonly, onUnmounted } from 'vue';
 import { io, Socket } from 'socket.io-client';
 import { remoteConnection } from '~/services/remote-client/RemoteConnectionSingleton';
+import { DeviceAuthService } from '~/services/device-auth';
+import { E2EChannel } from '~/services/remote-client/E2EChannel';
 
 interface ConnectionOptions {
   deviceToken: string;
   deviceId: string;
   pairingCode?: string;
+  // Link came through a relay (self-hosted relays don't use clode.studio hosts)
+  relay?: boolean;
 }
 
 export function useRemoteConnection() {
@@ -46,6 +50,7 @@ export function useRemoteConnection() {
     try {
       // Get server URL
       let serverUrl = import.meta.env.VITE_REMOTE_SERVER_URL;
+      let relaySessionId: string | undefined;
       
       if (!serverUrl) {
         const protocol = window.location.protocol;
@@ -71,13 +76,10 @@ export function useRemoteConnection() {
                         hostname.includes('lhr.life') ||
                         hostname.includes('loca.lt');
         
-        if (isSubdomainRelay) {
+        if (isSubdomainRelay || options.relay) {
           // Subdomain relay mode - extract session and use same origin
-          const sessionId = hostParts[0].toUpperCase();
+          relaySessionId = hostParts[0].toUpperCase();
           serverUrl = window.location.origin;
-          
-          // Store session ID for auth
-          (options as any).sessionId = sessionId;
         } else if (isTunnel || port === '3000') {
           // Use the same origin - Socket.IO is now on the same port via Nitro/proxy
           serverUrl = window.location.origin;
@@ -92,16 +94,23 @@ export function useRemoteConnection() {
       
       debugInfo.value.serverUrl = serverUrl;
       
+      // Through a relay the credentials never leave the browser: the device
+      // token authenticates the end-to-end key exchange instead
+      if (relaySessionId && !options.deviceToken) {
+        throw new Error('Relay connections need the device token from the QR link');
+      }
+      
       socket.value = io(serverUrl, {
         path: '/socket.io/', // Explicit Socket.IO path
         transports: ['polling', 'websocket'], // Start with polling for better mobile compatibility
-        auth: {
-          role: (options as any).sessionId ? 'client' : undefined, // Set role to 'client' when connecting through relay
-          token: options.deviceToken,  // Server expects 'token' not 'deviceToken'
-          deviceId: options.deviceId,
-          pairing: options.pairingCode,  // Include pairing code if available
-          sessionId: (options as any).sessionId  // Include session ID for relay mode
-        },
+        auth: relaySessionId
+          ? { role: 'client', sessionId: relaySessionId }
+          : {
+              token: options.deviceToken,  // Server expects 'token' not 'deviceToken'
+              deviceId: options.deviceId,
+              pairing: options.pairingCode,  // Include pairing code if available
+              clientName: DeviceAuthService.describeClient()  // Name shown in the desktop's trusted devices
+            },
         reconnection: true,
         reconnectionDelay: 1000,
         reconnectionAttempts: 5,
@@ -113,8 +122,21 @@ export function useRemoteConnection() {
         rememberUpgrade: true
       });
       
+      let e2eChannel: E2EChannel | null = null;
+      if (relaySessionId) {
+        e2eChannel = E2EChannel.attach(socket.value as Socket, {
+          sessionId: relaySessionId,
+          token: options.deviceToken,
+          clientName: DeviceAuthService.describeClient(),
+          onError: (message) => {
+            error.value = message;
+          }
+        });
+      }
+      
       // Store in singleton
       remoteConnection.setSocket(socket.value);
+      remoteConnection.setRelayed(!!relaySessionId);
       
       // Set up event handlers
       socket.value.on('connect', async () => {
@@ -123,7 +145,7 @@ export function useRemoteConnection() {
         
         
         // For relay connections, immediately request workspace after connecting
-        if ((options as any).sessionId) {
+        if (relaySessionId) {
           
           try {
             const workspace = await request('workspace:get', {});
@@ -136,17 +158,7 @@ export function useRemoteConnection() {
               // Import and update the workspace state directly
               const { workspaceState } = await import('~/composables/useWorkspaceManager');
               workspaceState.currentWorkspacePath.value = workspace.path;
-              
-              // Also sync to server for API endpoints
-              try {
-                await $fetch('/api/workspace/set', {
-                  method: 'POST',
-                  body: { workspacePath: workspace.path }
-                });
-                
-              } catch (error) {
-                console.error('[useRemoteConnection] Failed to sync workspace to server:', error);
-              }
+              // The relay doesn't forward /api requests, so there is no server to sync
             }
           } catch (err) {
             console.error('[useRemoteConnection] Failed to get workspace info:', err);
@@ -177,15 +189,17 @@ export function useRemoteConnection() {
             const { workspaceState } = await import('~/composables/useWorkspaceManager');
             workspaceState.currentWorkspacePath.value = workspace.path;
             
-            // Also sync to server for API endpoints
-            try {
-              await $fetch('/api/workspace/set', {
-                method: 'POST',
-                body: { workspacePath: workspace.path }
-              });
-              
-            } catch (error) {
-              console.error('[useRemoteConnection] Failed to sync workspace to server:', error);
+            // Also sync to server for API endpoints (not reachable through the relay)
+            if (!remoteConnection.isRelayed()) {
+              try {
+                await $fetch('/api/workspace/set', {
+                  method: 'POST',
+                  body: { workspacePath: workspace.path }
+                });
+                
+              } catch (error) {
+                console.error('[useRemoteConnection] Failed to sync workspace to server:', error);
+              }
             }
           }
         } catch (err) {
@@ -198,10 +212,25 @@ export function useRemoteConnection() {
         
       });
       
+      // The desktop rotates our token on every connect; keep the new one for
+      // automatic reconnects and for the next visit
+      socket.value.on('connection:token', (data: { token: string; deviceId: string; deviceName?: string; expiresAt: string }) => {
+        DeviceAuthService.saveTrustedCredentials(data);
+        // Relay connections keep the token away from the relay
+        if (e2eChannel) {
+          e2eChannel.setToken(data.token);
+        } else if (socket.value) {
+          socket.value.auth = { ...socket.value.auth, token: data.token, deviceId: data.deviceId, pairing: undefined };
+        }
+      });
+      
       // Handle server-initiated disconnection
       socket.value.on('server:disconnected', (data: { reason: string; message: string }) => {
         
         error.value = data.message || 'Disconnected by server';
+        if (data.reason === 'Token revoked') {
+          DeviceAuthService.clearTrustedCredentials();
+        }
         
         // Show alert to user
         if (typeof window !== 'undefined') {
@@ -1,4 +1,4 @@
-import { watch } from 'vue';
+import { watch, onUnmounted } from 'vue';
 import { useSnapshotsStore } from '~/stores/snapshots';
 import { useSourceControlStore } from '~/stores/source-control';
 import { useTasksStore } from '~/stores/tasks';
@@ -49,6 +49,63 @@ export function useSnapshotTriggers() {
     }
   });
   
+  // Snapshot right before and after every Claude turn that edits files.
+  // The main process holds Claude's first edit of a turn until we acknowledge.
+  const capturedTurns = new Set<string>();
+  const turnsApi = window.electronAPI?.claude?.turns;
+  const cleanupTurnListeners: Array<() => void> = [];
+
+  if (turnsApi) {
+    watch(() => snapshotsStore.config.enableClaudeTurnSnapshots, (enabled) => {
+      turnsApi.setEnabled(!!enabled);
+    }, { immediate: true });
+
+    cleanupTurnListeners.push(turnsApi.onStarted(async (turn: any) => {
+      // Turns may also be reported for other consumers (e.g. agent orchestration),
+      // but the main process still waits for our acknowledgement
+      if (!snapshotsStore.config.enableClaudeTurnSnapshots) {
+        turnsApi.acknowledge(turn.turnId);
+        return;
+      }
+      try {
+        const snapshot = await snapshotsStore.captureClaudeTurnSnapshot({
+          turnId: turn.turnId,
+          instanceId: turn.instanceId,
+          instanceName: turn.instanceName,
+          prompt: turn.prompt,
+          workingDirectory: turn.workingDirectory
+        }, 'before');
+        if (snapshot) capturedTurns.add(turn.turnId);
+      } catch (error) {
+        console.error('Failed to capture snapshot before Claude turn:', error);
+      } finally {
+        turnsApi.acknowledge(turn.turnId);
+      }
+    }));
+
+    cleanupTurnListeners.push(turnsApi.onEnded(async (turn: any) => {
+      // Only close turns we have a "before" snapshot for
+      if (!capturedTurns.delete(turn.turnId)) return;
+      try {
+        await snapshotsStore.captureClaudeTurnSnapshot({
+          turnId: turn.turnId,
+          instanceId: turn.instanceId,
+          instanceName: turn.instanceName,
+          prompt: turn.prompt,
+          files: turn.files,
+          toolUses: turn.toolUses
+        }, 'after');
+      } catch (error) {
+        console.error('Failed to capture snapshot after Claude turn:', error);
+      }
+    }));
+
+    onUnmounted(() => {
+      cleanupTurnListeners.forEach(cleanup => cleanup());
+      turnsApi.setEnabled(false);
+    });
+  }
+  
   // Manual trigger functions
   function captureBeforeRiskyOperation(operationName: string) {
     return snapshotsStore.captureSnapshot(
@@ -90,11 +90,12 @@ export function useSync() {
   async function resolveConflict(
     entityId: string,
     entityType: string,
-    resolution: 'local' | 'remote' | 'merge'
+    resolution: 'local' | 'remote' | 'merge',
+    mergedContent?: string
   ) {
     if (!syncService.value) return;
     
-    syncService.value.resolveConflict(entityId, entityType, resolution);
+    syncService.value.resolveConflict(entityId, entityType, resolution, mergedContent);
     
     // Remove from conflicts list
     conflicts.value = conflicts.value.filter(
@@ -112,8 +113,8 @@ export function useSync() {
   
   // Listen for conflicts
   if (syncService.value) {
-    syncService.value.on('conflicts:pending', (newConflicts: SyncConflict[]) => {
-      conflicts.value = newConflicts;
+    syncService.value.on('conflicts:pending', () => {
+      conflicts.value = syncService.value.getPendingConflicts();
     });
   }
   
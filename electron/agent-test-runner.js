@@ -0,0 +1,70 @@
+/**
+ * Runs a project's test command inside an agent's worktree so orchestration
+ * runs can rank agents by test outcome.
+ */
+import { ipcMain } from 'electron';
+import { spawn } from 'child_process';
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+// Only the end of the output is kept; that's where test runners print their summary
+const MAX_OUTPUT_CHARS = 20000;
+export function runTestCommand(cwd, command, timeoutMs = DEFAULT_TIMEOUT_MS) {
+    const startedAt = Date.now();
+    return new Promise(resolve => {
+        let output = '';
+        let timedOut = false;
+        const append = (chunk) => {
+            output = (output + chunk.toString('utf-8')).slice(-MAX_OUTPUT_CHARS);
+        };
+        const child = spawn(command, {
+            cwd,
+            shell: process.env.SHELL || true,
+            env: { ...process.env, CI: '1', FORCE_COLOR: '0' },
+            // Own process group, so a timeout also stops what the command started
+            detached: process.platform !== 'win32'
+        });
+        const timer = setTimeout(() => {
+            timedOut = true;
+            try {
+                if (child.pid && process.platform !== 'win32') {
+                    process.kill(-child.pid, 'SIGKILL');
+                }
+                else {
+                    child.kill('SIGKILL');
+                }
+            }
+            catch {
+                // Already gone
+            }
+        }, timeoutMs);
+        const finish = (exitCode, error) => {
+            clearTimeout(timer);
+            if (error)
+                append(Buffer.from(`\n${error.message}\n`));
+            resolve({
+                command,
+                passed: !timedOut && !error && exitCode === 0,
+                exitCode,
+                timedOut,
+                durationMs: Date.now() - startedAt,
+                output,
+                finishedAt: new Date().toISOString()
+            });
+        };
+        child.stdout?.on('data', append);
+        child.stderr?.on('data', append);
+        child.on('error', error => finish(null, error));
+        child.on('close', code => finish(code));
+    });
+}
+export function setupAgentTestHandlers() {
+    ipcMain.handle('orchestration:runTests', async (_, params) => {
+        try {
+            const result = await runTestCommand(params.cwd, params.command, params.timeoutMs);
+            return { success: true, result };
+        }
+        catch (error) {
+            console.error('Failed to run tests:', error);
+            return { success: false, error: error.message };
+        }
+    });
+}
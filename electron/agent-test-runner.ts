@@ -0,0 +1,84 @@
+/**
+ * Runs a project's test command inside an agent's worktree so orchestration
+ * runs can rank agents by test outcome.
+ */
+import { ipcMain } from 'electron';
+import { spawn } from 'child_process';
+
+const DEFAULT_TIMEOUT_MS = 10 * 60 * 1000;
+// Only the end of the output is kept; that's where test runners print their summary
+const MAX_OUTPUT_CHARS = 20000;
+
+export interface TestRunResult {
+  command: string;
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  durationMs: number;
+  output: string;
+  finishedAt: string;
+}
+
+export function runTestCommand(cwd: string, command: string, timeoutMs: number = DEFAULT_TIMEOUT_MS): Promise<TestRunResult> {
+  const startedAt = Date.now();
+
+  return new Promise(resolve => {
+    let output = '';
+    let timedOut = false;
+    const append = (chunk: Buffer) => {
+      output = (output + chunk.toString('utf-8')).slice(-MAX_OUTPUT_CHARS);
+    };
+
+    const child = spawn(command, {
+      cwd,
+      shell: process.env.SHELL || true,
+      env: { ...process.env, CI: '1', FORCE_COLOR: '0' },
+      // Own process group, so a timeout also stops what the command started
+      detached: process.platform !== 'win32'
+    });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        if (child.pid && process.platform !== 'win32') {
+          process.kill(-child.pid, 'SIGKILL');
+        } else {
+          child.kill('SIGKILL');
+        }
+      } catch {
+        // Already gone
+      }
+    }, timeoutMs);
+
+    const finish = (exitCode: number | null, error?: Error) => {
+      clearTimeout(timer);
+      if (error) append(Buffer.from(`\n${error.message}\n`));
+      resolve({
+        command,
+        passed: !timedOut && !error && exitCode === 0,
+        exitCode,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+        output,
+        finishedAt: new Date().toISOString()
+      });
+    };
+
+    child.stdout?.on('data', append);
+    child.stderr?.on('data', append);
+    child.on('error', error => finish(null, error));
+    child.on('close', code => finish(code));
+  });
+}
+
+export function setupAgentTestHandlers() {
+  ipcMain.handle('orchestration:runTests', async (_, params: { cwd: string; command: string; timeoutMs?: number }) => {
+    try {
+      const result = await runTestCommand(params.cwd, params.command, params.timeoutMs);
+      return { success: true, result };
+    } catch (error: any) {
+      console.error('Failed to run tests:', error);
+      return { success: false, error: error.message };
+    }
+  });
+}
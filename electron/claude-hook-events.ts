@@ -0,0 +1,329 @@
+/**
+ * Claude hook events shared by the settings manager, the hooks store and the
+ * hook manager: what each event is for, the JSON Claude writes to a hook's
+ * stdin, and how Claude reads the hook's exit code and output
+ */
+
+export type HookEventName =
+  | 'PreToolUse'
+  | 'PostToolUse'
+  | 'Notification'
+  | 'UserPromptSubmit'
+  | 'Stop'
+  | 'SubagentStop'
+  | 'PreCompact'
+  | 'SessionStart'
+  | 'SessionEnd';
+
+export interface HookEventInfo {
+  name: HookEventName;
+  description: string;
+  // 'tool' matches tool names; a list gives the values Claude matches against; none takes no matcher
+  matcher: 'tool' | string[] | null;
+  // What exit code 2 does for this event
+  onBlock: string;
+}
+
+export const HOOK_EVENTS: HookEventInfo[] = [
+  {
+    name: 'PreToolUse',
+    description: 'Before a tool runs; can allow, deny or ask about the call',
+    matcher: 'tool',
+    onBlock: 'Blocks the tool call and shows stderr to Claude'
+  },
+  {
+    name: 'PostToolUse',
+    description: 'After a tool succeeds; can give Claude feedback',
+    matcher: 'tool',
+    onBlock: 'Shows stderr to Claude; the tool has already run'
+  },
+  {
+    name: 'Notification',
+    description: 'When Claude needs permission or has been idle waiting for input',
+    matcher: null,
+    onBlock: 'Shows stderr to the user only'
+  },
+  {
+    name: 'UserPromptSubmit',
+    description: 'When a prompt is submitted, before Claude sees it; can add context or block it',
+    matcher: null,
+    onBlock: 'Blocks the prompt, erases it and shows stderr to the user'
+  },
+  {
+    name: 'Stop',
+    description: 'When Claude finishes responding; can make it keep going',
+    matcher: null,
+    onBlock: 'Keeps Claude working and shows stderr to Claude'
+  },
+  {
+    name: 'SubagentStop',
+    description: 'When a subagent (Task tool) finishes; can make it keep going',
+    matcher: null,
+    onBlock: 'Keeps the subagent working and shows stderr to it'
+  },
+  {
+    name: 'PreCompact',
+    description: 'Before the conversation is compacted',
+    matcher: ['manual', 'auto'],
+    onBlock: 'Shows stderr to the user only'
+  },
+  {
+    name: 'SessionStart',
+    description: 'When a session starts or resumes; stdout is added as context',
+    matcher: ['startup', 'resume', 'clear', 'compact'],
+    onBlock: 'Shows stderr to the user only'
+  },
+  {
+    name: 'SessionEnd',
+    description: 'When a session ends; for cleanup and logging',
+    matcher: null,
+    onBlock: 'Shows stderr to the user only'
+  }
+];
+
+export const HOOK_EVENT_NAMES = HOOK_EVENTS.map(event => event.name);
+
+export function getHookEventInfo(event: string): HookEventInfo | undefined {
+  return HOOK_EVENTS.find(info => info.name === event);
+}
+
+export interface HookRunResult {
+  exitCode: number | null;
+  stdout: string;
+  stderr: string;
+  durationMs: number;
+  timedOut: boolean;
+}
+
+export type HookDecision = 'allow' | 'deny' | 'ask' | 'block' | 'stop' | 'continue' | 'error';
+
+export interface HookOutcome {
+  decision: HookDecision;
+  // One line on what Claude does next
+  summary: string;
+  // Everything else Claude would do with the output, in order
+  effects: string[];
+  // The JSON the hook printed, when it printed any
+  output?: Record<string, any>;
+  outputError?: string;
+}
+
+export interface SampleHookInputOptions {
+  cwd: string;
+  sessionId?: string;
+  transcriptPath?: string;
+  // The tool matcher or event matcher the hook is registered with
+  matcher?: string;
+}
+
+/**
+ * A realistic stdin payload for an event, shaped like the one Claude sends
+ */
+export function createSampleHookInput(event: string, options: SampleHookInputOptions): Record<string, any> {
+  const sessionId = options.sessionId || '00000000-0000-4000-8000-000000000000';
+  const base = {
+    session_id: sessionId,
+    transcript_path: options.transcriptPath || `~/.claude/projects/sample/${sessionId}.jsonl`,
+    cwd: options.cwd,
+    hook_event_name: event
+  };
+  const info = getHookEventInfo(event);
+  const matcherValue = Array.isArray(info?.matcher) && options.matcher && info.matcher.includes(options.matcher)
+    ? options.matcher
+    : undefined;
+
+  switch (event) {
+    case 'PreToolUse':
+    case 'PostToolUse': {
+      const toolName = sampleToolName(options.matcher);
+      const tool = sampleToolCall(toolName, options.cwd);
+      return event === 'PreToolUse'
+        ? { ...base, permission_mode: 'default', tool_name: toolName, tool_input: tool.input }
+        : { ...base, permission_mode: 'default', tool_name: toolName, tool_input: tool.input, tool_response: tool.response };
+    }
+    case 'Notification':
+      return { ...base, message: 'Claude needs your permission to use Bash' };
+    case 'UserPromptSubmit':
+      return { ...base, permission_mode: 'default', prompt: 'Add input validation to the signup form' };
+    case 'Stop':
+    case 'SubagentStop':
+      return { ...base, permission_mode: 'default', stop_hook_active: false };
+    case 'PreCompact':
+      return { ...base, trigger: matcherValue || 'manual', custom_instructions: '' };
+    case 'SessionStart':
+      return { ...base, source: matcherValue || 'startup' };
+    case 'SessionEnd':
+      return { ...base, reason: 'prompt_input_exit' };
+    default:
+      return base;
+  }
+}
+
+// Matchers are regexes over tool names; pick a concrete tool they would match
+function sampleToolName(matcher?: string): string {
+  const candidates = ['Bash', 'Edit', 'Write', 'MultiEdit', 'Read', 'Glob', 'Grep', 'WebFetch', 'Task'];
+  if (!matcher || matcher === '*') return 'Bash';
+  try {
+    const pattern = new RegExp(`^(?:${matcher})$`);
+    return candidates.find(tool => pattern.test(tool)) || matcher.split('|')[0];
+  } catch {
+    return matcher;
+  }
+}
+
+function sampleToolCall(toolName: string, cwd: string): { input: Record<string, any>; response: Record<string, any> } {
+  const filePath = `${cwd.replace(/\/$/, '')}/src/index.ts`;
+  switch (toolName) {
+    case 'Bash':
+      return {
+        input: { command: 'npm run test', description: 'Run the test suite' },
+        response: { stdout: 'Tests: 12 passed, 12 total', stderr: '', interrupted: false }
+      };
+    case 'Edit':
+    case 'MultiEdit':
+      return {
+        input: { file_path: filePath, old_string: 'const port = 3000;', new_string: 'const port = Number(process.env.PORT) || 3000;' },
+        response: { filePath, success: true }
+      };
+    case 'Write':
+      return {
+        input: { file_path: filePath, content: 'export const port = 3000;\n' },
+        response: { filePath, success: true }
+      };
+    case 'Read':
+      return {
+        input: { file_path: filePath },
+        response: { type: 'text', file: { filePath, content: 'export const port = 3000;\n' } }
+      };
+    case 'WebFetch':
+      return {
+        input: { url: 'https://example.com', prompt: 'Summarize the page' },
+        response: { result: 'Example Domain' }
+      };
+    default:
+      return { input: {}, response: { success: true } };
+  }
+}
+
+/**
+ * How Claude reads a hook's result: exit code 2 blocks, other non-zero codes
+ * are reported and ignored, and on exit 0 JSON printed to stdout can decide
+ * for Claude
+ */
+export function interpretHookResult(event: string, result: HookRunResult): HookOutcome {
+  const info = getHookEventInfo(event);
+  const effects: string[] = [];
+
+  if (result.timedOut) {
+    return {
+      decision: 'error',
+      summary: 'The hook timed out; Claude carries on as if it had not run',
+      effects
+    };
+  }
+  if (result.exitCode === 2) {
+    const stderr = result.stderr.trim();
+    const decision: HookDecision = event === 'PreToolUse' ? 'deny'
+      : ['PostToolUse', 'UserPromptSubmit', 'Stop', 'SubagentStop'].includes(event) ? 'block'
+      : 'continue';
+    if (!stderr) {
+      effects.push('Nothing was written to stderr, so there is no reason to show');
+    }
+    return { decision, summary: info?.onBlock || 'Blocking error', effects };
+  }
+  if (result.exitCode !== 0) {
+    return {
+      decision: 'error',
+      summary: `Exit code ${result.exitCode ?? 'unknown'} is a non-blocking error: stderr is shown to the user and Claude carries on`,
+      effects
+    };
+  }
+
+  const stdout = result.stdout.trim();
+  let output: Record<string, any> | undefined;
+  let outputError: string | undefined;
+  if (stdout.startsWith('{')) {
+    try {
+      output = JSON.parse(stdout);
+    } catch (error) {
+      outputError = `stdout looks like JSON but doesn't parse: ${(error as Error).message}`;
+    }
+  }
+
+  if (!output) {
+    if (stdout && (event === 'UserPromptSubmit' || event === 'SessionStart')) {
+      effects.push('stdout is added to Claude\'s context');
+    } else if (stdout) {
+      effects.push('stdout is shown to the user in transcript mode');
+    }
+    return { decision: 'continue', summary: 'Success; Claude carries on', effects, outputError };
+  }
+
+  const specific = output.hookSpecificOutput || {};
+  let decision: HookDecision = 'continue';
+  let summary = 'Success; Claude carries on';
+
+  if (event === 'PreToolUse') {
+    // permissionDecision replaced the older decision: approve/block
+    const permission = specific.permissionDecision
+      || (output.decision === 'approve' ? 'allow' : output.decision === 'block' ? 'deny' : undefined);
+    const reason = specific.permissionDecisionReason || output.reason;
+    if (permission === 'allow') {
+      decision = 'allow';
+      summary = 'The tool call is allowed without asking';
+      if (reason) effects.push(`Reason shown to the user: ${reason}`);
+    } else if (permission === 'deny') {
+      decision = 'deny';
+      summary = 'The tool call is denied';
+      if (reason) effects.push(`Reason shown to Claude: ${reason}`);
+    } else if (permission === 'ask') {
+      decision = 'ask';
+      summary = 'The user is asked to confirm the tool call';
+      if (reason) effects.push(`Reason shown to the user: ${reason}`);
+    } else if (permission) {
+      outputError = `Unknown permission decision "${permission}"`;
+    }
+  } else if (output.decision === 'block') {
+    decision = 'block';
+    if (event === 'PostToolUse') {
+      summary = 'Claude is told about the problem; the tool has already run';
+    } else if (event === 'UserPromptSubmit') {
+      summary = 'The prompt is blocked and erased';
+    } else if (event === 'Stop' || event === 'SubagentStop') {
+      summary = 'Claude keeps working instead of stopping';
+    } else {
+      summary = `decision: "block" has no effect on ${event}`;
+      decision = 'continue';
+    }
+    if (output.reason) {
+      effects.push(`Reason: ${output.reason}`);
+    } else if (event === 'Stop' || event === 'SubagentStop') {
+      outputError = 'Blocking a stop needs a reason telling Claude how to continue';
+    }
+  }
+
+  if (specific.additionalContext) {
+    if (event === 'UserPromptSubmit' || event === 'SessionStart' || event === 'PostToolUse') {
+      effects.push(`Added to Claude's context: ${specific.additionalContext}`);
+    } else {
+      effects.push(`additionalContext is ignored for ${event}`);
+    }
+  }
+  if (specific.hookEventName && specific.hookEventName !== event) {
+    outputError = `hookSpecificOutput.hookEventName is "${specific.hookEventName}", expected "${event}"`;
+  }
+  if (output.systemMessage) {
+    effects.push(`Warning shown to the user: ${output.systemMessage}`);
+  }
+  if (output.suppressOutput) {
+    effects.push('stdout is hidden from transcript mode');
+  }
+  // continue: false overrides every other decision
+  if (output.continue === false) {
+    decision = 'stop';
+    summary = 'Claude stops after this hook';
+    if (output.stopReason) effects.push(`Shown to the user: ${output.stopReason}`);
+  }
+
+  return { decision, summary, effects, output, outputError };
+}
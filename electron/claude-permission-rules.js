@@ -0,0 +1,332 @@
+/**
+ * Claude permission rules shared by the settings manager and the permissions editor:
+ * parsing and validating rules like `Bash(npm run test:*)`, merging the user,
+ * project and local settings files, and deciding whether a tool call is allowed
+ */
+export const PERMISSION_BEHAVIORS = ['allow', 'ask', 'deny'];
+export const PERMISSION_MODES = ['default', 'acceptEdits', 'plan', 'bypassPermissions'];
+// Highest precedence first, the order Claude reads them in
+export const SETTINGS_SCOPES = ['local', 'project', 'user'];
+export const KNOWN_TOOLS = [
+    'Bash',
+    'Edit',
+    'Glob',
+    'Grep',
+    'LS',
+    'MultiEdit',
+    'NotebookEdit',
+    'NotebookRead',
+    'Read',
+    'SlashCommand',
+    'Task',
+    'TodoWrite',
+    'WebFetch',
+    'WebSearch',
+    'Write'
+];
+// Edit rules cover every tool that changes files, Read rules every tool that reads them
+const EDIT_TOOLS = ['Edit', 'MultiEdit', 'NotebookEdit', 'Write'];
+const READ_TOOLS = ['Glob', 'Grep', 'LS', 'NotebookRead', 'Read'];
+// Tools Claude runs without asking unless a rule says otherwise
+const NO_PROMPT_TOOLS = [...READ_TOOLS, 'Task', 'TodoWrite'];
+/**
+ * Split a rule into its tool name and the specifier in parentheses
+ */
+export function parsePermissionRule(rule) {
+    const match = rule.trim().match(/^([A-Za-z][\w-]*)(?:\(([\s\S]*)\))?$/);
+    if (!match)
+        return null;
+    return match[2] === undefined
+        ? { toolName: match[1] }
+        : { toolName: match[1], specifier: match[2] };
+}
+/**
+ * What is wrong with a rule, or null if Claude will accept it
+ */
+export function validatePermissionRule(rule) {
+    const trimmed = rule.trim();
+    if (!trimmed) {
+        return 'Rule is empty';
+    }
+    if (trimmed.includes('(') && !trimmed.endsWith(')')) {
+        return 'Missing closing parenthesis';
+    }
+    const parsed = parsePermissionRule(trimmed);
+    if (!parsed) {
+        return 'Expected a tool name, optionally followed by a pattern in parentheses, like Bash(npm run test:*)';
+    }
+    const { toolName, specifier } = parsed;
+    if (toolName.startsWith('mcp__')) {
+        if (specifier !== undefined) {
+            return 'MCP rules name a server or tool and take no pattern';
+        }
+        if (!/^mcp__[\w-]+(__([\w-]+|\*))?$/.test(toolName)) {
+            return 'MCP rules look like mcp__server or mcp__server__tool';
+        }
+        return null;
+    }
+    if (!KNOWN_TOOLS.includes(toolName)) {
+        const suggestion = KNOWN_TOOLS.find(tool => tool.toLowerCase() === toolName.toLowerCase());
+        return suggestion ? `Unknown tool "${toolName}", did you mean ${suggestion}?` : `Unknown tool "${toolName}"`;
+    }
+    if (specifier === undefined) {
+        return null;
+    }
+    if (!specifier.trim()) {
+        return `Leave out the parentheses to match every ${toolName} call`;
+    }
+    if (toolName === 'Bash') {
+        const wildcard = specifier.indexOf(':*');
+        if (wildcard !== -1 && wildcard !== specifier.length - 2) {
+            return 'The :* prefix wildcard is only allowed at the end of a Bash rule';
+        }
+    }
+    else if (toolName === 'WebFetch') {
+        if (!/^domain:(\*\.)?[\w.-]+$/.test(specifier)) {
+            return 'WebFetch rules look like WebFetch(domain:example.com)';
+        }
+    }
+    return null;
+}
+/**
+ * Every invalid rule in a scope's permissions, as "list: rule — problem"
+ */
+export function validatePermissionSettings(permissions) {
+    const errors = [];
+    for (const behavior of PERMISSION_BEHAVIORS) {
+        for (const rule of permissions[behavior] || []) {
+            const error = validatePermissionRule(rule);
+            if (error) {
+                errors.push(`${behavior}: ${rule} — ${error}`);
+            }
+        }
+    }
+    if (permissions.defaultMode && !PERMISSION_MODES.includes(permissions.defaultMode)) {
+        errors.push(`defaultMode: unknown mode "${permissions.defaultMode}"`);
+    }
+    for (const directory of permissions.additionalDirectories || []) {
+        if (!directory.trim()) {
+            errors.push('additionalDirectories: directory is empty');
+        }
+    }
+    return errors;
+}
+/**
+ * Combine every scope's permissions into what Claude enforces, remembering
+ * where each rule came from. Scopes are given highest precedence first.
+ */
+export function mergePermissions(scopes) {
+    const effective = {
+        rules: [],
+        additionalDirectories: [],
+        defaultMode: { mode: 'default', scope: null }
+    };
+    for (const { scope, permissions } of scopes) {
+        for (const behavior of PERMISSION_BEHAVIORS) {
+            for (const rule of permissions[behavior] || []) {
+                effective.rules.push({ rule: rule.trim(), behavior, scope });
+            }
+        }
+        for (const path of permissions.additionalDirectories || []) {
+            effective.additionalDirectories.push({ path, scope });
+        }
+        if (permissions.defaultMode && !effective.defaultMode.scope) {
+            effective.defaultMode = { mode: permissions.defaultMode, scope };
+        }
+    }
+    return effective;
+}
+/**
+ * Decide whether Claude may make a tool call without asking. Deny rules win
+ * over ask rules, which win over allow rules; with no match the default mode
+ * decides.
+ */
+export function evaluatePermission(effective, check, context) {
+    const toolName = check.toolName.trim();
+    const input = check.input?.trim() || undefined;
+    // Each command in a compound shell line is checked on its own
+    const inputs = toolName === 'Bash' && input ? splitShellCommand(input) : [input];
+    const decisions = inputs.map(part => decideByRules(effective, toolName, part, context));
+    const denied = decisions.find(decision => decision?.behavior === 'deny');
+    if (denied)
+        return denied;
+    const asked = decisions.find(decision => decision?.behavior === 'ask');
+    if (asked)
+        return asked;
+    if (decisions.every(decision => decision?.behavior === 'allow')) {
+        return decisions.length === 1
+            ? decisions[0]
+            : { ...decisions[0], reason: decisions.map(decision => decision.reason).join('; ') };
+    }
+    return decideByMode(effective, toolName, input, context);
+}
+function decideByRules(effective, toolName, input, context) {
+    for (const behavior of ['deny', 'ask', 'allow']) {
+        const rule = effective.rules.find(scoped => scoped.behavior === behavior && ruleMatches(scoped.rule, toolName, input, context));
+        if (rule) {
+            const subject = input && input !== rule.rule ? ` for "${input}"` : '';
+            return { behavior, rule, reason: `${capitalize(behavior)} rule ${rule.rule} from ${rule.scope} settings matches${subject}` };
+        }
+    }
+    return null;
+}
+function decideByMode(effective, toolName, input, context) {
+    const { mode } = effective.defaultMode;
+    const isEdit = EDIT_TOOLS.includes(toolName);
+    const inWorkspace = !input || !READ_TOOLS.concat(EDIT_TOOLS).includes(toolName)
+        || isInWorkingDirectories(input, effective, context);
+    if (mode === 'bypassPermissions') {
+        return { behavior: 'allow', reason: 'No rule matches; bypassPermissions mode allows every tool' };
+    }
+    if (mode === 'plan' && (isEdit || !NO_PROMPT_TOOLS.includes(toolName))) {
+        return { behavior: 'deny', reason: 'No rule matches; plan mode only allows tools that read' };
+    }
+    if (mode === 'acceptEdits' && isEdit && inWorkspace) {
+        return { behavior: 'allow', reason: 'No rule matches; acceptEdits mode allows edits in the working directories' };
+    }
+    if (NO_PROMPT_TOOLS.includes(toolName)) {
+        return inWorkspace
+            ? { behavior: 'allow', reason: `No rule matches; ${toolName} doesn't need permission in the working directories` }
+            : { behavior: 'ask', reason: 'No rule matches and the path is outside the working directories' };
+    }
+    return { behavior: 'ask', reason: `No rule matches; Claude asks before using ${toolName}` };
+}
+function ruleMatches(rule, toolName, input, context) {
+    const parsed = parsePermissionRule(rule);
+    if (!parsed || !ruleCoversTool(parsed.toolName, toolName))
+        return false;
+    if (parsed.specifier === undefined)
+        return true;
+    if (!input)
+        return false;
+    const specifier = parsed.specifier.trim();
+    if (parsed.toolName === 'Bash') {
+        return specifier.endsWith(':*')
+            ? input.startsWith(specifier.slice(0, -2))
+            : input === specifier;
+    }
+    if (parsed.toolName === 'WebFetch') {
+        return domainMatches(specifier.replace(/^domain:/, ''), input);
+    }
+    if (EDIT_TOOLS.includes(parsed.toolName) || READ_TOOLS.includes(parsed.toolName)) {
+        return pathMatches(specifier, input, context);
+    }
+    return input === specifier;
+}
+function ruleCoversTool(ruleTool, toolName) {
+    if (ruleTool === toolName)
+        return true;
+    if (ruleTool === 'Edit')
+        return EDIT_TOOLS.includes(toolName);
+    if (ruleTool === 'Read')
+        return READ_TOOLS.includes(toolName);
+    if (ruleTool.startsWith('mcp__')) {
+        const server = ruleTool.replace(/__\*$/, '');
+        return server.split('__').length === 2 && toolName.startsWith(`${server}__`);
+    }
+    return false;
+}
+function domainMatches(domain, input) {
+    let host = input.toLowerCase();
+    try {
+        host = new URL(input).hostname.toLowerCase();
+    }
+    catch {
+        // Not a URL; treat it as the host itself
+    }
+    const pattern = domain.toLowerCase();
+    return pattern.startsWith('*.')
+        ? host.endsWith(pattern.slice(1))
+        : host === pattern;
+}
+/**
+ * Gitignore-style path patterns: //abs is absolute, ~/ is the home directory,
+ * anything else is relative to the workspace, and a pattern without a slash
+ * matches at any depth
+ */
+function pathMatches(pattern, input, context) {
+    const base = context.workspacePath || context.homeDir;
+    let absolute;
+    if (pattern.startsWith('//')) {
+        absolute = pattern.slice(1);
+    }
+    else if (pattern.startsWith('~/')) {
+        absolute = context.homeDir + pattern.slice(1);
+    }
+    else if (pattern.startsWith('/')) {
+        absolute = base + pattern;
+    }
+    else if (!pattern.includes('/')) {
+        absolute = `${base}/**/${pattern}`;
+    }
+    else {
+        absolute = `${base}/${pattern}`;
+    }
+    const path = resolvePath(input, context);
+    const regex = globToRegExp(normalizePath(absolute).replace(/\/$/, ''));
+    // A directory pattern covers what's inside it
+    return regex.test(path) || path.split('/').some((_, index, parts) => index > 0 && regex.test(parts.slice(0, index).join('/')));
+}
+function isInWorkingDirectories(input, effective, context) {
+    const path = resolvePath(input, context);
+    const directories = effective.additionalDirectories.map(({ path }) => resolvePath(path, context));
+    if (context.workspacePath) {
+        directories.push(normalizePath(context.workspacePath));
+    }
+    return directories.some(directory => path === directory || path.startsWith(directory.replace(/\/$/, '') + '/'));
+}
+function resolvePath(path, context) {
+    if (path.startsWith('~/'))
+        return normalizePath(context.homeDir + path.slice(1));
+    if (path.startsWith('/'))
+        return normalizePath(path);
+    return normalizePath(`${context.workspacePath || context.homeDir}/${path}`);
+}
+function normalizePath(path) {
+    const parts = [];
+    for (const part of path.replace(/\\/g, '/').split('/')) {
+        if (part === '' || part === '.')
+            continue;
+        if (part === '..') {
+            parts.pop();
+        }
+        else {
+            parts.push(part);
+        }
+    }
+    return '/' + parts.join('/');
+}
+function globToRegExp(glob) {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*' && glob[i + 1] === '*') {
+            // "**/" also matches no directories at all
+            if (glob[i + 2] === '/') {
+                source += '(?:.*/)?';
+                i += 2;
+            }
+            else {
+                source += '.*';
+                i++;
+            }
+        }
+        else if (char === '*') {
+            source += '[^/]*';
+        }
+        else if (char === '?') {
+            source += '[^/]';
+        }
+        else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+function splitShellCommand(command) {
+    const parts = command.split(/\s*(?:&&|\|\||;|\|)\s*/).filter(Boolean);
+    return parts.length > 0 ? parts : [command];
+}
+function capitalize(value) {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+}
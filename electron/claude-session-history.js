@@ -0,0 +1,325 @@
+/**
+ * Claude Session History
+ * Indexes the JSONL transcripts Claude Code writes for a project
+ * (~/.claude/projects/<project>/<sessionId>.jsonl) so past sessions can be
+ * browsed, searched, read back and resumed from the IDE.
+ *
+ * Summaries are cached per transcript file and only re-read when the file's
+ * size or modification time changes; search and transcript reads stream the
+ * files on demand instead of keeping message text in memory.
+ */
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { createInterface } from 'readline';
+import { homedir } from 'os';
+// Tool inputs that name the file a tool call works on
+const FILE_INPUT_KEYS = ['file_path', 'notebook_path'];
+const MAX_PROMPT_LENGTH = 500;
+const MAX_TOOL_RESULT_LENGTH = 2000;
+const MAX_SEARCH_SNIPPETS = 3;
+const SNIPPET_CONTEXT = 80;
+export class ClaudeSessionHistory {
+    claudeDir;
+    cache = new Map();
+    constructor(claudeDir = path.join(homedir(), '.claude')) {
+        this.claudeDir = claudeDir;
+    }
+    /**
+     * Same directory mapping Claude Code uses: the working directory with every
+     * non-alphanumeric character replaced by '-'
+     */
+    getProjectDir(workingDirectory) {
+        return path.join(this.claudeDir, 'projects', workingDirectory.replace(/[^a-zA-Z0-9]/g, '-'));
+    }
+    getTranscriptPath(workingDirectory, sessionId) {
+        if (!/^[a-zA-Z0-9_-]+$/.test(sessionId)) {
+            throw new Error(`Invalid session ID: ${sessionId}`);
+        }
+        return path.join(this.getProjectDir(workingDirectory), `${sessionId}.jsonl`);
+    }
+    async hasSession(workingDirectory, sessionId) {
+        try {
+            await fs.access(this.getTranscriptPath(workingDirectory, sessionId));
+            return true;
+        }
+        catch {
+            return false;
+        }
+    }
+    /**
+     * List the sessions recorded for a working directory, newest first
+     */
+    async listSessions(workingDirectory) {
+        const files = await this.listTranscripts(workingDirectory);
+        const sessions = [];
+        for (const filePath of files) {
+            let stat;
+            try {
+                stat = await fs.stat(filePath);
+            }
+            catch {
+                continue; // Removed while listing
+            }
+            const cached = this.cache.get(filePath);
+            if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+                if (cached.summary)
+                    sessions.push(cached.summary);
+                continue;
+            }
+            const summary = await this.summarize(filePath, workingDirectory);
+            this.cache.set(filePath, { mtimeMs: stat.mtimeMs, size: stat.size, summary });
+            if (summary)
+                sessions.push(summary);
+        }
+        return sessions.sort((a, b) => b.endedAt.localeCompare(a.endedAt));
+    }
+    /**
+     * Case-insensitive full-text search over prompts, responses and tool results
+     */
+    async searchSessions(workingDirectory, query) {
+        const needle = query.trim().toLowerCase();
+        if (!needle)
+            return [];
+        const results = [];
+        for (const filePath of await this.listTranscripts(workingDirectory)) {
+            const result = {
+                sessionId: path.basename(filePath, '.jsonl'),
+                matchCount: 0,
+                snippets: []
+            };
+            await this.readEntries(filePath, entry => {
+                const message = this.toTranscriptMessage(entry);
+                if (!message)
+                    return;
+                const haystack = message.text.toLowerCase();
+                let index = haystack.indexOf(needle);
+                if (index === -1)
+                    return;
+                if (result.snippets.length < MAX_SEARCH_SNIPPETS) {
+                    result.snippets.push({
+                        role: message.role,
+                        timestamp: message.timestamp,
+                        text: this.snippet(message.text, index, needle.length)
+                    });
+                }
+                while (index !== -1) {
+                    result.matchCount++;
+                    index = haystack.indexOf(needle, index + needle.length);
+                }
+            });
+            if (result.matchCount > 0)
+                results.push(result);
+        }
+        return results.sort((a, b) => b.matchCount - a.matchCount);
+    }
+    /**
+     * Read a session back as a flat list of prompts, responses and tool results
+     */
+    async getTranscript(workingDirectory, sessionId) {
+        const messages = [];
+        await this.readEntries(this.getTranscriptPath(workingDirectory, sessionId), entry => {
+            const message = this.toTranscriptMessage(entry);
+            if (!message)
+                return;
+            // Claude Code writes each content block of a response as its own entry
+            const previous = messages[messages.length - 1];
+            if (message.role === 'assistant' && previous?.role === 'assistant') {
+                previous.text = [previous.text, message.text].filter(Boolean).join('\n\n');
+                previous.toolUses.push(...message.toolUses);
+                return;
+            }
+            messages.push(message);
+        });
+        return messages;
+    }
+    async listTranscripts(workingDirectory) {
+        const projectDir = this.getProjectDir(workingDirectory);
+        try {
+            const entries = await fs.readdir(projectDir);
+            return entries
+                .filter(name => name.endsWith('.jsonl'))
+                .map(name => path.join(projectDir, name));
+        }
+        catch (error) {
+            if (error.code === 'ENOENT')
+                return [];
+            throw error;
+        }
+    }
+    async summarize(filePath, workingDirectory) {
+        const tokenUsage = { input: 0, output: 0, cacheCreation: 0, cacheRead: 0, total: 0 };
+        const files = new Set();
+        // Usage is repeated on every entry of a split response, so it is counted once per message ID
+        const assistantMessages = new Set();
+        let assistantEntries = 0;
+        let promptCount = 0;
+        let firstPrompt = '';
+        let lastPrompt = '';
+        let summary;
+        let gitBranch;
+        let model;
+        let cwd;
+        let startedAt;
+        let endedAt;
+        await this.readEntries(filePath, entry => {
+            if (entry.type === 'summary') {
+                if (typeof entry.summary === 'string')
+                    summary = entry.summary;
+                return;
+            }
+            if (typeof entry.timestamp === 'string') {
+                startedAt = startedAt ?? entry.timestamp;
+                endedAt = entry.timestamp;
+            }
+            if (entry.gitBranch)
+                gitBranch = entry.gitBranch;
+            if (entry.cwd)
+                cwd = cwd ?? entry.cwd;
+            if (entry.isMeta)
+                return;
+            if (entry.type === 'user') {
+                const text = this.promptText(entry.message?.content);
+                if (!text)
+                    return; // Tool results are recorded as user entries too
+                promptCount++;
+                firstPrompt = firstPrompt || text.slice(0, MAX_PROMPT_LENGTH);
+                lastPrompt = text.slice(0, MAX_PROMPT_LENGTH);
+            }
+            else if (entry.type === 'assistant') {
+                const message = entry.message || {};
+                if (message.model && message.model !== '<synthetic>')
+                    model = message.model;
+                const messageId = message.id || entry.uuid;
+                if (!messageId) {
+                    assistantEntries++;
+                }
+                else if (!assistantMessages.has(messageId)) {
+                    assistantMessages.add(messageId);
+                    const usage = message.usage || {};
+                    tokenUsage.input += usage.input_tokens || 0;
+                    tokenUsage.output += usage.output_tokens || 0;
+                    tokenUsage.cacheCreation += usage.cache_creation_input_tokens || 0;
+                    tokenUsage.cacheRead += usage.cache_read_input_tokens || 0;
+                }
+                for (const toolUse of this.toolUses(message.content)) {
+                    if (toolUse.filePath)
+                        files.add(toolUse.filePath);
+                }
+            }
+        });
+        if (promptCount === 0 || !startedAt || !endedAt)
+            return null;
+        tokenUsage.total = tokenUsage.input + tokenUsage.output + tokenUsage.cacheCreation + tokenUsage.cacheRead;
+        const root = cwd || workingDirectory;
+        return {
+            id: path.basename(filePath, '.jsonl'),
+            startedAt,
+            endedAt,
+            duration: Math.max(0, new Date(endedAt).getTime() - new Date(startedAt).getTime()),
+            messageCount: promptCount + assistantMessages.size + assistantEntries,
+            promptCount,
+            tokenUsage,
+            filesTouched: Array.from(files).map(file => {
+                const relative = path.relative(root, file);
+                return relative && !relative.startsWith('..') && !path.isAbsolute(relative) ? relative : file;
+            }),
+            firstPrompt,
+            lastPrompt,
+            summary,
+            gitBranch,
+            model,
+            workingDirectory: root
+        };
+    }
+    toTranscriptMessage(entry) {
+        if (entry.isMeta || (entry.type !== 'user' && entry.type !== 'assistant'))
+            return null;
+        const content = entry.message?.content;
+        if (entry.type === 'assistant') {
+            const text = Array.isArray(content)
+                ? content.filter((part) => part?.type === 'text').map((part) => part.text).join('\n')
+                : typeof content === 'string' ? content : '';
+            const toolUses = this.toolUses(content);
+            if (!text.trim() && toolUses.length === 0)
+                return null;
+            return { role: 'assistant', timestamp: entry.timestamp, text: text.trim(), toolUses };
+        }
+        const prompt = this.promptText(content);
+        if (prompt) {
+            return { role: 'user', timestamp: entry.timestamp, text: prompt, toolUses: [] };
+        }
+        const results = Array.isArray(content)
+            ? content.filter((part) => part?.type === 'tool_result').map((part) => this.toolResultText(part.content))
+            : [];
+        const text = results.join('\n').trim();
+        if (!text)
+            return null;
+        return {
+            role: 'tool',
+            timestamp: entry.timestamp,
+            text: text.length > MAX_TOOL_RESULT_LENGTH ? `${text.slice(0, MAX_TOOL_RESULT_LENGTH)}…` : text,
+            toolUses: []
+        };
+    }
+    promptText(content) {
+        const text = typeof content === 'string'
+            ? content
+            : Array.isArray(content)
+                ? content.filter((part) => part?.type === 'text').map((part) => part.text).join('\n')
+                : '';
+        return text.trim();
+    }
+    toolResultText(content) {
+        if (typeof content === 'string')
+            return content;
+        if (!Array.isArray(content))
+            return '';
+        return content.filter((part) => part?.type === 'text').map((part) => part.text).join('\n');
+    }
+    toolUses(content) {
+        if (!Array.isArray(content))
+            return [];
+        return content
+            .filter((part) => part?.type === 'tool_use' && typeof part.name === 'string')
+            .map((part) => {
+            const input = part.input || {};
+            const fileKey = FILE_INPUT_KEYS.find(key => typeof input[key] === 'string');
+            return {
+                name: part.name,
+                filePath: fileKey ? input[fileKey] : undefined,
+                description: typeof input.description === 'string'
+                    ? input.description
+                    : typeof input.command === 'string' ? input.command : undefined
+            };
+        });
+    }
+    snippet(text, index, length) {
+        const start = Math.max(0, index - SNIPPET_CONTEXT);
+        const end = Math.min(text.length, index + length + SNIPPET_CONTEXT);
+        const body = text.slice(start, end).replace(/\s+/g, ' ');
+        return `${start > 0 ? '…' : ''}${body}${end < text.length ? '…' : ''}`;
+    }
+    async readEntries(filePath, onEntry) {
+        // Stream errors don't reach the line iterator, so a missing file has to fail here
+        await fs.access(filePath);
+        const lines = createInterface({
+            input: createReadStream(filePath, { encoding: 'utf-8' }),
+            crlfDelay: Infinity
+        });
+        for await (const line of lines) {
+            if (!line.trim())
+                continue;
+            let entry;
+            try {
+                entry = JSON.parse(line);
+            }
+            catch {
+                continue; // A line still being written
+            }
+            if (entry && typeof entry === 'object')
+                onEntry(entry);
+        }
+    }
+}
+export const claudeSessionHistory = new ClaudeSessionHistory();
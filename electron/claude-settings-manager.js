@@ -1,11 +1,24 @@
-import { readFile, writeFile, mkdir } from 'fs/promises';
+import { readFile, writeFile, mkdir, chmod } from 'fs/promises';
 import { existsSync } from 'fs';
-import { join } from 'path';
+import { join, dirname } from 'path';
 import { homedir } from 'os';
+import { spawn } from 'child_process';
+import { SETTINGS_SCOPES, mergePermissions, evaluatePermission, validatePermissionSettings } from './claude-permission-rules.js';
+import { HOOK_EVENT_NAMES, getHookEventInfo } from './claude-hook-events.js';
+// The turn tracker's own hooks already report to the IDE and aren't recorded
+const HOOK_ENDPOINT_MARKER = 'CLODE_HOOK_URL';
+// Claude's own default hook timeout
+const DEFAULT_HOOK_TIMEOUT_SECONDS = 60;
+const MAX_HOOK_OUTPUT = 1024 * 1024;
+function quoteShell(value) {
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
 export class ClaudeSettingsManager {
     userSettingsPath;
+    hookPrefixPath;
     constructor() {
         this.userSettingsPath = join(homedir(), '.claude', 'settings.json');
+        this.hookPrefixPath = join(homedir(), '.claude', 'ide-hook-prefix.sh');
     }
     async ensureClaudeDir() {
         const claudeDir = join(homedir(), '.claude');
@@ -43,6 +56,10 @@ export class ClaudeSettingsManager {
             const event = hook.event;
             if (!claudeHooks)
                 return;
+            if (!HOOK_EVENT_NAMES.includes(event)) {
+                console.warn(`Skipping hook for unknown event ${hook.event}`);
+                return;
+            }
             if (!claudeHooks[event]) {
                 claudeHooks[event] = [];
             }
@@ -50,12 +67,11 @@ export class ClaudeSettingsManager {
             const eventHooks = claudeHooks[event];
             if (!eventHooks)
                 return;
-            let matcherGroup = eventHooks.find(m => m.matcher === (hook.matcher || ''));
+            // Events like UserPromptSubmit and Stop take no matcher at all
+            const matcher = getHookEventInfo(event)?.matcher === null ? undefined : hook.matcher || '';
+            let matcherGroup = eventHooks.find(m => m.matcher === matcher);
             if (!matcherGroup) {
-                matcherGroup = {
-                    matcher: hook.matcher || '',
-                    hooks: []
-                };
+                matcherGroup = matcher === undefined ? { hooks: [] } : { matcher, hooks: [] };
                 eventHooks.push(matcherGroup);
             }
             matcherGroup.hooks.push({
@@ -76,7 +92,7 @@ export class ClaudeSettingsManager {
                     hooks.push({
                         id: `hook_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
                         event,
-                        matcher: matcherGroup.matcher,
+                        matcher: matcherGroup.matcher || '',
                         command: hook.command,
                         disabled: false
                     });
@@ -121,6 +137,10 @@ export class ClaudeSettingsManager {
     async saveHooks(hooks) {
         // Save IDE hooks separately
         await this.saveIDEHooks(hooks);
+        // Running instances pick up the changed hooks on their next hook call
+        if (existsSync(this.hookPrefixPath)) {
+            await this.writeHookShellPrefix();
+        }
         // Save Claude format (without ideHooks field)
         const settings = await this.loadSettings();
         const convertedHooks = this.convertToClaudeFormat(hooks);
@@ -129,29 +149,174 @@ export class ClaudeSettingsManager {
         settings.hooks = convertedHooks;
         await this.saveSettings(settings);
     }
-    // Test a hook by creating a temporary command that logs output
-    createTestCommand(hook) {
-        // Return a command that sets up environment variables and runs the hook
-        return `
-echo "🧪 Testing hook: ${hook.event} (${hook.matcher || 'all tools'})"
-echo "📝 Command: ${hook.command}"
-echo "▶️  Executing..."
-echo ""
-
-# Set up test environment variables
-export FILE_PATH="/test/example.ts"
-export COMMAND="echo 'test command'"
-export TOOL_NAME="${hook.matcher || 'TestTool'}"
-export NOTIFICATION_TYPE="test"
-export CLAUDE_INSTANCE_NAME="Test Instance"
-export CLAUDE_INSTANCE_ID="test-123"
-
-# Execute the command
-${hook.command}
-
-echo ""
-echo "✅ Hook test completed"
-`.trim();
+    /**
+     * Write the shell prefix (CLAUDE_CODE_SHELL_PREFIX) for the instances the
+     * IDE spawns and return its path. Claude runs hook commands, Bash tool
+     * commands and stdio MCP servers through it: the IDE's own hooks go to the
+     * hook runner, which records their runs for the hook timeline, and every
+     * other command runs unchanged. settings.json is left as it is.
+     */
+    async writeHookShellPrefix() {
+        const ideHooks = await this.loadIDEHooks();
+        const cases = ideHooks
+            .filter(hook => !hook.disabled && hook.command && !hook.command.includes(HOOK_ENDPOINT_MARKER))
+            .map(hook => `  ${quoteShell(hook.command)}) exec "$CLODE_HOOK_NODE" "$CLODE_HOOK_RUNNER" ` +
+            `${quoteShell(hook.id)} ${quoteShell(hook.matcher || '')} "$1" ;;`);
+        const script = [
+            '#!/bin/sh',
+            '# Written by Clode Studio for the Claude instances it starts',
+            'case "$1" in',
+            ...cases,
+            'esac',
+            // Bash tool commands are written for the bash or zsh Claude picked
+            'case "$SHELL" in',
+            '  *bash|*zsh) ;;',
+            '  *) SHELL=$(command -v bash || command -v zsh) ;;',
+            'esac',
+            'exec "$SHELL" -c "$1"',
+            ''
+        ].join('\n');
+        await this.ensureClaudeDir();
+        await writeFile(this.hookPrefixPath, script, 'utf-8');
+        await chmod(this.hookPrefixPath, 0o755);
+        return this.hookPrefixPath;
+    }
+    /**
+     * Settings file for a scope: ~/.claude/settings.json for the user, the
+     * shared .claude/settings.json and the uncommitted .claude/settings.local.json
+     * for the project
+     */
+    getSettingsPath(scope, workspacePath) {
+        if (scope === 'user') {
+            return this.userSettingsPath;
+        }
+        if (!workspacePath) {
+            throw new Error(`Open a workspace to edit ${scope} settings`);
+        }
+        return join(workspacePath, '.claude', scope === 'local' ? 'settings.local.json' : 'settings.json');
+    }
+    // Unlike loadSettings, a file that doesn't parse is an error, so saving can't wipe it
+    async readScopeSettings(path) {
+        if (!existsSync(path)) {
+            return {};
+        }
+        const content = await readFile(path, 'utf-8');
+        try {
+            return content.trim() ? JSON.parse(content) : {};
+        }
+        catch (error) {
+            throw new Error(`${path} is not valid JSON: ${error.message}`);
+        }
+    }
+    /**
+     * Permissions in every scope, highest precedence first; project scopes are
+     * left out without a workspace
+     */
+    async getScopedPermissions(workspacePath) {
+        const scopes = SETTINGS_SCOPES.filter(scope => scope === 'user' || workspacePath);
+        return Promise.all(scopes.map(async (scope) => {
+            const path = this.getSettingsPath(scope, workspacePath);
+            try {
+                const settings = await this.readScopeSettings(path);
+                return { scope, path, exists: existsSync(path), permissions: settings.permissions || {} };
+            }
+            catch (error) {
+                return { scope, path, exists: true, permissions: {}, error: error.message };
+            }
+        }));
+    }
+    async getEffectivePermissions(workspacePath) {
+        const scopes = await this.getScopedPermissions(workspacePath);
+        return mergePermissions(scopes.filter(scope => !scope.error));
+    }
+    /**
+     * Replace a scope's permissions, keeping the rest of its settings file
+     */
+    async savePermissions(scope, permissions, workspacePath) {
+        const errors = validatePermissionSettings(permissions);
+        if (errors.length > 0) {
+            throw new Error(`Invalid permission rules:\n${errors.join('\n')}`);
+        }
+        const path = this.getSettingsPath(scope, workspacePath);
+        const settings = await this.readScopeSettings(path);
+        const cleaned = {};
+        for (const key of ['allow', 'deny', 'ask', 'additionalDirectories']) {
+            const values = [...new Set((permissions[key] || []).map(value => value.trim()))];
+            if (values.length > 0) {
+                cleaned[key] = values;
+            }
+        }
+        if (permissions.defaultMode && permissions.defaultMode !== 'default') {
+            cleaned.defaultMode = permissions.defaultMode;
+        }
+        if (Object.keys(cleaned).length > 0) {
+            settings.permissions = cleaned;
+        }
+        else {
+            delete settings.permissions;
+        }
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, JSON.stringify(settings, null, 2), 'utf-8');
+    }
+    /**
+     * Whether Claude would run a tool call in the workspace without asking
+     */
+    async testPermission(check, workspacePath) {
+        const effective = await this.getEffectivePermissions(workspacePath);
+        return evaluatePermission(effective, check, { workspacePath, homeDir: homedir() });
+    }
+    /**
+     * Run a hook command the way Claude does: the event's JSON on stdin,
+     * CLAUDE_PROJECT_DIR set, and stdout, stderr and the exit code captured
+     */
+    runHookCommand(hook, input, cwd) {
+        const workingDirectory = cwd || homedir();
+        const toolInput = input.tool_input || {};
+        const timeoutMs = (hook.timeout || DEFAULT_HOOK_TIMEOUT_SECONDS) * 1000;
+        return new Promise(resolve => {
+            const started = Date.now();
+            let stdout = '';
+            let stderr = '';
+            let timedOut = false;
+            const child = spawn(hook.command, {
+                cwd: workingDirectory,
+                shell: true,
+                env: {
+                    ...process.env,
+                    CLAUDE_PROJECT_DIR: workingDirectory,
+                    // Variables the IDE's hook templates read
+                    FILE_PATH: toolInput.file_path || '',
+                    COMMAND: toolInput.command || '',
+                    TOOL_NAME: input.tool_name || '',
+                    CLAUDE_INSTANCE_NAME: 'Test Instance',
+                    CLAUDE_INSTANCE_ID: 'test-123'
+                }
+            });
+            const timer = setTimeout(() => {
+                timedOut = true;
+                child.kill('SIGKILL');
+            }, timeoutMs);
+            child.stdout.on('data', (chunk) => {
+                if (stdout.length < MAX_HOOK_OUTPUT)
+                    stdout += chunk.toString();
+            });
+            child.stderr.on('data', (chunk) => {
+                if (stderr.length < MAX_HOOK_OUTPUT)
+                    stderr += chunk.toString();
+            });
+            // Hooks that don't read stdin close it early
+            child.stdin.on('error', () => { });
+            child.stdin.end(JSON.stringify(input));
+            const finish = (exitCode) => {
+                clearTimeout(timer);
+                resolve({ exitCode, stdout, stderr, durationMs: Date.now() - started, timedOut });
+            };
+            child.on('error', error => {
+                stderr += error.message;
+                finish(null);
+            });
+            child.on('close', code => finish(code));
+        });
     }
     async configureClodeIntegration(instanceId, workingDirectory) {
         // Configure Claude to work with Clode Studio
@@ -0,0 +1,187 @@
+/**
+ * Claude Todo Sync
+ * Watches Claude Code's per-session TodoWrite files (~/.claude/todos) and maps
+ * them to the Claude instances running in the IDE, so the Kanban board can
+ * mirror them and write board changes back.
+ *
+ * Sessions are bound to instances by the session ID the instance's hooks
+ * report. A running Claude keeps its own copy of the list, so board changes
+ * written back are also handed to it with the next prompt.
+ */
+import { watch } from 'chokidar';
+import { EventEmitter } from 'events';
+import * as path from 'path';
+import * as fs from 'fs/promises';
+import { homedir } from 'os';
+export class ClaudeTodoSync extends EventEmitter {
+    claudeDir;
+    watcher = null;
+    tracked = new Map();
+    // Content we wrote ourselves, so our own writes are not echoed back as Claude updates
+    lastWritten = new Map();
+    // Board edits the running instance hasn't been told about yet
+    pendingBoardChanges = new Map();
+    constructor(claudeDir = path.join(homedir(), '.claude')) {
+        super();
+        this.claudeDir = claudeDir;
+    }
+    get todosDir() {
+        return path.join(this.claudeDir, 'todos');
+    }
+    getTodoFilePath(sessionId) {
+        return path.join(this.todosDir, `${sessionId}-agent-${sessionId}.json`);
+    }
+    /**
+     * Start watching the todos directory
+     */
+    async start() {
+        if (this.watcher)
+            return;
+        await fs.mkdir(this.todosDir, { recursive: true });
+        this.watcher = watch(this.todosDir, {
+            depth: 0,
+            ignoreInitial: true,
+            awaitWriteFinish: { stabilityThreshold: 200, pollInterval: 50 }
+        });
+        this.watcher.on('add', (filePath) => this.handleTodoFile(filePath));
+        this.watcher.on('change', (filePath) => this.handleTodoFile(filePath));
+    }
+    async stop() {
+        if (this.watcher) {
+            await this.watcher.close();
+            this.watcher = null;
+        }
+    }
+    /**
+     * Track a Claude instance. The session ID is bound once the instance's hooks
+     * report it when it is not known yet.
+     */
+    track(instanceId, workingDirectory, sessionId) {
+        const existing = this.tracked.get(instanceId);
+        this.tracked.set(instanceId, {
+            instanceId,
+            workingDirectory,
+            sessionId: sessionId || existing?.sessionId
+        });
+    }
+    untrack(instanceId) {
+        this.tracked.delete(instanceId);
+        this.pendingBoardChanges.delete(instanceId);
+    }
+    getSessionId(instanceId) {
+        return this.tracked.get(instanceId)?.sessionId;
+    }
+    /**
+     * Bind an instance to the session its hooks report. Claude starts a new
+     * session on /clear, so a newly reported ID replaces the previous one.
+     */
+    async bindSession(instanceId, sessionId) {
+        const instance = this.tracked.get(instanceId);
+        if (!instance || instance.sessionId === sessionId)
+            return;
+        instance.sessionId = sessionId;
+        this.emit('session-discovered', { instanceId, sessionId });
+        // Todos Claude wrote before the session was reported were skipped
+        const todos = await this.readTodoFile(this.getTodoFilePath(sessionId));
+        if (todos.length > 0) {
+            const update = { instanceId, sessionId, todos };
+            this.emit('todos-updated', update);
+        }
+    }
+    /**
+     * Read the current todos of an instance's session
+     */
+    async readTodos(instanceId) {
+        const sessionId = this.tracked.get(instanceId)?.sessionId;
+        if (!sessionId)
+            return { todos: [] };
+        return { sessionId, todos: await this.readTodoFile(this.getTodoFilePath(sessionId)) };
+    }
+    /**
+     * Write todos back to an instance's session file. A running Claude keeps its
+     * own list, so they are also queued for its next prompt (takeBoardChanges).
+     */
+    async writeTodos(instanceId, todos) {
+        const sessionId = this.tracked.get(instanceId)?.sessionId;
+        if (!sessionId) {
+            throw new Error(`No Claude session known for instance ${instanceId} yet`);
+        }
+        const filePath = this.getTodoFilePath(sessionId);
+        const content = JSON.stringify(todos, null, 2);
+        const tempPath = `${filePath}.${process.pid}.tmp`;
+        await fs.mkdir(this.todosDir, { recursive: true });
+        this.lastWritten.set(sessionId, content);
+        await fs.writeFile(tempPath, content, 'utf-8');
+        await fs.rename(tempPath, filePath);
+        this.pendingBoardChanges.set(instanceId, todos);
+        return sessionId;
+    }
+    /**
+     * Context telling the running instance about board edits to its list since
+     * its last prompt; each edit is handed over once
+     */
+    takeBoardChanges(instanceId) {
+        const todos = this.pendingBoardChanges.get(instanceId);
+        if (!todos)
+            return undefined;
+        this.pendingBoardChanges.delete(instanceId);
+        if (todos.length === 0) {
+            return 'The user cleared your todo list on the Clode Studio task board.';
+        }
+        return [
+            'The user edited your todo list on the Clode Studio task board. It now reads:',
+            ...todos.map(todo => `- [${todo.status}] ${todo.content}`),
+            'Continue from this list and keep it up to date with TodoWrite.'
+        ].join('\n');
+    }
+    async handleTodoFile(filePath) {
+        const match = path.basename(filePath).match(/^(.+)-agent-(.+)\.json$/);
+        // Only the main agent's list; sub-agents keep their own todo files
+        if (!match || match[1] !== match[2])
+            return;
+        const sessionId = match[1];
+        let content;
+        try {
+            content = await fs.readFile(filePath, 'utf-8');
+        }
+        catch {
+            return;
+        }
+        if (this.lastWritten.get(sessionId) === content)
+            return;
+        this.lastWritten.delete(sessionId);
+        const instance = Array.from(this.tracked.values()).find(tracked => tracked.sessionId === sessionId);
+        if (!instance)
+            return;
+        // Claude wrote its own list after the board edit, so it has moved on
+        this.pendingBoardChanges.delete(instance.instanceId);
+        const update = {
+            instanceId: instance.instanceId,
+            sessionId,
+            todos: this.parseTodos(content)
+        };
+        this.emit('todos-updated', update);
+    }
+    async readTodoFile(filePath) {
+        try {
+            return this.parseTodos(await fs.readFile(filePath, 'utf-8'));
+        }
+        catch (error) {
+            if (error.code === 'ENOENT')
+                return [];
+            throw error;
+        }
+    }
+    parseTodos(content) {
+        try {
+            const parsed = JSON.parse(content);
+            if (!Array.isArray(parsed))
+                return [];
+            return parsed.filter(todo => todo && typeof todo.content === 'string');
+        }
+        catch {
+            return [];
+        }
+    }
+}
+export const claudeTodoSync = new ClaudeTodoSync();
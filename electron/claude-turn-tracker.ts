@@ -0,0 +1,400 @@
+/**
+ * Claude Turn Tracker
+ * Receives Claude Code's PreToolUse/PostToolUse/Stop hook calls for instances
+ * spawned by the IDE and groups file-editing tool uses into turns, so the
+ * renderer can snapshot the project right before and after each turn.
+ *
+ * Stop hooks are also reported per instance, so the renderer can tell when an
+ * instance has finished responding (used to track orchestrated agents).
+ * Every hook call carries the instance's current session ID, which is
+ * reported so its TodoWrite list can be bound to the instance. The
+ * UserPromptSubmit hook hands Claude context the IDE has queued for the
+ * instance, such as task board edits to its todo list.
+ *
+ * Hook commands reach a loopback HTTP endpoint through CLODE_HOOK_URL, which
+ * is only set in the environment of instances we spawn; Claude sessions
+ * started elsewhere run the same hooks as no-ops. The hook runner reports
+ * the runs of the user's own hooks to the same endpoint ('hook-run').
+ */
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs/promises';
+import { claudeSettingsManager } from './claude-settings-manager.js';
+
+// Tools that write files; turns only start when one of these is about to run
+export const FILE_EDIT_TOOLS = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+
+// How long a PreToolUse hook is held while the renderer captures the "before" snapshot
+const CAPTURE_TIMEOUT_MS = 20000;
+// Only the tail of a transcript is scanned for the prompt that started the turn
+const TRANSCRIPT_TAIL_BYTES = 512 * 1024;
+const MAX_PROMPT_LENGTH = 2000;
+const HOOK_MARKER = 'CLODE_HOOK_URL';
+
+export interface ClaudeTurnStarted {
+  turnId: string;
+  instanceId: string;
+  instanceName?: string;
+  sessionId?: string;
+  workingDirectory?: string;
+  prompt: string;
+  toolName: string;
+  filePath?: string;
+}
+
+export interface ClaudeTurnEnded {
+  turnId: string;
+  instanceId: string;
+  instanceName?: string;
+  prompt: string;
+  files: string[];
+  toolUses: number;
+  reason: 'stop' | 'next-prompt' | 'exit';
+}
+
+export interface ClaudeSessionReported {
+  instanceId: string;
+  sessionId: string;
+}
+
+export interface ClaudeInstanceStopped {
+  instanceId: string;
+  instanceName?: string;
+  workingDirectory?: string;
+}
+
+interface ActiveTurn {
+  turnId: string;
+  instanceId: string;
+  instanceName?: string;
+  prompt: string;
+  files: Set<string>;
+  toolUses: number;
+}
+
+interface HookPayload {
+  session_id?: string;
+  transcript_path?: string;
+  cwd?: string;
+  hook_event_name?: string;
+  tool_name?: string;
+  tool_input?: Record<string, any>;
+}
+
+// Events whose response Claude reads from the hook's stdout
+const OUTPUT_EVENTS = ['UserPromptSubmit'];
+
+/**
+ * Build the shell command a managed hook runs. It forwards the hook payload on
+ * stdin and always exits 0 so a closed IDE never blocks Claude.
+ */
+function buildHookCommand(event: string): string {
+  const output = OUTPUT_EVENTS.includes(event) ? '2>/dev/null' : '> /dev/null 2>&1';
+  return `[ -z "$${HOOK_MARKER}" ] || curl -s -m 30 -X POST -H 'Content-Type: application/json' ` +
+    `--data-binary @- "$${HOOK_MARKER}/${event}?instance=$CLAUDE_INSTANCE_ID&name=$CLAUDE_INSTANCE_NAME" ${output} || true`;
+}
+
+export class ClaudeTurnTracker extends EventEmitter {
+  private server: Server | null = null;
+  private hookUrl: string | null = null;
+  private token = randomBytes(16).toString('hex');
+  // Renderer features that currently need turns, e.g. 'snapshots' or 'orchestration'
+  private consumers: Set<string> = new Set();
+  private turns: Map<string, ActiveTurn> = new Map();
+  private pendingCaptures: Map<string, () => void> = new Map();
+  private promptContextProvider: ((instanceId: string) => string | undefined) | null = null;
+
+  /**
+   * Start the hook endpoint and return the URL instances should post to
+   */
+  async start(): Promise<string> {
+    if (this.hookUrl) return this.hookUrl;
+
+    const server = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        console.error('[ClaudeTurnTracker] Hook request failed:', error);
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    const { port } = server.address() as AddressInfo;
+    this.server = server;
+    this.hookUrl = `http://127.0.0.1:${port}/${this.token}`;
+    return this.hookUrl;
+  }
+
+  stop(): void {
+    this.releasePendingCaptures();
+    this.server?.close();
+    this.server = null;
+    this.hookUrl = null;
+  }
+
+  /**
+   * Turns are only reported while some renderer feature wants them
+   */
+  setEnabled(enabled: boolean, consumer: string = 'snapshots'): void {
+    if (enabled) {
+      this.consumers.add(consumer);
+    } else {
+      this.consumers.delete(consumer);
+    }
+    if (this.consumers.size === 0) {
+      this.releasePendingCaptures();
+      this.turns.clear();
+    }
+  }
+
+  /**
+   * Supply context added to an instance's next prompt, if there is any
+   */
+  setPromptContextProvider(provider: (instanceId: string) => string | undefined): void {
+    this.promptContextProvider = provider;
+  }
+
+  /**
+   * Add the managed PreToolUse/PostToolUse/Stop/SessionStart/UserPromptSubmit hooks to Claude's settings.
+   * Hooks the user disabled or edited are left alone.
+   */
+  async installHooks(): Promise<void> {
+    const hooks = await claudeSettingsManager.getHooks();
+    const matcher = FILE_EDIT_TOOLS.join('|');
+    const snapshots = 'Clode Studio: snapshot before and after Claude edits files';
+    const wanted = [
+      { event: 'PreToolUse', matcher, description: snapshots },
+      { event: 'PostToolUse', matcher, description: snapshots },
+      { event: 'Stop', matcher: '', description: snapshots },
+      { event: 'SessionStart', matcher: '', description: 'Clode Studio: link the session to its IDE instance' },
+      { event: 'UserPromptSubmit', matcher: '', description: 'Clode Studio: tell Claude about task board edits' }
+    ];
+
+    const missing = wanted.filter(({ event }) =>
+      !hooks.some((hook: any) => hook.event === event && String(hook.command).includes(HOOK_MARKER))
+    );
+    if (missing.length === 0) return;
+
+    for (const { event, matcher: eventMatcher, description } of missing) {
+      hooks.push({
+        id: `hook_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        event,
+        matcher: eventMatcher,
+        command: buildHookCommand(event),
+        disabled: false,
+        description
+      } as any);
+    }
+
+    await claudeSettingsManager.saveHooks(hooks);
+  }
+
+  /**
+   * Called by the renderer once the "before" snapshot of a turn is stored
+   */
+  acknowledgeCapture(turnId: string): void {
+    const release = this.pendingCaptures.get(turnId);
+    if (release) release();
+  }
+
+  /**
+   * Close an instance's open turn, e.g. when its process exits
+   */
+  endTurn(instanceId: string, reason: ClaudeTurnEnded['reason'] = 'exit'): void {
+    const turn = this.turns.get(instanceId);
+    if (!turn) return;
+
+    this.turns.delete(instanceId);
+    const ended: ClaudeTurnEnded = {
+      turnId: turn.turnId,
+      instanceId: turn.instanceId,
+      instanceName: turn.instanceName,
+      prompt: turn.prompt,
+      files: Array.from(turn.files),
+      toolUses: turn.toolUses,
+      reason
+    };
+    this.emit('turn-ended', ended);
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+    const [token, event] = url.pathname.split('/').filter(Boolean);
+
+    if (req.method !== 'POST' || token !== this.token) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+
+    const body = await this.readBody(req);
+    let payload: HookPayload = {};
+    try {
+      payload = body ? JSON.parse(body) : {};
+    } catch {
+      // Malformed payloads still count as a hook call without details
+    }
+
+    if (event === 'hook-run') {
+      this.emit('hook-run', payload);
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const reportingInstance = url.searchParams.get('instance');
+    if (reportingInstance && payload.session_id) {
+      const reported: ClaudeSessionReported = { instanceId: reportingInstance, sessionId: payload.session_id };
+      this.emit('session-reported', reported);
+    }
+
+    const instanceId = reportingInstance || payload.session_id;
+    if (this.consumers.size > 0 && instanceId) {
+      const instanceName = url.searchParams.get('name') || undefined;
+      if (event === 'PreToolUse') {
+        await this.handlePreToolUse(instanceId, instanceName, payload);
+      } else if (event === 'PostToolUse') {
+        this.handlePostToolUse(instanceId, payload);
+      } else if (event === 'Stop') {
+        this.endTurn(instanceId, 'stop');
+        const stopped: ClaudeInstanceStopped = { instanceId, instanceName, workingDirectory: payload.cwd };
+        this.emit('instance-stopped', stopped);
+      }
+    }
+
+    const additionalContext = event === 'UserPromptSubmit' && reportingInstance
+      ? this.promptContextProvider?.(reportingInstance)
+      : undefined;
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(additionalContext
+      ? { hookSpecificOutput: { hookEventName: 'UserPromptSubmit', additionalContext } }
+      : {}));
+  }
+
+  private async handlePreToolUse(instanceId: string, instanceName: string | undefined, payload: HookPayload): Promise<void> {
+    if (!payload.tool_name || !FILE_EDIT_TOOLS.includes(payload.tool_name)) return;
+
+    const prompt = payload.transcript_path ? await this.readLastPrompt(payload.transcript_path) : '';
+    const current = this.turns.get(instanceId);
+
+    // Stop doesn't fire when the user interrupts Claude, so a new prompt also closes the turn
+    if (current && prompt && current.prompt !== prompt) {
+      this.endTurn(instanceId, 'next-prompt');
+    }
+    if (this.turns.has(instanceId)) return;
+
+    const turn: ActiveTurn = {
+      turnId: `turn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      instanceId,
+      instanceName,
+      prompt,
+      files: new Set(),
+      toolUses: 0
+    };
+    this.turns.set(instanceId, turn);
+
+    const started: ClaudeTurnStarted = {
+      turnId: turn.turnId,
+      instanceId,
+      instanceName,
+      sessionId: payload.session_id,
+      workingDirectory: payload.cwd,
+      prompt,
+      toolName: payload.tool_name,
+      filePath: this.getToolFilePath(payload)
+    };
+
+    // Hold the tool until its "before" snapshot exists
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(release, CAPTURE_TIMEOUT_MS);
+      const pending = this.pendingCaptures;
+      function release() {
+        clearTimeout(timer);
+        pending.delete(started.turnId);
+        resolve();
+      }
+      pending.set(started.turnId, release);
+      this.emit('turn-started', started);
+    });
+  }
+
+  private handlePostToolUse(instanceId: string, payload: HookPayload): void {
+    const turn = this.turns.get(instanceId);
+    if (!turn) return;
+
+    turn.toolUses++;
+    const filePath = this.getToolFilePath(payload);
+    if (filePath) turn.files.add(filePath);
+  }
+
+  private getToolFilePath(payload: HookPayload): string | undefined {
+    return payload.tool_input?.file_path || payload.tool_input?.notebook_path || undefined;
+  }
+
+  /**
+   * Find the last prompt the user typed in a session transcript
+   */
+  private async readLastPrompt(transcriptPath: string): Promise<string> {
+    let content: string;
+    try {
+      const handle = await fs.open(transcriptPath, 'r');
+      try {
+        const { size } = await handle.stat();
+        const length = Math.min(size, TRANSCRIPT_TAIL_BYTES);
+        const buffer = Buffer.alloc(length);
+        await handle.read(buffer, 0, length, size - length);
+        content = buffer.toString('utf-8');
+      } finally {
+        await handle.close();
+      }
+    } catch {
+      return '';
+    }
+
+    const lines = content.split('\n');
+    for (let i = lines.length - 1; i >= 0; i--) {
+      let entry: any;
+      try {
+        entry = JSON.parse(lines[i]);
+      } catch {
+        continue; // Partial first line of the tail, or a line being written
+      }
+      if (entry?.type !== 'user' || entry.isMeta) continue;
+
+      const messageContent = entry.message?.content;
+      const text = typeof messageContent === 'string'
+        ? messageContent
+        : Array.isArray(messageContent)
+          ? messageContent.filter((part: any) => part?.type === 'text').map((part: any) => part.text).join('\n')
+          : '';
+
+      // Tool results are recorded as user entries too
+      if (text.trim()) return text.trim().slice(0, MAX_PROMPT_LENGTH);
+    }
+
+    return '';
+  }
+
+  private readBody(req: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+      req.on('error', reject);
+    });
+  }
+
+  private releasePendingCaptures(): void {
+    for (const release of Array.from(this.pendingCaptures.values())) {
+      release();
+    }
+  }
+}
+
+export const claudeTurnTracker = new ClaudeTurnTracker();
@@ -0,0 +1,537 @@
+#!/usr/bin/env node
+/**
+ * clode - drive a Clode Studio workspace from the command line.
+ *
+ * Snapshots, worktrees, TASKS.md and the knowledge base are handled by the
+ * same modules the IDE uses, so changes made here show up in a running IDE
+ * (through its file watchers) and vice versa. `clode server` starts the app
+ * in headless mode for remote access. Runs under plain Node.
+ */
+import { parseArgs } from 'util';
+import path from 'path';
+import fs from 'fs-extra';
+import { spawn } from 'child_process';
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+import simpleGit from 'simple-git';
+import { SnapshotService } from './snapshot-service.js';
+import { WorktreeManager } from './worktree-manager.js';
+import { formatTasksMarkdown, parseTasksMarkdown, resolveTaskRelations, TASK_ASSIGNEES, TASK_PRIORITIES, TASK_STATUSES, TASK_TYPES } from './tasks-markdown.js';
+import { resolveTaskReference, formatTaskReference, getOpenBlockers, normalizeTaskRelations, wouldCreateDependencyCycle, wouldCreateParentCycle } from './task-relations.js';
+import { KNOWLEDGE_DIR, parseKnowledgeEntry, buildKnowledgeIndex, searchKnowledgeIndex } from './knowledge-base.js';
+const USAGE = `Usage: clode <command> [options]
+
+Snapshots
+  snapshots list [--branch <name>] [--all]      List snapshots, newest first
+  snapshots capture [--name <name>] [--tag <tag>...]
+                                                Capture the project files
+  snapshots restore <id>                        Write a snapshot's files back
+
+Worktrees
+  worktrees list                                List git worktrees
+  worktrees create <branch> [--name <session>] [--description <text>]
+  worktrees remove <path|branch> [--force]
+
+Tasks (TASKS.md)
+  tasks list [--status <status>]
+  tasks add <content> [task options]
+  tasks update <ref> [--content <text>] [task options]
+  tasks remove <ref>
+    task options: --status, --priority, --type, --assignee, --description,
+                  --id <identifier>, --parent <ref>, --blocked-by <ref>...
+    <ref> is a task identifier or its exact content
+
+Knowledge
+  knowledge search <query> [--limit <n>]
+
+Server
+  server [--port <port>] [--relay <CLODE|CLOUDFLARE|LOCAL>]
+                                                Start Clode Studio headless. From a
+                                                source checkout, serve the UI first
+                                                (nuxt build && nuxt preview).
+
+Global options
+  -w, --workspace <path>   Workspace to use (default: $CLODE_WORKSPACE_PATH or cwd)
+  --json                   Print machine-readable output
+  -h, --help               Show this help`;
+const GLOBAL_OPTIONS = {
+    workspace: { type: 'string', short: 'w' },
+    json: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' }
+};
+const TASK_OPTIONS = {
+    status: { type: 'string' },
+    priority: { type: 'string' },
+    type: { type: 'string' },
+    assignee: { type: 'string' },
+    description: { type: 'string' },
+    id: { type: 'string' },
+    parent: { type: 'string' },
+    'blocked-by': { type: 'string', multiple: true }
+};
+class CliError extends Error {
+}
+function print(values, json, text) {
+    if (values.json) {
+        console.log(JSON.stringify(json, null, 2));
+    }
+    else {
+        console.log(Array.isArray(text) ? text.join('\n') : text);
+    }
+}
+function requireArg(args, index, name) {
+    const value = args[index];
+    if (!value) {
+        throw new CliError(`Missing <${name}>`);
+    }
+    return value;
+}
+function oneOf(value, allowed, name) {
+    if (value === undefined)
+        return undefined;
+    if (typeof value !== 'string' || !allowed.includes(value)) {
+        throw new CliError(`Invalid ${name} "${value}", expected one of: ${allowed.join(', ')}`);
+    }
+    return value;
+}
+// ---------------------------------------------------------------------------
+// Snapshots
+async function withSnapshotService(workspace, task) {
+    const service = new SnapshotService(workspace);
+    try {
+        return await task(service);
+    }
+    finally {
+        await service.flush();
+    }
+}
+async function getGitState(workspace) {
+    const git = simpleGit(workspace);
+    try {
+        if (!await git.checkIsRepo()) {
+            return { branch: 'main', commit: '' };
+        }
+        const branch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+        const commit = (await git.revparse(['HEAD'])).trim();
+        return { branch: branch && branch !== 'HEAD' ? branch : 'main', commit };
+    }
+    catch {
+        // Repository without commits
+        return { branch: 'main', commit: '' };
+    }
+}
+const snapshotCommands = {
+    list: {
+        usage: 'snapshots list [--branch <name>] [--all]',
+        options: { branch: { type: 'string' }, all: { type: 'boolean' } },
+        run: async (workspace, _args, values) => {
+            const branch = values.branch || (await getGitState(workspace)).branch;
+            const snapshots = await withSnapshotService(workspace, service => service.listSnapshots({ branch, allBranches: !!values.all }));
+            snapshots.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+            print(values, snapshots, snapshots.length === 0
+                ? 'No snapshots'
+                : snapshots.map(snapshot => {
+                    const files = snapshot.fileChanges?.summary.filesChanged ?? 0;
+                    const tags = snapshot.tags?.length ? ` [${snapshot.tags.join(', ')}]` : '';
+                    return `${snapshot.id}  ${new Date(snapshot.timestamp).toLocaleString()}  ${snapshot.gitBranch}  ` +
+                        `${snapshot.createdBy}  ${files} changed  ${snapshot.name}${tags}`;
+                }));
+        }
+    },
+    capture: {
+        usage: 'snapshots capture [--name <name>] [--tag <tag>...]',
+        options: { name: { type: 'string' }, tag: { type: 'string', multiple: true } },
+        run: async (workspace, _args, values) => {
+            const { branch, commit } = await getGitState(workspace);
+            const snapshot = await withSnapshotService(workspace, async (service) => {
+                service.setCurrentBranch(branch);
+                return service.captureSnapshot({
+                    name: values.name,
+                    branch,
+                    gitCommit: commit,
+                    tags: values.tag || []
+                });
+            });
+            const summary = snapshot.fileChanges.summary;
+            print(values, snapshot, `Captured ${snapshot.id} "${snapshot.name}" (${summary.filesChanged} files changed)`);
+        }
+    },
+    restore: {
+        usage: 'snapshots restore <id>',
+        run: async (workspace, args, values) => {
+            const id = requireArg(args, 0, 'id');
+            const snapshot = await withSnapshotService(workspace, service => service.restoreSnapshot(id));
+            print(values, snapshot, `Restored "${snapshot.name}" into ${workspace}`);
+        }
+    }
+};
+// ---------------------------------------------------------------------------
+// Worktrees
+async function withWorktreeManager(workspace, task) {
+    const manager = new WorktreeManager(workspace, false);
+    await manager.initialize();
+    return task(manager);
+}
+// git reports worktree branches as full refs
+function branchName(worktree) {
+    return worktree.branch.replace(/^refs\/heads\//, '');
+}
+function check(result) {
+    if (!result.success) {
+        throw new CliError(result.error || 'Operation failed');
+    }
+    return result;
+}
+const worktreeCommands = {
+    list: {
+        usage: 'worktrees list',
+        run: async (workspace, _args, values) => {
+            const { worktrees = [] } = check(await withWorktreeManager(workspace, manager => manager.listWorktrees()));
+            print(values, worktrees, worktrees.map(worktree => {
+                const flags = [worktree.isLocked && 'locked', worktree.prunable && 'prunable'].filter(Boolean).join(', ');
+                return `${branchName(worktree) || '(detached)'}  ${worktree.commit.slice(0, 7)}  ${worktree.path}` +
+                    (worktree.description ? `  ${worktree.description}` : '') + (flags ? `  (${flags})` : '');
+            }));
+        }
+    },
+    create: {
+        usage: 'worktrees create <branch> [--name <session>] [--description <text>]',
+        options: { name: { type: 'string' }, description: { type: 'string' } },
+        run: async (workspace, args, values) => {
+            const branch = requireArg(args, 0, 'branch');
+            const { worktree } = check(await withWorktreeManager(workspace, manager => manager.createWorktree(branch, values.name, values.description)));
+            print(values, worktree, `Created worktree for ${branch} at ${worktree.path}`);
+        }
+    },
+    remove: {
+        usage: 'worktrees remove <path|branch> [--force]',
+        options: { force: { type: 'boolean' } },
+        run: async (workspace, args, values) => {
+            const target = requireArg(args, 0, 'path|branch');
+            await withWorktreeManager(workspace, async (manager) => {
+                const { worktrees = [] } = check(await manager.listWorktrees());
+                const worktree = worktrees.find(w => path.resolve(workspace, target) === path.resolve(w.path))
+                    || worktrees.find(w => branchName(w) === target);
+                if (!worktree) {
+                    throw new CliError(`No worktree matches "${target}"`);
+                }
+                if (path.resolve(worktree.path) === path.resolve(workspace)) {
+                    throw new CliError('Refusing to remove the main worktree');
+                }
+                check(await manager.removeWorktree(worktree.path, !!values.force));
+                print(values, worktree, `Removed worktree ${worktree.path}`);
+            });
+        }
+    }
+};
+// ---------------------------------------------------------------------------
+// Tasks
+function newTaskId() {
+    return `task-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`;
+}
+// Tasks in TASKS.md carry no IDs; they get fresh ones per run and the IDE
+// matches them back to its own tasks by identifier or content on import
+async function loadTasks(file) {
+    if (!await fs.pathExists(file))
+        return [];
+    const parsed = parseTasksMarkdown(await fs.readFile(file, 'utf8')).map(({ task, relations }) => ({
+        task: { ...task, id: newTaskId() },
+        relations
+    }));
+    const tasks = parsed.map(entry => entry.task);
+    resolveTaskRelations(parsed, tasks);
+    return tasks;
+}
+function findTask(ref, tasks) {
+    const task = resolveTaskReference(ref, tasks);
+    if (!task) {
+        throw new CliError(`No task matches "${ref}"`);
+    }
+    return task;
+}
+function applyTaskOptions(task, tasks, values) {
+    task.status = oneOf(values.status, TASK_STATUSES, 'status') || task.status;
+    task.priority = oneOf(values.priority, TASK_PRIORITIES, 'priority') || task.priority;
+    task.type = oneOf(values.type, TASK_TYPES, 'type') || task.type;
+    task.assignee = oneOf(values.assignee, TASK_ASSIGNEES, 'assignee') || task.assignee;
+    if (values.description !== undefined)
+        task.description = values.description;
+    if (values.id !== undefined)
+        task.identifier = values.id || undefined;
+    if (values.parent) {
+        const parent = findTask(values.parent, tasks);
+        if (parent.id === task.id || wouldCreateParentCycle(task.id, parent.id, tasks)) {
+            throw new CliError(`"${task.content}" cannot be a subtask of "${parent.content}"`);
+        }
+        task.parentId = parent.id;
+    }
+    const blockers = (values['blocked-by'] || []).map(ref => findTask(ref, tasks).id);
+    if (blockers.includes(task.id)) {
+        throw new CliError(`"${task.content}" cannot block itself`);
+    }
+    for (const blockerId of blockers) {
+        if (wouldCreateDependencyCycle(task.id, blockerId, tasks)) {
+            const blocker = tasks.find(t => t.id === blockerId);
+            throw new CliError(`"${blocker.content}" already waits on "${task.content}"`);
+        }
+    }
+    if (blockers.length > 0) {
+        task.blockedBy = [...new Set([...(task.blockedBy || []), ...blockers])];
+        normalizeTaskRelations(tasks);
+    }
+    // Like the board, refuse to start a task while any of its blockers is open
+    if (values.status === 'in_progress') {
+        const open = getOpenBlockers(task, tasks);
+        if (open.length > 0) {
+            throw new CliError(`"${task.content}" is blocked by ${open.map(formatTaskReference).join(', ')}`);
+        }
+    }
+}
+async function editTasks(workspace, edit) {
+    const file = path.join(workspace, 'TASKS.md');
+    const tasks = await loadTasks(file);
+    const result = edit(tasks) || tasks;
+    await fs.writeFile(file, formatTasksMarkdown(result));
+}
+function describeTask(task, tasks) {
+    const parent = task.parentId ? tasks.find(t => t.id === task.parentId) : undefined;
+    const blockers = (task.blockedBy || [])
+        .map(id => tasks.find(t => t.id === id))
+        .filter((t) => !!t);
+    const details = [
+        task.priority,
+        task.type,
+        task.assignee,
+        parent && `parent: ${formatTaskReference(parent)}`,
+        blockers.length > 0 && `blocked by: ${blockers.map(formatTaskReference).join(', ')}`
+    ].filter(Boolean).join(', ');
+    return `${task.identifier ? `${task.identifier}  ` : ''}${task.content}  (${details})`;
+}
+const taskCommands = {
+    list: {
+        usage: 'tasks list [--status <status>]',
+        options: { status: { type: 'string' } },
+        run: async (workspace, _args, values) => {
+            const tasks = await loadTasks(path.join(workspace, 'TASKS.md'));
+            const status = oneOf(values.status, TASK_STATUSES, 'status');
+            const shown = status ? tasks.filter(task => task.status === status) : tasks;
+            const lines = [];
+            for (const section of TASK_STATUSES) {
+                const inSection = shown.filter(task => task.status === section);
+                if (inSection.length === 0)
+                    continue;
+                lines.push(`${section} (${inSection.length})`);
+                lines.push(...inSection.map(task => `  ${describeTask(task, tasks)}`));
+            }
+            print(values, shown, lines.length > 0 ? lines : 'No tasks');
+        }
+    },
+    add: {
+        usage: 'tasks add <content> [task options]',
+        options: TASK_OPTIONS,
+        run: async (workspace, args, values) => {
+            const content = requireArg(args, 0, 'content');
+            let added;
+            await editTasks(workspace, tasks => {
+                if (values.id && tasks.some(t => t.identifier?.toLowerCase() === values.id.toLowerCase())) {
+                    throw new CliError(`A task with ID ${values.id} already exists`);
+                }
+                added = {
+                    id: newTaskId(),
+                    content,
+                    status: 'pending',
+                    priority: 'medium',
+                    assignee: 'claude',
+                    type: 'feature'
+                };
+                tasks.push(added);
+                applyTaskOptions(added, tasks, values);
+            });
+            print(values, added, `Added "${content}"`);
+        }
+    },
+    update: {
+        usage: 'tasks update <ref> [--content <text>] [task options]',
+        options: { ...TASK_OPTIONS, content: { type: 'string' } },
+        run: async (workspace, args, values) => {
+            const ref = requireArg(args, 0, 'ref');
+            let updated;
+            await editTasks(workspace, tasks => {
+                updated = findTask(ref, tasks);
+                if (values.content)
+                    updated.content = values.content;
+                applyTaskOptions(updated, tasks, values);
+            });
+            print(values, updated, `Updated "${updated.content}"`);
+        }
+    },
+    remove: {
+        usage: 'tasks remove <ref>',
+        run: async (workspace, args, values) => {
+            const ref = requireArg(args, 0, 'ref');
+            let removed;
+            await editTasks(workspace, tasks => {
+                removed = findTask(ref, tasks);
+                const remaining = tasks.filter(task => task !== removed);
+                // Subtasks move up to the top level, like deleting a parent on the board
+                for (const task of remaining) {
+                    if (task.parentId === removed.id)
+                        task.parentId = undefined;
+                }
+                return normalizeTaskRelations(remaining);
+            });
+            print(values, removed, `Removed "${removed.content}"`);
+        }
+    }
+};
+// ---------------------------------------------------------------------------
+// Knowledge
+async function loadKnowledge(workspace) {
+    const dir = path.join(workspace, KNOWLEDGE_DIR);
+    if (!await fs.pathExists(dir))
+        return [];
+    const entries = [];
+    for (const filename of (await fs.readdir(dir)).filter(name => name.endsWith('.md'))) {
+        const filePath = path.join(dir, filename);
+        const [markdown, stats] = await Promise.all([fs.readFile(filePath, 'utf8'), fs.stat(filePath)]);
+        entries.push(parseKnowledgeEntry(filename, markdown, stats));
+    }
+    return entries;
+}
+const knowledgeCommands = {
+    search: {
+        usage: 'knowledge search <query> [--limit <n>]',
+        options: { limit: { type: 'string' } },
+        run: async (workspace, args, values) => {
+            const query = requireArg(args, 0, 'query');
+            const limit = values.limit ? parseInt(values.limit, 10) : 10;
+            if (!Number.isInteger(limit) || limit < 1) {
+                throw new CliError(`Invalid limit "${values.limit}"`);
+            }
+            const entries = await loadKnowledge(workspace);
+            let results;
+            try {
+                results = searchKnowledgeIndex(buildKnowledgeIndex(entries), entries, query).slice(0, limit);
+            }
+            catch (error) {
+                // lunr rejects malformed query syntax
+                throw new CliError(`Invalid query: ${error instanceof Error ? error.message : String(error)}`);
+            }
+            print(values, results.map(({ markdown, ...entry }) => entry), results.length === 0
+                ? 'No matches'
+                : results.map(entry => {
+                    const tags = entry.metadata.tags.length ? `  [${entry.metadata.tags.join(', ')}]` : '';
+                    return `${entry.title}  (${entry.metadata.category})  ${KNOWLEDGE_DIR}/${entry.filename}${tags}`;
+                }));
+        }
+    }
+};
+// ---------------------------------------------------------------------------
+// Server
+async function runServer(workspace, values) {
+    const require = createRequire(import.meta.url);
+    // Outside Electron the electron package exports the path of its binary
+    let electronPath;
+    try {
+        electronPath = require('electron');
+    }
+    catch (error) {
+        throw new CliError(`Electron is not available: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const appRoot = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+    const env = {
+        ...process.env,
+        CLODE_MODE: 'headless',
+        CLODE_WORKSPACE_PATH: workspace
+    };
+    if (values.port)
+        env.CLODE_SERVER_PORT = values.port;
+    if (values.relay)
+        env.RELAY_TYPE = values.relay;
+    const child = spawn(electronPath, [appRoot, '--mode=headless', `--workspace=${workspace}`], { env, stdio: 'inherit' });
+    const forward = (signal) => child.kill(signal);
+    process.on('SIGINT', forward);
+    process.on('SIGTERM', forward);
+    const code = await new Promise((resolve, reject) => {
+        child.on('error', reject);
+        child.on('exit', exitCode => resolve(exitCode ?? 1));
+    });
+    process.exitCode = code;
+}
+// ---------------------------------------------------------------------------
+const COMMAND_GROUPS = {
+    snapshots: snapshotCommands,
+    worktrees: worktreeCommands,
+    tasks: taskCommands,
+    knowledge: knowledgeCommands
+};
+/**
+ * Split the global options given before the command (clode -w <dir> tasks list)
+ * from the command and its own arguments
+ */
+function parseLeadingOptions(argv) {
+    const { tokens } = parseArgs({ args: argv, options: GLOBAL_OPTIONS, allowPositionals: true, strict: false, tokens: true });
+    const end = tokens.find(token => token.kind !== 'option')?.index ?? argv.length;
+    const { values } = parseArgs({ args: argv.slice(0, end), options: GLOBAL_OPTIONS });
+    return { values, args: argv.slice(end) };
+}
+async function main(argv) {
+    const leading = parseLeadingOptions(argv);
+    const [group, subcommand, ...rest] = leading.args;
+    if (!group || group === 'help' || leading.values.help) {
+        console.log(USAGE);
+        return;
+    }
+    if (group === 'server') {
+        const values = {
+            ...leading.values,
+            ...parseArgs({
+                args: leading.args.slice(1),
+                options: { ...GLOBAL_OPTIONS, port: { type: 'string' }, relay: { type: 'string' } }
+            }).values
+        };
+        if (values.help) {
+            console.log(USAGE);
+            return;
+        }
+        await runServer(resolveWorkspace(values), values);
+        return;
+    }
+    const commands = COMMAND_GROUPS[group];
+    if (!commands) {
+        throw new CliError(`Unknown command "${group}"\n\n${USAGE}`);
+    }
+    const command = subcommand ? commands[subcommand] : undefined;
+    if (!command) {
+        const usages = Object.values(commands).map(c => `  clode ${c.usage}`).join('\n');
+        throw new CliError(`${subcommand ? `Unknown command "${group} ${subcommand}"` : `Missing ${group} command`}\n\n${usages}`);
+    }
+    const parsed = parseArgs({
+        args: rest,
+        options: { ...GLOBAL_OPTIONS, ...command.options },
+        allowPositionals: true
+    });
+    const values = { ...leading.values, ...parsed.values };
+    if (values.help) {
+        console.log(`Usage: clode ${command.usage}`);
+        return;
+    }
+    await command.run(resolveWorkspace(values), parsed.positionals, values);
+}
+function resolveWorkspace(values) {
+    const workspace = path.resolve(values.workspace || process.env.CLODE_WORKSPACE_PATH || process.cwd());
+    if (!fs.existsSync(workspace)) {
+        throw new CliError(`Workspace not found: ${workspace}`);
+    }
+    return workspace;
+}
+main(process.argv.slice(2)).catch(error => {
+    // parseArgs reports unknown or malformed options with a code
+    if (error instanceof CliError || error?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+        console.error(`clode: ${error.message}`);
+    }
+    else {
+        console.error('clode:', error);
+    }
+    process.exitCode = 1;
+});
@@ -1,5 +1,7 @@
 import { ipcMain } from 'electron';
 import simpleGit from 'simple-git';
+import path from 'path';
+import fs from 'fs/promises';
 import { GitService } from './git-service.js';
 /**
  * Global Git Service Manager that handles IPC communication
@@ -320,6 +322,47 @@ export class GitServiceManager {
                 return { success: false, error: error.message };
             }
         });
+        // Get the versions of an unmerged file: the common ancestor (stage 1), our side
+        // (stage 2), their side (stage 3) and the working copy with conflict markers
+        ipcMain.handle('git:getConflictVersions', async (_, filePath) => {
+            if (!this.currentService) {
+                return { success: false, error: 'No workspace selected' };
+            }
+            try {
+                const git = simpleGit(this.currentWorkspacePath);
+                // A stage is missing when that side added or deleted the file. The ./ makes git
+                // resolve the path from the workspace, which may be a subdirectory of the repository.
+                const [base, ours, theirs] = await Promise.all([1, 2, 3].map(stage => git.show([`:${stage}:./${filePath}`]).catch(() => null)));
+                if (base === null && ours === null && theirs === null) {
+                    return { success: false, error: `${filePath} is not in conflict` };
+                }
+                const current = await fs.readFile(path.join(this.currentWorkspacePath, filePath), 'utf-8').catch(() => null);
+                return { success: true, data: { base, ours, theirs, current } };
+            }
+            catch (error) {
+                return { success: false, error: error.message };
+            }
+        });
+        // Resolve an unmerged file with the given content and stage it; null resolves it as deleted
+        ipcMain.handle('git:resolveConflict', async (_, filePath, content) => {
+            if (!this.currentService) {
+                return { success: false, error: 'No workspace selected' };
+            }
+            try {
+                const git = simpleGit(this.currentWorkspacePath);
+                if (content === null) {
+                    await git.raw(['rm', '--quiet', '--ignore-unmatch', '--', filePath]);
+                }
+                else {
+                    await fs.writeFile(path.join(this.currentWorkspacePath, filePath), content, 'utf-8');
+                    await git.add([filePath]);
+                }
+                return { success: true };
+            }
+            catch (error) {
+                return { success: false, error: error.message };
+            }
+        });
         // Check if repo exists
         ipcMain.handle('git:checkIsRepo', async () => {
             if (!this.currentWorkspacePath) {
@@ -0,0 +1,78 @@
+/**
+ * Hook Execution Log
+ * Keeps the recent runs of the IDE's hooks, as reported by the hook runner,
+ * for the hook timeline. Runs are kept in memory for the life of the app.
+ */
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import { getHookEventInfo, interpretHookResult } from './claude-hook-events.js';
+const MAX_EXECUTIONS = 1000;
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+export class HookExecutionLog extends EventEmitter {
+    executions = [];
+    /**
+     * Store a run reported by the hook runner; emits 'recorded'
+     */
+    record(run) {
+        const input = run.input;
+        const event = String(run.event || input?.hook_event_name || 'Unknown');
+        const stdout = String(run.stdout ?? '').slice(0, MAX_OUTPUT_LENGTH);
+        const stderr = String(run.stderr ?? '').slice(0, MAX_OUTPUT_LENGTH);
+        const exitCode = typeof run.exitCode === 'number' ? run.exitCode : null;
+        const durationMs = Number(run.durationMs) || 0;
+        // A signal means Claude killed the hook, normally at its timeout
+        const outcome = interpretHookResult(event, { exitCode, stdout, stderr, durationMs, timedOut: !!run.signal });
+        const execution = {
+            id: randomBytes(8).toString('hex'),
+            hookId: String(run.hookId || ''),
+            event,
+            matcher: String(run.matcher || ''),
+            command: String(run.command || ''),
+            instanceId: run.instanceId || undefined,
+            instanceName: run.instanceName || undefined,
+            input,
+            exitCode,
+            signal: run.signal || null,
+            stdout,
+            stderr,
+            startedAt: run.startedAt || new Date().toISOString(),
+            durationMs,
+            status: this.getStatus(event, exitCode, outcome),
+            outcome
+        };
+        this.executions.push(execution);
+        if (this.executions.length > MAX_EXECUTIONS) {
+            this.executions.splice(0, this.executions.length - MAX_EXECUTIONS);
+        }
+        this.emit('recorded', execution);
+        return execution;
+    }
+    /**
+     * Matching runs, newest first
+     */
+    list(filter = {}) {
+        const matches = this.executions.filter(execution => (!filter.instanceId || execution.instanceId === filter.instanceId) &&
+            (!filter.event || execution.event === filter.event) &&
+            (!filter.hookId || execution.hookId === filter.hookId) &&
+            (!filter.status || execution.status === filter.status)).reverse();
+        return filter.limit ? matches.slice(0, filter.limit) : matches;
+    }
+    get(id) {
+        return this.executions.find(execution => execution.id === id);
+    }
+    clear(instanceId) {
+        this.executions = instanceId
+            ? this.executions.filter(execution => execution.instanceId !== instanceId)
+            : [];
+    }
+    getStatus(event, exitCode, outcome) {
+        if (exitCode === 2 && getHookEventInfo(event))
+            return 'blocked';
+        if (outcome.decision === 'error')
+            return 'error';
+        if (['deny', 'block', 'stop'].includes(outcome.decision))
+            return 'blocked';
+        return 'success';
+    }
+}
+export const hookExecutionLog = new HookExecutionLog();
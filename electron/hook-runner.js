@@ -0,0 +1,101 @@
+/**
+ * Hook runner
+ * Runs one of the IDE's hook commands for a Claude instance the IDE spawned,
+ * exactly as Claude would have (same stdin, output and exit code), then
+ * reports the run to the IDE's hook endpoint so it shows on the hook timeline.
+ * The instance's shell prefix (ClaudeSettingsManager.writeHookShellPrefix)
+ * hands the IDE's hooks to it. Runs under Electron in Node mode:
+ *
+ *   hook-runner.js <hookId> <matcher> <command>
+ */
+import { spawn } from 'child_process';
+import { request } from 'http';
+// Output kept for the timeline; what Claude sees is never cut
+const MAX_RECORDED_OUTPUT = 64 * 1024;
+const REPORT_TIMEOUT_MS = 2000;
+function readStdin() {
+    return new Promise(resolve => {
+        const chunks = [];
+        process.stdin.on('data', chunk => chunks.push(chunk));
+        process.stdin.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+        process.stdin.on('error', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    });
+}
+function report(run) {
+    const hookUrl = process.env.CLODE_HOOK_URL;
+    if (!hookUrl)
+        return Promise.resolve();
+    return new Promise(resolve => {
+        const body = JSON.stringify(run);
+        const req = request(`${hookUrl}/hook-run`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(body) },
+            timeout: REPORT_TIMEOUT_MS
+        }, res => {
+            res.resume();
+            res.on('end', () => resolve());
+        });
+        // A closed IDE must never change what the hook does
+        req.on('error', () => resolve());
+        req.on('timeout', () => {
+            req.destroy();
+            resolve();
+        });
+        req.end(body);
+    });
+}
+async function main() {
+    const [hookId, matcher, command] = process.argv.slice(2);
+    if (!command)
+        return;
+    const input = await readStdin();
+    const startedAt = new Date();
+    let stdout = '';
+    let stderr = '';
+    // The hook sees the environment Claude gave the runner
+    const child = spawn(command, { shell: true, stdio: ['pipe', 'pipe', 'pipe'], env: process.env });
+    child.stdout.on('data', (chunk) => {
+        process.stdout.write(chunk);
+        if (stdout.length < MAX_RECORDED_OUTPUT)
+            stdout += chunk.toString();
+    });
+    child.stderr.on('data', (chunk) => {
+        process.stderr.write(chunk);
+        if (stderr.length < MAX_RECORDED_OUTPUT)
+            stderr += chunk.toString();
+    });
+    child.stdin.on('error', () => { });
+    child.stdin.end(input);
+    const [exitCode, signal] = await new Promise(resolve => {
+        child.on('error', error => {
+            stderr += error.message;
+            process.stderr.write(error.message);
+            resolve([null, null]);
+        });
+        child.on('close', (code, closeSignal) => resolve([code, closeSignal]));
+    });
+    let payload = input;
+    try {
+        payload = JSON.parse(input);
+    }
+    catch {
+        // Recorded as the raw text Claude sent
+    }
+    await report({
+        hookId,
+        matcher,
+        command,
+        instanceId: process.env.CLAUDE_INSTANCE_ID,
+        instanceName: process.env.CLAUDE_INSTANCE_NAME,
+        input: payload,
+        exitCode,
+        signal,
+        stdout,
+        stderr,
+        startedAt: startedAt.toISOString(),
+        durationMs: Date.now() - startedAt.getTime()
+    });
+    // Let piped output drain before exiting
+    process.exitCode = exitCode ?? 1;
+}
+main();
@@ -0,0 +1,92 @@
+/**
+ * Knowledge base entry parsing and full-text search, shared by the knowledge
+ * store and the CLI. Entries are markdown files with frontmatter in
+ * .claude/knowledge.
+ */
+/// <reference path="./lunr.d.ts" />
+import matter from 'gray-matter';
+import lunr from 'lunr';
+
+export interface KnowledgeEntry {
+  id: string;
+  filename?: string; // Actual filename on disk
+  title: string;
+  content: string;
+  markdown: string; // Full markdown with frontmatter
+  metadata: {
+    tags: string[];
+    category: string;
+    created: Date;
+    updated: Date;
+    priority?: 'high' | 'medium' | 'low';
+    relatedFiles?: string[];
+    aliases?: string[];
+  };
+  frontmatter: Record<string, any>;
+}
+
+export const KNOWLEDGE_DIR = '.claude/knowledge';
+
+/**
+ * Build an entry from a knowledge file; file times fill in missing frontmatter dates
+ */
+export function parseKnowledgeEntry(
+  filename: string,
+  markdown: string,
+  stats?: { birthtime?: Date | string; mtime?: Date | string }
+): KnowledgeEntry {
+  const { data, content } = matter(markdown);
+  const name = filename.replace('.md', '');
+
+  return {
+    id: data.id || name,
+    filename,
+    title: data.title || name,
+    content,
+    markdown,
+    metadata: {
+      tags: data.tags || [],
+      category: data.category || 'other',
+      created: new Date(data.created || stats?.birthtime || Date.now()),
+      updated: new Date(data.updated || stats?.mtime || Date.now()),
+      priority: data.priority,
+      relatedFiles: data.relatedFiles || [],
+      aliases: data.aliases || []
+    },
+    frontmatter: data
+  };
+}
+
+/**
+ * Build the lunr index over titles, content, tags, categories and aliases
+ */
+export function buildKnowledgeIndex(entries: KnowledgeEntry[]): lunr.Index {
+  return lunr(function() {
+    this.ref('id');
+    this.field('title', { boost: 10 });
+    this.field('content', { boost: 5 });
+    this.field('tags', { boost: 8 });
+    this.field('category', { boost: 3 });
+    this.field('aliases', { boost: 7 });
+
+    entries.forEach(entry => {
+      this.add({
+        id: entry.id,
+        title: entry.title,
+        content: entry.content,
+        tags: entry.metadata.tags.join(' '),
+        category: entry.metadata.category,
+        aliases: (entry.metadata.aliases || []).join(' ')
+      });
+    });
+  });
+}
+
+/**
+ * Entries matching a lunr query, best match first
+ */
+export function searchKnowledgeIndex(index: lunr.Index, entries: KnowledgeEntry[], query: string): KnowledgeEntry[] {
+  return index.search(query)
+    .map(result => entries.find(e => e.id === result.ref))
+    .filter((entry): entry is KnowledgeEntry => !!entry);
+}
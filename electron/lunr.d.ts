@@ -0,0 +1,23 @@
+// lunr ships without type definitions; this covers the API the knowledge base uses
+declare module 'lunr' {
+  namespace lunr {
+    interface Builder {
+      ref(refName: string): void;
+      field(fieldName: string, attributes?: { boost?: number }): void;
+      add(doc: Record<string, any>): void;
+    }
+
+    interface Result {
+      ref: string;
+      score: number;
+    }
+
+    interface Index {
+      search(queryString: string): Result[];
+    }
+  }
+
+  function lunr(config: (this: lunr.Builder, builder: lunr.Builder) => void): lunr.Index;
+
+  export default lunr;
+}
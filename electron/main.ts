@@ -16,6 +16,9 @@ import { contextOptimizer } from './context-optimizer.js';
 import { workspacePersistence } from './workspace-persistence.js';
 import { searchWithRipgrep } from './search-ripgrep.js';
 import { claudeSettingsManager as importedClaudeSettingsManager } from './claude-settings-manager.js';
+import type { PermissionCheck, PermissionSettings, SettingsScope } from './claude-permission-rules.js';
+import { createSampleHookInput, interpretHookResult } from './claude-hook-events.js';
+import { hookExecutionLog, type HookExecution, type HookExecutionFilter } from './hook-execution-log.js';
 import { ClaudeDetector } from './claude-detector.js';
 import { fileWatcherService } from './file-watcher.js';
 import { createKnowledgeCache } from './knowledge-cache.js';
@@ -27,13 +30,22 @@ import { GitHooksManagerGlobal } from './git-hooks-manager-global.js';
 import { GitHooksManager } from './git-hooks.js';
 import { SnapshotService } from './snapshot-service.js';
 import { setupGitTimelineHandlers } from './git-timeline-handlers.js';
+import { setupAgentTestHandlers } from './agent-test-runner.js';
 import { ghostTextService } from './ghost-text-service.js';
 import { getModeManager, MainProcessMode } from './services/mode-config.js';
 import { RemoteServer } from './services/remote-server.js';
 import { ClaudeSettingsManager } from './services/claude-settings-manager.js';
 import { CloudflareTunnel } from './services/cloudflare-tunnel.js';
 import { RelayClient } from './services/relay-client.js';
+import { PERMISSION_PROFILES } from './services/remote-permissions.js';
+import { RemoteAuditLog, AuditQuery } from './services/remote-audit-log.js';
+import { TokenStore, DEFAULT_TOKEN_EXPIRY_DAYS } from './services/token-store.js';
+import { CollabHost } from './services/collab-host.js';
+import type { CollabProtocol, WatchProtocol } from './services/remote-protocol.js';
 import { claudeInstanceManager } from './services/claude-instance-manager.js';
+import { claudeTodoSync, ClaudeTodo, ClaudeTodosUpdate } from './claude-todo-sync.js';
+import { claudeTurnTracker, ClaudeTurnStarted, ClaudeTurnEnded, ClaudeInstanceStopped, ClaudeSessionReported } from './claude-turn-tracker.js';
+import { claudeSessionHistory } from './claude-session-history.js';
 import { lspManager } from './lsp-manager.js';
 
 // Load environment variables from .env file
@@ -54,6 +66,32 @@ const fileWatchers: Map<string, any> = new Map();
 
 // Multi-instance Claude support
 const claudeInstances: Map<string, pty.IPty> = new Map(); // Keep for backward compatibility, will migrate gradually
+// Session IDs to pass as --resume the next time an instance starts
+const pendingSessionResumes: Map<string, string> = new Map();
+// Remote requests are audited per workspace, outliving individual server runs.
+// The logs live outside the workspace, where remote devices can't edit them.
+const remoteAuditLog = new RemoteAuditLog(
+  () => (store as any).get('workspacePath'),
+  path.join(app.getPath('userData'), 'remote-audit')
+);
+// Files the desktop edits together with remote devices, hosted here so the
+// desktop window and the remote server share one copy
+const collabHost = new CollabHost(() => (store as any).get('workspacePath'));
+const DESKTOP_COLLAB_ID = 'desktop';
+
+function connectDesktopToCollab() {
+  collabHost.connect({
+    id: DESKTOP_COLLAB_ID,
+    name: 'Desktop',
+    isRemote: false,
+    send: (event, data) => {
+      if (mainWindow && !mainWindow.isDestroyed()) {
+        mainWindow.webContents.send(event, data);
+      }
+    }
+  });
+}
+connectDesktopToCollab();
 
 // Mode manager and remote server
 const modeManager = getModeManager();
@@ -216,6 +254,12 @@ function createWindow() {
     show: false
   });
 
+  // A reloaded window has lost the files it was editing
+  mainWindow.webContents.on('did-start-loading', () => {
+    collabHost.disconnect(DESKTOP_COLLAB_ID);
+    connectDesktopToCollab();
+  });
+
   mainWindow.loadURL(nuxtURL);
 
   mainWindow.once('ready-to-show', () => {
@@ -284,6 +328,12 @@ app.whenReady().then(async () => {
   WorktreeManagerGlobal.getInstance();
   GitHooksManagerGlobal.getInstance();
   
+  // Restore paired remote devices
+  TokenStore.getInstance().initialize(
+    path.join(app.getPath('userData'), 'remote-tokens.bin'),
+    (store as any).get('remoteTokenExpiryDays') || DEFAULT_TOKEN_EXPIRY_DAYS
+  );
+  
 
   let workspacePath = (store as any).get('workspacePath');
   
@@ -326,6 +376,9 @@ app.whenReady().then(async () => {
   // Setup Git Timeline handlers
   setupGitTimelineHandlers();
 
+  // Test runs for orchestrated agents
+  setupAgentTestHandlers();
+
   // Only create window if not in headless mode
   if (!modeManager.isHeadlessMode()) {
     createWindow();
@@ -386,7 +439,10 @@ app.whenReady().then(async () => {
     const config = modeManager.getConfig();
     remoteServer = new RemoteServer({
       config,
-      mainWindow: mainWindow || null as any // In headless mode, mainWindow is null
+      mainWindow: mainWindow || null as any, // In headless mode, mainWindow is null
+      getWorkspacePath: () => (store as any).get('workspacePath'),
+      auditLog: remoteAuditLog,
+      collabHost
     });
     
     try {
@@ -710,6 +766,9 @@ ipcMain.handle('claude:start', async (event, instanceId: string, workingDirector
         });
       }
       
+      // Make sure TodoWrite sync follows this instance
+      claudeTodoSync.track(instanceId, workingDirectory, claudeInstanceManager.getMetadata(instanceId)?.sessionId);
+      
       // Send a newline to trigger Claude to show its prompt again
       // This helps when reconnecting to an existing session
       try {
@@ -744,7 +803,12 @@ ipcMain.handle('claude:start', async (event, instanceId: string, workingDirector
     // Claude starts in interactive mode by default when run without arguments
     const debugArgs = process.env.CLAUDE_DEBUG === 'true' ? ['--debug'] : [];
 
-    let { command, args: commandArgs, useShell } = ClaudeDetector.getClaudeCommand(claudeInfo, debugArgs);
+    // Pick up a transcript queued by claude:resumeSession
+    const resumeSessionId = pendingSessionResumes.get(instanceId);
+    pendingSessionResumes.delete(instanceId);
+    const resumeArgs = resumeSessionId ? ['--resume', resumeSessionId] : [];
+
+    let { command, args: commandArgs, useShell } = ClaudeDetector.getClaudeCommand(claudeInfo, [...resumeArgs, ...debugArgs]);
 
     // Override with run config if provided
     if (runConfig) {
@@ -754,7 +818,7 @@ ipcMain.handle('claude:start', async (event, instanceId: string, workingDirector
       }
       if (runConfig.args && runConfig.args.length > 0) {
         // When we have custom args, we need to rebuild the command
-        const allArgs = [...runConfig.args, ...debugArgs];
+        const allArgs = [...runConfig.args, ...resumeArgs, ...debugArgs];
         const result = ClaudeDetector.getClaudeCommand(claudeInfo, allArgs);
         command = result.command;
         commandArgs = result.args;
@@ -772,6 +836,26 @@ ipcMain.handle('claude:start', async (event, instanceId: string, workingDirector
     // Get the user's default shell
     const userShell = process.env.SHELL || '/bin/bash';
 
+    // Endpoint the turn snapshot hooks report to; without it the hooks do nothing
+    let hookUrl = '';
+    try {
+      hookUrl = await claudeTurnTracker.start();
+      await claudeTurnTracker.installHooks();
+    } catch (error) {
+      console.error('Failed to set up Claude turn hooks:', error);
+    }
+
+    // IDE hooks reach the hook runner through Claude's shell prefix, so their
+    // runs show on the hook timeline. A prefix the user set is kept.
+    let hookPrefix = '';
+    if (hookUrl && process.platform !== 'win32' && !process.env.CLAUDE_CODE_SHELL_PREFIX) {
+      try {
+        hookPrefix = await claudeSettingsManager.writeHookShellPrefix();
+      } catch (error) {
+        console.error('Failed to write the hook shell prefix:', error);
+      }
+    }
+
     console.log('Spawning Claude with:', { command, commandArgs, useShell });
     
     // Add error handling for spawn
@@ -794,6 +878,12 @@ ipcMain.handle('claude:start', async (event, instanceId: string, workingDirector
           CLAUDE_INSTANCE_ID: instanceId,
           CLAUDE_INSTANCE_NAME: instanceName || `Claude-${instanceId.slice(7, 15)}`, // Use provided name or short ID
           CLAUDE_IDE_INSTANCE: 'true',
+          CLODE_HOOK_URL: hookUrl,
+          ...(hookPrefix ? {
+            CLAUDE_CODE_SHELL_PREFIX: hookPrefix,
+            CLODE_HOOK_NODE: process.execPath,
+            CLODE_HOOK_RUNNER: join(__dirname, 'hook-runner.js')
+          } : {}),
           // Force PTY mode to ensure Claude uses the PTY for I/O
           FORCE_TTY: '1',
           // Add Node.js specific flags to prevent exit on missing TTY
@@ -829,6 +919,12 @@ ipcMain.handle('claude:start', async (event, instanceId: string, workingDirector
       isHeadless: modeManager.isHeadlessMode()
     });
 
+    // Follow this instance's TodoWrite list; the session ID is bound once the instance's hooks report it
+    claudeTodoSync.track(instanceId, workingDirectory, resumeSessionId);
+    claudeTodoSync.start().catch(error => {
+      console.error('Failed to start Claude todo sync:', error);
+    });
+
     // Capture initial output for debugging
     let initialOutput = '';
     let outputTimer: NodeJS.Timeout | null = null;
@@ -876,6 +972,9 @@ ipcMain.handle('claude:start', async (event, instanceId: string, workingDirector
           }
         });
       }
+      
+      // Devices following this instance through a watch link
+      remoteServer?.forwardWatchedOutput(instanceId, data);
     });
 
     // Handle exit
@@ -901,6 +1000,8 @@ ipcMain.handle('claude:start', async (event, instanceId: string, workingDirector
         }
       });
       claudeInstances.delete(instanceId);
+      claudeTodoSync.untrack(instanceId);
+      claudeTurnTracker.endTurn(instanceId);
       
       // Also update instance status in the manager (mark as disconnected, don't remove)
       claudeInstanceManager.disconnectInstance(instanceId);
@@ -1302,38 +1403,49 @@ ipcMain.handle('store:getHomePath', () => {
 });
 
 // Session operations
-ipcMain.handle('claude:listSessions', async () => {
+// Session history, read from Claude Code's transcripts for the workspace
+const getSessionWorkspace = (workingDirectory?: string): string =>
+  workingDirectory || (store as any).get('workspacePath') || process.cwd();
+
+ipcMain.handle('claude:listSessions', async (event, workingDirectory?: string) => {
   try {
-    // For now, return mock data. In a real implementation, this would read from session storage
-    return {
-      success: true,
-      sessions: [
-        {
-          id: 'session-1',
-          name: 'Previous Session',
-          timestamp: new Date(Date.now() - 3600000).toISOString(),
-          messageCount: 15,
-          duration: 1800000,
-          preview: 'Working on implementing the context system...'
-        },
-        {
-          id: 'session-2',
-          name: 'Older Session',
-          timestamp: new Date(Date.now() - 86400000).toISOString(),
-          messageCount: 25,
-          duration: 3600000,
-          preview: 'Fixed the memory issue with the knowledge base...'
-        }
-      ]
-    };
+    const sessions = await claudeSessionHistory.listSessions(getSessionWorkspace(workingDirectory));
+    return { success: true, sessions };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) };
   }
 });
 
-ipcMain.handle('claude:resumeSession', async (event, instanceId: string, sessionId: string) => {
+ipcMain.handle('claude:searchSessions', async (event, query: string, workingDirectory?: string) => {
   try {
-    // For now, just return success. In a real implementation, this would restore the session
+    const results = await claudeSessionHistory.searchSessions(getSessionWorkspace(workingDirectory), query);
+    return { success: true, results };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('claude:getSessionTranscript', async (event, sessionId: string, workingDirectory?: string) => {
+  try {
+    const messages = await claudeSessionHistory.getTranscript(getSessionWorkspace(workingDirectory), sessionId);
+    return { success: true, messages };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+// Queues `--resume <sessionId>` for the instance's next claude:start
+ipcMain.handle('claude:resumeSession', async (event, instanceId: string, sessionId: string, workingDirectory?: string) => {
+  try {
+    const existingPty = claudeInstances.get(instanceId) || claudeInstanceManager.getPty(instanceId);
+    if (existingPty?.pid && isProcessRunning(existingPty.pid)) {
+      return { success: false, error: 'Instance is already running; stop it before resuming a session' };
+    }
+    if (!(await claudeSessionHistory.hasSession(getSessionWorkspace(workingDirectory), sessionId))) {
+      return { success: false, error: `Session ${sessionId} not found` };
+    }
+
+    pendingSessionResumes.set(instanceId, sessionId);
     return { success: true };
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) };
@@ -1409,33 +1521,58 @@ ipcMain.handle('claude:deleteHook', async (event, hookId: string) => {
   }
 });
 
+// Permission rules across the user, project and local settings files
+ipcMain.handle('claude:getPermissions', async (event, workspacePath?: string) => {
+  try {
+    const scopes = await claudeSettingsManager.getScopedPermissions(workspacePath);
+    const effective = await claudeSettingsManager.getEffectivePermissions(workspacePath);
+    return { success: true, scopes, effective };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('claude:savePermissions', async (event, scope: SettingsScope, permissions: PermissionSettings, workspacePath?: string) => {
+  try {
+    await claudeSettingsManager.savePermissions(scope, permissions, workspacePath);
+    return { success: true };
+  } catch (error) {
+    console.error('Error in claude:savePermissions:', error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('claude:testPermission', async (event, check: PermissionCheck, workspacePath?: string) => {
+  try {
+    const decision = await claudeSettingsManager.testPermission(check, workspacePath);
+    return { success: true, decision };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
 // Clear Claude detector cache (useful if installation changes)
 ipcMain.handle('claude:clearCache', async () => {
   ClaudeDetector.clearCache();
   return { success: true };
 });
 
-// Test a hook
-ipcMain.handle('claude:testHook', async (event, hook: any) => {
+// Test a hook with the JSON Claude would send it, and read its result the way Claude would
+ipcMain.handle('claude:testHook', async (event, hook: any, input?: Record<string, any>, workspacePath?: string) => {
   try {
-    const { exec } = await import('child_process');
-    const { promisify } = await import('util');
-    const execAsync = promisify(exec);
-
-    const testCommand = claudeSettingsManager.createTestCommand(hook);
-    const { stdout, stderr } = await execAsync(testCommand, {
-      timeout: 5000 // 5 second timeout
-    });
-
+    const cwd = workspacePath || homedir();
+    const hookInput = input || createSampleHookInput(hook.event, { cwd, matcher: hook.matcher });
+    const result = await claudeSettingsManager.runHookCommand(hook, hookInput, cwd);
     return {
       success: true,
-      output: stdout + (stderr ? '\n\nErrors:\n' + stderr : '')
+      input: hookInput,
+      result,
+      outcome: interpretHookResult(hook.event, result)
     };
   } catch (error: any) {
     return {
       success: false,
-      error: error.message || String(error),
-      output: error.stdout || ''
+      error: error.message || String(error)
     };
   }
 });
@@ -1733,6 +1870,101 @@ ipcMain.handle('claude:sdk:updateTodo', async (event, todoId: string, newStatus:
   }
 });
 
+// Claude TodoWrite sync (per instance session)
+claudeTodoSync.on('todos-updated', (update: ClaudeTodosUpdate) => {
+  BrowserWindow.getAllWindows().forEach(window => {
+    if (!window.isDestroyed()) {
+      window.webContents.send('claude:todos:updated', update);
+    }
+  });
+});
+
+claudeTurnTracker.on('session-reported', ({ instanceId, sessionId }: ClaudeSessionReported) => {
+  claudeTodoSync.bindSession(instanceId, sessionId).catch(error => {
+    console.error(`Failed to read todos of Claude session ${sessionId}:`, error);
+  });
+});
+
+// Board edits to an instance's todo list reach it with its next prompt
+claudeTurnTracker.setPromptContextProvider(instanceId => claudeTodoSync.takeBoardChanges(instanceId));
+
+claudeTodoSync.on('session-discovered', ({ instanceId, sessionId }: { instanceId: string; sessionId: string }) => {
+  claudeInstanceManager.updateInstance(instanceId, { sessionId });
+  mainWindow?.webContents.send('claude:instances:updated');
+});
+
+ipcMain.handle('claude:todos:get', async (event, instanceId: string) => {
+  try {
+    const result = await claudeTodoSync.readTodos(instanceId);
+    return { success: true, ...result };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('claude:todos:write', async (event, instanceId: string, todos: ClaudeTodo[]) => {
+  try {
+    const sessionId = await claudeTodoSync.writeTodos(instanceId, todos);
+    return { success: true, sessionId };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+app.on('before-quit', () => {
+  claudeTodoSync.stop();
+});
+
+// Claude turn snapshots (PreToolUse/PostToolUse hooks)
+claudeTurnTracker.on('turn-started', (turn: ClaudeTurnStarted) => {
+  if (!mainWindow || mainWindow.isDestroyed()) {
+    // Nobody can capture the snapshot, don't hold Claude up
+    claudeTurnTracker.acknowledgeCapture(turn.turnId);
+    return;
+  }
+  mainWindow.webContents.send('claude:turn:started', turn);
+});
+
+claudeTurnTracker.on('turn-ended', (turn: ClaudeTurnEnded) => {
+  mainWindow?.webContents.send('claude:turn:ended', turn);
+});
+
+claudeTurnTracker.on('instance-stopped', (stopped: ClaudeInstanceStopped) => {
+  mainWindow?.webContents.send('claude:turn:stopped', stopped);
+});
+
+// Runs of the IDE's hooks, for the hook timeline
+claudeTurnTracker.on('hook-run', (run: Record<string, any>) => {
+  hookExecutionLog.record(run);
+});
+
+hookExecutionLog.on('recorded', (execution: HookExecution) => {
+  mainWindow?.webContents.send('claude:hookRun', execution);
+});
+
+ipcMain.handle('claude:getHookRuns', async (event, filter?: HookExecutionFilter) => {
+  return { success: true, runs: hookExecutionLog.list(filter) };
+});
+
+ipcMain.handle('claude:clearHookRuns', async (event, instanceId?: string) => {
+  hookExecutionLog.clear(instanceId);
+  return { success: true };
+});
+
+ipcMain.handle('claude:turns:setEnabled', async (event, enabled: boolean, consumer?: string) => {
+  claudeTurnTracker.setEnabled(enabled, consumer);
+  return { success: true };
+});
+
+ipcMain.handle('claude:turns:acknowledge', async (event, turnId: string) => {
+  claudeTurnTracker.acknowledgeCapture(turnId);
+  return { success: true };
+});
+
+app.on('before-quit', () => {
+  claudeTurnTracker.stop();
+});
+
 // Search operations
 ipcMain.handle('search:findInFiles', async (event, options) => {
 
@@ -2012,12 +2244,13 @@ ipcMain.handle('terminal:create', async (event, options) => {
       
       // Also forward to remote clients if in hybrid mode
       if (remoteServer) {
-        remoteServer.forwardDesktopTerminalData(id, data);
+        remoteServer.forwardDesktopTerminalData(id, data, { cols: ptyProcess.cols, rows: ptyProcess.rows });
       }
     });
 
     ptyProcess.onExit(({ exitCode, signal }) => {
       terminals.delete(id);
+      remoteServer?.closeDesktopTerminal(id);
       mainWindow?.webContents.send(`terminal:exit:${id}`, { exitCode, signal });
     });
 
@@ -3365,12 +3598,67 @@ ipcMain.handle('remote:store-token', async (event, args) => {
     throw new Error('Remote server not initialized');
   }
   
-  const { token, deviceId, deviceName, pairingCode, expiresAt } = args;
-  remoteServer.storeToken(token, deviceId, deviceName, pairingCode, expiresAt);
+  const { token, deviceId, deviceName, pairingCode, expiresAt, profileId } = args;
+  remoteServer.storeToken(token, deviceId, deviceName, pairingCode, expiresAt, profileId);
   
   return { success: true };
 });
 
+// Permission profiles that can be bound to device tokens
+ipcMain.handle('remote:get-permission-profiles', async () => {
+  return PERMISSION_PROFILES;
+});
+
+// Bind a token (and its live connections) to a permission profile
+ipcMain.handle('remote:set-token-profile', async (event, token: string, profileId: string) => {
+  if (!remoteServer) {
+    return TokenStore.getInstance().setTokenProfile(token, profileId);
+  }
+  
+  return remoteServer.setTokenProfile(token, profileId);
+});
+
+// Recently denied remote requests
+ipcMain.handle('remote:get-denials', async () => {
+  if (!remoteServer) {
+    return [];
+  }
+  
+  return remoteServer.getDenials();
+});
+
+ipcMain.handle('remote:clear-denials', async () => {
+  remoteServer?.clearDenials();
+  return true;
+});
+
+// Audit log of remote requests, kept per workspace even while the server is off
+ipcMain.handle('remote:audit-query', async (event, filter?: AuditQuery) => {
+  try {
+    const result = await remoteAuditLog.query(filter);
+    return { success: true, ...result };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('remote:audit-verify', async () => {
+  try {
+    return { success: true, verification: await remoteAuditLog.verify() };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
+ipcMain.handle('remote:audit-export', async (event, destination: string, format: 'jsonl' | 'csv') => {
+  try {
+    const count = await remoteAuditLog.export(destination, format);
+    return { success: true, count };
+  } catch (error) {
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+});
+
 // Get active remote connections
 ipcMain.handle('remote:get-connections', async () => {
   if (!remoteServer) {
@@ -3380,10 +3668,10 @@ ipcMain.handle('remote:get-connections', async () => {
   return remoteServer.getConnections();
 });
 
-// Get active tokens
+// Get active tokens (QR pairing tokens and trusted devices); they persist across server runs
 ipcMain.handle('remote:get-active-tokens', async () => {
   if (!remoteServer) {
-    return [];
+    return TokenStore.getInstance().getActiveConnections();
   }
   
   return remoteServer.getActiveTokens();
@@ -3392,12 +3680,36 @@ ipcMain.handle('remote:get-active-tokens', async () => {
 // Revoke a token
 ipcMain.handle('remote:revoke-token', async (event, token: string) => {
   if (!remoteServer) {
-    throw new Error('Remote server not initialized');
+    return TokenStore.getInstance().revokeToken(token).length > 0;
   }
   
   return remoteServer.revokeToken(token);
 });
 
+// Rename a trusted device
+ipcMain.handle('remote:rename-device', async (event, token: string, deviceName: string) => {
+  if (!remoteServer) {
+    return TokenStore.getInstance().renameDevice(token, deviceName);
+  }
+  
+  return remoteServer.renameDevice(token, deviceName);
+});
+
+// Lifetime of newly issued and rotated remote tokens
+ipcMain.handle('remote:get-token-expiry', async () => {
+  return TokenStore.getInstance().getExpiryDays();
+});
+
+ipcMain.handle('remote:set-token-expiry', async (event, days: number) => {
+  if (!Number.isFinite(days) || days < 1 || days > 365) {
+    return false;
+  }
+  
+  (store as any).set('remoteTokenExpiryDays', days);
+  TokenStore.getInstance().setExpiryDays(days);
+  return true;
+});
+
 // Disconnect a specific device
 ipcMain.handle('remote:disconnect-device', async (event, sessionId: string) => {
   if (!remoteServer) {
@@ -3407,6 +3719,64 @@ ipcMain.handle('remote:disconnect-device', async (event, sessionId: string) => {
   return remoteServer.disconnectDevice(sessionId);
 });
 
+// Continue the desktop session on a connected device
+ipcMain.handle('remote:handoff', async (event, sessionId: string, checkpoint: any) => {
+  if (!remoteServer) {
+    throw new Error('Remote server not initialized');
+  }
+  
+  return remoteServer.handOff(sessionId, checkpoint);
+});
+
+// Collaborative editing of files remote devices have open too
+ipcMain.handle('collab:join', async (event, request: CollabProtocol.JoinRequest) => {
+  return collabHost.join(DESKTOP_COLLAB_ID, request);
+});
+
+ipcMain.handle('collab:leave', async (event, filePath: string) => {
+  collabHost.leave(DESKTOP_COLLAB_ID, filePath);
+});
+
+ipcMain.handle('collab:update', async (event, request: CollabProtocol.UpdateRequest) => {
+  collabHost.update(DESKTOP_COLLAB_ID, request);
+});
+
+ipcMain.on('collab:cursor', (event, request: CollabProtocol.CursorRequest) => {
+  try {
+    collabHost.moveCursor(DESKTOP_COLLAB_ID, request);
+  } catch {
+    // Cursor of a file the desktop already left
+  }
+});
+
+ipcMain.handle('collab:presence', async () => {
+  return collabHost.getPresence(DESKTOP_COLLAB_ID);
+});
+
+// Read-only watch links for a Claude instance
+ipcMain.handle('watch:share', async (event, instanceId: string, instanceName: string, options: WatchProtocol.ShareOptions) => {
+  if (!remoteServer) {
+    throw new Error('Remote server not initialized');
+  }
+  if (!Number.isFinite(options.expiresInMinutes) || options.expiresInMinutes < 1 || options.expiresInMinutes > 24 * 60) {
+    throw new Error('Watch links expire after 1 minute to 24 hours');
+  }
+  
+  return remoteServer.shareClaudeInstance(instanceId, instanceName, options);
+});
+
+ipcMain.handle('watch:list', async (event, instanceId?: string) => {
+  return remoteServer?.getClaudeShares(instanceId) || [];
+});
+
+ipcMain.handle('watch:stop', async (event, token: string) => {
+  if (!remoteServer) {
+    return TokenStore.getInstance().revokeToken(token).length > 0;
+  }
+  
+  return remoteServer.stopClaudeShare(token);
+});
+
 // Load persisted token from workspace
 ipcMain.handle('remote:load-persisted-token', async () => {
   const workspacePath = (store as any).get('workspacePath');
@@ -3467,7 +3837,10 @@ async function enableHybridMode(selectedRelayType?: string, customRelayUrl?: str
     if (mainWindow) {
       remoteServer = new RemoteServer({
         config,
-        mainWindow
+        mainWindow,
+        getWorkspacePath: () => (store as any).get('workspacePath'),
+        auditLog: remoteAuditLog,
+        collabHost
       });
       
       await remoteServer.start();
@@ -3612,6 +3985,9 @@ ipcMain.handle('remote:get-mode-status', async () => {
 
 // Clean up on app quit
 app.on('before-quit', async () => {
+  // Save token changes still waiting to be written
+  TokenStore.getInstance().flush();
+  
   // Stop remote server if running
   if (remoteServer && remoteServer.isRunning()) {
    
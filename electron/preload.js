@@ -17,6 +17,7 @@ const electronAPI = {
             'snapshots-content-response',
             'snapshots-getDiff-response',
             'snapshots-scanProjectFiles-response',
+            'snapshots-compare-response',
             'worktree-list-response',
             'worktree-sessions-response',
             'worktree-switch-response',
@@ -42,6 +43,7 @@ const electronAPI = {
                 'remote-snapshot-content',
                 'remote-snapshot-getDiff',
                 'remote-snapshot-scanProjectFiles',
+                'remote-snapshot-compare',
                 'remote-worktree-list',
                 'remote-worktree-sessions',
                 'remote-worktree-switch',
@@ -99,8 +101,33 @@ const electronAPI = {
             createTodos: (taskDescription, projectPath) => electron_1.ipcRenderer.invoke('claude:sdk:createTodos', taskDescription, projectPath),
             updateTodo: (todoId, newStatus, projectPath) => electron_1.ipcRenderer.invoke('claude:sdk:updateTodo', todoId, newStatus, projectPath)
         },
+        todos: {
+            get: (instanceId) => electron_1.ipcRenderer.invoke('claude:todos:get', instanceId),
+            write: (instanceId, todos) => electron_1.ipcRenderer.invoke('claude:todos:write', instanceId, todos)
+        },
         onTodosUpdated: (callback) => {
-            electron_1.ipcRenderer.on('claude:todos:updated', (_, todos) => callback(todos));
+            const handler = (_, update) => callback(update);
+            electron_1.ipcRenderer.on('claude:todos:updated', handler);
+            return () => electron_1.ipcRenderer.removeListener('claude:todos:updated', handler);
+        },
+        turns: {
+            setEnabled: (enabled, consumer) => electron_1.ipcRenderer.invoke('claude:turns:setEnabled', enabled, consumer),
+            acknowledge: (turnId) => electron_1.ipcRenderer.invoke('claude:turns:acknowledge', turnId),
+            onStarted: (callback) => {
+                const handler = (_, turn) => callback(turn);
+                electron_1.ipcRenderer.on('claude:turn:started', handler);
+                return () => electron_1.ipcRenderer.removeListener('claude:turn:started', handler);
+            },
+            onEnded: (callback) => {
+                const handler = (_, turn) => callback(turn);
+                electron_1.ipcRenderer.on('claude:turn:ended', handler);
+                return () => electron_1.ipcRenderer.removeListener('claude:turn:ended', handler);
+            },
+            onStopped: (callback) => {
+                const handler = (_, stopped) => callback(stopped);
+                electron_1.ipcRenderer.on('claude:turn:stopped', handler);
+                return () => electron_1.ipcRenderer.removeListener('claude:turn:stopped', handler);
+            }
         },
         onInstancesUpdated: (callback) => {
             electron_1.ipcRenderer.on('claude:instances:updated', () => callback());
@@ -112,10 +139,24 @@ const electronAPI = {
         updateHook: (id, updates) => electron_1.ipcRenderer.invoke('claude:updateHook', id, updates),
         removeHook: (id) => electron_1.ipcRenderer.invoke('claude:removeHook', id),
         deleteHook: (id) => electron_1.ipcRenderer.invoke('claude:deleteHook', id),
-        testHook: (hook) => electron_1.ipcRenderer.invoke('claude:testHook', hook),
+        testHook: (hook, input, workspacePath) => electron_1.ipcRenderer.invoke('claude:testHook', hook, input, workspacePath),
+        // Hook timeline
+        getHookRuns: (filter) => electron_1.ipcRenderer.invoke('claude:getHookRuns', filter),
+        clearHookRuns: (instanceId) => electron_1.ipcRenderer.invoke('claude:clearHookRuns', instanceId),
+        onHookRun: (callback) => {
+            const handler = (_event, execution) => callback(execution);
+            electron_1.ipcRenderer.on('claude:hookRun', handler);
+            return () => electron_1.ipcRenderer.removeListener('claude:hookRun', handler);
+        },
+        // Permission rules
+        getPermissions: (workspacePath) => electron_1.ipcRenderer.invoke('claude:getPermissions', workspacePath),
+        savePermissions: (scope, permissions, workspacePath) => electron_1.ipcRenderer.invoke('claude:savePermissions', scope, permissions, workspacePath),
+        testPermission: (check, workspacePath) => electron_1.ipcRenderer.invoke('claude:testPermission', check, workspacePath),
         // Session management
-        listSessions: () => electron_1.ipcRenderer.invoke('claude:listSessions'),
-        resumeSession: (instanceId, sessionId) => electron_1.ipcRenderer.invoke('claude:resumeSession', instanceId, sessionId)
+        listSessions: (workingDirectory) => electron_1.ipcRenderer.invoke('claude:listSessions', workingDirectory),
+        searchSessions: (query, workingDirectory) => electron_1.ipcRenderer.invoke('claude:searchSessions', query, workingDirectory),
+        getSessionTranscript: (sessionId, workingDirectory) => electron_1.ipcRenderer.invoke('claude:getSessionTranscript', sessionId, workingDirectory),
+        resumeSession: (instanceId, sessionId, workingDirectory) => electron_1.ipcRenderer.invoke('claude:resumeSession', instanceId, sessionId, workingDirectory)
     },
     fs: {
         readFile: (path) => electron_1.ipcRenderer.invoke('fs:readFile', path),
@@ -273,16 +314,66 @@ const electronAPI = {
     // Remote server operations
     remote: {
         storeToken: (args) => electron_1.ipcRenderer.invoke('remote:store-token', args),
+        getPermissionProfiles: () => electron_1.ipcRenderer.invoke('remote:get-permission-profiles'),
+        setTokenProfile: (token, profileId) => electron_1.ipcRenderer.invoke('remote:set-token-profile', token, profileId),
+        getDenials: () => electron_1.ipcRenderer.invoke('remote:get-denials'),
+        clearDenials: () => electron_1.ipcRenderer.invoke('remote:clear-denials'),
+        queryAuditLog: (filter) => electron_1.ipcRenderer.invoke('remote:audit-query', filter),
+        verifyAuditLog: () => electron_1.ipcRenderer.invoke('remote:audit-verify'),
+        exportAuditLog: (destination, format) => electron_1.ipcRenderer.invoke('remote:audit-export', destination, format),
         getConnections: () => electron_1.ipcRenderer.invoke('remote:get-connections'),
         getActiveTokens: () => electron_1.ipcRenderer.invoke('remote:get-active-tokens'),
         revokeToken: (token) => electron_1.ipcRenderer.invoke('remote:revoke-token', token),
+        renameDevice: (token, deviceName) => electron_1.ipcRenderer.invoke('remote:rename-device', token, deviceName),
+        getTokenExpiry: () => electron_1.ipcRenderer.invoke('remote:get-token-expiry'),
+        setTokenExpiry: (days) => electron_1.ipcRenderer.invoke('remote:set-token-expiry', days),
         disconnectDevice: (sessionId) => electron_1.ipcRenderer.invoke('remote:disconnect-device', sessionId),
+        handOff: (sessionId, checkpoint) => electron_1.ipcRenderer.invoke('remote:handoff', sessionId, checkpoint),
+        onHandoff: (callback) => {
+            const handler = (_, checkpoint) => callback(checkpoint);
+            electron_1.ipcRenderer.on('remote:handoff', handler);
+            return () => electron_1.ipcRenderer.removeListener('remote:handoff', handler);
+        },
         loadPersistedToken: () => electron_1.ipcRenderer.invoke('remote:load-persisted-token'),
         persistToken: (tokenData) => electron_1.ipcRenderer.invoke('remote:persist-token', tokenData),
         enableHybridMode: (options) => electron_1.ipcRenderer.invoke('remote:enable-hybrid-mode', options),
         disableHybridMode: () => electron_1.ipcRenderer.invoke('remote:disable-hybrid-mode'),
         getModeStatus: () => electron_1.ipcRenderer.invoke('remote:get-mode-status')
     },
+    // Collaborative editing through the desktop's collaboration host
+    collab: {
+        join: (request) => electron_1.ipcRenderer.invoke('collab:join', request),
+        leave: (filePath) => electron_1.ipcRenderer.invoke('collab:leave', filePath),
+        update: (request) => electron_1.ipcRenderer.invoke('collab:update', request),
+        moveCursor: (request) => electron_1.ipcRenderer.send('collab:cursor', request),
+        getPresence: () => electron_1.ipcRenderer.invoke('collab:presence'),
+        onUpdate: (callback) => {
+            const handler = (_, data) => callback(data);
+            electron_1.ipcRenderer.on('collab:update', handler);
+            return () => electron_1.ipcRenderer.removeListener('collab:update', handler);
+        },
+        onCursor: (callback) => {
+            const handler = (_, data) => callback(data);
+            electron_1.ipcRenderer.on('collab:cursor', handler);
+            return () => electron_1.ipcRenderer.removeListener('collab:cursor', handler);
+        },
+        onPresence: (callback) => {
+            const handler = (_, data) => callback(data);
+            electron_1.ipcRenderer.on('collab:presence', handler);
+            return () => electron_1.ipcRenderer.removeListener('collab:presence', handler);
+        }
+    },
+    // Read-only watch links for Claude instances
+    watch: {
+        share: (instanceId, instanceName, options) => electron_1.ipcRenderer.invoke('watch:share', instanceId, instanceName, options),
+        list: (instanceId) => electron_1.ipcRenderer.invoke('watch:list', instanceId),
+        stop: (token) => electron_1.ipcRenderer.invoke('watch:stop', token),
+        onComment: (callback) => {
+            const handler = (_, comment) => callback(comment);
+            electron_1.ipcRenderer.on('watch:comment', handler);
+            return () => electron_1.ipcRenderer.removeListener('watch:comment', handler);
+        }
+    },
     // Cloudflare tunnel operations
     tunnel: {
         getInfo: () => electron_1.ipcRenderer.invoke('tunnel:getInfo'),
@@ -300,7 +391,7 @@ const electronAPI = {
         list: (options) => electron_1.ipcRenderer.invoke('snapshots:list', options),
         delete: (snapshotId, branch) => electron_1.ipcRenderer.invoke('snapshots:delete', snapshotId, branch),
         update: (snapshot) => electron_1.ipcRenderer.invoke('snapshots:update', snapshot),
-        getStorageInfo: () => electron_1.ipcRenderer.invoke('snapshots:getStorageInfo'),
+        getStorageInfo: (params) => electron_1.ipcRenderer.invoke('snapshots:getStorageInfo', params),
         export: (exportPath) => electron_1.ipcRenderer.invoke('snapshots:export', exportPath),
         import: (importPath) => electron_1.ipcRenderer.invoke('snapshots:import', importPath),
         // Enhanced snapshot operations
@@ -310,8 +401,11 @@ const electronAPI = {
         storeDiff: (params) => electron_1.ipcRenderer.invoke('snapshots:storeDiff', params),
         getDiff: (params) => electron_1.ipcRenderer.invoke('snapshots:getDiff', params),
         scanProjectFiles: (params) => electron_1.ipcRenderer.invoke('snapshots:scanProjectFiles', params),
+        compare: (params) => electron_1.ipcRenderer.invoke('snapshots:compare', params),
         restoreFiles: (params) => electron_1.ipcRenderer.invoke('snapshots:restoreFiles', params),
         cleanup: (params) => electron_1.ipcRenderer.invoke('snapshots:cleanup', params),
+        repack: (params) => electron_1.ipcRenderer.invoke('snapshots:repack', params),
+        collectGarbage: (params) => electron_1.ipcRenderer.invoke('snapshots:collectGarbage', params),
         setCurrentBranch: (branch) => electron_1.ipcRenderer.invoke('snapshots:setCurrentBranch', branch)
     },
     git: {
@@ -332,6 +426,8 @@ const electronAPI = {
         discardChanges: (files) => electron_1.ipcRenderer.invoke('git:discardChanges', files),
         stash: (message) => electron_1.ipcRenderer.invoke('git:stash', message),
         getFileAtHead: (filePath) => electron_1.ipcRenderer.invoke('git:getFileAtHead', filePath),
+        getConflictVersions: (filePath) => electron_1.ipcRenderer.invoke('git:getConflictVersions', filePath),
+        resolveConflict: (filePath, content) => electron_1.ipcRenderer.invoke('git:resolveConflict', filePath, content),
         init: () => electron_1.ipcRenderer.invoke('git:init'),
         clone: (url, localPath) => electron_1.ipcRenderer.invoke('git:clone', url, localPath),
         checkIsRepo: () => electron_1.ipcRenderer.invoke('git:checkIsRepo'),
@@ -339,6 +435,7 @@ const electronAPI = {
     },
     worktree: {
         list: () => electron_1.ipcRenderer.invoke('worktree:list'),
+        mainPath: () => electron_1.ipcRenderer.invoke('worktree:mainPath'),
         create: (branchName, sessionName, sessionDescription, metadata) => electron_1.ipcRenderer.invoke('worktree:create', branchName, sessionName, sessionDescription, metadata),
         remove: (worktreePath, force) => electron_1.ipcRenderer.invoke('worktree:remove', worktreePath, force),
         switch: (worktreePath) => electron_1.ipcRenderer.invoke('worktree:switch', worktreePath),
@@ -347,7 +444,14 @@ const electronAPI = {
         createSession: (sessionData) => electron_1.ipcRenderer.invoke('worktree:createSession', sessionData),
         deleteSession: (sessionId) => electron_1.ipcRenderer.invoke('worktree:deleteSession', sessionId),
         lock: (worktreePath, lock) => electron_1.ipcRenderer.invoke('worktree:lock', worktreePath, lock),
-        prune: () => electron_1.ipcRenderer.invoke('worktree:prune')
+        prune: () => electron_1.ipcRenderer.invoke('worktree:prune'),
+        previewMerge: (worktreePath) => electron_1.ipcRenderer.invoke('worktree:previewMerge', worktreePath),
+        startMerge: (worktreePath, options) => electron_1.ipcRenderer.invoke('worktree:startMerge', worktreePath, options),
+        getMergeConflict: (repoPath, filePath) => electron_1.ipcRenderer.invoke('worktree:getMergeConflict', repoPath, filePath),
+        resolveMergeConflict: (repoPath, filePath, content) => electron_1.ipcRenderer.invoke('worktree:resolveMergeConflict', repoPath, filePath, content),
+        continueMerge: (worktreePath, options) => electron_1.ipcRenderer.invoke('worktree:continueMerge', worktreePath, options),
+        abortMerge: (worktreePath, strategy) => electron_1.ipcRenderer.invoke('worktree:abortMerge', worktreePath, strategy),
+        cleanupMerged: (worktreePath, options) => electron_1.ipcRenderer.invoke('worktree:cleanupMerged', worktreePath, options)
     },
     gitHooks: {
         install: (options) => electron_1.ipcRenderer.invoke('git-hooks:install', options),
@@ -363,6 +467,9 @@ const electronAPI = {
         checkoutBranch: (workspacePath, branchName) => electron_1.ipcRenderer.invoke('git-timeline:checkoutBranch', workspacePath, branchName),
         createBranch: (workspacePath, branchName, startPoint) => electron_1.ipcRenderer.invoke('git-timeline:createBranch', workspacePath, branchName, startPoint)
     },
+    orchestration: {
+        runTests: (params) => electron_1.ipcRenderer.invoke('orchestration:runTests', params)
+    },
     // Time Machine events
     onTimeMachineFileOperation: (callback) => {
         const channel = 'time-machine:first-file-operation';
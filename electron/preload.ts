@@ -1,5 +1,14 @@
 import { contextBridge, ipcRenderer } from 'electron';
 
+// Shape of an entry in Claude Code's TodoWrite list
+interface ClaudeTodo {
+  id?: string;
+  content: string;
+  status: 'pending' | 'in_progress' | 'completed';
+  priority?: 'high' | 'medium' | 'low';
+  activeForm?: string;
+}
+
 const electronAPI = {
   // General IPC send for specific allowed channels
   send: (channel: string, data: any) => {
@@ -16,6 +25,7 @@ const electronAPI = {
       'snapshots-content-response',
       'snapshots-getDiff-response',
       'snapshots-scanProjectFiles-response',
+      'snapshots-compare-response',
       'worktree-list-response',
       'worktree-sessions-response',
       'worktree-switch-response',
@@ -41,6 +51,7 @@ const electronAPI = {
         'remote-snapshot-content',
         'remote-snapshot-getDiff',
         'remote-snapshot-scanProjectFiles',
+        'remote-snapshot-compare',
         'remote-worktree-list',
         'remote-worktree-sessions',
         'remote-worktree-switch',
@@ -119,8 +130,42 @@ const electronAPI = {
       createTodos: (taskDescription: string, projectPath: string) => ipcRenderer.invoke('claude:sdk:createTodos', taskDescription, projectPath),
       updateTodo: (todoId: string, newStatus: string, projectPath: string) => ipcRenderer.invoke('claude:sdk:updateTodo', todoId, newStatus, projectPath)
     },
-    onTodosUpdated: (callback: (todos: any[]) => void) => {
-      ipcRenderer.on('claude:todos:updated', (_, todos) => callback(todos));
+    todos: {
+      get: (instanceId: string): Promise<{
+        success: boolean;
+        sessionId?: string;
+        todos?: ClaudeTodo[];
+        error?: string;
+      }> => ipcRenderer.invoke('claude:todos:get', instanceId),
+      write: (instanceId: string, todos: ClaudeTodo[]): Promise<{
+        success: boolean;
+        sessionId?: string;
+        error?: string;
+      }> => ipcRenderer.invoke('claude:todos:write', instanceId, todos)
+    },
+    onTodosUpdated: (callback: (update: { instanceId: string; sessionId: string; todos: ClaudeTodo[] }) => void) => {
+      const handler = (_: any, update: { instanceId: string; sessionId: string; todos: ClaudeTodo[] }) => callback(update);
+      ipcRenderer.on('claude:todos:updated', handler);
+      return () => ipcRenderer.removeListener('claude:todos:updated', handler);
+    },
+    turns: {
+      setEnabled: (enabled: boolean, consumer?: string) => ipcRenderer.invoke('claude:turns:setEnabled', enabled, consumer),
+      acknowledge: (turnId: string) => ipcRenderer.invoke('claude:turns:acknowledge', turnId),
+      onStarted: (callback: (turn: any) => void) => {
+        const handler = (_: any, turn: any) => callback(turn);
+        ipcRenderer.on('claude:turn:started', handler);
+        return () => ipcRenderer.removeListener('claude:turn:started', handler);
+      },
+      onEnded: (callback: (turn: any) => void) => {
+        const handler = (_: any, turn: any) => callback(turn);
+        ipcRenderer.on('claude:turn:ended', handler);
+        return () => ipcRenderer.removeListener('claude:turn:ended', handler);
+      },
+      onStopped: (callback: (stopped: any) => void) => {
+        const handler = (_: any, stopped: any) => callback(stopped);
+        ipcRenderer.on('claude:turn:stopped', handler);
+        return () => ipcRenderer.removeListener('claude:turn:stopped', handler);
+      }
     },
     onInstancesUpdated: (callback: () => void) => {
       ipcRenderer.on('claude:instances:updated', () => callback());
@@ -138,11 +183,31 @@ const electronAPI = {
     updateHook: (id: string, updates: any) => ipcRenderer.invoke('claude:updateHook', id, updates),
     removeHook: (id: string) => ipcRenderer.invoke('claude:removeHook', id),
     deleteHook: (id: string) => ipcRenderer.invoke('claude:deleteHook', id),
-    testHook: (hook: any) => ipcRenderer.invoke('claude:testHook', hook),
+    testHook: (hook: any, input?: Record<string, any>, workspacePath?: string) =>
+      ipcRenderer.invoke('claude:testHook', hook, input, workspacePath),
+    // Hook timeline
+    getHookRuns: (filter?: { instanceId?: string; event?: string; hookId?: string; status?: string; limit?: number }) =>
+      ipcRenderer.invoke('claude:getHookRuns', filter),
+    clearHookRuns: (instanceId?: string) => ipcRenderer.invoke('claude:clearHookRuns', instanceId),
+    onHookRun: (callback: (execution: any) => void) => {
+      const handler = (_event: any, execution: any) => callback(execution);
+      ipcRenderer.on('claude:hookRun', handler);
+      return () => ipcRenderer.removeListener('claude:hookRun', handler);
+    },
+    // Permission rules
+    getPermissions: (workspacePath?: string) => ipcRenderer.invoke('claude:getPermissions', workspacePath),
+    savePermissions: (scope: string, permissions: any, workspacePath?: string) =>
+      ipcRenderer.invoke('claude:savePermissions', scope, permissions, workspacePath),
+    testPermission: (check: { toolName: string; input?: string }, workspacePath?: string) =>
+      ipcRenderer.invoke('claude:testPermission', check, workspacePath),
     // Session management
-    listSessions: () => ipcRenderer.invoke('claude:listSessions'),
-    resumeSession: (instanceId: string, sessionId: string) => 
-      ipcRenderer.invoke('claude:resumeSession', instanceId, sessionId)
+    listSessions: (workingDirectory?: string) => ipcRenderer.invoke('claude:listSessions', workingDirectory),
+    searchSessions: (query: string, workingDirectory?: string) =>
+      ipcRenderer.invoke('claude:searchSessions', query, workingDirectory),
+    getSessionTranscript: (sessionId: string, workingDirectory?: string) =>
+      ipcRenderer.invoke('claude:getSessionTranscript', sessionId, workingDirectory),
+    resumeSession: (instanceId: string, sessionId: string, workingDirectory?: string) => 
+      ipcRenderer.invoke('claude:resumeSession', instanceId, sessionId, workingDirectory)
   },
   fs: {
     readFile: (path: string) => ipcRenderer.invoke('fs:readFile', path),
@@ -383,11 +448,31 @@ const electronAPI = {
       deviceName: string;
       pairingCode: string;
       expiresAt?: Date;
+      profileId?: string;
     }) => ipcRenderer.invoke('remote:store-token', args),
+    getPermissionProfiles: () => ipcRenderer.invoke('remote:get-permission-profiles'),
+    setTokenProfile: (token: string, profileId: string) =>
+      ipcRenderer.invoke('remote:set-token-profile', token, profileId),
+    getDenials: () => ipcRenderer.invoke('remote:get-denials'),
+    clearDenials: () => ipcRenderer.invoke('remote:clear-denials'),
+    queryAuditLog: (filter?: any) => ipcRenderer.invoke('remote:audit-query', filter),
+    verifyAuditLog: () => ipcRenderer.invoke('remote:audit-verify'),
+    exportAuditLog: (destination: string, format: 'jsonl' | 'csv') =>
+      ipcRenderer.invoke('remote:audit-export', destination, format),
     getConnections: () => ipcRenderer.invoke('remote:get-connections'),
     getActiveTokens: () => ipcRenderer.invoke('remote:get-active-tokens'),
     revokeToken: (token: string) => ipcRenderer.invoke('remote:revoke-token', token),
+    renameDevice: (token: string, deviceName: string) =>
+      ipcRenderer.invoke('remote:rename-device', token, deviceName),
+    getTokenExpiry: () => ipcRenderer.invoke('remote:get-token-expiry'),
+    setTokenExpiry: (days: number) => ipcRenderer.invoke('remote:set-token-expiry', days),
     disconnectDevice: (sessionId: string) => ipcRenderer.invoke('remote:disconnect-device', sessionId),
+    handOff: (sessionId: string, checkpoint: any) => ipcRenderer.invoke('remote:handoff', sessionId, checkpoint),
+    onHandoff: (callback: (checkpoint: any) => void) => {
+      const handler = (_: any, checkpoint: any) => callback(checkpoint);
+      ipcRenderer.on('remote:handoff', handler);
+      return () => ipcRenderer.removeListener('remote:handoff', handler);
+    },
     loadPersistedToken: () => ipcRenderer.invoke('remote:load-persisted-token'),
     persistToken: (tokenData: any) => ipcRenderer.invoke('remote:persist-token', tokenData),
     enableHybridMode: (options?: any) => ipcRenderer.invoke('remote:enable-hybrid-mode', options),
@@ -395,6 +480,43 @@ const electronAPI = {
     getModeStatus: () => ipcRenderer.invoke('remote:get-mode-status')
   },
 
+  // Collaborative editing through the desktop's collaboration host
+  collab: {
+    join: (request: { path: string; content: string }) => ipcRenderer.invoke('collab:join', request),
+    leave: (filePath: string) => ipcRenderer.invoke('collab:leave', filePath),
+    update: (request: { path: string; operations: any[] }) => ipcRenderer.invoke('collab:update', request),
+    moveCursor: (request: { path: string; anchor: any; head: any }) => ipcRenderer.send('collab:cursor', request),
+    getPresence: () => ipcRenderer.invoke('collab:presence'),
+    onUpdate: (callback: (data: any) => void) => {
+      const handler = (_: any, data: any) => callback(data);
+      ipcRenderer.on('collab:update', handler);
+      return () => ipcRenderer.removeListener('collab:update', handler);
+    },
+    onCursor: (callback: (data: any) => void) => {
+      const handler = (_: any, data: any) => callback(data);
+      ipcRenderer.on('collab:cursor', handler);
+      return () => ipcRenderer.removeListener('collab:cursor', handler);
+    },
+    onPresence: (callback: (data: any) => void) => {
+      const handler = (_: any, data: any) => callback(data);
+      ipcRenderer.on('collab:presence', handler);
+      return () => ipcRenderer.removeListener('collab:presence', handler);
+    }
+  },
+
+  // Read-only watch links for Claude instances
+  watch: {
+    share: (instanceId: string, instanceName: string, options: { allowComments: boolean; expiresInMinutes: number }) =>
+      ipcRenderer.invoke('watch:share', instanceId, instanceName, options),
+    list: (instanceId?: string) => ipcRenderer.invoke('watch:list', instanceId),
+    stop: (token: string) => ipcRenderer.invoke('watch:stop', token),
+    onComment: (callback: (comment: any) => void) => {
+      const handler = (_: any, comment: any) => callback(comment);
+      ipcRenderer.on('watch:comment', handler);
+      return () => ipcRenderer.removeListener('watch:comment', handler);
+    }
+  },
+  
   // Cloudflare tunnel operations
   tunnel: {
     getInfo: () => ipcRenderer.invoke('tunnel:getInfo'),
@@ -418,8 +540,8 @@ const electronAPI = {
       ipcRenderer.invoke('snapshots:delete', snapshotId, branch),
     update: (snapshot: any) =>
       ipcRenderer.invoke('snapshots:update', snapshot),
-    getStorageInfo: () =>
-      ipcRenderer.invoke('snapshots:getStorageInfo'),
+    getStorageInfo: (params?: { projectPath: string }) =>
+      ipcRenderer.invoke('snapshots:getStorageInfo', params),
     export: (exportPath: string) =>
       ipcRenderer.invoke('snapshots:export', exportPath),
     import: (importPath: string) =>
@@ -438,10 +560,16 @@ const electronAPI = {
       ipcRenderer.invoke('snapshots:getDiff', params),
     scanProjectFiles: (params: { projectPath: string }) =>
       ipcRenderer.invoke('snapshots:scanProjectFiles', params),
+    compare: (params: { fromId: string; toId: string; includePatches?: boolean; maxPatchBytes?: number }) =>
+      ipcRenderer.invoke('snapshots:compare', params),
     restoreFiles: (params: { fileChanges: any; projectPath: string }) =>
       ipcRenderer.invoke('snapshots:restoreFiles', params),
-    cleanup: (params: { projectPath: string; olderThanDays: number }) =>
+    cleanup: (params: { projectPath: string; retention?: any; collectGarbage?: boolean }) =>
       ipcRenderer.invoke('snapshots:cleanup', params),
+    repack: (params?: { full?: boolean }) =>
+      ipcRenderer.invoke('snapshots:repack', params),
+    collectGarbage: (params?: { dryRun?: boolean }) =>
+      ipcRenderer.invoke('snapshots:collectGarbage', params),
     setCurrentBranch: (branch: string) =>
       ipcRenderer.invoke('snapshots:setCurrentBranch', branch)
   },
@@ -463,6 +591,9 @@ const electronAPI = {
     discardChanges: (files: string[]) => ipcRenderer.invoke('git:discardChanges', files),
     stash: (message?: string) => ipcRenderer.invoke('git:stash', message),
     getFileAtHead: (filePath: string) => ipcRenderer.invoke('git:getFileAtHead', filePath),
+    getConflictVersions: (filePath: string) => ipcRenderer.invoke('git:getConflictVersions', filePath),
+    resolveConflict: (filePath: string, content: string | null) =>
+      ipcRenderer.invoke('git:resolveConflict', filePath, content),
     init: () => ipcRenderer.invoke('git:init'),
     clone: (url: string, localPath?: string) => ipcRenderer.invoke('git:clone', url, localPath),
     checkIsRepo: () => ipcRenderer.invoke('git:checkIsRepo'),
@@ -470,6 +601,7 @@ const electronAPI = {
   },
   worktree: {
     list: () => ipcRenderer.invoke('worktree:list'),
+    mainPath: () => ipcRenderer.invoke('worktree:mainPath'),
     create: (branchName: string, sessionName?: string, sessionDescription?: string, metadata?: any) => 
       ipcRenderer.invoke('worktree:create', branchName, sessionName, sessionDescription, metadata),
     remove: (worktreePath: string, force?: boolean) => 
@@ -485,7 +617,21 @@ const electronAPI = {
       ipcRenderer.invoke('worktree:deleteSession', sessionId),
     lock: (worktreePath: string, lock: boolean) => 
       ipcRenderer.invoke('worktree:lock', worktreePath, lock),
-    prune: () => ipcRenderer.invoke('worktree:prune')
+    prune: () => ipcRenderer.invoke('worktree:prune'),
+    previewMerge: (worktreePath: string) =>
+      ipcRenderer.invoke('worktree:previewMerge', worktreePath),
+    startMerge: (worktreePath: string, options: { strategy: 'merge' | 'squash' | 'rebase'; commitUncommitted?: string }) =>
+      ipcRenderer.invoke('worktree:startMerge', worktreePath, options),
+    getMergeConflict: (repoPath: string, filePath: string) =>
+      ipcRenderer.invoke('worktree:getMergeConflict', repoPath, filePath),
+    resolveMergeConflict: (repoPath: string, filePath: string, content: string | null) =>
+      ipcRenderer.invoke('worktree:resolveMergeConflict', repoPath, filePath, content),
+    continueMerge: (worktreePath: string, options: { strategy: 'merge' | 'squash' | 'rebase'; message?: string }) =>
+      ipcRenderer.invoke('worktree:continueMerge', worktreePath, options),
+    abortMerge: (worktreePath: string, strategy: 'merge' | 'squash' | 'rebase') =>
+      ipcRenderer.invoke('worktree:abortMerge', worktreePath, strategy),
+    cleanupMerged: (worktreePath: string, options: { deleteBranch: boolean; strategy: 'merge' | 'squash' | 'rebase' }) =>
+      ipcRenderer.invoke('worktree:cleanupMerged', worktreePath, options)
   },
   gitHooks: {
     install: (options?: any) => ipcRenderer.invoke('git-hooks:install', options),
@@ -507,6 +653,10 @@ const electronAPI = {
     createBranch: (workspacePath: string, branchName: string, startPoint?: string) =>
       ipcRenderer.invoke('git-timeline:createBranch', workspacePath, branchName, startPoint)
   },
+  orchestration: {
+    runTests: (params: { cwd: string; command: string; timeoutMs?: number }) =>
+      ipcRenderer.invoke('orchestration:runTests', params)
+  },
   
   // Time Machine events
   onTimeMachineFileOperation: (callback: (data: any) => void) => {
@@ -0,0 +1,206 @@
+/**
+ * Collaborative editing host
+ * Keeps the shared copy of every file the desktop and remote devices edit
+ * together, relays edits and cursors between them and writes the merged text
+ * back to disk
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TextCrdt } from './text-crdt.js';
+import { RemoteEvent } from './remote-protocol.js';
+// Edits are written back once typing pauses
+const SAVE_DELAY = 1000;
+const PARTICIPANT_COLORS = [
+    '#5CA0F2', '#F0B429', '#E5484D', '#30A46C', '#8E4EC6', '#F76808', '#12A594', '#D6409F'
+];
+export class CollabHost {
+    getWorkspacePath;
+    clients = new Map();
+    documents = new Map();
+    nextColor = 0;
+    constructor(getWorkspacePath = () => undefined) {
+        this.getWorkspacePath = getWorkspacePath;
+    }
+    /**
+     * Register a desktop window or remote device. Connecting again with the
+     * same id (e.g. after its handlers were re-registered) keeps its sessions.
+     */
+    connect(connection) {
+        const existing = this.clients.get(connection.id);
+        const client = {
+            ...connection,
+            color: existing?.color || PARTICIPANT_COLORS[this.nextColor++ % PARTICIPANT_COLORS.length]
+        };
+        this.clients.set(connection.id, client);
+        // Current presence, so file trees can show it straight away
+        client.send(RemoteEvent.COLLAB_PRESENCE, this.getPresence(client.id));
+        return this.toParticipant(client);
+    }
+    disconnect(clientId) {
+        for (const document of [...this.documents.values()]) {
+            if (document.participants.has(clientId)) {
+                this.removeParticipant(document, clientId);
+            }
+        }
+        this.clients.delete(clientId);
+        this.broadcastPresence();
+    }
+    /**
+     * Join the shared session of a file, starting one from the client's copy
+     * if nobody has the file open
+     */
+    join(clientId, request, readOnly = false) {
+        const client = this.getClient(clientId);
+        const filePath = this.resolvePath(request.path);
+        let document = this.documents.get(filePath);
+        if (!document) {
+            document = {
+                path: filePath,
+                crdt: TextCrdt.fromText('host', request.content),
+                participants: new Set(),
+                saveTimer: null
+            };
+            this.documents.set(filePath, document);
+        }
+        document.participants.add(clientId);
+        this.broadcastPresence();
+        return {
+            path: filePath,
+            // Fresh per join, so operations from an earlier visit can't collide
+            clientId: `${clientId}-${Date.now().toString(36)}`,
+            snapshot: document.crdt.snapshot(),
+            self: this.toParticipant(client),
+            participants: this.getParticipants(document),
+            readOnly
+        };
+    }
+    leave(clientId, requestPath) {
+        const document = this.documents.get(this.resolvePath(requestPath));
+        if (document?.participants.has(clientId)) {
+            this.removeParticipant(document, clientId);
+            this.broadcastPresence();
+        }
+    }
+    /**
+     * Apply a participant's edits and pass them on to everyone else in the file
+     */
+    update(clientId, request) {
+        const document = this.getJoinedDocument(clientId, request.path);
+        for (const operation of request.operations) {
+            document.crdt.apply(operation);
+        }
+        const event = {
+            path: document.path,
+            operations: request.operations,
+            from: clientId
+        };
+        this.sendToParticipants(document, RemoteEvent.COLLAB_UPDATE, event, clientId);
+        // The desktop editor saves its own edits; what remote devices type is
+        // only on disk once the host writes it
+        if (this.hasRemoteParticipant(document)) {
+            this.scheduleSave(document);
+        }
+    }
+    moveCursor(clientId, request) {
+        const document = this.getJoinedDocument(clientId, request.path);
+        const event = {
+            path: document.path,
+            participant: this.toParticipant(this.getClient(clientId)),
+            anchor: request.anchor,
+            head: request.head
+        };
+        this.sendToParticipants(document, RemoteEvent.COLLAB_CURSOR, event, clientId);
+    }
+    /**
+     * Who is in which file, as seen by one client
+     */
+    getPresence(clientId) {
+        const files = {};
+        for (const document of this.documents.values()) {
+            files[document.path] = this.getParticipants(document);
+        }
+        const client = clientId ? this.clients.get(clientId) : undefined;
+        return { files, self: client ? this.toParticipant(client) : undefined };
+    }
+    removeParticipant(document, clientId) {
+        document.participants.delete(clientId);
+        // Let the others drop this participant's cursor
+        const client = this.clients.get(clientId);
+        if (client) {
+            const event = {
+                path: document.path,
+                participant: this.toParticipant(client),
+                anchor: null,
+                head: null,
+                left: true
+            };
+            this.sendToParticipants(document, RemoteEvent.COLLAB_CURSOR, event, clientId);
+        }
+        if (document.participants.size === 0) {
+            if (document.saveTimer) {
+                clearTimeout(document.saveTimer);
+                this.save(document);
+            }
+            this.documents.delete(document.path);
+        }
+    }
+    scheduleSave(document) {
+        if (document.saveTimer) {
+            clearTimeout(document.saveTimer);
+        }
+        document.saveTimer = setTimeout(() => this.save(document), SAVE_DELAY);
+    }
+    save(document) {
+        document.saveTimer = null;
+        fs.writeFile(document.path, document.crdt.getText(), 'utf8').catch(error => {
+            console.error(`[CollabHost] Failed to save ${document.path}:`, error);
+        });
+    }
+    hasRemoteParticipant(document) {
+        for (const id of document.participants) {
+            if (this.clients.get(id)?.isRemote)
+                return true;
+        }
+        return false;
+    }
+    sendToParticipants(document, event, data, exceptId) {
+        for (const id of document.participants) {
+            if (id === exceptId)
+                continue;
+            this.clients.get(id)?.send(event, data);
+        }
+    }
+    broadcastPresence() {
+        for (const client of this.clients.values()) {
+            client.send(RemoteEvent.COLLAB_PRESENCE, this.getPresence(client.id));
+        }
+    }
+    getParticipants(document) {
+        return [...document.participants]
+            .map(id => this.clients.get(id))
+            .filter((client) => !!client)
+            .map(client => this.toParticipant(client));
+    }
+    getJoinedDocument(clientId, requestPath) {
+        const document = this.documents.get(this.resolvePath(requestPath));
+        if (!document || !document.participants.has(clientId)) {
+            throw new Error(`Not editing ${requestPath}`);
+        }
+        return document;
+    }
+    getClient(clientId) {
+        const client = this.clients.get(clientId);
+        if (!client) {
+            throw new Error('Not connected to the collaboration host');
+        }
+        return client;
+    }
+    toParticipant(client) {
+        return { id: client.id, name: client.name, color: client.color };
+    }
+    // Remote editors use workspace-relative paths, the desktop absolute ones
+    resolvePath(requestPath) {
+        const workspacePath = this.getWorkspacePath();
+        return path.normalize(workspacePath ? path.resolve(workspacePath, requestPath) : requestPath);
+    }
+}
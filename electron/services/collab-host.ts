@@ -0,0 +1,249 @@
+/**
+ * Collaborative editing host
+ * Keeps the shared copy of every file the desktop and remote devices edit
+ * together, relays edits and cursors between them and writes the merged text
+ * back to disk
+ */
+import { promises as fs } from 'fs';
+import path from 'path';
+import { TextCrdt } from './text-crdt.js';
+import { CollabProtocol, RemoteEvent } from './remote-protocol.js';
+
+export interface CollabConnection {
+  id: string;
+  name: string;
+  // Remote devices have no other way of saving what they type
+  isRemote: boolean;
+  send(event: RemoteEvent, data: any): void;
+}
+
+interface ConnectedClient extends CollabConnection {
+  color: string;
+}
+
+interface SharedDocument {
+  path: string;
+  crdt: TextCrdt;
+  participants: Set<string>;
+  saveTimer: NodeJS.Timeout | null;
+}
+
+// Edits are written back once typing pauses
+const SAVE_DELAY = 1000;
+
+const PARTICIPANT_COLORS = [
+  '#5CA0F2', '#F0B429', '#E5484D', '#30A46C', '#8E4EC6', '#F76808', '#12A594', '#D6409F'
+];
+
+export class CollabHost {
+  private clients: Map<string, ConnectedClient> = new Map();
+  private documents: Map<string, SharedDocument> = new Map();
+  private nextColor = 0;
+
+  constructor(private getWorkspacePath: () => string | undefined = () => undefined) {}
+
+  /**
+   * Register a desktop window or remote device. Connecting again with the
+   * same id (e.g. after its handlers were re-registered) keeps its sessions.
+   */
+  connect(connection: CollabConnection): CollabProtocol.Participant {
+    const existing = this.clients.get(connection.id);
+    const client: ConnectedClient = {
+      ...connection,
+      color: existing?.color || PARTICIPANT_COLORS[this.nextColor++ % PARTICIPANT_COLORS.length]
+    };
+    this.clients.set(connection.id, client);
+
+    // Current presence, so file trees can show it straight away
+    client.send(RemoteEvent.COLLAB_PRESENCE, this.getPresence(client.id));
+    return this.toParticipant(client);
+  }
+
+  disconnect(clientId: string): void {
+    for (const document of [...this.documents.values()]) {
+      if (document.participants.has(clientId)) {
+        this.removeParticipant(document, clientId);
+      }
+    }
+    this.clients.delete(clientId);
+    this.broadcastPresence();
+  }
+
+  /**
+   * Join the shared session of a file, starting one from the client's copy
+   * if nobody has the file open
+   */
+  join(clientId: string, request: CollabProtocol.JoinRequest, readOnly = false): CollabProtocol.JoinResponse {
+    const client = this.getClient(clientId);
+    const filePath = this.resolvePath(request.path);
+
+    let document = this.documents.get(filePath);
+    if (!document) {
+      document = {
+        path: filePath,
+        crdt: TextCrdt.fromText('host', request.content),
+        participants: new Set(),
+        saveTimer: null
+      };
+      this.documents.set(filePath, document);
+    }
+    document.participants.add(clientId);
+    this.broadcastPresence();
+
+    return {
+      path: filePath,
+      // Fresh per join, so operations from an earlier visit can't collide
+      clientId: `${clientId}-${Date.now().toString(36)}`,
+      snapshot: document.crdt.snapshot(),
+      self: this.toParticipant(client),
+      participants: this.getParticipants(document),
+      readOnly
+    };
+  }
+
+  leave(clientId: string, requestPath: string): void {
+    const document = this.documents.get(this.resolvePath(requestPath));
+    if (document?.participants.has(clientId)) {
+      this.removeParticipant(document, clientId);
+      this.broadcastPresence();
+    }
+  }
+
+  /**
+   * Apply a participant's edits and pass them on to everyone else in the file
+   */
+  update(clientId: string, request: CollabProtocol.UpdateRequest): void {
+    const document = this.getJoinedDocument(clientId, request.path);
+    for (const operation of request.operations) {
+      document.crdt.apply(operation);
+    }
+
+    const event: CollabProtocol.UpdateEvent = {
+      path: document.path,
+      operations: request.operations,
+      from: clientId
+    };
+    this.sendToParticipants(document, RemoteEvent.COLLAB_UPDATE, event, clientId);
+
+    // The desktop editor saves its own edits; what remote devices type is
+    // only on disk once the host writes it
+    if (this.hasRemoteParticipant(document)) {
+      this.scheduleSave(document);
+    }
+  }
+
+  moveCursor(clientId: string, request: CollabProtocol.CursorRequest): void {
+    const document = this.getJoinedDocument(clientId, request.path);
+    const event: CollabProtocol.CursorEvent = {
+      path: document.path,
+      participant: this.toParticipant(this.getClient(clientId)),
+      anchor: request.anchor,
+      head: request.head
+    };
+    this.sendToParticipants(document, RemoteEvent.COLLAB_CURSOR, event, clientId);
+  }
+
+  /**
+   * Who is in which file, as seen by one client
+   */
+  getPresence(clientId?: string): CollabProtocol.PresenceEvent {
+    const files: Record<string, CollabProtocol.Participant[]> = {};
+    for (const document of this.documents.values()) {
+      files[document.path] = this.getParticipants(document);
+    }
+    const client = clientId ? this.clients.get(clientId) : undefined;
+    return { files, self: client ? this.toParticipant(client) : undefined };
+  }
+
+  private removeParticipant(document: SharedDocument, clientId: string): void {
+    document.participants.delete(clientId);
+
+    // Let the others drop this participant's cursor
+    const client = this.clients.get(clientId);
+    if (client) {
+      const event: CollabProtocol.CursorEvent = {
+        path: document.path,
+        participant: this.toParticipant(client),
+        anchor: null,
+        head: null,
+        left: true
+      };
+      this.sendToParticipants(document, RemoteEvent.COLLAB_CURSOR, event, clientId);
+    }
+
+    if (document.participants.size === 0) {
+      if (document.saveTimer) {
+        clearTimeout(document.saveTimer);
+        this.save(document);
+      }
+      this.documents.delete(document.path);
+    }
+  }
+
+  private scheduleSave(document: SharedDocument): void {
+    if (document.saveTimer) {
+      clearTimeout(document.saveTimer);
+    }
+    document.saveTimer = setTimeout(() => this.save(document), SAVE_DELAY);
+  }
+
+  private save(document: SharedDocument): void {
+    document.saveTimer = null;
+    fs.writeFile(document.path, document.crdt.getText(), 'utf8').catch(error => {
+      console.error(`[CollabHost] Failed to save ${document.path}:`, error);
+    });
+  }
+
+  private hasRemoteParticipant(document: SharedDocument): boolean {
+    for (const id of document.participants) {
+      if (this.clients.get(id)?.isRemote) return true;
+    }
+    return false;
+  }
+
+  private sendToParticipants(document: SharedDocument, event: RemoteEvent, data: any, exceptId?: string): void {
+    for (const id of document.participants) {
+      if (id === exceptId) continue;
+      this.clients.get(id)?.send(event, data);
+    }
+  }
+
+  private broadcastPresence(): void {
+    for (const client of this.clients.values()) {
+      client.send(RemoteEvent.COLLAB_PRESENCE, this.getPresence(client.id));
+    }
+  }
+
+  private getParticipants(document: SharedDocument): CollabProtocol.Participant[] {
+    return [...document.participants]
+      .map(id => this.clients.get(id))
+      .filter((client): client is ConnectedClient => !!client)
+      .map(client => this.toParticipant(client));
+  }
+
+  private getJoinedDocument(clientId: string, requestPath: string): SharedDocument {
+    const document = this.documents.get(this.resolvePath(requestPath));
+    if (!document || !document.participants.has(clientId)) {
+      throw new Error(`Not editing ${requestPath}`);
+    }
+    return document;
+  }
+
+  private getClient(clientId: string): ConnectedClient {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      throw new Error('Not connected to the collaboration host');
+    }
+    return client;
+  }
+
+  private toParticipant(client: ConnectedClient): CollabProtocol.Participant {
+    return { id: client.id, name: client.name, color: client.color };
+  }
+
+  // Remote editors use workspace-relative paths, the desktop absolute ones
+  private resolvePath(requestPath: string): string {
+    const workspacePath = this.getWorkspacePath();
+    return path.normalize(workspacePath ? path.resolve(workspacePath, requestPath) : requestPath);
+  }
+}
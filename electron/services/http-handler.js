@@ -1,6 +1,10 @@
 // HTTP request handler for relay client
 // Handles HTTP-over-WebSocket requests from relay server
 import http from 'http';
+import path from 'path';
+// The relay sees this traffic in the clear, so it only serves the web UI itself.
+// Files, git and workspace routes stay reachable over the encrypted socket only.
+const SAFE_METHODS = new Set(['GET', 'HEAD']);
 export class HttpHandler {
     localPort;
     localHost;
@@ -11,6 +15,15 @@ export class HttpHandler {
     // Set up handlers on the relay socket
     setupHandlers(relaySocket) {
         relaySocket.on('http:request', async (requestData) => {
+            if (!this.isStaticRequest(requestData)) {
+                relaySocket.emit('http:response', {
+                    id: requestData.id,
+                    status: 403,
+                    headers: { 'content-type': 'text/plain' },
+                    body: Buffer.from('Forbidden').toString('base64')
+                });
+                return;
+            }
             try {
                 const response = await this.handleHttpRequest(requestData);
                 relaySocket.emit('http:response', response);
@@ -26,6 +39,20 @@ export class HttpHandler {
             }
         });
     }
+    isStaticRequest(requestData) {
+        const method = String(requestData?.method || '').toUpperCase();
+        if (!SAFE_METHODS.has(method) || typeof requestData.url !== 'string')
+            return false;
+        let pathname;
+        try {
+            pathname = decodeURIComponent(new URL(requestData.url, 'http://localhost').pathname);
+        }
+        catch {
+            return false;
+        }
+        const normalized = path.posix.normalize(pathname).toLowerCase();
+        return normalized !== '/api' && !normalized.startsWith('/api/');
+    }
     async handleHttpRequest(requestData) {
         return new Promise((resolve, reject) => {
             const { id, method, url, headers, body } = requestData;
@@ -4,6 +4,11 @@
 import { Socket } from 'socket.io-client';
 import http from 'http';
 import https from 'https';
+import path from 'path';
+
+// The relay sees this traffic in the clear, so it only serves the web UI itself.
+// Files, git and workspace routes stay reachable over the encrypted socket only.
+const SAFE_METHODS = new Set(['GET', 'HEAD']);
 
 export class HttpHandler {
   constructor(
@@ -14,6 +19,16 @@ export class HttpHandler {
   // Set up handlers on the relay socket
   setupHandlers(relaySocket: Socket) {
     relaySocket.on('http:request', async (requestData: any) => {
+      if (!this.isStaticRequest(requestData)) {
+        relaySocket.emit('http:response', {
+          id: requestData.id,
+          status: 403,
+          headers: { 'content-type': 'text/plain' },
+          body: Buffer.from('Forbidden').toString('base64')
+        });
+        return;
+      }
+
       try {
         const response = await this.handleHttpRequest(requestData);
         relaySocket.emit('http:response', response);
@@ -29,6 +44,20 @@ export class HttpHandler {
     });
   }
 
+  private isStaticRequest(requestData: any): boolean {
+    const method = String(requestData?.method || '').toUpperCase();
+    if (!SAFE_METHODS.has(method) || typeof requestData.url !== 'string') return false;
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(requestData.url, 'http://localhost').pathname);
+    } catch {
+      return false;
+    }
+    const normalized = path.posix.normalize(pathname).toLowerCase();
+    return normalized !== '/api' && !normalized.startsWith('/api/');
+  }
+
   private async handleHttpRequest(requestData: any): Promise<any> {
     return new Promise((resolve, reject) => {
       const { id, method, url, headers, body } = requestData;
@@ -3,6 +3,8 @@ import { EventEmitter } from 'events';
 import { v4 as uuidv4 } from 'uuid';
 import Store from 'electron-store';
 import { HttpHandler } from './http-handler.js';
+import { E2EServerHandshake } from './relay-e2e.js';
+import { TokenStore } from './token-store.js';
 export class RelayClient extends EventEmitter {
     relayUrl;
     localPort;
@@ -14,6 +16,9 @@ export class RelayClient extends EventEmitter {
     maxReconnectAttempts = 10;
     httpHandler;
     socketIoPort = 3789; // Socket.IO server port
+    // Encrypted channel to the remote client currently bridged through the relay
+    handshake = null;
+    e2eSession = null;
     constructor(relayUrl = process.env.RELAY_URL || 'wss://relay.clode.studio', localPort = 3000 // HTTP proxy port for Nuxt UI
     ) {
         super();
@@ -80,47 +85,127 @@ export class RelayClient extends EventEmitter {
             });
         });
     }
+    /**
+     * Bridge the remote client to the local Socket.IO server. Nothing reaches
+     * the local server until the client has set up an end-to-end encrypted
+     * channel, so the relay only ever carries ciphertext.
+     */
     setupLocalBridge() {
         if (!this.relaySocket)
             return;
-        // Connect to local Socket.IO server (port 3789, not HTTP port 3000)
-        this.localSocket = io(`http://localhost:${this.socketIoPort}`, {
-            transports: ['websocket'],
-            reconnection: true
+        const relay = this.relaySocket;
+        relay.on('e2e:hello', (hello) => {
+            // The bridged client stays up until the new one completes its handshake
+            try {
+                this.handshake = new E2EServerHandshake(this.getSessionId(), hello);
+                relay.emit('e2e:challenge', this.handshake.challenge);
+            }
+            catch (error) {
+                relay.emit('e2e:error', { message: error instanceof Error ? error.message : String(error) });
+            }
+        });
+        relay.on('e2e:confirm', async (confirm) => {
+            const handshake = this.handshake;
+            if (!handshake)
+                return;
+            // The client proves it holds a token from one of our QR codes
+            const tokens = TokenStore.getInstance().getUsableTokens();
+            let accepted = null;
+            try {
+                accepted = handshake.accept(confirm, tokens.map(token => token.token));
+            }
+            catch (error) {
+                console.error('[RelayClient] Handshake failed:', error);
+            }
+            this.handshake = null;
+            if (!accepted) {
+                relay.emit('e2e:error', { message: 'Device token not recognized. Scan a fresh QR code.' });
+                return;
+            }
+            // A new client replaces the one bridged before it
+            this.closeLocalSession();
+            this.e2eSession = accepted.session;
+            relay.emit('e2e:ready', accepted.ready);
+            const credentials = tokens.find(token => token.token === accepted.token);
+            this.openLocalSession(credentials, handshake.hello.clientName);
         });
-        this.localSocket.on('connect', () => {
-            // Request-response tracking for callback preservation
-            const pendingRequests = new Map();
-            // Handle special request-response pattern from relay
-            this.relaySocket.on('bridge:request', (data) => {
-                const { requestId, event, args } = data;
-                // Emit to local with callback that sends response back through relay
-                this.localSocket.emit(event, ...args, (response) => {
-                    this.relaySocket.emit('bridge:response', {
-                        requestId,
-                        response
-                    });
+        relay.on('e2e:msg', (envelope) => {
+            if (!this.e2eSession || !this.localSocket)
+                return;
+            let payload;
+            try {
+                payload = this.e2eSession.open(envelope);
+            }
+            catch (error) {
+                // Anyone in the relay session can send these; only sealed messages count
+                console.error('[RelayClient] Dropping message that failed to open:', error);
+                return;
+            }
+            if (payload.t === 'req') {
+                const { id } = payload;
+                this.localSocket.emit(payload.e, ...payload.a, (response) => {
+                    this.sendEncrypted({ t: 'res', id, r: response });
                 });
+            }
+            else if (payload.t === 'event') {
+                this.localSocket.emit(payload.e, ...payload.a);
+            }
+        });
+        // Clients that skip encryption are turned away
+        relay.on('bridge:request', (data) => {
+            relay.emit('bridge:response', {
+                requestId: data.requestId,
+                response: {
+                    success: false,
+                    error: { code: 'E2E_REQUIRED', message: 'This desktop only accepts end-to-end encrypted connections' }
+                }
             });
-            // Forward regular events from relay to local (no callback)
-            this.relaySocket.onAny((event, ...args) => {
-                // Skip internal events and bridge events
-                if (event.startsWith('$') || event.startsWith('relay:') || event.startsWith('bridge:'))
-                    return;
-                this.localSocket.emit(event, ...args);
-            });
-            // Forward events from local to relay
-            this.localSocket.onAny((event, ...args) => {
-                // Skip internal events
-                if (event.startsWith('$'))
-                    return;
-                this.relaySocket.emit(event, ...args);
-            });
         });
-        this.localSocket.on('connect_error', (error) => {
+        relay.on('relay:client-disconnected', () => {
+            this.closeLocalSession();
+        });
+    }
+    /**
+     * Connect to the local Socket.IO server on behalf of the remote client,
+     * with the device token it proved
+     */
+    openLocalSession(credentials, clientName) {
+        const localSocket = io(`http://localhost:${this.socketIoPort}`, {
+            transports: ['websocket'],
+            reconnection: true,
+            forceNew: true,
+            auth: credentials
+                ? { token: credentials.token, deviceId: credentials.deviceId, clientName }
+                : {}
+        });
+        this.localSocket = localSocket;
+        localSocket.onAny((event, ...args) => {
+            // Reconnect with the rotated token so the client stays one trusted device.
+            // The client gets it too (sealed), as its next handshake needs it.
+            if (event === 'connection:token' && args[0]?.token) {
+                localSocket.auth = { ...localSocket.auth, token: args[0].token, deviceId: args[0].deviceId };
+            }
+            this.sendEncrypted({ t: 'event', e: event, a: args });
+        });
+        localSocket.on('connect_error', (error) => {
             console.error('[RelayClient] Local connection error:', error.message);
         });
     }
+    sendEncrypted(payload) {
+        if (!this.e2eSession || !this.relaySocket)
+            return;
+        this.relaySocket.emit('e2e:msg', this.e2eSession.seal(payload));
+    }
+    closeLocalSession() {
+        this.handshake = null;
+        this.e2eSession = null;
+        if (this.localSocket) {
+            this.localSocket.removeAllListeners();
+            this.localSocket.offAny();
+            this.localSocket.disconnect();
+            this.localSocket = null;
+        }
+    }
     getInfo() {
         return this.relayInfo;
     }
@@ -140,7 +225,7 @@ export class RelayClient extends EventEmitter {
         return this.reconnectAttempts;
     }
     disconnect() {
-        this.localSocket?.disconnect();
+        this.closeLocalSession();
         this.relaySocket?.disconnect();
         this.relayInfo = null;
     }
@@ -0,0 +1,135 @@
+/**
+ * End-to-end encryption for sessions bridged through the relay server
+ * The remote client and the desktop agree on keys with an ephemeral ECDH
+ * (P-256) exchange that is authenticated by the device token from the QR
+ * link, so a relay that never saw the token can neither read nor tamper with
+ * traffic.
+ * The browser side lives in services/remote-client/E2EChannel.ts and must
+ * derive keys exactly the same way.
+ */
+import { createCipheriv, createDecipheriv, createECDH, createHmac, hkdfSync, randomBytes, timingSafeEqual } from 'crypto';
+export const E2E_PROTOCOL = 'clode-e2e-v2';
+export const E2E_VERSION = 2;
+const KEY_INFO = `${E2E_PROTOCOL} keys`;
+const BINARY_MARKER = '__e2eBinary';
+/**
+ * Desktop half of the handshake. The client proves it holds a device token
+ * first; the desktop tries the tokens it has issued and answers with its own
+ * proof once one matches.
+ */
+export class E2EServerHandshake {
+    hello;
+    ecdh = createECDH('prime256v1');
+    transcript;
+    challenge;
+    constructor(sessionId, hello) {
+        this.hello = hello;
+        if (hello.version !== E2E_VERSION) {
+            throw new Error(`Unsupported encryption version ${hello.version}`);
+        }
+        this.ecdh.generateKeys();
+        this.challenge = {
+            serverKey: this.ecdh.getPublicKey('base64'),
+            serverNonce: randomBytes(16).toString('base64')
+        };
+        this.transcript = [
+            E2E_PROTOCOL,
+            sessionId,
+            hello.clientKey,
+            hello.clientNonce,
+            this.challenge.serverKey,
+            this.challenge.serverNonce
+        ].join('|');
+    }
+    /**
+     * Check the client's proof against each candidate device token
+     */
+    accept(confirm, tokens) {
+        const shared = this.ecdh.computeSecret(Buffer.from(this.hello.clientKey, 'base64'));
+        const expected = Buffer.from(confirm.proof || '', 'base64');
+        for (const token of tokens) {
+            const keys = deriveKeys(shared, token, this.transcript);
+            const proof = createHmac('sha256', keys.confirm).update(`client|${this.transcript}`).digest();
+            if (proof.length === expected.length && timingSafeEqual(proof, expected)) {
+                return {
+                    session: new E2ESession(keys.serverToClient, keys.clientToServer),
+                    token,
+                    ready: {
+                        proof: createHmac('sha256', keys.confirm).update(`server|${this.transcript}`).digest('base64')
+                    }
+                };
+            }
+        }
+        return null;
+    }
+}
+/**
+ * AES-256-GCM in both directions. Counters must arrive in order, so a relay
+ * can't replay, drop or reorder messages without the channel noticing.
+ */
+export class E2ESession {
+    sendKey;
+    receiveKey;
+    sendCounter = 0;
+    receiveCounter = 0;
+    constructor(sendKey, receiveKey) {
+        this.sendKey = sendKey;
+        this.receiveKey = receiveKey;
+    }
+    seal(payload) {
+        const n = this.sendCounter++;
+        const cipher = createCipheriv('aes-256-gcm', this.sendKey, counterIv(n));
+        const ciphertext = Buffer.concat([cipher.update(encodePayload(payload), 'utf-8'), cipher.final()]);
+        return { n, c: Buffer.concat([ciphertext, cipher.getAuthTag()]).toString('base64') };
+    }
+    open(envelope) {
+        if (envelope.n !== this.receiveCounter) {
+            throw new Error(`Expected message ${this.receiveCounter}, got ${envelope.n}`);
+        }
+        const sealed = Buffer.from(envelope.c, 'base64');
+        const decipher = createDecipheriv('aes-256-gcm', this.receiveKey, counterIv(envelope.n));
+        decipher.setAuthTag(sealed.subarray(sealed.length - 16));
+        const plaintext = Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - 16)), decipher.final()]);
+        this.receiveCounter++;
+        return decodePayload(plaintext.toString('utf-8'));
+    }
+}
+// The token is 32 random bytes, so unlike the pairing code it can't be
+// guessed offline from a recorded handshake
+function deriveKeys(shared, token, transcript) {
+    const psk = createHmac('sha256', token).update(transcript).digest();
+    const keys = Buffer.from(hkdfSync('sha256', shared, psk, KEY_INFO, 96));
+    return {
+        clientToServer: keys.subarray(0, 32),
+        serverToClient: keys.subarray(32, 64),
+        confirm: keys.subarray(64, 96)
+    };
+}
+function counterIv(n) {
+    const iv = Buffer.alloc(12);
+    iv.writeUInt32BE(Math.floor(n / 0x100000000), 4);
+    iv.writeUInt32BE(n >>> 0, 8);
+    return iv;
+}
+// JSON with Buffers kept binary (terminal output is sent as Buffers)
+function encodePayload(payload) {
+    return JSON.stringify(payload, function (key, value) {
+        const raw = this[key];
+        if (Buffer.isBuffer(raw))
+            return { [BINARY_MARKER]: raw.toString('base64') };
+        if (raw instanceof ArrayBuffer)
+            return { [BINARY_MARKER]: Buffer.from(raw).toString('base64') };
+        if (ArrayBuffer.isView(raw)) {
+            return { [BINARY_MARKER]: Buffer.from(raw.buffer, raw.byteOffset, raw.byteLength).toString('base64') };
+        }
+        return value;
+    });
+}
+function decodePayload(text) {
+    return JSON.parse(text, (key, value) => {
+        if (value && typeof value === 'object' && typeof value[BINARY_MARKER] === 'string') {
+            return Buffer.from(value[BINARY_MARKER], 'base64');
+        }
+        return value;
+    });
+}
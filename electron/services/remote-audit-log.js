@@ -0,0 +1,329 @@
+/**
+ * Audit log for remote sessions
+ * Append-only record of every request made by remote devices, persisted per
+ * workspace under the app's data directory, out of reach of remote file
+ * access. Each entry carries the hash of the previous one, so edits, removals
+ * and reordering break the chain, and the last entry's hash is kept in a
+ * separate head file, so a truncated or deleted log is noticed too.
+ */
+import { createHash, randomBytes } from 'crypto';
+import { createReadStream } from 'fs';
+import * as fs from 'fs/promises';
+import path from 'path';
+import { createInterface } from 'readline';
+const GENESIS_HASH = '0'.repeat(64);
+const MAX_DETAIL_LENGTH = 200;
+const DEFAULT_QUERY_LIMIT = 200;
+// Only the tail is read to pick the chain back up after a restart
+const TAIL_BYTES = 64 * 1024;
+/**
+ * Pull the terminal, Claude instance and a short description of the input
+ * out of a remote request's arguments
+ */
+export function describeRemoteRequest(event, args) {
+    const payload = args[0]?.payload;
+    const target = {};
+    if (typeof payload?.terminalId === 'string')
+        target.terminalId = payload.terminalId;
+    if (typeof payload?.instanceId === 'string')
+        target.instanceId = payload.instanceId;
+    let detail;
+    if (event === 'claude:send' && typeof payload?.data === 'string') {
+        detail = payload.data.length > MAX_DETAIL_LENGTH ? `${payload.data.slice(0, MAX_DETAIL_LENGTH)}…` : payload.data;
+    }
+    else if (event === 'terminal:write' && typeof payload?.data === 'string') {
+        // Keystrokes are not kept, only how much was typed
+        detail = `${payload.data.length} chars`;
+    }
+    else if (event === 'file:write' && typeof payload?.content === 'string') {
+        detail = `${payload.content.length} chars`;
+    }
+    else if (event === 'collab:update' && Array.isArray(payload?.operations)) {
+        detail = `${payload.operations.length} edits`;
+    }
+    return { target: Object.keys(target).length > 0 ? target : undefined, detail };
+}
+export class RemoteAuditLog {
+    getWorkspacePath;
+    baseDir;
+    heads = new Map();
+    // Logs whose last line was cut short, e.g. by a crash mid-write
+    unterminated = new Set();
+    // Appends are serialized so entries link in the order they were recorded
+    queue = Promise.resolve();
+    constructor(getWorkspacePath, baseDir) {
+        this.getWorkspacePath = getWorkspacePath;
+        this.baseDir = baseDir;
+    }
+    getLogPath(workspacePath = this.getWorkspacePath()) {
+        if (!workspacePath)
+            return null;
+        const key = createHash('sha256').update(path.resolve(workspacePath)).digest('hex').slice(0, 16);
+        return path.join(this.baseDir, key, 'remote-audit.jsonl');
+    }
+    /**
+     * Append an entry to the current workspace's log
+     */
+    record(record) {
+        const logPath = this.getLogPath();
+        if (!logPath)
+            return Promise.resolve();
+        const timestamp = new Date().toISOString();
+        this.queue = this.queue
+            .then(() => this.append(logPath, record, timestamp))
+            .catch(error => {
+            console.error('Failed to write remote audit entry:', error);
+        });
+        return this.queue;
+    }
+    /**
+     * Find entries matching a filter, newest first
+     */
+    async query(filter = {}) {
+        const logPath = this.getLogPath();
+        if (!logPath)
+            return { entries: [], total: 0 };
+        await this.queue;
+        const search = filter.search?.trim().toLowerCase();
+        const matches = [];
+        await this.readEntries(logPath, entry => {
+            if (filter.deviceId && entry.deviceId !== filter.deviceId)
+                return;
+            if (filter.sessionId && entry.sessionId !== filter.sessionId)
+                return;
+            if (filter.event && !entry.event.startsWith(filter.event))
+                return;
+            if (filter.outcome && entry.outcome !== filter.outcome)
+                return;
+            if (filter.since && entry.timestamp < filter.since)
+                return;
+            if (filter.until && entry.timestamp > filter.until)
+                return;
+            if (search && !JSON.stringify(entry).toLowerCase().includes(search))
+                return;
+            matches.push(entry);
+        });
+        matches.reverse();
+        const offset = filter.offset || 0;
+        return {
+            entries: matches.slice(offset, offset + (filter.limit || DEFAULT_QUERY_LIMIT)),
+            total: matches.length
+        };
+    }
+    /**
+     * Recompute the hash chain from the first entry
+     */
+    async verify() {
+        const logPath = this.getLogPath();
+        if (!logPath)
+            return { valid: true, entries: 0 };
+        await this.queue;
+        const stored = await this.readStoredHead(logPath);
+        let previous = { seq: 0, hash: GENESIS_HASH };
+        let count = 0;
+        let failure = null;
+        try {
+            await this.readLines(logPath, line => {
+                if (failure)
+                    return;
+                count++;
+                let entry;
+                try {
+                    entry = JSON.parse(line);
+                }
+                catch {
+                    failure = { seq: previous.seq + 1, reason: 'Unreadable entry' };
+                    return;
+                }
+                const { hash, ...body } = entry;
+                if (entry.seq !== previous.seq + 1) {
+                    failure = { seq: entry.seq, reason: `Expected entry ${previous.seq + 1}` };
+                }
+                else if (entry.prevHash !== previous.hash) {
+                    failure = { seq: entry.seq, reason: 'Link to previous entry does not match' };
+                }
+                else if (this.hash(body) !== hash) {
+                    failure = { seq: entry.seq, reason: 'Entry was modified' };
+                }
+                else {
+                    previous = { seq: entry.seq, hash };
+                }
+            });
+        }
+        catch (error) {
+            if (error.code !== 'ENOENT')
+                throw error;
+            if (stored && stored.seq > 0) {
+                return { valid: false, entries: 0, brokenAt: 1, reason: 'Log file is missing' };
+            }
+            return { valid: true, entries: 0 };
+        }
+        if (failure) {
+            const { seq, reason } = failure;
+            return { valid: false, entries: count, brokenAt: seq, reason };
+        }
+        // The log may be one entry ahead of the head after a crash, never behind it
+        if (stored && (previous.seq < stored.seq || (previous.seq === stored.seq && previous.hash !== stored.hash))) {
+            return { valid: false, entries: count, brokenAt: previous.seq + 1, reason: `Log ends before entry ${stored.seq}` };
+        }
+        return { valid: true, entries: count };
+    }
+    /**
+     * Write the log to a file as JSON lines (verbatim, hashes included) or CSV
+     */
+    async export(destination, format) {
+        const logPath = this.getLogPath();
+        if (!logPath)
+            throw new Error('No workspace open');
+        await this.queue;
+        if (format === 'jsonl') {
+            try {
+                await fs.copyFile(logPath, destination);
+            }
+            catch (error) {
+                if (error.code !== 'ENOENT')
+                    throw error;
+                await fs.writeFile(destination, '');
+            }
+            return (await this.verify()).entries;
+        }
+        const columns = [
+            'seq', 'timestamp', 'sessionId', 'userId', 'deviceId', 'deviceName', 'profileId', 'event',
+            'permission', 'path', 'terminalId', 'instanceId', 'detail', 'outcome', 'error', 'prevHash', 'hash'
+        ];
+        const rows = [columns.join(',')];
+        await this.readEntries(logPath, entry => {
+            const values = {
+                ...entry,
+                path: entry.target?.path,
+                terminalId: entry.target?.terminalId,
+                instanceId: entry.target?.instanceId
+            };
+            rows.push(columns.map(column => this.csvValue(values[column])).join(','));
+        });
+        await fs.writeFile(destination, rows.join('\n') + '\n');
+        return rows.length - 1;
+    }
+    async append(logPath, record, timestamp) {
+        const head = await this.getHead(logPath);
+        const body = {
+            seq: head.seq + 1,
+            timestamp,
+            ...record,
+            prevHash: head.hash
+        };
+        const hash = this.hash(body);
+        // Start on a fresh line so a torn entry doesn't swallow this one
+        const separator = this.unterminated.has(logPath) ? '\n' : '';
+        await fs.mkdir(path.dirname(logPath), { recursive: true });
+        await fs.appendFile(logPath, separator + JSON.stringify({ ...body, hash }) + '\n');
+        this.unterminated.delete(logPath);
+        this.heads.set(logPath, { seq: body.seq, hash });
+        await this.writeStoredHead(logPath, { seq: body.seq, hash, workspacePath: this.getWorkspacePath() || '' });
+    }
+    getHeadPath(logPath) {
+        return path.join(path.dirname(logPath), 'head.json');
+    }
+    async readStoredHead(logPath) {
+        try {
+            const head = JSON.parse(await fs.readFile(this.getHeadPath(logPath), 'utf-8'));
+            return typeof head?.seq === 'number' && typeof head.hash === 'string' ? head : null;
+        }
+        catch {
+            return null;
+        }
+    }
+    async writeStoredHead(logPath, head) {
+        const headPath = this.getHeadPath(logPath);
+        const tempPath = `${headPath}.${randomBytes(4).toString('hex')}.tmp`;
+        await fs.writeFile(tempPath, JSON.stringify(head));
+        await fs.rename(tempPath, headPath);
+    }
+    async getHead(logPath) {
+        const cached = this.heads.get(logPath);
+        if (cached)
+            return cached;
+        let head = { seq: 0, hash: GENESIS_HASH };
+        try {
+            const handle = await fs.open(logPath, 'r');
+            try {
+                const { size } = await handle.stat();
+                const length = Math.min(size, TAIL_BYTES);
+                const buffer = Buffer.alloc(length);
+                await handle.read(buffer, 0, length, size - length);
+                const text = buffer.toString('utf-8');
+                if (text && !text.endsWith('\n'))
+                    this.unterminated.add(logPath);
+                // Continue from the last readable entry; verify() reports the damaged ones after it
+                const lines = text.split('\n').filter(line => line.trim());
+                for (let i = lines.length - 1; i >= 0; i--) {
+                    const entry = this.parseEntry(lines[i]);
+                    if (entry) {
+                        head = { seq: entry.seq, hash: entry.hash };
+                        break;
+                    }
+                }
+            }
+            finally {
+                await handle.close();
+            }
+        }
+        catch (error) {
+            if (error.code !== 'ENOENT')
+                throw error;
+        }
+        // A log cut short continues from the stored head, so the gap stays visible
+        const stored = await this.readStoredHead(logPath);
+        if (stored && stored.seq > head.seq) {
+            head = { seq: stored.seq, hash: stored.hash };
+        }
+        this.heads.set(logPath, head);
+        return head;
+    }
+    parseEntry(line) {
+        try {
+            const entry = JSON.parse(line);
+            return typeof entry?.seq === 'number' && typeof entry.hash === 'string' ? entry : null;
+        }
+        catch {
+            return null;
+        }
+    }
+    hash(body) {
+        return createHash('sha256').update(JSON.stringify(body)).digest('hex');
+    }
+    csvValue(value) {
+        if (value === undefined || value === null)
+            return '';
+        const text = String(value);
+        return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    }
+    async readEntries(logPath, onEntry) {
+        try {
+            await this.readLines(logPath, line => {
+                try {
+                    onEntry(JSON.parse(line));
+                }
+                catch {
+                    // Damaged lines are reported by verify()
+                }
+            });
+        }
+        catch (error) {
+            if (error.code !== 'ENOENT')
+                throw error;
+        }
+    }
+    async readLines(logPath, onLine) {
+        // Stream errors don't reach the line iterator, so a missing log is caught up front
+        await fs.access(logPath);
+        const lines = createInterface({
+            input: createReadStream(logPath, { encoding: 'utf-8' }),
+            crlfDelay: Infinity
+        });
+        for await (const line of lines) {
+            if (line.trim())
+                onLine(line);
+        }
+    }
+}
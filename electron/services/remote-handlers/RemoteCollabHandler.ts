@@ -0,0 +1,127 @@
+/**
+ * Remote collaborative editing handler
+ * Connects remote devices to the desktop's collaboration host
+ */
+import type { Socket } from 'socket.io';
+import {
+  CollabProtocol,
+  RemoteRequest,
+  RemoteResponse,
+  Permission
+} from '../remote-protocol.js';
+import type { RemoteSession } from '../remote-session-manager.js';
+import { RemoteSessionManager } from '../remote-session-manager.js';
+import type { CollabHost } from '../collab-host.js';
+
+export class RemoteCollabHandler {
+  constructor(
+    private sessionManager: RemoteSessionManager,
+    private collabHost: CollabHost
+  ) {}
+
+  /**
+   * Register collaboration handlers on a socket
+   */
+  registerHandlers(socket: Socket): void {
+    const session = this.sessionManager.getSessionBySocket(socket.id);
+    // Presence lists open files, so only devices that may read files take part
+    if (session && this.sessionManager.hasPermission(session, Permission.FILE_READ)) {
+      this.collabHost.connect({
+        id: session.id,
+        name: session.deviceName || 'Remote device',
+        isRemote: true,
+        send: (event, data) => socket.emit(event, data)
+      });
+    }
+
+    // Join the shared session of a file
+    socket.on('collab:join', (request: RemoteRequest<CollabProtocol.JoinRequest>, callback) => {
+      this.handle(socket, request, callback, session => this.collabHost.join(
+        session.id,
+        request.payload,
+        !this.canWrite(session, request.payload.path)
+      ));
+    });
+
+    // Leave it again
+    socket.on('collab:leave', (request: RemoteRequest<CollabProtocol.LeaveRequest>, callback) => {
+      this.handle(socket, request, callback, session => {
+        this.collabHost.leave(session.id, request.payload.path);
+      });
+    });
+
+    // Edits
+    socket.on('collab:update', (request: RemoteRequest<CollabProtocol.UpdateRequest>, callback) => {
+      this.handle(socket, request, callback, session => {
+        this.collabHost.update(session.id, request.payload);
+      });
+    });
+
+    // Who is editing which file
+    socket.on('collab:presence', (request: RemoteRequest, callback) => {
+      this.handle(socket, request, callback, session => this.collabHost.getPresence(session.id));
+    });
+
+    // Cursor and selection moves are frequent and fire-and-forget
+    socket.on('collab:cursor', (request: RemoteRequest<CollabProtocol.CursorRequest>) => {
+      const session = this.sessionManager.getSessionBySocket(socket.id);
+      if (!session) return;
+      try {
+        this.collabHost.moveCursor(session.id, request.payload);
+      } catch {
+        // Cursor of a file the device already left
+      }
+    });
+  }
+
+  /**
+   * Leave every shared file when a device goes away
+   */
+  cleanupSocket(socketId: string): void {
+    const session = this.sessionManager.getSessionBySocket(socketId);
+    if (session) {
+      this.collabHost.disconnect(session.id);
+    }
+  }
+
+  private handle<T>(
+    socket: Socket,
+    request: RemoteRequest,
+    callback: ((response: RemoteResponse<T>) => void) | undefined,
+    action: (session: RemoteSession) => T
+  ): void {
+    const respond = typeof callback === 'function' ? callback : () => {};
+
+    const session = this.sessionManager.getSessionBySocket(socket.id);
+    if (!session) {
+      return respond({
+        id: request.id,
+        success: false,
+        error: { code: 'NO_SESSION', message: 'No active session' }
+      });
+    }
+
+    try {
+      respond({
+        id: request.id,
+        success: true,
+        data: action(session)
+      });
+    } catch (error) {
+      respond({
+        id: request.id,
+        success: false,
+        error: {
+          code: 'COLLAB_ERROR',
+          message: (error as Error).message
+        }
+      });
+    }
+  }
+
+  // Devices that can't write the file still follow along read-only
+  private canWrite(session: RemoteSession, filePath: string): boolean {
+    return this.sessionManager.hasPermission(session, Permission.FILE_WRITE) &&
+      this.sessionManager.isPathAllowed(session, filePath, 'write');
+  }
+}
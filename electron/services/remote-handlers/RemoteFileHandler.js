@@ -1,3 +1,4 @@
+import { createHash } from 'crypto';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { Permission } from '../remote-protocol.js';
@@ -65,11 +66,15 @@ export class RemoteFileHandler {
                 });
             }
             // Read file directly
-            const content = await fs.readFile(safePath, request.payload.encoding || 'utf8');
+            const bytes = await fs.readFile(safePath);
+            const content = bytes.toString(request.payload.encoding || 'utf8');
+            const data = request.payload.withHash
+                ? { content, hash: this.hashContent(bytes) }
+                : content;
             callback({
                 id: request.id,
                 success: true,
-                data: content
+                data
             });
         }
         catch (error) {
@@ -102,7 +107,7 @@ export class RemoteFileHandler {
                 });
             }
             // Validate path
-            const safePath = this.validatePath(request.payload.path, session);
+            const safePath = this.validatePath(request.payload.path, session, 'write');
             if (!safePath) {
                 return callback({
                     id: request.id,
@@ -110,11 +115,37 @@ export class RemoteFileHandler {
                     error: { code: 'INVALID_PATH', message: 'Invalid or forbidden path' }
                 });
             }
+            // Edits made against an older version (e.g. queued while offline) must
+            // not overwrite changes made on the desktop in the meantime
+            const encoding = request.payload.encoding || 'utf8';
+            const { baseHash } = request.payload;
+            if (baseHash) {
+                const current = await this.readCurrent(safePath);
+                const currentHash = current === null ? null : this.hashContent(current);
+                if (currentHash !== baseHash) {
+                    const details = {
+                        content: current?.toString(encoding) ?? '',
+                        hash: currentHash
+                    };
+                    return callback({
+                        id: request.id,
+                        success: false,
+                        error: {
+                            code: 'FILE_CONFLICT',
+                            message: current === null ? 'File was deleted on the desktop' : 'File changed on the desktop',
+                            details
+                        }
+                    });
+                }
+            }
             // Write file directly
-            await fs.writeFile(safePath, request.payload.content, request.payload.encoding || 'utf8');
+            const bytes = Buffer.from(request.payload.content, encoding);
+            await fs.writeFile(safePath, bytes);
+            const data = { hash: this.hashContent(bytes) };
             callback({
                 id: request.id,
-                success: true
+                success: true,
+                data
             });
         }
         catch (error) {
@@ -145,7 +176,7 @@ export class RemoteFileHandler {
                     error: { code: 'PERMISSION_DENIED', message: 'File read permission required' }
                 });
             }
-            const safePath = this.validatePath(request.payload.path, session);
+            const safePath = this.validatePath(request.payload.path, session, 'read', true);
             if (!safePath) {
                 return callback({
                     id: request.id,
@@ -154,7 +185,8 @@ export class RemoteFileHandler {
                 });
             }
             // List directory directly
-            const entries = await fs.readdir(safePath, { withFileTypes: true });
+            // Entries outside the profile's read scope are left out
+            const entries = (await fs.readdir(safePath, { withFileTypes: true })).filter(entry => this.sessionManager.isPathAllowed(session, path.join(safePath, entry.name), 'read', entry.isDirectory()));
             const result = await Promise.all(entries.map(async (entry) => {
                 const fullPath = path.join(safePath, entry.name);
                 try {
@@ -212,7 +244,7 @@ export class RemoteFileHandler {
                     error: { code: 'PERMISSION_DENIED', message: 'File delete permission required' }
                 });
             }
-            const safePath = this.validatePath(request.payload.path, session);
+            const safePath = this.validatePath(request.payload.path, session, 'write');
             if (!safePath) {
                 return callback({
                     id: request.id,
@@ -261,7 +293,7 @@ export class RemoteFileHandler {
                     error: { code: 'PERMISSION_DENIED', message: 'File read permission required' }
                 });
             }
-            const safePath = this.validatePath(request.payload.path, session);
+            const safePath = this.validatePath(request.payload.path, session, 'read', true);
             if (!safePath) {
                 return callback({
                     id: request.id,
@@ -316,7 +348,7 @@ export class RemoteFileHandler {
                     error: { code: 'PERMISSION_DENIED', message: 'File read permission required' }
                 });
             }
-            const safePath = this.validatePath(request.payload.path, session);
+            const safePath = this.validatePath(request.payload.path, session, 'read', true);
             if (!safePath) {
                 return callback({
                     id: request.id,
@@ -343,10 +375,24 @@ export class RemoteFileHandler {
             });
         }
     }
+    // Hashes cover the bytes on disk, whatever encoding the client reads them in
+    hashContent(bytes) {
+        return createHash('sha256').update(bytes).digest('hex');
+    }
+    async readCurrent(filePath) {
+        try {
+            return await fs.readFile(filePath);
+        }
+        catch (error) {
+            if (error.code === 'ENOENT')
+                return null;
+            throw error;
+        }
+    }
     /**
      * Validate and sanitize file path for security
      */
-    validatePath(requestPath, session) {
+    validatePath(requestPath, session, access = 'read', isDirectory = false) {
         // Normalize and resolve path
         const normalized = path.normalize(requestPath);
         // TODO: Implement workspace-based path restrictions
@@ -368,6 +414,10 @@ export class RemoteFileHandler {
         if (normalized.includes('..')) {
             return null;
         }
+        // Scoped permission profiles only reach matching paths inside the workspace
+        if (!this.sessionManager.isPathAllowed(session, normalized, access, isDirectory)) {
+            return null;
+        }
         return normalized;
     }
 }
@@ -4,6 +4,7 @@
  */
 import type { BrowserWindow } from 'electron';
 import type { Socket } from 'socket.io';
+import { createHash } from 'crypto';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { 
@@ -14,6 +15,7 @@ import {
 } from '../remote-protocol.js';
 import type { RemoteSession } from '../remote-session-manager.js';
 import { RemoteSessionManager } from '../remote-session-manager.js';
+import type { PathAccess } from '../remote-permissions.js';
 
 export class RemoteFileHandler {
   constructor(
@@ -91,12 +93,16 @@ export class RemoteFileHandler {
       }
       
       // Read file directly
-      const content = await fs.readFile(safePath, request.payload.encoding || 'utf8');
+      const bytes = await fs.readFile(safePath);
+      const content = bytes.toString(request.payload.encoding || 'utf8');
       
+      const data: string | FileProtocol.ReadResponse = request.payload.withHash
+        ? { content, hash: this.hashContent(bytes) }
+        : content;
       callback({
         id: request.id,
         success: true,
-        data: content
+        data
       });
     } catch (error) {
       callback({
@@ -135,7 +141,7 @@ export class RemoteFileHandler {
       }
       
       // Validate path
-      const safePath = this.validatePath(request.payload.path, session);
+      const safePath = this.validatePath(request.payload.path, session, 'write');
       if (!safePath) {
         return callback({
           id: request.id,
@@ -144,12 +150,39 @@ export class RemoteFileHandler {
         });
       }
       
+      // Edits made against an older version (e.g. queued while offline) must
+      // not overwrite changes made on the desktop in the meantime
+      const encoding = request.payload.encoding || 'utf8';
+      const { baseHash } = request.payload;
+      if (baseHash) {
+        const current = await this.readCurrent(safePath);
+        const currentHash = current === null ? null : this.hashContent(current);
+        if (currentHash !== baseHash) {
+          const details: FileProtocol.ConflictDetails = {
+            content: current?.toString(encoding) ?? '',
+            hash: currentHash
+          };
+          return callback({
+            id: request.id,
+            success: false,
+            error: {
+              code: 'FILE_CONFLICT',
+              message: current === null ? 'File was deleted on the desktop' : 'File changed on the desktop',
+              details
+            }
+          });
+        }
+      }
+      
       // Write file directly
-      await fs.writeFile(safePath, request.payload.content, request.payload.encoding || 'utf8');
+      const bytes = Buffer.from(request.payload.content, encoding);
+      await fs.writeFile(safePath, bytes);
       
+      const data: FileProtocol.WriteResponse = { hash: this.hashContent(bytes) };
       callback({
         id: request.id,
-        success: true
+        success: true,
+        data
       });
     } catch (error) {
       callback({
@@ -186,7 +219,7 @@ export class RemoteFileHandler {
         });
       }
       
-      const safePath = this.validatePath(request.payload.path, session);
+      const safePath = this.validatePath(request.payload.path, session, 'read', true);
       if (!safePath) {
         return callback({
           id: request.id,
@@ -196,7 +229,10 @@ export class RemoteFileHandler {
       }
       
       // List directory directly
-      const entries = await fs.readdir(safePath, { withFileTypes: true });
+      // Entries outside the profile's read scope are left out
+      const entries = (await fs.readdir(safePath, { withFileTypes: true })).filter(entry =>
+        this.sessionManager.isPathAllowed(session, path.join(safePath, entry.name), 'read', entry.isDirectory())
+      );
       const result = await Promise.all(entries.map(async (entry) => {
         const fullPath = path.join(safePath, entry.name);
         try {
@@ -260,7 +296,7 @@ export class RemoteFileHandler {
         });
       }
       
-      const safePath = this.validatePath(request.payload.path, session);
+      const safePath = this.validatePath(request.payload.path, session, 'write');
       if (!safePath) {
         return callback({
           id: request.id,
@@ -316,7 +352,7 @@ export class RemoteFileHandler {
         });
       }
       
-      const safePath = this.validatePath(request.payload.path, session);
+      const safePath = this.validatePath(request.payload.path, session, 'read', true);
       if (!safePath) {
         return callback({
           id: request.id,
@@ -379,7 +415,7 @@ export class RemoteFileHandler {
         });
       }
       
-      const safePath = this.validatePath(request.payload.path, session);
+      const safePath = this.validatePath(request.payload.path, session, 'read', true);
       if (!safePath) {
         return callback({
           id: request.id,
@@ -408,10 +444,29 @@ export class RemoteFileHandler {
     }
   }
   
+  // Hashes cover the bytes on disk, whatever encoding the client reads them in
+  private hashContent(bytes: Buffer): string {
+    return createHash('sha256').update(bytes).digest('hex');
+  }
+  
+  private async readCurrent(filePath: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+  
   /**
    * Validate and sanitize file path for security
    */
-  private validatePath(requestPath: string, session: RemoteSession): string | null {
+  private validatePath(
+    requestPath: string,
+    session: RemoteSession,
+    access: PathAccess = 'read',
+    isDirectory = false
+  ): string | null {
     // Normalize and resolve path
     const normalized = path.normalize(requestPath);
     
@@ -437,6 +492,11 @@ export class RemoteFileHandler {
       return null;
     }
     
+    // Scoped permission profiles only reach matching paths inside the workspace
+    if (!this.sessionManager.isPathAllowed(session, normalized, access, isDirectory)) {
+      return null;
+    }
+    
     return normalized;
   }
 }
\ No newline at end of file
@@ -1,4 +1,6 @@
 import { ipcMain, BrowserWindow } from 'electron';
+// Snapshots are always read from the open workspace, whatever path a client sends
+const getWorkspaceRoot = () => global.__currentWorkspace;
 export class RemoteSnapshotsHandler {
     constructor() { }
     registerHandlers(socket) {
@@ -152,7 +154,7 @@ export class RemoteSnapshotsHandler {
         // Handle snapshot content requests
         socket.on('snapshot:content', async (request, callback) => {
             try {
-                const { hash, projectPath } = request.payload;
+                const { hash } = request.payload;
                 const result = await new Promise((resolve) => {
                     ipcMain.once('snapshots-content-response', (event, response) => {
                         resolve(response);
@@ -161,7 +163,7 @@ export class RemoteSnapshotsHandler {
                     if (mainWindow) {
                         mainWindow.webContents.send('remote-snapshot-content', {
                             hash,
-                            projectPath
+                            projectPath: getWorkspaceRoot()
                         });
                     }
                 });
@@ -181,7 +183,7 @@ export class RemoteSnapshotsHandler {
         // Handle snapshot getDiff requests
         socket.on('snapshot:getDiff', async (request, callback) => {
             try {
-                const { hash, projectPath } = request.payload;
+                const { hash } = request.payload;
                 const result = await new Promise((resolve) => {
                     ipcMain.once('snapshots-getDiff-response', (event, response) => {
                         resolve(response);
@@ -190,7 +192,7 @@ export class RemoteSnapshotsHandler {
                     if (mainWindow) {
                         mainWindow.webContents.send('remote-snapshot-getDiff', {
                             hash,
-                            projectPath
+                            projectPath: getWorkspaceRoot()
                         });
                     }
                 });
@@ -210,7 +212,6 @@ export class RemoteSnapshotsHandler {
         // Handle snapshot scanProjectFiles requests
         socket.on('snapshot:scanProjectFiles', async (request, callback) => {
             try {
-                const { projectPath } = request.payload;
                 const result = await new Promise((resolve) => {
                     ipcMain.once('snapshots-scanProjectFiles-response', (event, response) => {
                         resolve(response);
@@ -218,7 +219,7 @@ export class RemoteSnapshotsHandler {
                     const mainWindow = BrowserWindow.getAllWindows()[0];
                     if (mainWindow) {
                         mainWindow.webContents.send('remote-snapshot-scanProjectFiles', {
-                            projectPath
+                            projectPath: getWorkspaceRoot()
                         });
                     }
                 });
@@ -235,5 +236,35 @@ export class RemoteSnapshotsHandler {
                 });
             }
         });
+        // Handle snapshot tree comparison requests
+        socket.on('snapshot:compare', async (request, callback) => {
+            try {
+                const { fromId, toId, includePatches } = request.payload;
+                const result = await new Promise((resolve) => {
+                    ipcMain.once('snapshots-compare-response', (event, response) => {
+                        resolve(response);
+                    });
+                    const mainWindow = BrowserWindow.getAllWindows()[0];
+                    if (mainWindow) {
+                        mainWindow.webContents.send('remote-snapshot-compare', {
+                            fromId,
+                            toId,
+                            includePatches
+                        });
+                    }
+                });
+                callback({
+                    success: true,
+                    data: result
+                });
+            }
+            catch (error) {
+                console.error('[RemoteSnapshotsHandler] Compare error:', error);
+                callback({
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+        });
     }
 }
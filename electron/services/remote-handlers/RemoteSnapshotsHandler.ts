@@ -1,6 +1,9 @@
 import { ipcMain, BrowserWindow } from 'electron';
 import type { Socket } from 'socket.io';
 
+// Snapshots are always read from the open workspace, whatever path a client sends
+const getWorkspaceRoot = (): string | undefined => (global as any).__currentWorkspace;
+
 export class RemoteSnapshotsHandler {
   constructor() {}
 
@@ -170,7 +173,7 @@ export class RemoteSnapshotsHandler {
     // Handle snapshot content requests
     socket.on('snapshot:content', async (request, callback) => {
       try {
-        const { hash, projectPath } = request.payload;
+        const { hash } = request.payload;
         
         const result = await new Promise((resolve) => {
           ipcMain.once('snapshots-content-response', (event, response) => {
@@ -181,7 +184,7 @@ export class RemoteSnapshotsHandler {
           if (mainWindow) {
             mainWindow.webContents.send('remote-snapshot-content', {
               hash,
-              projectPath
+              projectPath: getWorkspaceRoot()
             });
           }
         });
@@ -202,7 +205,7 @@ export class RemoteSnapshotsHandler {
     // Handle snapshot getDiff requests
     socket.on('snapshot:getDiff', async (request, callback) => {
       try {
-        const { hash, projectPath } = request.payload;
+        const { hash } = request.payload;
         
         const result = await new Promise((resolve) => {
           ipcMain.once('snapshots-getDiff-response', (event, response) => {
@@ -213,7 +216,7 @@ export class RemoteSnapshotsHandler {
           if (mainWindow) {
             mainWindow.webContents.send('remote-snapshot-getDiff', {
               hash,
-              projectPath
+              projectPath: getWorkspaceRoot()
             });
           }
         });
@@ -234,8 +237,6 @@ export class RemoteSnapshotsHandler {
     // Handle snapshot scanProjectFiles requests
     socket.on('snapshot:scanProjectFiles', async (request, callback) => {
       try {
-        const { projectPath } = request.payload;
-        
         const result = await new Promise((resolve) => {
           ipcMain.once('snapshots-scanProjectFiles-response', (event, response) => {
             resolve(response);
@@ -244,7 +245,7 @@ export class RemoteSnapshotsHandler {
           const mainWindow = BrowserWindow.getAllWindows()[0];
           if (mainWindow) {
             mainWindow.webContents.send('remote-snapshot-scanProjectFiles', {
-              projectPath
+              projectPath: getWorkspaceRoot()
             });
           }
         });
@@ -261,5 +262,38 @@ export class RemoteSnapshotsHandler {
         });
       }
     });
+
+    // Handle snapshot tree comparison requests
+    socket.on('snapshot:compare', async (request, callback) => {
+      try {
+        const { fromId, toId, includePatches } = request.payload;
+        
+        const result = await new Promise((resolve) => {
+          ipcMain.once('snapshots-compare-response', (event, response) => {
+            resolve(response);
+          });
+          
+          const mainWindow = BrowserWindow.getAllWindows()[0];
+          if (mainWindow) {
+            mainWindow.webContents.send('remote-snapshot-compare', {
+              fromId,
+              toId,
+              includePatches
+            });
+          }
+        });
+        
+        callback({
+          success: true,
+          data: result
+        });
+      } catch (error) {
+        console.error('[RemoteSnapshotsHandler] Compare error:', error);
+        callback({
+          success: false,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    });
   }
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Permission } from '../remote-protocol.js';
+import { HANDOFF_ENTITY_TYPE } from '../types/sync-types.js';
 export class RemoteSyncHandler {
     mainWindow;
     sessionManager;
@@ -52,6 +53,10 @@ export class RemoteSyncHandler {
             if (request.payload.compressed) {
                 // TODO: Implement decompression
             }
+            // Checkpoints handed off to the desktop are restored by the renderer;
+            // they are meant for the desktop alone, so aren't stored or broadcast
+            this.forwardHandoffs(patches);
+            patches = patches.filter(patch => patch.entityType !== HANDOFF_ENTITY_TYPE);
             // Store patches by user/workspace
             const storeKey = `${session.userId}:${session.workspaceId || 'default'}`;
             if (!this.patchStore.has(storeKey)) {
@@ -181,6 +186,22 @@ export class RemoteSyncHandler {
             }
         });
     }
+    /**
+     * Pass handoff checkpoints on to the desktop window
+     */
+    forwardHandoffs(patches) {
+        if (!this.mainWindow || this.mainWindow.isDestroyed())
+            return;
+        for (const patch of patches) {
+            if (patch.entityType !== HANDOFF_ENTITY_TYPE)
+                continue;
+            // Sent whole by the client's sync engine, see SnapshotPatch
+            const [operation] = patch.operations;
+            if (operation?.op === 'replace' && operation.path === '' && operation.value) {
+                this.mainWindow.webContents.send('remote:handoff', operation.value);
+            }
+        }
+    }
     /**
      * Find socket for a session
      */
@@ -11,7 +11,8 @@ import {
 } from '../remote-protocol.js';
 import type { RemoteSession } from '../remote-session-manager.js';
 import { RemoteSessionManager } from '../remote-session-manager.js';
-import type { SyncPatch } from '../types/sync-types.js';
+import type { SyncPatch, SnapshotPatch } from '../types/sync-types.js';
+import { HANDOFF_ENTITY_TYPE } from '../types/sync-types.js';
 // LocalDatabase removed - using in-memory storage for sync patches
 
 interface SyncPushRequest {
@@ -95,6 +96,11 @@ export class RemoteSyncHandler {
         // TODO: Implement decompression
       }
       
+      // Checkpoints handed off to the desktop are restored by the renderer;
+      // they are meant for the desktop alone, so aren't stored or broadcast
+      this.forwardHandoffs(patches);
+      patches = patches.filter(patch => patch.entityType !== HANDOFF_ENTITY_TYPE);
+      
       // Store patches by user/workspace
       const storeKey = `${session.userId}:${session.workspaceId || 'default'}`;
       if (!this.patchStore.has(storeKey)) {
@@ -252,6 +258,22 @@ export class RemoteSyncHandler {
     });
   }
   
+  /**
+   * Pass handoff checkpoints on to the desktop window
+   */
+  private forwardHandoffs(patches: SyncPatch[]): void {
+    if (!this.mainWindow || this.mainWindow.isDestroyed()) return;
+    
+    for (const patch of patches) {
+      if (patch.entityType !== HANDOFF_ENTITY_TYPE) continue;
+      // Sent whole by the client's sync engine, see SnapshotPatch
+      const [operation] = patch.operations as unknown as SnapshotPatch['operations'];
+      if (operation?.op === 'replace' && operation.path === '' && operation.value) {
+        this.mainWindow.webContents.send('remote:handoff', operation.value);
+      }
+    }
+  }
+  
   /**
    * Find socket for a session
    */
@@ -1,5 +1,9 @@
 import * as pty from 'node-pty';
 import { RemoteEvent, Permission } from '../remote-protocol.js';
+import { TerminalStream, createSocketStreamClient, combineStreamStats } from '../terminal-stream.js';
+// Terminals of a paired device outlive a dropped connection this long, so
+// the device can pick them up again when it reconnects
+const RECONNECT_GRACE_MS = 2 * 60 * 1000;
 export class RemoteTerminalHandler {
     mainWindow;
     sessionManager;
@@ -35,17 +39,41 @@ export class RemoteTerminalHandler {
         });
     }
     /**
-     * Clean up terminals for a disconnected socket
+     * Detach terminals from a disconnected socket. Terminals of a paired device
+     * are kept for a while in case it reconnects; the rest are destroyed.
      */
     cleanupSocketTerminals(socketId) {
         const terminalIds = this.terminalsBySocket.get(socketId);
         if (terminalIds) {
+            const session = this.sessionManager.getSessionBySocket(socketId);
             terminalIds.forEach(terminalId => {
-                this.destroyTerminal(terminalId);
+                const terminal = this.terminals.get(terminalId);
+                if (!terminal)
+                    return;
+                terminal.stream.unsubscribe(socketId);
+                terminal.socket = null;
+                if (session?.deviceId) {
+                    terminal.detachTimer = setTimeout(() => this.destroyTerminal(terminalId), RECONNECT_GRACE_MS);
+                }
+                else {
+                    this.destroyTerminal(terminalId);
+                }
             });
             this.terminalsBySocket.delete(socketId);
         }
     }
+    /**
+     * Throughput of the terminal output streamed to a socket
+     */
+    getStreamStats(socketId) {
+        const stats = [];
+        this.terminalsBySocket.get(socketId)?.forEach(terminalId => {
+            const entry = this.terminals.get(terminalId)?.stream.getStats(socketId);
+            if (entry)
+                stats.push(entry);
+        });
+        return combineStreamStats(stats);
+    }
     async handleTerminalCreate(socket, request, callback) {
         try {
             // Check session and permissions
@@ -74,10 +102,12 @@ export class RemoteTerminalHandler {
             const workingDirectory = process.cwd() ||
                 global.__currentWorkspace ||
                 process.env.HOME;
+            const cols = request.payload.cols || 80;
+            const rows = request.payload.rows || 24;
             const termPty = pty.spawn(shell, [], {
                 name: 'xterm-256color',
-                cols: request.payload.cols || 80,
-                rows: request.payload.rows || 24,
+                cols,
+                rows,
                 cwd: workingDirectory,
                 env: {
                     ...process.env,
@@ -90,29 +120,22 @@ export class RemoteTerminalHandler {
             const terminal = {
                 id: terminalId,
                 pty: termPty,
-                sessionId: session.id,
-                socketId: socket.id,
+                stream: new TerminalStream(cols, rows),
+                ownerId: this.getOwnerId(session),
+                socket: null,
                 workspacePath: workingDirectory,
                 createdAt: new Date(),
                 name: request.payload.name
             };
             this.terminals.set(terminalId, terminal);
-            // Track terminals by socket
-            if (!this.terminalsBySocket.has(socket.id)) {
-                this.terminalsBySocket.set(socket.id, new Set());
-            }
-            this.terminalsBySocket.get(socket.id).add(terminalId);
-            // Set up PTY data handler - stream binary data
+            this.attachTerminal(terminal, socket);
+            // Output goes through the stream, coalesced per client
             termPty.onData((data) => {
-                // Send as base64 string for Socket.IO polling compatibility
-                socket.emit(RemoteEvent.TERMINAL_DATA, {
-                    terminalId,
-                    data: Buffer.from(data).toString('base64')
-                });
+                terminal.stream.write(data);
             });
             // Set up PTY exit handler
             termPty.onExit((exitCode) => {
-                socket.emit(RemoteEvent.TERMINAL_EXIT, {
+                terminal.socket?.emit(RemoteEvent.TERMINAL_EXIT, {
                     terminalId,
                     code: exitCode.exitCode,
                     signal: exitCode.signal
@@ -158,7 +181,7 @@ export class RemoteTerminalHandler {
             const terminal = this.terminals.get(request.payload.terminalId);
             if (terminal) {
                 // Verify ownership
-                if (terminal.sessionId !== session.id) {
+                if (terminal.ownerId !== this.getOwnerId(session)) {
                     return callback({
                         id: request.id,
                         success: false,
@@ -263,7 +286,7 @@ export class RemoteTerminalHandler {
                 });
             }
             // Verify ownership
-            if (terminal.sessionId !== session.id) {
+            if (terminal.ownerId !== this.getOwnerId(session)) {
                 return callback({
                     id: request.id,
                     success: false,
@@ -272,6 +295,7 @@ export class RemoteTerminalHandler {
             }
             // Resize PTY
             terminal.pty.resize(request.payload.cols, request.payload.rows);
+            terminal.stream.resize(request.payload.cols, request.payload.rows);
             callback({
                 id: request.id,
                 success: true
@@ -307,7 +331,7 @@ export class RemoteTerminalHandler {
                 });
             }
             // Verify ownership
-            if (terminal.sessionId !== session.id) {
+            if (terminal.ownerId !== this.getOwnerId(session)) {
                 return callback({
                     id: request.id,
                     success: false,
@@ -345,15 +369,46 @@ export class RemoteTerminalHandler {
         }
         // Remove from tracking
         this.terminals.delete(terminalId);
+        clearTimeout(terminal.detachTimer);
+        terminal.stream.dispose();
         // Remove from socket tracking
-        const socketTerminals = this.terminalsBySocket.get(terminal.socketId);
+        if (terminal.socket) {
+            this.untrackSocketTerminal(terminal.socket.id, terminalId);
+        }
+    }
+    /**
+     * Stream a terminal's output to a socket, taking it over from whichever
+     * socket the device had before
+     */
+    attachTerminal(terminal, socket) {
+        clearTimeout(terminal.detachTimer);
+        terminal.detachTimer = undefined;
+        if (terminal.socket && terminal.socket.id !== socket.id) {
+            terminal.stream.unsubscribe(terminal.socket.id);
+            this.untrackSocketTerminal(terminal.socket.id, terminal.id);
+        }
+        terminal.socket = socket;
+        if (!terminal.stream.hasSubscriber(socket.id)) {
+            terminal.stream.subscribe(createSocketStreamClient(socket, terminal.id));
+        }
+        if (!this.terminalsBySocket.has(socket.id)) {
+            this.terminalsBySocket.set(socket.id, new Set());
+        }
+        this.terminalsBySocket.get(socket.id).add(terminal.id);
+    }
+    untrackSocketTerminal(socketId, terminalId) {
+        const socketTerminals = this.terminalsBySocket.get(socketId);
         if (socketTerminals) {
             socketTerminals.delete(terminalId);
             if (socketTerminals.size === 0) {
-                this.terminalsBySocket.delete(terminal.socketId);
+                this.terminalsBySocket.delete(socketId);
             }
         }
     }
+    // Paired devices keep their terminals across reconnects, which start new sessions
+    getOwnerId(session) {
+        return session.deviceId || session.id;
+    }
     async handleTerminalList(socket, request, callback) {
         try {
             const session = this.sessionManager.getSessionBySocket(socket.id);
@@ -403,15 +458,22 @@ export class RemoteTerminalHandler {
                 catch (e) {
                 }
             }
-            // Get remote-created terminals for this session
-            const remoteTerminals = Array.from(this.terminals.values())
-                .filter(term => term.sessionId === session.id)
-                .map(term => ({
-                id: term.id,
-                name: term.name || `Terminal ${term.id.split('-').pop()}`,
-                workingDirectory: term.workspacePath,
-                createdAt: term.createdAt.toISOString(),
-                isRemote: true
+            // Get remote-created terminals for this device, picking up any it left
+            // behind when its connection dropped. Instead of their backlog, clients
+            // get what the screen shows now.
+            const ownerId = this.getOwnerId(session);
+            const remoteTerminals = await Promise.all(Array.from(this.terminals.values())
+                .filter(term => term.ownerId === ownerId)
+                .map(async (term) => {
+                this.attachTerminal(term, socket);
+                return {
+                    id: term.id,
+                    name: term.name || `Terminal ${term.id.split('-').pop()}`,
+                    workingDirectory: term.workspacePath,
+                    createdAt: term.createdAt.toISOString(),
+                    isRemote: true,
+                    currentBuffer: await term.stream.snapshot()
+                };
             }));
             // Combine desktop and remote terminals
             const allTerminals = [...desktopTerminals, ...remoteTerminals];
@@ -443,14 +505,14 @@ export class RemoteTerminalHandler {
      * Get terminal statistics
      */
     getStats() {
-        const terminalsBySession = new Map();
+        const terminalsByOwner = new Map();
         this.terminals.forEach(term => {
-            const count = terminalsBySession.get(term.sessionId) || 0;
-            terminalsBySession.set(term.sessionId, count + 1);
+            const count = terminalsByOwner.get(term.ownerId) || 0;
+            terminalsByOwner.set(term.ownerId, count + 1);
         });
         return {
             totalTerminals: this.terminals.size,
-            terminalsBySession: Object.fromEntries(terminalsBySession),
+            terminalsByOwner: Object.fromEntries(terminalsByOwner),
             terminalsBySocket: Object.fromEntries(Array.from(this.terminalsBySocket.entries()).map(([k, v]) => [k, v.size]))
         };
     }
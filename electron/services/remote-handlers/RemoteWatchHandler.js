@@ -0,0 +1,161 @@
+import { randomBytes } from 'crypto';
+import { RemoteEvent } from '../remote-protocol.js';
+import { TokenStore } from '../token-store.js';
+// Recent comments replayed to watchers who join later
+const MAX_COMMENTS = 100;
+const MAX_COMMENT_LENGTH = 2000;
+export class RemoteWatchHandler {
+    sessionManager;
+    getMainWindow;
+    watchers = new Map();
+    comments = new Map();
+    constructor(sessionManager, getMainWindow) {
+        this.sessionManager = sessionManager;
+        this.getMainWindow = getMainWindow;
+    }
+    /**
+     * Register watch handlers on a socket
+     */
+    registerHandlers(socket) {
+        // Start following the instance the link was issued for
+        socket.on('watch:start', (request, callback) => {
+            this.handle(socket, request, callback, (session, share) => {
+                this.stopWatching(socket.id);
+                this.watchers.set(socket.id, {
+                    socket,
+                    instanceId: share.claudeInstanceId,
+                    token: share.token,
+                    expiryTimer: setTimeout(() => this.endWatch(socket, share.claudeInstanceId, 'expired'), Math.max(0, share.expiresAt.getTime() - Date.now()))
+                });
+                const response = {
+                    instanceId: share.claudeInstanceId,
+                    instanceName: share.claudeInstanceName || share.claudeInstanceId,
+                    allowComments: !!share.allowComments,
+                    expiresAt: share.expiresAt,
+                    comments: this.comments.get(share.claudeInstanceId) || []
+                };
+                return response;
+            });
+        });
+        // Comment on what Claude is doing
+        socket.on('watch:comment', (request, callback) => {
+            this.handle(socket, request, callback, (session, share) => {
+                if (!share.allowComments) {
+                    throw new Error('Comments are turned off for this link');
+                }
+                const text = typeof request.payload.text === 'string' ? request.payload.text.trim() : '';
+                if (!text) {
+                    throw new Error('Comment is empty');
+                }
+                if (text.length > MAX_COMMENT_LENGTH) {
+                    throw new Error(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+                }
+                const comment = {
+                    id: randomBytes(8).toString('hex'),
+                    instanceId: share.claudeInstanceId,
+                    author: session.deviceName || 'Watcher',
+                    text,
+                    timestamp: new Date()
+                };
+                this.addComment(comment);
+                return comment;
+            });
+        });
+    }
+    /**
+     * Pass Claude output on to everyone watching the instance
+     */
+    forwardOutput(instanceId, data) {
+        for (const watcher of this.watchers.values()) {
+            if (watcher.instanceId === instanceId) {
+                watcher.socket.emit(RemoteEvent.CLAUDE_OUTPUT, { instanceId, data });
+            }
+        }
+    }
+    /**
+     * Devices currently watching through a link
+     */
+    getWatcherCount(token) {
+        let count = 0;
+        for (const watcher of this.watchers.values()) {
+            if (watcher.token === token)
+                count++;
+        }
+        return count;
+    }
+    /**
+     * Tell a watcher the link is no longer valid, then disconnect it
+     */
+    endWatch(socket, instanceId, reason) {
+        this.stopWatching(socket.id);
+        const event = { instanceId, reason };
+        socket.emit(RemoteEvent.WATCH_ENDED, event);
+        // Give the client a moment to receive the message
+        setTimeout(() => socket.disconnect(true), 100);
+    }
+    cleanupSocket(socketId) {
+        this.stopWatching(socketId);
+    }
+    addComment(comment) {
+        const comments = this.comments.get(comment.instanceId) || [];
+        comments.push(comment);
+        if (comments.length > MAX_COMMENTS) {
+            comments.splice(0, comments.length - MAX_COMMENTS);
+        }
+        this.comments.set(comment.instanceId, comments);
+        const mainWindow = this.getMainWindow();
+        if (mainWindow && !mainWindow.isDestroyed()) {
+            mainWindow.webContents.send('watch:comment', comment);
+        }
+        // Every watcher sees the conversation, including whoever wrote it
+        for (const watcher of this.watchers.values()) {
+            if (watcher.instanceId === comment.instanceId) {
+                watcher.socket.emit(RemoteEvent.WATCH_COMMENT, comment);
+            }
+        }
+    }
+    stopWatching(socketId) {
+        const watcher = this.watchers.get(socketId);
+        if (watcher) {
+            clearTimeout(watcher.expiryTimer);
+            this.watchers.delete(socketId);
+        }
+    }
+    handle(socket, request, callback, action) {
+        const respond = typeof callback === 'function' ? callback : () => { };
+        const session = this.sessionManager.getSessionBySocket(socket.id);
+        if (!session) {
+            return respond({
+                id: request.id,
+                success: false,
+                error: { code: 'NO_SESSION', message: 'No active session' }
+            });
+        }
+        // Only sessions that came in through a watch link have an instance to watch
+        const share = session.token ? TokenStore.getInstance().resolveToken(session.token) : undefined;
+        if (!share || share.kind !== 'watch' || !share.claudeInstanceId) {
+            return respond({
+                id: request.id,
+                success: false,
+                error: { code: 'NOT_A_WATCH_LINK', message: 'This connection was not opened from a watch link' }
+            });
+        }
+        try {
+            respond({
+                id: request.id,
+                success: true,
+                data: action(session, share)
+            });
+        }
+        catch (error) {
+            respond({
+                id: request.id,
+                success: false,
+                error: {
+                    code: 'WATCH_ERROR',
+                    message: error.message
+                }
+            });
+        }
+    }
+}
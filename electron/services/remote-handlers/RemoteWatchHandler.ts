@@ -0,0 +1,204 @@
+/**
+ * Remote watch handler
+ * Streams one Claude instance's output to devices that connected through a
+ * watch link, and passes their comments back to the desktop
+ */
+import type { Socket } from 'socket.io';
+import type { BrowserWindow } from 'electron';
+import { randomBytes } from 'crypto';
+import {
+  WatchProtocol,
+  RemoteEvent,
+  RemoteRequest,
+  RemoteResponse
+} from '../remote-protocol.js';
+import type { RemoteSession } from '../remote-session-manager.js';
+import { RemoteSessionManager } from '../remote-session-manager.js';
+import { TokenStore, StoredToken } from '../token-store.js';
+
+// Recent comments replayed to watchers who join later
+const MAX_COMMENTS = 100;
+const MAX_COMMENT_LENGTH = 2000;
+
+interface Watcher {
+  socket: Socket;
+  instanceId: string;
+  token: string;
+  expiryTimer: NodeJS.Timeout;
+}
+
+export class RemoteWatchHandler {
+  private watchers: Map<string, Watcher> = new Map();
+  private comments: Map<string, WatchProtocol.Comment[]> = new Map();
+
+  constructor(
+    private sessionManager: RemoteSessionManager,
+    private getMainWindow: () => BrowserWindow | null
+  ) {}
+
+  /**
+   * Register watch handlers on a socket
+   */
+  registerHandlers(socket: Socket): void {
+    // Start following the instance the link was issued for
+    socket.on('watch:start', (request: RemoteRequest<WatchProtocol.StartRequest>, callback) => {
+      this.handle(socket, request, callback, (session, share) => {
+        this.stopWatching(socket.id);
+        this.watchers.set(socket.id, {
+          socket,
+          instanceId: share.claudeInstanceId!,
+          token: share.token,
+          expiryTimer: setTimeout(
+            () => this.endWatch(socket, share.claudeInstanceId!, 'expired'),
+            Math.max(0, share.expiresAt.getTime() - Date.now())
+          )
+        });
+
+        const response: WatchProtocol.StartResponse = {
+          instanceId: share.claudeInstanceId!,
+          instanceName: share.claudeInstanceName || share.claudeInstanceId!,
+          allowComments: !!share.allowComments,
+          expiresAt: share.expiresAt,
+          comments: this.comments.get(share.claudeInstanceId!) || []
+        };
+        return response;
+      });
+    });
+
+    // Comment on what Claude is doing
+    socket.on('watch:comment', (request: RemoteRequest<WatchProtocol.CommentRequest>, callback) => {
+      this.handle(socket, request, callback, (session, share) => {
+        if (!share.allowComments) {
+          throw new Error('Comments are turned off for this link');
+        }
+        const text = typeof request.payload.text === 'string' ? request.payload.text.trim() : '';
+        if (!text) {
+          throw new Error('Comment is empty');
+        }
+        if (text.length > MAX_COMMENT_LENGTH) {
+          throw new Error(`Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+        }
+
+        const comment: WatchProtocol.Comment = {
+          id: randomBytes(8).toString('hex'),
+          instanceId: share.claudeInstanceId!,
+          author: session.deviceName || 'Watcher',
+          text,
+          timestamp: new Date()
+        };
+        this.addComment(comment);
+        return comment;
+      });
+    });
+  }
+
+  /**
+   * Pass Claude output on to everyone watching the instance
+   */
+  forwardOutput(instanceId: string, data: string): void {
+    for (const watcher of this.watchers.values()) {
+      if (watcher.instanceId === instanceId) {
+        watcher.socket.emit(RemoteEvent.CLAUDE_OUTPUT, { instanceId, data });
+      }
+    }
+  }
+
+  /**
+   * Devices currently watching through a link
+   */
+  getWatcherCount(token: string): number {
+    let count = 0;
+    for (const watcher of this.watchers.values()) {
+      if (watcher.token === token) count++;
+    }
+    return count;
+  }
+
+  /**
+   * Tell a watcher the link is no longer valid, then disconnect it
+   */
+  endWatch(socket: Socket, instanceId: string, reason: WatchProtocol.EndedEvent['reason']): void {
+    this.stopWatching(socket.id);
+    const event: WatchProtocol.EndedEvent = { instanceId, reason };
+    socket.emit(RemoteEvent.WATCH_ENDED, event);
+    // Give the client a moment to receive the message
+    setTimeout(() => socket.disconnect(true), 100);
+  }
+
+  cleanupSocket(socketId: string): void {
+    this.stopWatching(socketId);
+  }
+
+  private addComment(comment: WatchProtocol.Comment): void {
+    const comments = this.comments.get(comment.instanceId) || [];
+    comments.push(comment);
+    if (comments.length > MAX_COMMENTS) {
+      comments.splice(0, comments.length - MAX_COMMENTS);
+    }
+    this.comments.set(comment.instanceId, comments);
+
+    const mainWindow = this.getMainWindow();
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      mainWindow.webContents.send('watch:comment', comment);
+    }
+    // Every watcher sees the conversation, including whoever wrote it
+    for (const watcher of this.watchers.values()) {
+      if (watcher.instanceId === comment.instanceId) {
+        watcher.socket.emit(RemoteEvent.WATCH_COMMENT, comment);
+      }
+    }
+  }
+
+  private stopWatching(socketId: string): void {
+    const watcher = this.watchers.get(socketId);
+    if (watcher) {
+      clearTimeout(watcher.expiryTimer);
+      this.watchers.delete(socketId);
+    }
+  }
+
+  private handle<T>(
+    socket: Socket,
+    request: RemoteRequest,
+    callback: ((response: RemoteResponse<T>) => void) | undefined,
+    action: (session: RemoteSession, share: StoredToken) => T
+  ): void {
+    const respond = typeof callback === 'function' ? callback : () => {};
+
+    const session = this.sessionManager.getSessionBySocket(socket.id);
+    if (!session) {
+      return respond({
+        id: request.id,
+        success: false,
+        error: { code: 'NO_SESSION', message: 'No active session' }
+      });
+    }
+
+    // Only sessions that came in through a watch link have an instance to watch
+    const share = session.token ? TokenStore.getInstance().resolveToken(session.token) : undefined;
+    if (!share || share.kind !== 'watch' || !share.claudeInstanceId) {
+      return respond({
+        id: request.id,
+        success: false,
+        error: { code: 'NOT_A_WATCH_LINK', message: 'This connection was not opened from a watch link' }
+      });
+    }
+
+    try {
+      respond({
+        id: request.id,
+        success: true,
+        data: action(session, share)
+      });
+    } catch (error) {
+      respond({
+        id: request.id,
+        success: false,
+        error: {
+          code: 'WATCH_ERROR',
+          message: (error as Error).message
+        }
+      });
+    }
+  }
+}
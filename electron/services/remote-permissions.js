@@ -0,0 +1,284 @@
+/**
+ * Permission profiles for remote connections
+ * Named permission sets that can be bound to device tokens, with optional
+ * glob scoping of file access inside the workspace, and the table that maps
+ * every remote event to the permission it needs
+ */
+import path from 'path';
+import { Permission } from './remote-protocol.js';
+export const DEFAULT_PROFILE_ID = 'full-access';
+export const WATCHER_PROFILE_ID = 'watcher';
+// Secrets stay hidden from scoped profiles
+const SECRET_EXCLUDES = ['!**/.env', '!**/.env.*', '!**/*.pem', '!**/*.key'];
+export const PERMISSION_PROFILES = [
+    {
+        id: DEFAULT_PROFILE_ID,
+        name: 'Full access',
+        description: 'Files, terminals, Claude and workspace management',
+        permissions: [
+            Permission.FILE_READ,
+            Permission.FILE_WRITE,
+            Permission.TERMINAL_CREATE,
+            Permission.TERMINAL_READ,
+            Permission.TERMINAL_WRITE,
+            Permission.CLAUDE_SPAWN,
+            Permission.CLAUDE_READ,
+            Permission.CLAUDE_CONTROL,
+            Permission.WORKSPACE_MANAGE
+        ]
+    },
+    {
+        id: 'read-only-reviewer',
+        name: 'Read-only reviewer',
+        description: 'Browse workspace files and watch terminals and Claude without changing anything',
+        permissions: [
+            Permission.FILE_READ,
+            Permission.TERMINAL_READ,
+            Permission.CLAUDE_READ
+        ],
+        deny: [Permission.TERMINAL_CREATE, Permission.TERMINAL_WRITE],
+        fileScopes: {
+            read: ['**', ...SECRET_EXCLUDES],
+            write: []
+        }
+    },
+    {
+        id: 'mobile-operator',
+        name: 'Mobile operator',
+        description: 'Drive Claude and edit docs from a phone; no shell access',
+        permissions: [
+            Permission.FILE_READ,
+            Permission.FILE_WRITE,
+            Permission.TERMINAL_READ,
+            Permission.CLAUDE_SPAWN,
+            Permission.CLAUDE_READ,
+            Permission.CLAUDE_CONTROL
+        ],
+        deny: [Permission.TERMINAL_CREATE, Permission.TERMINAL_WRITE],
+        fileScopes: {
+            read: ['**', ...SECRET_EXCLUDES],
+            write: ['**/*.md', 'docs/**']
+        }
+    }
+];
+// Bound to watch links only, so it is not offered for device tokens
+export const WATCHER_PROFILE = {
+    id: WATCHER_PROFILE_ID,
+    name: 'Watcher',
+    description: 'Follow one Claude instance read-only',
+    permissions: [Permission.CLAUDE_READ],
+    fileScopes: {
+        read: [],
+        write: []
+    }
+};
+export function getPermissionProfile(profileId) {
+    if (profileId === WATCHER_PROFILE_ID)
+        return WATCHER_PROFILE;
+    return PERMISSION_PROFILES.find(profile => profile.id === profileId)
+        || PERMISSION_PROFILES.find(profile => profile.id === DEFAULT_PROFILE_ID);
+}
+export function profileGrants(profile, permission) {
+    if (profile.deny?.includes(permission))
+        return false;
+    return profile.permissions.includes(Permission.ADMIN) || profile.permissions.includes(permission);
+}
+/**
+ * Check a path against a profile's file scopes. Directories are allowed when
+ * they could contain a matching path, so scoped trees stay navigable.
+ */
+export function profileAllowsPath(profile, filePath, access, workspaceRoot, isDirectory = false) {
+    if (!profile.fileScopes)
+        return { allowed: true };
+    if (!workspaceRoot) {
+        return { allowed: false, reason: 'No workspace open' };
+    }
+    const relative = path.relative(path.resolve(workspaceRoot), path.resolve(workspaceRoot, filePath));
+    if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        return { allowed: false, reason: 'Path is outside the workspace' };
+    }
+    const patterns = profile.fileScopes[access];
+    if (!patterns)
+        return { allowed: true };
+    const target = relative.split(path.sep).join('/');
+    // The workspace root itself is always listable when anything inside it is readable
+    if (!target) {
+        return patterns.some(pattern => !pattern.startsWith('!'))
+            ? { allowed: true }
+            : { allowed: false, reason: `No ${access} access in this profile` };
+    }
+    let included = false;
+    for (const pattern of patterns) {
+        if (pattern.startsWith('!')) {
+            if (globToRegExp(pattern.slice(1)).test(target)) {
+                return { allowed: false, reason: `Excluded by ${pattern}` };
+            }
+        }
+        else if (globToRegExp(pattern).test(target) || (isDirectory && couldContain(pattern, target))) {
+            included = true;
+        }
+    }
+    return included
+        ? { allowed: true }
+        : { allowed: false, reason: `Outside the ${access} scope of this profile` };
+}
+/**
+ * Check events whose results can include any file of the workspace, such as
+ * snapshot diffs. They can't be filtered by path, so scoped profiles are refused.
+ */
+export function profileAllowsAnyPath(profile, access) {
+    if (!profile.fileScopes?.[access])
+        return { allowed: true };
+    return { allowed: false, reason: `Needs ${access} access to the whole workspace` };
+}
+/**
+ * Translate a glob into a RegExp: '**' spans directories, '*' and '?' stay
+ * within one segment, and '{a,b}' picks an alternative
+ */
+function globToRegExp(glob) {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (char === '*') {
+            if (glob[i + 1] === '*') {
+                // '**/' also matches zero directories
+                if (glob[i + 2] === '/') {
+                    source += '(?:.*/)?';
+                    i += 2;
+                }
+                else {
+                    source += '.*';
+                    i += 1;
+                }
+            }
+            else {
+                source += '[^/]*';
+            }
+        }
+        else if (char === '?') {
+            source += '[^/]';
+        }
+        else if (char === '{') {
+            const end = glob.indexOf('}', i);
+            if (end === -1) {
+                source += '\\{';
+            }
+            else {
+                source += `(?:${glob.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+                i = end;
+            }
+        }
+        else {
+            source += escapeRegExp(char);
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+function escapeRegExp(text) {
+    return text.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+}
+// Whether a directory lies on the way to paths the pattern can match
+function couldContain(pattern, directory) {
+    const patternSegments = pattern.split('/');
+    const directorySegments = directory.split('/');
+    for (let i = 0; i < directorySegments.length; i++) {
+        const segment = patternSegments[i];
+        if (segment === undefined)
+            return false;
+        if (segment === '**')
+            return true;
+        if (!globToRegExp(segment).test(directorySegments[i]))
+            return false;
+    }
+    return true;
+}
+const payloadPath = (key) => (args) => {
+    const value = args[0]?.payload?.[key];
+    return typeof value === 'string' ? value : undefined;
+};
+/**
+ * Every event a remote client may send. Events missing from this table are
+ * dropped by the permission guard, so new handlers must be listed here.
+ */
+export const REMOTE_EVENT_RULES = {
+    'ping': { permission: null },
+    'workspace:get': { permission: null },
+    'file:read': { permission: Permission.FILE_READ, path: payloadPath('path'), access: 'read' },
+    'file:list': { permission: Permission.FILE_READ, path: payloadPath('path'), access: 'read', isDirectory: true },
+    'file:stat': { permission: Permission.FILE_READ, path: payloadPath('path'), access: 'read', isDirectory: true },
+    'file:watch': { permission: Permission.FILE_READ, path: payloadPath('path'), access: 'read', isDirectory: true },
+    'file:write': { permission: Permission.FILE_WRITE, path: payloadPath('path'), access: 'write' },
+    'file:delete': { permission: Permission.FILE_DELETE, path: payloadPath('path'), access: 'write' },
+    'collab:join': { permission: Permission.FILE_READ, path: payloadPath('path'), access: 'read' },
+    'collab:update': { permission: Permission.FILE_WRITE, path: payloadPath('path'), access: 'write' },
+    'collab:presence': { permission: Permission.FILE_READ },
+    // Only reach files the device already joined, and cursor moves are too
+    // frequent to audit
+    'collab:leave': { permission: null },
+    'collab:cursor': { permission: null },
+    'terminal:create': { permission: Permission.TERMINAL_CREATE },
+    'terminal:list': { permission: Permission.TERMINAL_READ },
+    'terminal:write': { permission: Permission.TERMINAL_WRITE },
+    'terminal:resize': { permission: Permission.TERMINAL_WRITE },
+    'terminal:destroy': { permission: Permission.TERMINAL_WRITE },
+    'claude:spawn': {
+        permission: Permission.CLAUDE_SPAWN,
+        path: payloadPath('workingDirectory'),
+        access: 'read',
+        isDirectory: true
+    },
+    'claude:getInstances': { permission: Permission.CLAUDE_READ },
+    'claude:listDesktop': { permission: Permission.CLAUDE_READ },
+    'claude:getBuffer': { permission: Permission.CLAUDE_READ, instance: payloadPath('instanceId') },
+    'claude:send': { permission: Permission.CLAUDE_CONTROL },
+    'claude:stop': { permission: Permission.CLAUDE_CONTROL },
+    'claude:resize': { permission: Permission.CLAUDE_CONTROL },
+    'claude:configureTerminal': { permission: Permission.CLAUDE_CONTROL },
+    'watch:start': { permission: Permission.CLAUDE_READ, instance: payloadPath('instanceId') },
+    'watch:comment': { permission: Permission.CLAUDE_READ, instance: payloadPath('instanceId') },
+    'sync:status': { permission: Permission.FILE_READ },
+    'sync:pull': { permission: Permission.FILE_READ },
+    'sync:push': { permission: Permission.WORKSPACE_MANAGE },
+    'desktop:features:get': { permission: Permission.FILE_READ },
+    'desktop:features:store': { permission: Permission.WORKSPACE_MANAGE },
+    'snapshot:list': { permission: Permission.FILE_READ, plainError: true },
+    'snapshot:content': { permission: Permission.FILE_READ, access: 'read', anyPath: true, plainError: true },
+    'snapshot:getDiff': { permission: Permission.FILE_READ, access: 'read', anyPath: true, plainError: true },
+    'snapshot:compare': { permission: Permission.FILE_READ, access: 'read', anyPath: true, plainError: true },
+    'snapshot:scanProjectFiles': { permission: Permission.FILE_READ, access: 'read', anyPath: true, plainError: true },
+    'snapshot:capture': { permission: Permission.WORKSPACE_MANAGE, plainError: true },
+    'snapshot:restore': { permission: Permission.WORKSPACE_MANAGE, plainError: true },
+    'snapshot:update': { permission: Permission.WORKSPACE_MANAGE, plainError: true },
+    'snapshot:delete': { permission: Permission.WORKSPACE_MANAGE, plainError: true },
+    'worktree:list': { permission: Permission.FILE_READ, plainError: true },
+    'worktree:sessions': { permission: Permission.FILE_READ, plainError: true },
+    'worktree:compare': { permission: Permission.FILE_READ, access: 'read', anyPath: true, plainError: true },
+    'worktree:switch': { permission: Permission.WORKSPACE_MANAGE, plainError: true },
+    'worktree:lock': { permission: Permission.WORKSPACE_MANAGE, plainError: true },
+    'worktree:remove': { permission: Permission.WORKSPACE_MANAGE, plainError: true },
+    'worktree:createSession': { permission: Permission.WORKSPACE_MANAGE, plainError: true },
+    'worktree:deleteSession': { permission: Permission.WORKSPACE_MANAGE, plainError: true },
+    'lsp:request': {
+        permission: Permission.FILE_READ,
+        path: args => args[0]?.params?.uri,
+        access: 'read',
+        respond: (socket, args, message) => socket.emit('lsp:response', { requestId: args[0]?.requestId, error: message })
+    },
+    'lsp:didOpen': { permission: Permission.FILE_READ, path: args => args[0]?.uri, access: 'read' },
+    'lsp:didChange': { permission: Permission.FILE_READ, path: args => args[0]?.uri, access: 'read' },
+    'lsp:didClose': { permission: Permission.FILE_READ, path: args => args[0]?.uri, access: 'read' },
+    'ai:ghost-text': {
+        permission: Permission.CLAUDE_CONTROL,
+        respond: (socket, args, message) => socket.emit('ai:ghost-text-response', {
+            requestId: args[0]?.requestId,
+            result: { success: false, error: message }
+        })
+    },
+    'ai:code-generation': {
+        permission: Permission.CLAUDE_CONTROL,
+        respond: (socket, args, message) => socket.emit('ai:code-generation-response', {
+            requestId: args[0]?.requestId,
+            result: { success: false, error: message }
+        })
+    }
+};
@@ -1,7 +1,3 @@
-/**
- * Remote access protocol definitions
- * Defines message formats and types for Socket.IO communication
- */
 // Event types for server->client communication
 export var RemoteEvent;
 (function (RemoteEvent) {
@@ -17,6 +13,13 @@ export var RemoteEvent;
     // File events
     RemoteEvent["FILE_CHANGED"] = "file:changed";
     RemoteEvent["FILE_DELETED"] = "file:deleted";
+    // Collaborative editing events
+    RemoteEvent["COLLAB_UPDATE"] = "collab:update";
+    RemoteEvent["COLLAB_CURSOR"] = "collab:cursor";
+    RemoteEvent["COLLAB_PRESENCE"] = "collab:presence";
+    // Watch link events
+    RemoteEvent["WATCH_COMMENT"] = "watch:comment";
+    RemoteEvent["WATCH_ENDED"] = "watch:ended";
     // System events
     RemoteEvent["CONNECTION_ERROR"] = "connection:error";
     RemoteEvent["SESSION_EXPIRED"] = "session:expired";
@@ -29,8 +32,10 @@ export var Permission;
     Permission["FILE_WRITE"] = "file:write";
     Permission["FILE_DELETE"] = "file:delete";
     Permission["TERMINAL_CREATE"] = "terminal:create";
+    Permission["TERMINAL_READ"] = "terminal:read";
     Permission["TERMINAL_WRITE"] = "terminal:write";
     Permission["CLAUDE_SPAWN"] = "claude:spawn";
+    Permission["CLAUDE_READ"] = "claude:read";
     Permission["CLAUDE_CONTROL"] = "claude:control";
     Permission["WORKSPACE_MANAGE"] = "workspace:manage";
     Permission["ADMIN"] = "admin";
@@ -2,6 +2,7 @@
  * Remote access protocol definitions
  * Defines message formats and types for Socket.IO communication
  */
+import type { CrdtOperation, CrdtSnapshot, ItemId } from './text-crdt.js';
 
 // Request/Response wrapper for all operations
 export interface RemoteRequest<T = any> {
@@ -29,12 +30,29 @@ export namespace FileProtocol {
   export interface ReadRequest {
     path: string;
     encoding?: BufferEncoding;
+    withHash?: boolean;  // Answer with ReadResponse instead of the bare content
+  }
+  
+  export interface ReadResponse {
+    content: string;
+    hash: string;        // sha256 of the content, used as WriteRequest.baseHash
   }
   
   export interface WriteRequest {
     path: string;
     content: string;
     encoding?: BufferEncoding;
+    baseHash?: string;   // Refuse the write with FILE_CONFLICT if the file no longer has this hash
+  }
+  
+  export interface WriteResponse {
+    hash: string;
+  }
+  
+  // RemoteError.details of a FILE_CONFLICT; hash is null when the file was deleted
+  export interface ConflictDetails {
+    content: string;
+    hash: string | null;
   }
   
   export interface ListRequest {
@@ -90,6 +108,13 @@ export namespace TerminalProtocol {
     terminalId: string;
     data: Buffer;
   }
+  
+  // Coalesced output of streamed terminals
+  export interface StreamDataEvent {
+    terminalId: string;
+    data: string;        // Base64
+    snapshot?: boolean;  // Redraws the screen in place of output the client fell behind on
+  }
 }
 
 // Claude operation protocols
@@ -155,6 +180,116 @@ export namespace ClaudeProtocol {
   }
 }
 
+// Collaborative editing protocols
+export namespace CollabProtocol {
+  export interface Participant {
+    id: string;
+    name: string;
+    color: string;
+  }
+  
+  export interface JoinRequest {
+    path: string;
+    content: string;     // The client's copy, which starts the session if nobody else has the file open
+  }
+  
+  export interface JoinResponse {
+    path: string;        // Absolute path the session is kept under
+    clientId: string;    // Id to stamp this client's operations with
+    snapshot: CrdtSnapshot;
+    self: Participant;
+    participants: Participant[];
+    readOnly: boolean;
+  }
+  
+  export interface LeaveRequest {
+    path: string;
+  }
+  
+  export interface UpdateRequest {
+    path: string;
+    operations: CrdtOperation[];
+  }
+  
+  // Selections are anchored to characters so they survive concurrent edits
+  export interface CursorRequest {
+    path: string;
+    anchor: ItemId | null;
+    head: ItemId | null;
+  }
+  
+  // Events
+  export interface UpdateEvent {
+    path: string;
+    operations: CrdtOperation[];
+    from: string;
+  }
+  
+  export interface CursorEvent {
+    path: string;
+    participant: Participant;
+    anchor: ItemId | null;
+    head: ItemId | null;
+    left?: boolean;      // The participant closed the file
+  }
+  
+  export interface PresenceEvent {
+    files: Record<string, Participant[]>;   // By absolute path
+    self?: Participant;                     // The receiving client
+  }
+}
+
+// Read-only watch links for a single Claude instance
+export namespace WatchProtocol {
+  export interface ShareOptions {
+    allowComments: boolean;
+    expiresInMinutes: number;
+  }
+  
+  // A link handed out from the desktop
+  export interface Share {
+    instanceId: string;
+    instanceName: string;
+    token: string;
+    deviceId: string;
+    pairingCode: string;
+    allowComments: boolean;
+    expiresAt: Date;
+    watchers: number;    // Devices currently watching through this link
+  }
+  
+  export interface StartRequest {
+    instanceId: string;
+  }
+  
+  export interface StartResponse {
+    instanceId: string;
+    instanceName: string;
+    allowComments: boolean;
+    expiresAt: Date;
+    comments: Comment[];
+  }
+  
+  export interface CommentRequest {
+    instanceId: string;
+    text: string;
+  }
+  
+  export interface Comment {
+    id: string;
+    instanceId: string;
+    author: string;
+    text: string;
+    timestamp: Date;
+  }
+  
+  // Events
+  export interface EndedEvent {
+    instanceId: string;
+    reason: 'revoked' | 'expired';
+  }
+}
+
 // Authentication protocols
 export namespace AuthProtocol {
   export interface LoginRequest {
@@ -207,6 +342,15 @@ export enum RemoteEvent {
   FILE_CHANGED = 'file:changed',
   FILE_DELETED = 'file:deleted',
   
+  // Collaborative editing events
+  COLLAB_UPDATE = 'collab:update',
+  COLLAB_CURSOR = 'collab:cursor',
+  COLLAB_PRESENCE = 'collab:presence',
+  
+  // Watch link events
+  WATCH_COMMENT = 'watch:comment',
+  WATCH_ENDED = 'watch:ended',
+  
   // System events
   CONNECTION_ERROR = 'connection:error',
   SESSION_EXPIRED = 'session:expired',
@@ -219,8 +363,10 @@ export enum Permission {
   FILE_WRITE = 'file:write',
   FILE_DELETE = 'file:delete',
   TERMINAL_CREATE = 'terminal:create',
+  TERMINAL_READ = 'terminal:read',
   TERMINAL_WRITE = 'terminal:write',
   CLAUDE_SPAWN = 'claude:spawn',
+  CLAUDE_READ = 'claude:read',
   CLAUDE_CONTROL = 'claude:control',
   WORKSPACE_MANAGE = 'workspace:manage',
   ADMIN = 'admin'
@@ -13,8 +13,15 @@ import { RemoteWorkspaceHandler } from './remote-handlers/RemoteWorkspaceHandler
 import { RemoteDesktopFeaturesHandler } from './remote-handlers/RemoteDesktopFeaturesHandler.js';
 import { RemoteSnapshotsHandler } from './remote-handlers/RemoteSnapshotsHandler.js';
 import { RemoteWorktreeHandler } from './remote-handlers/RemoteWorktreeHandler.js';
+import { RemoteCollabHandler } from './remote-handlers/RemoteCollabHandler.js';
+import { RemoteWatchHandler } from './remote-handlers/RemoteWatchHandler.js';
 import { RemoteEvent } from './remote-protocol.js';
 import { TokenStore } from './token-store.js';
+import { REMOTE_EVENT_RULES } from './remote-permissions.js';
+import { describeRemoteRequest } from './remote-audit-log.js';
+import { HANDOFF_ENTITY_TYPE } from './types/sync-types.js';
+import { CollabHost } from './collab-host.js';
+import { TerminalStream, createSocketStreamClient, combineStreamStats } from './terminal-stream.js';
 export class RemoteServer {
     io = null;
     httpServer = null;
@@ -29,11 +36,17 @@ export class RemoteServer {
     desktopFeaturesHandler;
     snapshotsHandler;
     worktreeHandler;
+    collabHandler;
+    watchHandler;
+    // Desktop terminals streamed to remote clients, by PTY id
+    desktopTerminalStreams = new Map();
+    auditLog;
     constructor(options) {
         this.config = options.config;
         this.mainWindow = options.mainWindow;
+        this.auditLog = options.auditLog || null;
         // Initialize session manager
-        this.sessionManager = new RemoteSessionManager(this.config.authRequired || false);
+        this.sessionManager = new RemoteSessionManager(this.config.authRequired || false, undefined, options.getWorkspacePath);
         // Initialize handlers
         this.fileHandler = new RemoteFileHandler(this.mainWindow, this.sessionManager);
         this.terminalHandler = new RemoteTerminalHandler(this.mainWindow, this.sessionManager);
@@ -43,6 +56,9 @@ export class RemoteServer {
         this.desktopFeaturesHandler = new RemoteDesktopFeaturesHandler(this.mainWindow, this.sessionManager);
         this.snapshotsHandler = new RemoteSnapshotsHandler();
         this.worktreeHandler = new RemoteWorktreeHandler();
+        this.collabHandler = new RemoteCollabHandler(this.sessionManager, options.collabHost || new CollabHost(options.getWorkspacePath));
+        // Keeps its watchers and comments when the window is replaced
+        this.watchHandler = new RemoteWatchHandler(this.sessionManager, () => this.mainWindow);
     }
     updateMainWindow(mainWindow) {
         this.mainWindow = mainWindow;
@@ -67,6 +83,8 @@ export class RemoteServer {
                 this.desktopFeaturesHandler.registerHandlers(socket);
                 this.snapshotsHandler.registerHandlers(socket);
                 this.worktreeHandler.registerHandlers(socket);
+                this.collabHandler.registerHandlers(socket);
+                this.watchHandler.registerHandlers(socket);
                 // Re-register other handlers
                 this.setupLSPProxy(socket);
                 this.setupAIProxy(socket);
@@ -75,6 +93,9 @@ export class RemoteServer {
                 socket.on('disconnect', () => {
                     this.terminalHandler.cleanupSocketTerminals(socket.id);
                     this.claudeHandler.cleanupSocketInstances(socket.id);
+                    this.collabHandler.cleanupSocket(socket.id);
+                    this.watchHandler.cleanupSocket(socket.id);
+                    this.auditSessionEvent(socket.id, 'session:disconnect');
                     this.sessionManager.removeSession(socket.id);
                 });
                 // Re-add ping handler
@@ -160,6 +181,24 @@ export class RemoteServer {
         // Connection handler
         this.io.on('connection', (socket) => {
             const session = this.sessionManager.getSessionBySocket(socket.id);
+            // Check every incoming event against the session's permission profile
+            this.setupPermissionGuard(socket);
+            // Hand the client its next device token; the one it connected with is retired
+            if (session) {
+                const rotated = this.sessionManager.rotateSessionToken(session, {
+                    deviceName: socket.handshake.auth?.clientName,
+                    address: socket.handshake.address
+                });
+                if (rotated) {
+                    socket.emit('connection:token', {
+                        token: rotated.token,
+                        deviceId: rotated.deviceId,
+                        deviceName: rotated.deviceName,
+                        expiresAt: rotated.expiresAt
+                    });
+                }
+            }
+            this.auditSessionEvent(socket.id, 'session:connect');
             // Register handlers
             this.fileHandler.registerHandlers(socket);
             this.terminalHandler.registerHandlers(socket);
@@ -169,6 +208,8 @@ export class RemoteServer {
             this.desktopFeaturesHandler.registerHandlers(socket);
             this.snapshotsHandler.registerHandlers(socket);
             this.worktreeHandler.registerHandlers(socket);
+            this.collabHandler.registerHandlers(socket);
+            this.watchHandler.registerHandlers(socket);
             // Register LSP proxy for remote editor
             this.setupLSPProxy(socket);
             // Register Ghost Text and Code Generation proxy
@@ -178,13 +219,17 @@ export class RemoteServer {
             // Send initial connection success
             socket.emit('connection:ready', {
                 sessionId: socket.sessionId,
-                permissions: session?.permissions || []
+                permissions: session?.permissions || [],
+                profileId: session?.profileId
             });
             // Handle disconnection
             socket.on('disconnect', () => {
                 // Clean up terminals and Claude instances for this socket
                 this.terminalHandler.cleanupSocketTerminals(socket.id);
                 this.claudeHandler.cleanupSocketInstances(socket.id);
+                this.collabHandler.cleanupSocket(socket.id);
+                this.watchHandler.cleanupSocket(socket.id);
+                this.auditSessionEvent(socket.id, 'session:disconnect');
                 // Remove session
                 this.sessionManager.removeSession(socket.id);
             });
@@ -196,6 +241,87 @@ export class RemoteServer {
             });
         });
     }
+    /**
+     * Socket middleware enforcing REMOTE_EVENT_RULES ahead of every handler.
+     * Denied requests are answered in the handler's response format and logged;
+     * every checked request is also written to the audit log with its outcome.
+     * Middlewares survive removeAllListeners, so this is only set up once per socket.
+     */
+    setupPermissionGuard(socket) {
+        socket.use((packet, next) => {
+            const [event, ...args] = packet;
+            const rule = REMOTE_EVENT_RULES[event];
+            const session = this.sessionManager.getSessionBySocket(socket.id);
+            // Unlisted events have no permission mapping and are dropped
+            if (!rule || !session) {
+                return;
+            }
+            const targetPath = rule.path?.(args);
+            const result = this.sessionManager.authorize(session, event, rule.permission, rule.anyPath && rule.access
+                ? { access: rule.access }
+                : targetPath && rule.access
+                    ? { path: targetPath, access: rule.access, isDirectory: rule.isDirectory }
+                    : undefined, rule.instance?.(args));
+            // Keep-alives and other permission-free events are not audited
+            const audit = rule.permission === null
+                ? () => { }
+                : (outcome, error) => {
+                    const { target, detail } = describeRemoteRequest(event, args);
+                    this.recordAudit(session, {
+                        event,
+                        permission: rule.permission,
+                        target: targetPath ? { ...target, path: targetPath } : target,
+                        detail,
+                        outcome,
+                        error
+                    });
+                };
+            if (result.allowed) {
+                const callback = packet[packet.length - 1];
+                if (typeof callback === 'function') {
+                    // Record the outcome once the handler answers
+                    packet[packet.length - 1] = (response) => {
+                        const failed = response && response.success === false;
+                        const error = typeof response?.error === 'string' ? response.error : response?.error?.message;
+                        audit(failed ? 'failed' : 'succeeded', failed ? error : undefined);
+                        callback(response);
+                    };
+                }
+                else {
+                    audit('allowed');
+                }
+                return next();
+            }
+            audit('denied', result.reason);
+            const message = `Permission denied: ${result.reason}`;
+            if (rule.respond) {
+                rule.respond(socket, args, message);
+                return;
+            }
+            const callback = args[args.length - 1];
+            if (typeof callback === 'function') {
+                callback(rule.plainError
+                    ? { success: false, error: message }
+                    : { id: args[0]?.id, success: false, error: { code: 'PERMISSION_DENIED', message } });
+            }
+        });
+    }
+    recordAudit(session, entry) {
+        this.auditLog?.record({
+            sessionId: session.id,
+            userId: session.userId,
+            deviceId: session.deviceId,
+            deviceName: session.deviceName,
+            profileId: session.profileId,
+            ...entry
+        });
+    }
+    auditSessionEvent(socketId, event) {
+        const session = this.sessionManager.getSessionBySocket(socketId);
+        if (session) {
+            this.recordAudit(session, { event, permission: null, outcome: 'succeeded' });
+        }
+    }
     async stop() {
         // Disconnect all clients
         if (this.io) {
@@ -233,8 +359,34 @@ export class RemoteServer {
     /**
      * Store a token when QR code is generated (called from desktop app)
      */
-    storeToken(token, deviceId, deviceName, pairingCode, expiresAt) {
-        TokenStore.getInstance().storeToken(token, deviceId, deviceName, pairingCode, expiresAt);
+    storeToken(token, deviceId, deviceName, pairingCode, expiresAt, profileId) {
+        TokenStore.getInstance().storeToken(token, deviceId, deviceName, pairingCode, expiresAt, profileId);
+    }
+    /**
+     * Change the permission profile of a token, including its live connections
+     */
+    setTokenProfile(token, profileId) {
+        if (!TokenStore.getInstance().setTokenProfile(token, profileId)) {
+            return false;
+        }
+        const sessions = this.sessionManager.applyTokenProfile(token, profileId);
+        for (const session of sessions) {
+            const socket = this.io?.sockets.sockets.get(session.socketId);
+            socket?.emit('connection:permissions', {
+                profileId: session.profileId,
+                permissions: session.permissions
+            });
+        }
+        return true;
+    }
+    /**
+     * Get recently denied remote requests
+     */
+    getDenials() {
+        return this.sessionManager.getDenials();
+    }
+    clearDenials() {
+        this.sessionManager.clearDenials();
     }
     /**
      * Get active tokens
@@ -246,12 +398,12 @@ export class RemoteServer {
      * Revoke a token
      */
     revokeToken(token) {
-        const success = TokenStore.getInstance().revokeToken(token);
-        if (success && this.io) {
+        const revoked = TokenStore.getInstance().revokeToken(token);
+        if (revoked.length > 0 && this.io) {
             // Find and disconnect any active connections using this token
             const sessions = this.sessionManager.getAllSessions();
             for (const session of sessions) {
-                if (session.token === token) {
+                if (session.token && revoked.includes(session.token)) {
                     const socket = this.io.sockets.sockets.get(session.socketId);
                     if (socket) {
                         // Send a disconnection message before disconnecting
@@ -267,7 +419,73 @@ export class RemoteServer {
                 }
             }
         }
-        return success;
+        return revoked.length > 0;
+    }
+    /**
+     * Issue a watch link for a Claude instance
+     */
+    shareClaudeInstance(instanceId, instanceName, options) {
+        const expiresAt = new Date(Date.now() + options.expiresInMinutes * 60 * 1000);
+        const share = TokenStore.getInstance().issueWatchToken(instanceId, instanceName, expiresAt, options.allowComments);
+        return this.toShare(share);
+    }
+    /**
+     * Watch links that are still valid, optionally for one instance
+     */
+    getClaudeShares(instanceId) {
+        return TokenStore.getInstance().getWatchTokens(instanceId).map(share => this.toShare(share));
+    }
+    /**
+     * Stop a watch link; its watchers are told why before they are disconnected.
+     * Unlike revokeToken this leaves the trusted device credentials of the
+     * watching browser alone.
+     */
+    stopClaudeShare(token) {
+        const tokenStore = TokenStore.getInstance();
+        const share = tokenStore.resolveToken(token);
+        if (!share || share.kind !== 'watch')
+            return false;
+        tokenStore.revokeToken(token);
+        for (const session of this.sessionManager.getAllSessions()) {
+            const socket = session.token === token ? this.io?.sockets.sockets.get(session.socketId) : undefined;
+            if (socket) {
+                this.watchHandler.endWatch(socket, share.claudeInstanceId, 'revoked');
+            }
+        }
+        return true;
+    }
+    /**
+     * Pass desktop Claude output on to devices watching the instance
+     */
+    forwardWatchedOutput(instanceId, data) {
+        this.watchHandler.forwardOutput(instanceId, data);
+    }
+    toShare(share) {
+        return {
+            instanceId: share.claudeInstanceId,
+            instanceName: share.claudeInstanceName || share.claudeInstanceId,
+            token: share.token,
+            deviceId: share.deviceId,
+            pairingCode: share.pairingCode,
+            allowComments: !!share.allowComments,
+            expiresAt: share.expiresAt,
+            watchers: this.watchHandler.getWatcherCount(share.token)
+        };
+    }
+    /**
+     * Rename a trusted device, including its live connections
+     */
+    renameDevice(token, deviceName) {
+        const tokenStore = TokenStore.getInstance();
+        if (!tokenStore.renameDevice(token, deviceName))
+            return false;
+        const device = tokenStore.resolveToken(token);
+        for (const session of this.sessionManager.getAllSessions()) {
+            if (session.deviceId === device.deviceId) {
+                session.deviceName = device.deviceName;
+            }
+        }
+        return true;
     }
     /**
      * Disconnect a specific device by session ID
@@ -295,10 +513,55 @@ export class RemoteServer {
         return false;
     }
     /**
-     * Get active connections with details
+     * Hand a checkpoint of the desktop's workspace to a connected device,
+     * delivered as a sync patch the client's sync service applies
+     */
+    handOff(sessionId, checkpoint) {
+        const session = this.sessionManager.getSession(sessionId);
+        if (!session) {
+            return false;
+        }
+        const socket = this.io?.sockets.sockets.get(session.socketId);
+        if (!socket?.connected) {
+            return false;
+        }
+        const patch = {
+            id: `handoff-${Date.now()}`,
+            entityId: checkpoint.id,
+            entityType: HANDOFF_ENTITY_TYPE,
+            fromVersion: 0,
+            toVersion: 1,
+            operations: [{ op: 'replace', path: '', value: checkpoint }],
+            timestamp: new Date(),
+            source: 'remote'
+        };
+        socket.emit('sync:patches', { patches: [patch], from: 'desktop' });
+        return true;
+    }
+    /**
+     * Get active connections with details, including how much terminal output
+     * each one is streamed
      */
     getConnections() {
-        return this.sessionManager.getConnections();
+        return this.sessionManager.getConnections().map(connection => {
+            const session = this.sessionManager.getSession(connection.sessionId);
+            return {
+                ...connection,
+                terminalStream: session ? this.getTerminalStreamStats(session.socketId) : undefined
+            };
+        });
+    }
+    getTerminalStreamStats(socketId) {
+        const stats = [];
+        const remote = this.terminalHandler.getStreamStats(socketId);
+        if (remote)
+            stats.push(remote);
+        for (const stream of this.desktopTerminalStreams.values()) {
+            const desktop = stream.getStats(socketId);
+            if (desktop)
+                stats.push(desktop);
+        }
+        return combineStreamStats(stats);
     }
     forwardTerminalData(socketId, terminalId, data) {
         if (!this.io)
@@ -329,14 +592,19 @@ export class RemoteServer {
     broadcastClaudeInstancesUpdate() {
         if (!this.io)
             return;
-        // Broadcast to all connected clients that Claude instances have been updated
-        this.io.emit(RemoteEvent.CLAUDE_INSTANCES_UPDATED);
+        // Broadcast to all connected clients that Claude instances have been updated.
+        // Watch links only follow their one instance, so the instance list isn't theirs to see
+        this.io.sockets.sockets.forEach((socket) => {
+            if (!this.sessionManager.getSessionBySocket(socket.id)?.watchInstanceId) {
+                socket.emit(RemoteEvent.CLAUDE_INSTANCES_UPDATED);
+            }
+        });
     }
     broadcastClaudeStatusUpdate(instanceId, status, pid) {
         if (!this.io)
             return;
-        // Broadcast to all connected clients with the status payload
-        this.io.emit(RemoteEvent.CLAUDE_INSTANCES_UPDATED, {
+        // Broadcast to the clients that may see this instance with the status payload
+        this.emitForInstance(instanceId, RemoteEvent.CLAUDE_INSTANCES_UPDATED, {
             instanceId,
             status,
             pid
@@ -356,30 +624,51 @@ export class RemoteServer {
         }
         else {
             // Try broadcasting to all sockets as fallback
-            this.io.emit(RemoteEvent.CLAUDE_RESPONSE_COMPLETE, {
+            this.emitForInstance(instanceId, RemoteEvent.CLAUDE_RESPONSE_COMPLETE, {
                 instanceId
             });
         }
     }
-    forwardDesktopTerminalData(ptyId, data) {
-        if (!this.io)
-            return;
-        // Forward to all connected sockets
-        let forwardedCount = 0;
-        this.io.sockets.sockets.forEach((socket) => {
-            // Check if this socket has terminal forwarding set up
-            const ptyToInstanceMap = socket.__ptyToInstanceMap;
-            if (ptyToInstanceMap && ptyToInstanceMap.has(ptyId)) {
-                const instanceId = ptyToInstanceMap.get(ptyId);
-                socket.emit(RemoteEvent.TERMINAL_DATA, {
-                    terminalId: instanceId,
-                    data: Buffer.from(data).toString('base64')
-                });
-                forwardedCount++;
+    /**
+     * Emit an instance's event to every client except watchers of other
+     * instances, which must not learn about them
+     */
+    emitForInstance(instanceId, event, payload) {
+        this.io?.sockets.sockets.forEach((socket) => {
+            const watchInstanceId = this.sessionManager.getSessionBySocket(socket.id)?.watchInstanceId;
+            if (!watchInstanceId || watchInstanceId === instanceId) {
+                socket.emit(event, payload);
             }
         });
-        if (forwardedCount === 0) {
+    }
+    /**
+     * Stream desktop terminal output to the sockets that mapped the terminal.
+     * The stream's screen model only sees output from here on, which is enough
+     * to redraw the screen for clients that fall behind.
+     */
+    forwardDesktopTerminalData(ptyId, data, size) {
+        if (!this.io)
+            return;
+        const stream = this.getDesktopTerminalStream(ptyId, size);
+        if (size) {
+            stream.resize(size.cols, size.rows);
         }
+        stream.write(data);
+    }
+    /**
+     * Drop the stream of a desktop terminal that exited
+     */
+    closeDesktopTerminal(ptyId) {
+        this.desktopTerminalStreams.get(ptyId)?.dispose();
+        this.desktopTerminalStreams.delete(ptyId);
+    }
+    getDesktopTerminalStream(ptyId, size) {
+        let stream = this.desktopTerminalStreams.get(ptyId);
+        if (!stream) {
+            stream = new TerminalStream(size?.cols, size?.rows);
+            this.desktopTerminalStreams.set(ptyId, stream);
+        }
+        return stream;
     }
     updateSocketTerminalMapping(socketId, terminals) {
         if (!this.io)
@@ -396,6 +685,15 @@ export class RemoteServer {
         });
         // Store the mapping on the socket
         socket.__ptyToInstanceMap = ptyToInstanceMap;
+        // Stream the mapped terminals to the socket, and only those
+        for (const [ptyId, stream] of this.desktopTerminalStreams) {
+            if (!ptyToInstanceMap.has(ptyId)) {
+                stream.unsubscribe(socketId);
+            }
+        }
+        ptyToInstanceMap.forEach((instanceId, ptyId) => {
+            this.getDesktopTerminalStream(ptyId).subscribe(createSocketStreamClient(socket, instanceId));
+        });
     }
     setupLSPProxy(socket) {
         // Handle LSP requests from remote clients
@@ -660,6 +958,7 @@ export class RemoteServer {
             if (sock && sock.__ptyToInstanceMap) {
                 delete sock.__ptyToInstanceMap;
             }
+            this.desktopTerminalStreams.forEach(stream => stream.unsubscribe(socketId));
         });
     }
 }
@@ -15,12 +15,25 @@ import { RemoteWorkspaceHandler } from './remote-handlers/RemoteWorkspaceHandler
 import { RemoteDesktopFeaturesHandler } from './remote-handlers/RemoteDesktopFeaturesHandler.js';
 import { RemoteSnapshotsHandler } from './remote-handlers/RemoteSnapshotsHandler.js';
 import { RemoteWorktreeHandler } from './remote-handlers/RemoteWorktreeHandler.js';
-import { RemoteEvent } from './remote-protocol.js';
-import { TokenStore } from './token-store.js';
+import { RemoteCollabHandler } from './remote-handlers/RemoteCollabHandler.js';
+import { RemoteWatchHandler } from './remote-handlers/RemoteWatchHandler.js';
+import { RemoteEvent, WatchProtocol } from './remote-protocol.js';
+import { TokenStore, StoredToken } from './token-store.js';
+import { REMOTE_EVENT_RULES } from './remote-permissions.js';
+import { RemoteAuditLog, AuditRecord, describeRemoteRequest } from './remote-audit-log.js';
+import type { RemoteSession } from './remote-session-manager.js';
+import { HANDOFF_ENTITY_TYPE, SnapshotPatch } from './types/sync-types.js';
+import { CollabHost } from './collab-host.js';
+import { TerminalStream, TerminalStreamStats, createSocketStreamClient, combineStreamStats } from './terminal-stream.js';
 
 export interface RemoteServerOptions {
   config: ModeConfig;
   mainWindow: BrowserWindow;
+  // Workspace that path-scoped permission profiles are confined to
+  getWorkspacePath?: () => string | undefined;
+  auditLog?: RemoteAuditLog;
+  // Shared with the desktop window, which edits the same files
+  collabHost?: CollabHost;
 }
 
 export class RemoteServer {
@@ -37,14 +50,22 @@ export class RemoteServer {
   private desktopFeaturesHandler: RemoteDesktopFeaturesHandler;
   private snapshotsHandler: RemoteSnapshotsHandler;
   private worktreeHandler: RemoteWorktreeHandler;
+  private collabHandler: RemoteCollabHandler;
+  private watchHandler: RemoteWatchHandler;
+  // Desktop terminals streamed to remote clients, by PTY id
+  private desktopTerminalStreams: Map<string, TerminalStream> = new Map();
+  private auditLog: RemoteAuditLog | null;
   
   constructor(options: RemoteServerOptions) {
     this.config = options.config;
     this.mainWindow = options.mainWindow;
+    this.auditLog = options.auditLog || null;
     
     // Initialize session manager
     this.sessionManager = new RemoteSessionManager(
-      this.config.authRequired || false
+      this.config.authRequired || false,
+      undefined,
+      options.getWorkspacePath
     );
     
     // Initialize handlers
@@ -81,6 +102,17 @@ export class RemoteServer {
     this.snapshotsHandler = new RemoteSnapshotsHandler();
     
     this.worktreeHandler = new RemoteWorktreeHandler();
+    
+    this.collabHandler = new RemoteCollabHandler(
+      this.sessionManager,
+      options.collabHost || new CollabHost(options.getWorkspacePath)
+    );
+    
+    // Keeps its watchers and comments when the window is replaced
+    this.watchHandler = new RemoteWatchHandler(
+      this.sessionManager,
+      () => this.mainWindow
+    );
   }
   
   updateMainWindow(mainWindow: BrowserWindow): void {
@@ -132,6 +164,8 @@ export class RemoteServer {
         this.desktopFeaturesHandler.registerHandlers(socket);
         this.snapshotsHandler.registerHandlers(socket);
         this.worktreeHandler.registerHandlers(socket);
+        this.collabHandler.registerHandlers(socket);
+        this.watchHandler.registerHandlers(socket);
         
         // Re-register other handlers
         this.setupLSPProxy(socket);
@@ -142,6 +176,9 @@ export class RemoteServer {
         socket.on('disconnect', () => {
           this.terminalHandler.cleanupSocketTerminals(socket.id);
           this.claudeHandler.cleanupSocketInstances(socket.id);
+          this.collabHandler.cleanupSocket(socket.id);
+          this.watchHandler.cleanupSocket(socket.id);
+          this.auditSessionEvent(socket.id, 'session:disconnect');
           this.sessionManager.removeSession(socket.id);
         });
         
@@ -245,6 +282,26 @@ export class RemoteServer {
       const session = this.sessionManager.getSessionBySocket(socket.id);
      
       
+      // Check every incoming event against the session's permission profile
+      this.setupPermissionGuard(socket);
+      
+      // Hand the client its next device token; the one it connected with is retired
+      if (session) {
+        const rotated = this.sessionManager.rotateSessionToken(session, {
+          deviceName: socket.handshake.auth?.clientName,
+          address: socket.handshake.address
+        });
+        if (rotated) {
+          socket.emit('connection:token', {
+            token: rotated.token,
+            deviceId: rotated.deviceId,
+            deviceName: rotated.deviceName,
+            expiresAt: rotated.expiresAt
+          });
+        }
+      }
+      this.auditSessionEvent(socket.id, 'session:connect');
+      
       // Register handlers
       this.fileHandler.registerHandlers(socket);
       this.terminalHandler.registerHandlers(socket);
@@ -254,6 +311,8 @@ export class RemoteServer {
       this.desktopFeaturesHandler.registerHandlers(socket);
       this.snapshotsHandler.registerHandlers(socket);
       this.worktreeHandler.registerHandlers(socket);
+      this.collabHandler.registerHandlers(socket);
+      this.watchHandler.registerHandlers(socket);
       
       // Register LSP proxy for remote editor
       this.setupLSPProxy(socket);
@@ -267,7 +326,8 @@ export class RemoteServer {
       // Send initial connection success
       socket.emit('connection:ready', {
         sessionId: (socket as any).sessionId,
-        permissions: session?.permissions || []
+        permissions: session?.permissions || [],
+        profileId: session?.profileId
       });
       
       // Handle disconnection
@@ -277,6 +337,9 @@ export class RemoteServer {
         // Clean up terminals and Claude instances for this socket
         this.terminalHandler.cleanupSocketTerminals(socket.id);
         this.claudeHandler.cleanupSocketInstances(socket.id);
+        this.collabHandler.cleanupSocket(socket.id);
+        this.watchHandler.cleanupSocket(socket.id);
+        this.auditSessionEvent(socket.id, 'session:disconnect');
         
         // Remove session
         this.sessionManager.removeSession(socket.id);
@@ -291,6 +354,105 @@ export class RemoteServer {
     });
   }
   
+  /**
+   * Socket middleware enforcing REMOTE_EVENT_RULES ahead of every handler.
+   * Denied requests are answered in the handler's response format and logged;
+   * every checked request is also written to the audit log with its outcome.
+   * Middlewares survive removeAllListeners, so this is only set up once per socket.
+   */
+  private setupPermissionGuard(socket: any): void {
+    socket.use((packet: any[], next: (error?: Error) => void) => {
+      const [event, ...args] = packet;
+      const rule = REMOTE_EVENT_RULES[event];
+      const session = this.sessionManager.getSessionBySocket(socket.id);
+      
+      // Unlisted events have no permission mapping and are dropped
+      if (!rule || !session) {
+        return;
+      }
+      
+      const targetPath = rule.path?.(args);
+      const result = this.sessionManager.authorize(
+        session,
+        event,
+        rule.permission,
+        rule.anyPath && rule.access
+          ? { access: rule.access }
+          : targetPath && rule.access
+            ? { path: targetPath, access: rule.access, isDirectory: rule.isDirectory }
+            : undefined,
+        rule.instance?.(args)
+      );
+      
+      // Keep-alives and other permission-free events are not audited
+      const audit = rule.permission === null
+        ? () => {}
+        : (outcome: AuditRecord['outcome'], error?: string) => {
+            const { target, detail } = describeRemoteRequest(event, args);
+            this.recordAudit(session, {
+              event,
+              permission: rule.permission,
+              target: targetPath ? { ...target, path: targetPath } : target,
+              detail,
+              outcome,
+              error
+            });
+          };
+      
+      if (result.allowed) {
+        const callback = packet[packet.length - 1];
+        if (typeof callback === 'function') {
+          // Record the outcome once the handler answers
+          packet[packet.length - 1] = (response: any) => {
+            const failed = response && response.success === false;
+            const error = typeof response?.error === 'string' ? response.error : response?.error?.message;
+            audit(failed ? 'failed' : 'succeeded', failed ? error : undefined);
+            callback(response);
+          };
+        } else {
+          audit('allowed');
+        }
+        return next();
+      }
+      
+      audit('denied', result.reason);
+      const message = `Permission denied: ${result.reason}`;
+      if (rule.respond) {
+        rule.respond(socket, args, message);
+        return;
+      }
+      
+      const callback = args[args.length - 1];
+      if (typeof callback === 'function') {
+        callback(rule.plainError
+          ? { success: false, error: message }
+          : { id: args[0]?.id, success: false, error: { code: 'PERMISSION_DENIED', message } }
+        );
+      }
+    });
+  }
+  
+  private recordAudit(
+    session: RemoteSession,
+    entry: Omit<AuditRecord, 'sessionId' | 'userId' | 'deviceId' | 'deviceName' | 'profileId'>
+  ): void {
+    this.auditLog?.record({
+      sessionId: session.id,
+      userId: session.userId,
+      deviceId: session.deviceId,
+      deviceName: session.deviceName,
+      profileId: session.profileId,
+      ...entry
+    });
+  }
+  
+  private auditSessionEvent(socketId: string, event: 'session:connect' | 'session:disconnect'): void {
+    const session = this.sessionManager.getSessionBySocket(socketId);
+    if (session) {
+      this.recordAudit(session, { event, permission: null, outcome: 'succeeded' });
+    }
+  }
+  
   async stop(): Promise<void> {
     // Disconnect all clients
     if (this.io) {
@@ -341,9 +503,40 @@ export class RemoteServer {
     deviceId: string,
     deviceName: string,
     pairingCode: string,
-    expiresAt?: Date
+    expiresAt?: Date,
+    profileId?: string
   ): void {
-    TokenStore.getInstance().storeToken(token, deviceId, deviceName, pairingCode, expiresAt);
+    TokenStore.getInstance().storeToken(token, deviceId, deviceName, pairingCode, expiresAt, profileId);
+  }
+  
+  /**
+   * Change the permission profile of a token, including its live connections
+   */
+  setTokenProfile(token: string, profileId: string): boolean {
+    if (!TokenStore.getInstance().setTokenProfile(token, profileId)) {
+      return false;
+    }
+    
+    const sessions = this.sessionManager.applyTokenProfile(token, profileId);
+    for (const session of sessions) {
+      const socket = this.io?.sockets.sockets.get(session.socketId);
+      socket?.emit('connection:permissions', {
+        profileId: session.profileId,
+        permissions: session.permissions
+      });
+    }
+    return true;
+  }
+  
+  /**
+   * Get recently denied remote requests
+   */
+  getDenials() {
+    return this.sessionManager.getDenials();
+  }
+  
+  clearDenials(): void {
+    this.sessionManager.clearDenials();
   }
   
   /**
@@ -357,12 +550,12 @@ export class RemoteServer {
    * Revoke a token
    */
   revokeToken(token: string): boolean {
-    const success = TokenStore.getInstance().revokeToken(token);
-    if (success && this.io) {
+    const revoked = TokenStore.getInstance().revokeToken(token);
+    if (revoked.length > 0 && this.io) {
       // Find and disconnect any active connections using this token
       const sessions = this.sessionManager.getAllSessions();
       for (const session of sessions) {
-        if (session.token === token) {
+        if (session.token && revoked.includes(session.token)) {
           const socket = this.io.sockets.sockets.get(session.socketId);
           if (socket) {
             // Send a disconnection message before disconnecting
@@ -381,7 +574,83 @@ export class RemoteServer {
         }
       }
     }
-    return success;
+    return revoked.length > 0;
+  }
+  
+  /**
+   * Issue a watch link for a Claude instance
+   */
+  shareClaudeInstance(
+    instanceId: string,
+    instanceName: string,
+    options: WatchProtocol.ShareOptions
+  ): WatchProtocol.Share {
+    const expiresAt = new Date(Date.now() + options.expiresInMinutes * 60 * 1000);
+    const share = TokenStore.getInstance().issueWatchToken(instanceId, instanceName, expiresAt, options.allowComments);
+    return this.toShare(share);
+  }
+  
+  /**
+   * Watch links that are still valid, optionally for one instance
+   */
+  getClaudeShares(instanceId?: string): WatchProtocol.Share[] {
+    return TokenStore.getInstance().getWatchTokens(instanceId).map(share => this.toShare(share));
+  }
+  
+  /**
+   * Stop a watch link; its watchers are told why before they are disconnected.
+   * Unlike revokeToken this leaves the trusted device credentials of the
+   * watching browser alone.
+   */
+  stopClaudeShare(token: string): boolean {
+    const tokenStore = TokenStore.getInstance();
+    const share = tokenStore.resolveToken(token);
+    if (!share || share.kind !== 'watch') return false;
+    
+    tokenStore.revokeToken(token);
+    for (const session of this.sessionManager.getAllSessions()) {
+      const socket = session.token === token ? this.io?.sockets.sockets.get(session.socketId) : undefined;
+      if (socket) {
+        this.watchHandler.endWatch(socket, share.claudeInstanceId!, 'revoked');
+      }
+    }
+    return true;
+  }
+  
+  /**
+   * Pass desktop Claude output on to devices watching the instance
+   */
+  forwardWatchedOutput(instanceId: string, data: string): void {
+    this.watchHandler.forwardOutput(instanceId, data);
+  }
+  
+  private toShare(share: StoredToken): WatchProtocol.Share {
+    return {
+      instanceId: share.claudeInstanceId!,
+      instanceName: share.claudeInstanceName || share.claudeInstanceId!,
+      token: share.token,
+      deviceId: share.deviceId,
+      pairingCode: share.pairingCode,
+      allowComments: !!share.allowComments,
+      expiresAt: share.expiresAt,
+      watchers: this.watchHandler.getWatcherCount(share.token)
+    };
+  }
+  
+  /**
+   * Rename a trusted device, including its live connections
+   */
+  renameDevice(token: string, deviceName: string): boolean {
+    const tokenStore = TokenStore.getInstance();
+    if (!tokenStore.renameDevice(token, deviceName)) return false;
+    
+    const device = tokenStore.resolveToken(token)!;
+    for (const session of this.sessionManager.getAllSessions()) {
+      if (session.deviceId === device.deviceId) {
+        session.deviceName = device.deviceName;
+      }
+    }
+    return true;
   }
 
   /**
@@ -418,10 +687,57 @@ export class RemoteServer {
   }
 
   /**
-   * Get active connections with details
+   * Hand a checkpoint of the desktop's workspace to a connected device,
+   * delivered as a sync patch the client's sync service applies
+   */
+  handOff(sessionId: string, checkpoint: { id: string }): boolean {
+    const session = this.sessionManager.getSession(sessionId);
+    if (!session) {
+      return false;
+    }
+    
+    const socket = this.io?.sockets.sockets.get(session.socketId);
+    if (!socket?.connected) {
+      return false;
+    }
+    
+    const patch: SnapshotPatch = {
+      id: `handoff-${Date.now()}`,
+      entityId: checkpoint.id,
+      entityType: HANDOFF_ENTITY_TYPE,
+      fromVersion: 0,
+      toVersion: 1,
+      operations: [{ op: 'replace', path: '', value: checkpoint }],
+      timestamp: new Date(),
+      source: 'remote'
+    };
+    socket.emit('sync:patches', { patches: [patch], from: 'desktop' });
+    return true;
+  }
+
+  /**
+   * Get active connections with details, including how much terminal output
+   * each one is streamed
    */
   getConnections() {
-    return this.sessionManager.getConnections();
+    return this.sessionManager.getConnections().map(connection => {
+      const session = this.sessionManager.getSession(connection.sessionId);
+      return {
+        ...connection,
+        terminalStream: session ? this.getTerminalStreamStats(session.socketId) : undefined
+      };
+    });
+  }
+  
+  private getTerminalStreamStats(socketId: string): TerminalStreamStats | undefined {
+    const stats: TerminalStreamStats[] = [];
+    const remote = this.terminalHandler.getStreamStats(socketId);
+    if (remote) stats.push(remote);
+    for (const stream of this.desktopTerminalStreams.values()) {
+      const desktop = stream.getStats(socketId);
+      if (desktop) stats.push(desktop);
+    }
+    return combineStreamStats(stats);
   }
   
   forwardTerminalData(socketId: string, terminalId: string, data: string): void {
@@ -455,8 +771,13 @@ export class RemoteServer {
   broadcastClaudeInstancesUpdate(): void {
     if (!this.io) return;
     
-    // Broadcast to all connected clients that Claude instances have been updated
-    this.io.emit(RemoteEvent.CLAUDE_INSTANCES_UPDATED);
+    // Broadcast to all connected clients that Claude instances have been updated.
+    // Watch links only follow their one instance, so the instance list isn't theirs to see
+    this.io.sockets.sockets.forEach((socket) => {
+      if (!this.sessionManager.getSessionBySocket(socket.id)?.watchInstanceId) {
+        socket.emit(RemoteEvent.CLAUDE_INSTANCES_UPDATED);
+      }
+    });
   }
   
   broadcastClaudeStatusUpdate(instanceId: string, status: 'connected' | 'disconnected' | 'connecting', pid?: number): void {
@@ -464,8 +785,8 @@ export class RemoteServer {
     
     
     
-    // Broadcast to all connected clients with the status payload
-    this.io.emit(RemoteEvent.CLAUDE_INSTANCES_UPDATED, {
+    // Broadcast to the clients that may see this instance with the status payload
+    this.emitForInstance(instanceId, RemoteEvent.CLAUDE_INSTANCES_UPDATED, {
       instanceId,
       status,
       pid
@@ -492,37 +813,55 @@ export class RemoteServer {
     } else {
      
       // Try broadcasting to all sockets as fallback
-      this.io.emit(RemoteEvent.CLAUDE_RESPONSE_COMPLETE, {
+      this.emitForInstance(instanceId, RemoteEvent.CLAUDE_RESPONSE_COMPLETE, {
         instanceId
       });
     }
   }
   
-  forwardDesktopTerminalData(ptyId: string, data: string): void {
-    if (!this.io) return;
-    
-   
-    
-    // Forward to all connected sockets
-    let forwardedCount = 0;
-    this.io.sockets.sockets.forEach((socket) => {
-      // Check if this socket has terminal forwarding set up
-      const ptyToInstanceMap = (socket as any).__ptyToInstanceMap;
-      if (ptyToInstanceMap && ptyToInstanceMap.has(ptyId)) {
-        const instanceId = ptyToInstanceMap.get(ptyId);
-       
-       
-        socket.emit(RemoteEvent.TERMINAL_DATA, {
-          terminalId: instanceId,
-          data: Buffer.from(data).toString('base64')
-        });
-        forwardedCount++;
+  /**
+   * Emit an instance's event to every client except watchers of other
+   * instances, which must not learn about them
+   */
+  private emitForInstance(instanceId: string, event: string, payload: any): void {
+    this.io?.sockets.sockets.forEach((socket) => {
+      const watchInstanceId = this.sessionManager.getSessionBySocket(socket.id)?.watchInstanceId;
+      if (!watchInstanceId || watchInstanceId === instanceId) {
+        socket.emit(event, payload);
       }
     });
+  }
+  
+  /**
+   * Stream desktop terminal output to the sockets that mapped the terminal.
+   * The stream's screen model only sees output from here on, which is enough
+   * to redraw the screen for clients that fall behind.
+   */
+  forwardDesktopTerminalData(ptyId: string, data: string, size?: { cols: number; rows: number }): void {
+    if (!this.io) return;
     
-    if (forwardedCount === 0) {
-     
+    const stream = this.getDesktopTerminalStream(ptyId, size);
+    if (size) {
+      stream.resize(size.cols, size.rows);
+    }
+    stream.write(data);
+  }
+  
+  /**
+   * Drop the stream of a desktop terminal that exited
+   */
+  closeDesktopTerminal(ptyId: string): void {
+    this.desktopTerminalStreams.get(ptyId)?.dispose();
+    this.desktopTerminalStreams.delete(ptyId);
+  }
+  
+  private getDesktopTerminalStream(ptyId: string, size?: { cols: number; rows: number }): TerminalStream {
+    let stream = this.desktopTerminalStreams.get(ptyId);
+    if (!stream) {
+      stream = new TerminalStream(size?.cols, size?.rows);
+      this.desktopTerminalStreams.set(ptyId, stream);
     }
+    return stream;
   }
   
   updateSocketTerminalMapping(socketId: string, terminals: any[]): void {
@@ -542,7 +881,16 @@ export class RemoteServer {
     
     // Store the mapping on the socket
     (socket as any).__ptyToInstanceMap = ptyToInstanceMap;
-   
+    
+    // Stream the mapped terminals to the socket, and only those
+    for (const [ptyId, stream] of this.desktopTerminalStreams) {
+      if (!ptyToInstanceMap.has(ptyId)) {
+        stream.unsubscribe(socketId);
+      }
+    }
+    ptyToInstanceMap.forEach((instanceId, ptyId) => {
+      this.getDesktopTerminalStream(ptyId).subscribe(createSocketStreamClient(socket, instanceId));
+    });
   }
   
   private setupLSPProxy(socket: any): void {
@@ -817,6 +1165,7 @@ export class RemoteServer {
       if (sock && (sock as any).__ptyToInstanceMap) {
         delete (sock as any).__ptyToInstanceMap;
       }
+      this.desktopTerminalStreams.forEach(stream => stream.unsubscribe(socketId));
     });
   }
 }
\ No newline at end of file
@@ -5,16 +5,23 @@
 import { randomBytes } from 'crypto';
 import { Permission } from './remote-protocol.js';
 import { TokenStore } from './token-store.js';
+import { DEFAULT_PROFILE_ID, getPermissionProfile, profileAllowsPath, profileAllowsAnyPath } from './remote-permissions.js';
+// Recent denials kept for the connection status view
+const MAX_DENIALS = 200;
 export class RemoteSessionManager {
     authRequired;
     sessionTimeout;
+    getWorkspaceRoot;
     sessions = new Map();
     socketToSession = new Map();
     users = new Map();
-    constructor(authRequired = false, sessionTimeout = 3600000 // 1 hour
-    ) {
+    denials = [];
+    constructor(authRequired = false, sessionTimeout = 3600000, // 1 hour
+    // Root that scoped permission profiles confine file access to
+    getWorkspaceRoot = () => global.__currentWorkspace) {
         this.authRequired = authRequired;
         this.sessionTimeout = sessionTimeout;
+        this.getWorkspaceRoot = getWorkspaceRoot;
         // Clean up expired sessions periodically
         setInterval(() => this.cleanupExpiredSessions(), 60000); // Every minute
     }
@@ -27,9 +34,11 @@ export class RemoteSessionManager {
         // Determine user and permissions
         let userId;
         let permissions;
+        let profileId = DEFAULT_PROFILE_ID;
         let deviceId;
         let deviceName;
         let token;
+        let watchInstanceId;
         if (authData && (authData.token || authData.deviceId)) {
             // Validate authentication with token store
             const validation = await this.validateAuth(authData);
@@ -38,9 +47,11 @@ export class RemoteSessionManager {
             }
             userId = validation.user.id;
             permissions = validation.user.permissions;
+            profileId = validation.profileId || DEFAULT_PROFILE_ID;
             deviceId = validation.deviceId;
             deviceName = validation.deviceName;
             token = validation.token;
+            watchInstanceId = validation.watchInstanceId;
         }
         else {
             // Anonymous user with default permissions (only if auth not required)
@@ -56,17 +67,35 @@ export class RemoteSessionManager {
             userId,
             socketId: socket.id,
             permissions,
+            profileId,
             createdAt: new Date(),
             lastActivity: new Date(),
             deviceId,
             deviceName,
-            token
+            token,
+            watchInstanceId
         };
         // Store session
         this.sessions.set(sessionId, session);
         this.socketToSession.set(socket.id, sessionId);
         return session;
     }
+    /**
+     * Swap the session's token for a freshly issued device token, so the client
+     * reconnects as a trusted device with a token that has never been shared
+     */
+    rotateSessionToken(session, connection) {
+        if (!session.token)
+            return null;
+        const rotated = TokenStore.getInstance().rotateToken(session.token, connection);
+        if (!rotated)
+            return null;
+        session.token = rotated.token;
+        session.deviceId = rotated.deviceId;
+        session.deviceName = rotated.deviceName;
+        session.userId = `device-${rotated.deviceId}`;
+        return rotated;
+    }
     /**
      * Get session by socket ID
      */
@@ -102,9 +131,85 @@ export class RemoteSessionManager {
      * Check if session has permission
      */
     hasPermission(session, permission) {
+        if (getPermissionProfile(session.profileId).deny?.includes(permission)) {
+            return false;
+        }
         return session.permissions.includes(Permission.ADMIN) ||
             session.permissions.includes(permission);
     }
+    /**
+     * Check whether a session's profile lets it touch a path
+     */
+    isPathAllowed(session, filePath, access, isDirectory = false) {
+        const profile = getPermissionProfile(session.profileId);
+        return profileAllowsPath(profile, filePath, access, this.getWorkspaceRoot(), isDirectory).allowed;
+    }
+    /**
+     * Check a permission (and path, when given) for an event, recording any denial.
+     * A target without a path stands for any file of the workspace.
+     */
+    authorize(session, event, permission, target, instanceId) {
+        if (permission && !this.hasPermission(session, permission)) {
+            const reason = `${permission} permission required`;
+            this.recordDenial(session, { event, permission, reason });
+            return { allowed: false, reason };
+        }
+        if (permission && session.watchInstanceId && instanceId !== session.watchInstanceId) {
+            const reason = 'Watch link is limited to one Claude instance';
+            this.recordDenial(session, { event, permission, reason });
+            return { allowed: false, reason };
+        }
+        if (target) {
+            const profile = getPermissionProfile(session.profileId);
+            const result = target.path === undefined
+                ? profileAllowsAnyPath(profile, target.access)
+                : profileAllowsPath(profile, target.path, target.access, this.getWorkspaceRoot(), target.isDirectory);
+            if (!result.allowed) {
+                const reason = result.reason || 'Path not allowed';
+                this.recordDenial(session, { event, permission: permission || undefined, path: target.path, reason });
+                return { allowed: false, reason };
+            }
+        }
+        return { allowed: true };
+    }
+    /**
+     * Record a denied request for the deny log
+     */
+    recordDenial(session, denial) {
+        this.denials.unshift({
+            id: randomBytes(8).toString('hex'),
+            timestamp: new Date(),
+            sessionId: session.id,
+            deviceId: session.deviceId,
+            deviceName: session.deviceName || session.userId,
+            profileId: session.profileId,
+            ...denial
+        });
+        if (this.denials.length > MAX_DENIALS) {
+            this.denials.length = MAX_DENIALS;
+        }
+    }
+    /**
+     * Get recent denials, newest first
+     */
+    getDenials() {
+        return [...this.denials];
+    }
+    clearDenials() {
+        this.denials = [];
+    }
+    /**
+     * Apply a token's new profile to the sessions already using it
+     */
+    applyTokenProfile(token, profileId) {
+        const profile = getPermissionProfile(profileId);
+        const sessions = Array.from(this.sessions.values()).filter(session => session.token === token);
+        for (const session of sessions) {
+            session.profileId = profile.id;
+            session.permissions = [...profile.permissions];
+        }
+        return sessions;
+    }
     /**
      * Update session workspace
      */
@@ -170,42 +275,29 @@ export class RemoteSessionManager {
                 error: validation.reason
             };
         }
-        // Create user with appropriate permissions
+        // Permissions come from the profile bound to the token
+        const profile = getPermissionProfile(validation.tokenInfo?.profileId);
         const user = {
             id: `device-${deviceId}`,
             username: validation.tokenInfo?.deviceName || 'Remote Device',
-            permissions: [
-                Permission.FILE_READ,
-                Permission.FILE_WRITE,
-                Permission.TERMINAL_CREATE,
-                Permission.TERMINAL_WRITE,
-                Permission.CLAUDE_SPAWN,
-                Permission.CLAUDE_CONTROL,
-                Permission.WORKSPACE_MANAGE
-            ],
+            permissions: [...profile.permissions],
             workspaces: []
         };
         return {
             user,
             deviceId,
             deviceName: validation.tokenInfo?.deviceName,
-            token
+            token,
+            profileId: profile.id,
+            watchInstanceId: validation.tokenInfo?.claudeInstanceId
         };
     }
     /**
      * Get default permissions for anonymous users
      */
     getDefaultPermissions() {
-        // In non-auth mode, grant most permissions except admin
-        return [
-            Permission.FILE_READ,
-            Permission.FILE_WRITE,
-            Permission.TERMINAL_CREATE,
-            Permission.TERMINAL_WRITE,
-            Permission.CLAUDE_SPAWN,
-            Permission.CLAUDE_CONTROL,
-            Permission.WORKSPACE_MANAGE
-        ];
+        // In non-auth mode, grant the default profile (most permissions except admin)
+        return [...getPermissionProfile(DEFAULT_PROFILE_ID).permissions];
     }
     /**
      * Generate unique session ID
@@ -250,6 +342,8 @@ export class RemoteSessionManager {
             deviceName: s.deviceName || 'Unknown Device',
             deviceId: s.deviceId || 'anonymous',
             token: s.token,
+            profileId: s.profileId,
+            profileName: getPermissionProfile(s.profileId).name,
             connectedAt: s.createdAt,
             lastActivity: s.lastActivity,
             isActive: now - s.lastActivity.getTime() < 300000
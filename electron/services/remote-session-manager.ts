@@ -5,7 +5,19 @@
 import { randomBytes } from 'crypto';
 import type { Socket } from 'socket.io';
 import { Permission } from './remote-protocol.js';
-import { TokenStore } from './token-store.js';
+import { TokenStore, StoredToken } from './token-store.js';
+import {
+  DEFAULT_PROFILE_ID,
+  getPermissionProfile,
+  profileAllowsPath,
+  profileAllowsAnyPath,
+  profileGrants,
+  PathAccess,
+  PermissionDenial
+} from './remote-permissions.js';
+
+// Recent denials kept for the connection status view
+const MAX_DENIALS = 200;
 
 export interface RemoteSession {
   id: string;
@@ -13,12 +25,15 @@ export interface RemoteSession {
   socketId: string;
   workspaceId?: string;
   permissions: Permission[];
+  profileId: string;
   createdAt: Date;
   lastActivity: Date;
   metadata?: Record<string, any>;
   deviceId?: string;
   deviceName?: string;
   token?: string;
+  // Set for watch links, which only reach this Claude instance
+  watchInstanceId?: string;
 }
 
 export interface RemoteUser {
@@ -32,10 +47,13 @@ export class RemoteSessionManager {
   private sessions: Map<string, RemoteSession> = new Map();
   private socketToSession: Map<string, string> = new Map();
   private users: Map<string, RemoteUser> = new Map();
+  private denials: PermissionDenial[] = [];
   
   constructor(
     private readonly authRequired: boolean = false,
-    private readonly sessionTimeout: number = 3600000 // 1 hour
+    private readonly sessionTimeout: number = 3600000, // 1 hour
+    // Root that scoped permission profiles confine file access to
+    private readonly getWorkspaceRoot: () => string | undefined = () => (global as any).__currentWorkspace
   ) {
     // Clean up expired sessions periodically
     setInterval(() => this.cleanupExpiredSessions(), 60000); // Every minute
@@ -51,9 +69,11 @@ export class RemoteSessionManager {
     // Determine user and permissions
     let userId: string;
     let permissions: Permission[];
+    let profileId = DEFAULT_PROFILE_ID;
     let deviceId: string | undefined;
     let deviceName: string | undefined;
     let token: string | undefined;
+    let watchInstanceId: string | undefined;
     
     if (authData && (authData.token || authData.deviceId)) {
       // Validate authentication with token store
@@ -63,9 +83,11 @@ export class RemoteSessionManager {
       }
       userId = validation.user.id;
       permissions = validation.user.permissions;
+      profileId = validation.profileId || DEFAULT_PROFILE_ID;
       deviceId = validation.deviceId;
       deviceName = validation.deviceName;
       token = validation.token;
+      watchInstanceId = validation.watchInstanceId;
     } else {
       // Anonymous user with default permissions (only if auth not required)
       if (this.authRequired) {
@@ -81,11 +103,13 @@ export class RemoteSessionManager {
       userId,
       socketId: socket.id,
       permissions,
+      profileId,
       createdAt: new Date(),
       lastActivity: new Date(),
       deviceId,
       deviceName,
-      token
+      token,
+      watchInstanceId
     };
     
     // Store session
@@ -97,6 +121,23 @@ export class RemoteSessionManager {
     return session;
   }
   
+  /**
+   * Swap the session's token for a freshly issued device token, so the client
+   * reconnects as a trusted device with a token that has never been shared
+   */
+  rotateSessionToken(session: RemoteSession, connection: { deviceName?: string; address?: string }): StoredToken | null {
+    if (!session.token) return null;
+    
+    const rotated = TokenStore.getInstance().rotateToken(session.token, connection);
+    if (!rotated) return null;
+    
+    session.token = rotated.token;
+    session.deviceId = rotated.deviceId;
+    session.deviceName = rotated.deviceName;
+    session.userId = `device-${rotated.deviceId}`;
+    return rotated;
+  }
+  
   /**
    * Get session by socket ID
    */
@@ -136,10 +177,104 @@ export class RemoteSessionManager {
    * Check if session has permission
    */
   hasPermission(session: RemoteSession, permission: Permission): boolean {
+    if (getPermissionProfile(session.profileId).deny?.includes(permission)) {
+      return false;
+    }
     return session.permissions.includes(Permission.ADMIN) || 
            session.permissions.includes(permission);
   }
   
+  /**
+   * Check whether a session's profile lets it touch a path
+   */
+  isPathAllowed(session: RemoteSession, filePath: string, access: PathAccess, isDirectory = false): boolean {
+    const profile = getPermissionProfile(session.profileId);
+    return profileAllowsPath(profile, filePath, access, this.getWorkspaceRoot(), isDirectory).allowed;
+  }
+  
+  /**
+   * Check a permission (and path, when given) for an event, recording any denial.
+   * A target without a path stands for any file of the workspace.
+   */
+  authorize(
+    session: RemoteSession,
+    event: string,
+    permission: Permission | null,
+    target?: { path?: string; access: PathAccess; isDirectory?: boolean },
+    instanceId?: string
+  ): { allowed: boolean; reason?: string } {
+    if (permission && !this.hasPermission(session, permission)) {
+      const reason = `${permission} permission required`;
+      this.recordDenial(session, { event, permission, reason });
+      return { allowed: false, reason };
+    }
+    
+    if (permission && session.watchInstanceId && instanceId !== session.watchInstanceId) {
+      const reason = 'Watch link is limited to one Claude instance';
+      this.recordDenial(session, { event, permission, reason });
+      return { allowed: false, reason };
+    }
+    
+    if (target) {
+      const profile = getPermissionProfile(session.profileId);
+      const result = target.path === undefined
+        ? profileAllowsAnyPath(profile, target.access)
+        : profileAllowsPath(profile, target.path, target.access, this.getWorkspaceRoot(), target.isDirectory);
+      if (!result.allowed) {
+        const reason = result.reason || 'Path not allowed';
+        this.recordDenial(session, { event, permission: permission || undefined, path: target.path, reason });
+        return { allowed: false, reason };
+      }
+    }
+    
+    return { allowed: true };
+  }
+  
+  /**
+   * Record a denied request for the deny log
+   */
+  recordDenial(
+    session: RemoteSession,
+    denial: Pick<PermissionDenial, 'event' | 'permission' | 'path' | 'reason'>
+  ): void {
+    this.denials.unshift({
+      id: randomBytes(8).toString('hex'),
+      timestamp: new Date(),
+      sessionId: session.id,
+      deviceId: session.deviceId,
+      deviceName: session.deviceName || session.userId,
+      profileId: session.profileId,
+      ...denial
+    });
+    if (this.denials.length > MAX_DENIALS) {
+      this.denials.length = MAX_DENIALS;
+    }
+  }
+  
+  /**
+   * Get recent denials, newest first
+   */
+  getDenials(): PermissionDenial[] {
+    return [...this.denials];
+  }
+  
+  clearDenials(): void {
+    this.denials = [];
+  }
+  
+  /**
+   * Apply a token's new profile to the sessions already using it
+   */
+  applyTokenProfile(token: string, profileId: string): RemoteSession[] {
+    const profile = getPermissionProfile(profileId);
+    const sessions = Array.from(this.sessions.values()).filter(session => session.token === token);
+    for (const session of sessions) {
+      session.profileId = profile.id;
+      session.permissions = [...profile.permissions];
+    }
+    return sessions;
+  }
+  
   /**
    * Update session workspace
    */
@@ -197,6 +332,8 @@ export class RemoteSessionManager {
     deviceId?: string;
     deviceName?: string;
     token?: string;
+    profileId?: string;
+    watchInstanceId?: string;
   }> {
     const tokenStore = TokenStore.getInstance();
     
@@ -224,19 +361,12 @@ export class RemoteSessionManager {
       };
     }
     
-    // Create user with appropriate permissions
+    // Permissions come from the profile bound to the token
+    const profile = getPermissionProfile(validation.tokenInfo?.profileId);
     const user: RemoteUser = {
       id: `device-${deviceId}`,
       username: validation.tokenInfo?.deviceName || 'Remote Device',
-      permissions: [
-        Permission.FILE_READ,
-        Permission.FILE_WRITE,
-        Permission.TERMINAL_CREATE,
-        Permission.TERMINAL_WRITE,
-        Permission.CLAUDE_SPAWN,
-        Permission.CLAUDE_CONTROL,
-        Permission.WORKSPACE_MANAGE
-      ],
+      permissions: [...profile.permissions],
       workspaces: []
     };
     
@@ -244,7 +374,9 @@ export class RemoteSessionManager {
       user,
       deviceId,
       deviceName: validation.tokenInfo?.deviceName,
-      token
+      token,
+      profileId: profile.id,
+      watchInstanceId: validation.tokenInfo?.claudeInstanceId
     };
   }
   
@@ -252,16 +384,8 @@ export class RemoteSessionManager {
    * Get default permissions for anonymous users
    */
   private getDefaultPermissions(): Permission[] {
-    // In non-auth mode, grant most permissions except admin
-    return [
-      Permission.FILE_READ,
-      Permission.FILE_WRITE,
-      Permission.TERMINAL_CREATE,
-      Permission.TERMINAL_WRITE,
-      Permission.CLAUDE_SPAWN,
-      Permission.CLAUDE_CONTROL,
-      Permission.WORKSPACE_MANAGE
-    ];
+    // In non-auth mode, grant the default profile (most permissions except admin)
+    return [...getPermissionProfile(DEFAULT_PROFILE_ID).permissions];
   }
   
   /**
@@ -308,6 +432,8 @@ export class RemoteSessionManager {
     deviceName: string;
     deviceId: string;
     token?: string;
+    profileId: string;
+    profileName: string;
     connectedAt: Date;
     lastActivity: Date;
     isActive: boolean;
@@ -320,6 +446,8 @@ export class RemoteSessionManager {
         deviceName: s.deviceName || 'Unknown Device',
         deviceId: s.deviceId || 'anonymous',
         token: s.token,
+        profileId: s.profileId,
+        profileName: getPermissionProfile(s.profileId).name,
         connectedAt: s.createdAt,
         lastActivity: s.lastActivity,
         isActive: now - s.lastActivity.getTime() < 300000
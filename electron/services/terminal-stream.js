@@ -0,0 +1,239 @@
+/**
+ * Bandwidth-adaptive terminal output streaming
+ * Coalesces PTY output per remote client and sends it at a limited frame
+ * rate. A headless screen model tracks what the terminal shows, so a client
+ * that falls behind gets a compact snapshot of the screen instead of the
+ * backlog it missed, and a reconnecting client gets one instead of the full
+ * history.
+ */
+import { createRequire } from 'module';
+import { RemoteEvent } from './remote-protocol.js';
+// Both packages are CommonJS bundles without named ESM exports
+const require = createRequire(import.meta.url);
+const { Terminal } = require('@xterm/headless');
+const { SerializeAddon } = require('@xterm/addon-serialize');
+// Fastest and slowest frame rates a client is sent output at
+const MIN_FRAME_INTERVAL_MS = 33;
+const MAX_FRAME_INTERVAL_MS = 1000;
+// A client this far behind is sent the screen instead of what it missed
+const SNAPSHOT_THRESHOLD_BYTES = 256 * 1024;
+// Scrollback kept by the screen model and included in reconnect snapshots
+const MODEL_SCROLLBACK = 1000;
+const SNAPSHOT_SCROLLBACK = 500;
+// Throughput is measured over this window
+const RATE_WINDOW_MS = 2000;
+export class TerminalStream {
+    terminal;
+    serializeAddon;
+    subscribers = new Map();
+    disposed = false;
+    constructor(cols = 80, rows = 24) {
+        this.terminal = new Terminal({
+            cols,
+            rows,
+            scrollback: MODEL_SCROLLBACK,
+            allowProposedApi: true
+        });
+        this.serializeAddon = new SerializeAddon();
+        this.terminal.loadAddon(this.serializeAddon);
+    }
+    /**
+     * Feed PTY output to the screen model and every subscribed client
+     */
+    write(data) {
+        if (this.disposed)
+            return;
+        this.terminal.write(data);
+        for (const subscriber of this.subscribers.values()) {
+            subscriber.stats.bytesIn += data.length;
+            if (subscriber.needsSnapshot) {
+                subscriber.stats.bytesSkipped += data.length;
+            }
+            else {
+                subscriber.pending += data;
+                if (subscriber.pending.length > SNAPSHOT_THRESHOLD_BYTES) {
+                    this.skipToSnapshot(subscriber);
+                }
+            }
+            this.scheduleFlush(subscriber);
+        }
+    }
+    resize(cols, rows) {
+        if (this.disposed || (cols === this.terminal.cols && rows === this.terminal.rows))
+            return;
+        this.terminal.resize(cols, rows);
+    }
+    /**
+     * Start streaming to a client. Subscribing again keeps the client's queued
+     * output and stats.
+     */
+    subscribe(client) {
+        const existing = this.subscribers.get(client.id);
+        if (existing) {
+            existing.client = client;
+            return;
+        }
+        this.subscribers.set(client.id, {
+            client,
+            pending: '',
+            needsSnapshot: false,
+            frameInterval: MIN_FRAME_INTERVAL_MS,
+            timer: null,
+            flushing: false,
+            stats: {
+                bytesIn: 0,
+                bytesSent: 0,
+                bytesSkipped: 0,
+                framesSent: 0,
+                snapshotsSent: 0,
+                bytesPerSecond: 0,
+                frameIntervalMs: MIN_FRAME_INTERVAL_MS
+            },
+            windowStart: Date.now(),
+            windowBytes: 0
+        });
+    }
+    unsubscribe(clientId) {
+        const subscriber = this.subscribers.get(clientId);
+        if (subscriber?.timer) {
+            clearTimeout(subscriber.timer);
+        }
+        this.subscribers.delete(clientId);
+    }
+    hasSubscriber(clientId) {
+        return this.subscribers.has(clientId);
+    }
+    getStats(clientId) {
+        const subscriber = this.subscribers.get(clientId);
+        if (!subscriber)
+            return undefined;
+        this.rollRateWindow(subscriber, 0);
+        return { ...subscriber.stats };
+    }
+    /**
+     * What the terminal shows, with some scrollback, serialized so that writing
+     * it to an empty terminal reproduces it
+     */
+    async snapshot(scrollback = SNAPSHOT_SCROLLBACK) {
+        if (this.disposed)
+            return '';
+        // Writes are parsed asynchronously; wait for the ones already queued
+        await new Promise(resolve => this.terminal.write('', resolve));
+        return this.serializeAddon.serialize({ scrollback });
+    }
+    dispose() {
+        for (const subscriber of this.subscribers.values()) {
+            if (subscriber.timer)
+                clearTimeout(subscriber.timer);
+        }
+        this.subscribers.clear();
+        this.disposed = true;
+        this.terminal.dispose();
+    }
+    skipToSnapshot(subscriber) {
+        subscriber.stats.bytesSkipped += subscriber.pending.length;
+        subscriber.pending = '';
+        subscriber.needsSnapshot = true;
+    }
+    scheduleFlush(subscriber) {
+        if (subscriber.timer || subscriber.flushing)
+            return;
+        subscriber.timer = setTimeout(() => {
+            subscriber.timer = null;
+            this.flush(subscriber).catch(error => {
+                console.error('[TerminalStream] Failed to send output:', error);
+            });
+        }, subscriber.frameInterval);
+    }
+    async flush(subscriber) {
+        if (this.subscribers.get(subscriber.client.id) !== subscriber)
+            return;
+        if (!subscriber.pending && !subscriber.needsSnapshot)
+            return;
+        // Slow links get fewer, larger frames until they catch up
+        if (subscriber.client.isCongested()) {
+            subscriber.frameInterval = Math.min(subscriber.frameInterval * 2, MAX_FRAME_INTERVAL_MS);
+            subscriber.stats.frameIntervalMs = subscriber.frameInterval;
+            this.scheduleFlush(subscriber);
+            return;
+        }
+        subscriber.frameInterval = Math.max(subscriber.frameInterval / 2, MIN_FRAME_INTERVAL_MS);
+        subscriber.stats.frameIntervalMs = subscriber.frameInterval;
+        let frame;
+        let isSnapshot = false;
+        if (subscriber.needsSnapshot) {
+            // Output arriving while the screen is serialized follows in the next frame
+            subscriber.needsSnapshot = false;
+            subscriber.pending = '';
+            // Only the visible screen: the client keeps its own scrollback
+            subscriber.flushing = true;
+            const screen = await this.snapshot(0).finally(() => {
+                subscriber.flushing = false;
+            });
+            if (this.subscribers.get(subscriber.client.id) !== subscriber)
+                return;
+            frame = '\x1b[H\x1b[2J' + screen;
+            isSnapshot = true;
+            subscriber.stats.snapshotsSent++;
+        }
+        else {
+            frame = subscriber.pending;
+            subscriber.pending = '';
+        }
+        subscriber.client.send(frame, isSnapshot);
+        subscriber.stats.framesSent++;
+        subscriber.stats.bytesSent += frame.length;
+        this.rollRateWindow(subscriber, frame.length);
+        if (subscriber.pending) {
+            this.scheduleFlush(subscriber);
+        }
+    }
+    rollRateWindow(subscriber, bytes) {
+        const now = Date.now();
+        subscriber.windowBytes += bytes;
+        const elapsed = now - subscriber.windowStart;
+        if (elapsed >= RATE_WINDOW_MS) {
+            subscriber.stats.bytesPerSecond = Math.round(subscriber.windowBytes * 1000 / elapsed);
+            subscriber.windowStart = now;
+            subscriber.windowBytes = 0;
+        }
+    }
+}
+/**
+ * Stream client that sends a terminal's output over a remote socket, under
+ * the id the client knows the terminal by
+ */
+export function createSocketStreamClient(socket, terminalId) {
+    return {
+        id: socket.id,
+        send(data, snapshot) {
+            // Base64 for Socket.IO polling compatibility
+            const event = {
+                terminalId,
+                data: Buffer.from(data).toString('base64'),
+                snapshot: snapshot || undefined
+            };
+            socket.emit(RemoteEvent.TERMINAL_DATA, event);
+        },
+        isCongested() {
+            // Packets engine.io hasn't handed to the transport yet
+            return socket.conn?.writeBuffer?.length > 0;
+        }
+    };
+}
+/**
+ * Add up one client's throughput across the terminals it streams
+ */
+export function combineStreamStats(stats) {
+    if (stats.length === 0)
+        return undefined;
+    return stats.reduce((total, entry) => ({
+        bytesIn: total.bytesIn + entry.bytesIn,
+        bytesSent: total.bytesSent + entry.bytesSent,
+        bytesSkipped: total.bytesSkipped + entry.bytesSkipped,
+        framesSent: total.framesSent + entry.framesSent,
+        snapshotsSent: total.snapshotsSent + entry.snapshotsSent,
+        bytesPerSecond: total.bytesPerSecond + entry.bytesPerSecond,
+        frameIntervalMs: Math.max(total.frameIntervalMs, entry.frameIntervalMs)
+    }));
+}
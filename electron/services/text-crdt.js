@@ -0,0 +1,286 @@
+/**
+ * Text CRDT for collaborative editing
+ * A replicated growable array: every character gets a unique id and is placed
+ * after the character it was typed behind (its origin). Characters typed
+ * behind the same origin at the same time are ordered by their Lamport
+ * clocks, so every replica that applied the same operations holds the same
+ * text whatever order they were made in. Deleted characters stay behind as
+ * tombstones that later operations can still refer to.
+ *
+ * Shared by the desktop host and the editors, so it has no dependencies.
+ */
+const keyOf = (client, clock) => `${clock}:${client}`;
+// Later edits win the spot right behind their origin
+function compareIds(a, b) {
+    if (a.clock !== b.clock)
+        return a.clock - b.clock;
+    return a.client < b.client ? -1 : a.client > b.client ? 1 : 0;
+}
+export class TextCrdt {
+    clientId;
+    items = [];
+    byKey = new Map();
+    clock = 0;
+    // Operations that arrived before the characters they refer to
+    pending = [];
+    constructor(clientId, snapshot) {
+        this.clientId = clientId;
+        for (const run of snapshot?.runs || []) {
+            for (let i = 0; i < run.content.length; i++) {
+                const item = {
+                    client: run.client,
+                    clock: run.clock + i,
+                    origin: i === 0 ? run.origin : { client: run.client, clock: run.clock + i - 1 },
+                    char: run.content[i],
+                    deleted: run.deleted
+                };
+                this.items.push(item);
+                this.byKey.set(keyOf(item.client, item.clock), item);
+                this.clock = Math.max(this.clock, item.clock);
+            }
+        }
+    }
+    /**
+     * Start a document from plain text, as one run of this client
+     */
+    static fromText(clientId, text) {
+        const crdt = new TextCrdt(clientId);
+        if (text) {
+            crdt.insert(0, text);
+        }
+        return crdt;
+    }
+    getText() {
+        let text = '';
+        for (const item of this.items) {
+            if (!item.deleted)
+                text += item.char;
+        }
+        return text;
+    }
+    get length() {
+        let length = 0;
+        for (const item of this.items) {
+            if (!item.deleted)
+                length++;
+        }
+        return length;
+    }
+    /**
+     * Insert text at a visible position, returning the operation to send
+     */
+    insert(index, text) {
+        const before = index > 0 ? this.visibleItem(index - 1) : null;
+        const operation = {
+            type: 'insert',
+            id: { client: this.clientId, clock: this.clock + 1 },
+            origin: before ? { client: before.client, clock: before.clock } : null,
+            content: text
+        };
+        this.apply(operation);
+        return operation;
+    }
+    /**
+     * Delete visible characters, returning the operation to send
+     */
+    delete(index, length) {
+        const ranges = [];
+        let visible = 0;
+        for (const item of this.items) {
+            if (item.deleted)
+                continue;
+            if (visible >= index + length)
+                break;
+            if (visible >= index) {
+                const last = ranges[ranges.length - 1];
+                if (last && last.client === item.client && last.clock + last.length === item.clock) {
+                    last.length++;
+                }
+                else {
+                    ranges.push({ client: item.client, clock: item.clock, length: 1 });
+                }
+            }
+            visible++;
+        }
+        const operation = { type: 'delete', ranges };
+        this.apply(operation);
+        return operation;
+    }
+    /**
+     * Apply an operation, local or remote. Applying one twice does nothing.
+     * Returns the resulting changes to the visible text.
+     */
+    apply(operation) {
+        if (!this.isReady(operation)) {
+            this.pending.push(operation);
+            return [];
+        }
+        const changes = operation.type === 'insert'
+            ? this.integrateInsert(operation)
+            : this.integrateDelete(operation);
+        // Anything that was waiting on this operation can go in now
+        return this.pending.length > 0 ? [...changes, ...this.drainPending()] : changes;
+    }
+    /**
+     * Id of the character before a visible position, which keeps pointing at
+     * the same spot while other edits move the text around
+     */
+    relativePosition(index) {
+        if (index <= 0)
+            return null;
+        const item = this.visibleItem(index - 1);
+        return item ? { client: item.client, clock: item.clock } : null;
+    }
+    /**
+     * Visible position behind a character, or null if it isn't known here
+     */
+    absolutePosition(position) {
+        if (!position)
+            return 0;
+        const target = this.byKey.get(keyOf(position.client, position.clock));
+        if (!target)
+            return null;
+        let visible = 0;
+        for (const item of this.items) {
+            if (item === target) {
+                return item.deleted ? visible : visible + 1;
+            }
+            if (!item.deleted)
+                visible++;
+        }
+        return null;
+    }
+    snapshot() {
+        const runs = [];
+        let previous = null;
+        for (const item of this.items) {
+            const run = runs[runs.length - 1];
+            const continuesRun = run && previous &&
+                item.client === run.client &&
+                item.clock === run.clock + run.content.length &&
+                item.deleted === run.deleted &&
+                item.origin?.client === previous.client &&
+                item.origin?.clock === previous.clock;
+            if (continuesRun) {
+                run.content += item.char;
+            }
+            else {
+                runs.push({
+                    client: item.client,
+                    clock: item.clock,
+                    origin: item.origin,
+                    content: item.char,
+                    deleted: item.deleted
+                });
+            }
+            previous = item;
+        }
+        return { runs };
+    }
+    isReady(operation) {
+        if (operation.type === 'insert') {
+            const { origin } = operation;
+            return !origin || this.byKey.has(keyOf(origin.client, origin.clock));
+        }
+        return operation.ranges.every(range => this.byKey.has(keyOf(range.client, range.clock)) &&
+            this.byKey.has(keyOf(range.client, range.clock + range.length - 1)));
+    }
+    drainPending() {
+        const changes = [];
+        let progressed = true;
+        while (progressed) {
+            progressed = false;
+            for (const operation of [...this.pending]) {
+                if (!this.isReady(operation))
+                    continue;
+                this.pending.splice(this.pending.indexOf(operation), 1);
+                changes.push(...(operation.type === 'insert'
+                    ? this.integrateInsert(operation)
+                    : this.integrateDelete(operation)));
+                progressed = true;
+            }
+        }
+        return changes;
+    }
+    integrateInsert(operation) {
+        const { id, content } = operation;
+        if (this.byKey.has(keyOf(id.client, id.clock)))
+            return [];
+        let origin = operation.origin;
+        let index = origin ? this.items.indexOf(this.byKey.get(keyOf(origin.client, origin.clock))) + 1 : 0;
+        let first = -1;
+        for (let i = 0; i < content.length; i++) {
+            const item = {
+                client: id.client,
+                clock: id.clock + i,
+                origin,
+                char: content[i],
+                deleted: false
+            };
+            // Skip past newer characters typed behind the same origin, along with
+            // everything typed behind those
+            while (index < this.items.length && compareIds(this.items[index], item) > 0) {
+                index++;
+            }
+            this.items.splice(index, 0, item);
+            this.byKey.set(keyOf(item.client, item.clock), item);
+            if (first === -1)
+                first = index;
+            origin = { client: item.client, clock: item.clock };
+            index++;
+        }
+        this.clock = Math.max(this.clock, id.clock + content.length - 1);
+        return [{ from: this.visibleBefore(first), to: this.visibleBefore(first), insert: content }];
+    }
+    integrateDelete(operation) {
+        const targets = new Set();
+        for (const range of operation.ranges) {
+            for (let i = 0; i < range.length; i++) {
+                const item = this.byKey.get(keyOf(range.client, range.clock + i));
+                if (item && !item.deleted)
+                    targets.add(item);
+            }
+        }
+        if (targets.size === 0)
+            return [];
+        // Positions are taken before anything is removed
+        const changes = [];
+        let visible = 0;
+        for (const item of this.items) {
+            if (item.deleted)
+                continue;
+            if (targets.has(item)) {
+                const last = changes[changes.length - 1];
+                if (last && last.to === visible) {
+                    last.to++;
+                }
+                else {
+                    changes.push({ from: visible, to: visible + 1, insert: '' });
+                }
+            }
+            visible++;
+        }
+        targets.forEach(item => { item.deleted = true; });
+        // Back to front, so each change still lines up after the ones before it
+        return changes.reverse();
+    }
+    visibleItem(index) {
+        let visible = 0;
+        for (const item of this.items) {
+            if (item.deleted)
+                continue;
+            if (visible === index)
+                return item;
+            visible++;
+        }
+        return null;
+    }
+    visibleBefore(arrayIndex) {
+        let visible = 0;
+        for (let i = 0; i < arrayIndex; i++) {
+            if (!this.items[i].deleted)
+                visible++;
+        }
+        return visible;
+    }
+}
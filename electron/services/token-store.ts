@@ -1,23 +1,55 @@
 /**
  * Token store for validating remote connections
- * Stores valid tokens generated for QR codes and validates incoming connections
+ * Stores valid tokens generated for QR codes and validates incoming connections.
+ * A QR (pairing) token is exchanged for a per-device token on first connect, and
+ * device tokens are rotated on every reconnect. Watch tokens let a browser follow
+ * a single Claude instance read-only and are never exchanged. Everything is
+ * persisted to disk, encrypted with the OS keychain via safeStorage, so paired
+ * devices survive restarts.
  */
+import { safeStorage } from 'electron';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import path from 'path';
+import { DEFAULT_PROFILE_ID, PERMISSION_PROFILES, WATCHER_PROFILE_ID } from './remote-permissions.js';
+
+export type TokenKind = 'pairing' | 'device' | 'watch';
 
 export interface StoredToken {
   token: string;
+  kind: TokenKind;
   deviceId: string;
   deviceName: string;
   pairingCode: string;
-  createdAt: Date;
+  createdAt: Date; // For device tokens, when the device was first paired
   expiresAt: Date;
   lastUsed?: Date;
+  lastAddress?: string;
   connectionCount: number;
+  profileId: string; // Permission profile applied to connections using this token
+  supersededBy?: string; // Rotated out, still accepted until it expires
+  claudeInstanceId?: string; // Watch tokens only reach this Claude instance
+  claudeInstanceName?: string;
+  allowComments?: boolean; // Watchers may send comments back to the desktop
 }
 
+export const DEFAULT_TOKEN_EXPIRY_DAYS = 30;
+
+// How long a rotated-out token keeps working, in case the client missed its replacement
+const ROTATION_GRACE_MS = 2 * 60 * 1000;
+const PERSIST_DELAY_MS = 1000;
+const STORE_VERSION = 1;
+// Same alphabet as the pairing codes of QR links, which clients validate
+const PAIRING_CODE_CHARS = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const PAIRING_CODE_LENGTH = 6;
+
 export class TokenStore {
   private static instance: TokenStore;
   private tokens: Map<string, StoredToken> = new Map();
   private deviceTokens: Map<string, string[]> = new Map(); // deviceId -> tokens[]
+  private filePath: string | null = null;
+  private persistTimer: NodeJS.Timeout | null = null;
+  private expiryDays = DEFAULT_TOKEN_EXPIRY_DAYS;
   
   private constructor() {
     // Clean up expired tokens every 5 minutes
@@ -31,6 +63,51 @@ export class TokenStore {
     return TokenStore.instance;
   }
   
+  /**
+   * Load persisted tokens and keep them saved to filePath from now on.
+   * Must run after the app is ready, since safeStorage needs the OS keychain.
+   */
+  initialize(filePath: string, expiryDays: number = DEFAULT_TOKEN_EXPIRY_DAYS): void {
+    this.filePath = filePath;
+    this.expiryDays = expiryDays;
+    
+    if (!fs.existsSync(filePath)) return;
+    if (!safeStorage.isEncryptionAvailable()) {
+      console.warn('[TokenStore] Encryption unavailable, paired devices were not restored');
+      return;
+    }
+    
+    try {
+      const data = JSON.parse(safeStorage.decryptString(fs.readFileSync(filePath)));
+      const now = new Date();
+      for (const raw of data.tokens || []) {
+        const storedToken: StoredToken = {
+          ...raw,
+          kind: raw.kind || 'pairing',
+          createdAt: new Date(raw.createdAt),
+          expiresAt: new Date(raw.expiresAt),
+          lastUsed: raw.lastUsed ? new Date(raw.lastUsed) : undefined
+        };
+        // Tokens stored during this run (before initialize) take precedence
+        if (now > storedToken.expiresAt || this.tokens.has(storedToken.token)) continue;
+        this.addToken(storedToken);
+      }
+    } catch (error) {
+      console.error('[TokenStore] Failed to load persisted tokens:', error);
+    }
+  }
+  
+  /**
+   * Lifetime of new and rotated tokens, in days
+   */
+  getExpiryDays(): number {
+    return this.expiryDays;
+  }
+  
+  setExpiryDays(days: number): void {
+    this.expiryDays = days;
+  }
+  
   /**
    * Store a new token when QR code is generated
    */
@@ -39,26 +116,72 @@ export class TokenStore {
     deviceId: string,
     deviceName: string,
     pairingCode: string,
-    expiresAt?: Date
+    expiresAt?: Date,
+    profileId: string = DEFAULT_PROFILE_ID
   ): void {
-    const storedToken: StoredToken = {
+    // The same QR token is re-stored whenever the pairing screen is reopened
+    const existing = this.tokens.get(token);
+    if (existing) {
+      existing.deviceName = deviceName;
+      existing.pairingCode = pairingCode;
+      // A QR token that was already exchanged stays retired
+      if (expiresAt && !existing.supersededBy) existing.expiresAt = new Date(expiresAt);
+      this.schedulePersist();
+      return;
+    }
+    
+    this.addToken({
       token,
+      kind: 'pairing',
       deviceId,
       deviceName,
       pairingCode,
       createdAt: new Date(),
-      expiresAt: expiresAt || new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days default
-      connectionCount: 0
+      expiresAt: expiresAt ? new Date(expiresAt) : this.nextExpiry(),
+      connectionCount: 0,
+      profileId
+    });
+    this.schedulePersist();
+  }
+  
+  /**
+   * Issue a link that lets anyone holding it watch one Claude instance
+   */
+  issueWatchToken(
+    claudeInstanceId: string,
+    instanceName: string,
+    expiresAt: Date,
+    allowComments: boolean
+  ): StoredToken {
+    const watchToken: StoredToken = {
+      token: randomBytes(32).toString('hex'),
+      kind: 'watch',
+      deviceId: randomBytes(16).toString('hex'),
+      deviceName: `Watching ${instanceName}`,
+      pairingCode: this.generatePairingCode(),
+      createdAt: new Date(),
+      expiresAt,
+      connectionCount: 0,
+      profileId: WATCHER_PROFILE_ID,
+      claudeInstanceId,
+      claudeInstanceName: instanceName,
+      allowComments
     };
-    
-    this.tokens.set(token, storedToken);
-    
-    // Track tokens by device
-    const deviceTokenList = this.deviceTokens.get(deviceId) || [];
-    deviceTokenList.push(token);
-    this.deviceTokens.set(deviceId, deviceTokenList);
-    
-    
+    this.addToken(watchToken);
+    this.schedulePersist();
+    return watchToken;
+  }
+  
+  /**
+   * Watch links that are still valid, optionally for one instance
+   */
+  getWatchTokens(claudeInstanceId?: string): StoredToken[] {
+    const now = new Date();
+    return Array.from(this.tokens.values()).filter(token =>
+      token.kind === 'watch' &&
+      now <= token.expiresAt &&
+      (!claudeInstanceId || token.claudeInstanceId === claudeInstanceId)
+    );
   }
   
   /**
@@ -90,6 +213,12 @@ export class TokenStore {
       return { valid: false, reason: 'Token expired' };
     }
     
+    // A retired pairing token sits outside its device's token list, so it
+    // isn't removed when the device is revoked
+    if (storedToken.supersededBy && !this.tokens.has(storedToken.supersededBy)) {
+      return { valid: false, reason: 'Token revoked' };
+    }
+    
     // Check if deviceId matches
     if (storedToken.deviceId !== deviceId) {
       return { valid: false, reason: 'Device ID mismatch' };
@@ -103,20 +232,91 @@ export class TokenStore {
     // Update usage info
     storedToken.lastUsed = new Date();
     storedToken.connectionCount++;
+    this.schedulePersist();
     
     return { valid: true, tokenInfo: storedToken };
   }
   
   /**
-   * Get all active connections
+   * Issue a fresh device token for a validated connection. A pairing token is
+   * exchanged for a new trusted device; a device token is replaced by its
+   * successor, which carries over the device's name, profile and history.
+   * Either way the old token is retired after a short grace period.
+   */
+  rotateToken(token: string, connection: { deviceName?: string; address?: string } = {}): StoredToken | null {
+    const current = this.resolveToken(token);
+    // Watch links stay links; a watcher never becomes a trusted device
+    if (!current || current.kind === 'watch') return null;
+    
+    const now = new Date();
+    const isDevice = current.kind === 'device';
+    const rotated: StoredToken = {
+      token: randomBytes(32).toString('hex'),
+      kind: 'device',
+      deviceId: isDevice ? current.deviceId : randomBytes(16).toString('hex'),
+      deviceName: isDevice ? current.deviceName : (connection.deviceName || current.deviceName),
+      pairingCode: current.pairingCode,
+      createdAt: isDevice ? current.createdAt : now,
+      expiresAt: this.nextExpiry(),
+      lastUsed: now,
+      lastAddress: connection.address,
+      connectionCount: isDevice ? current.connectionCount : 1,
+      profileId: current.profileId
+    };
+    this.addToken(rotated);
+    
+    current.supersededBy = rotated.token;
+    current.expiresAt = new Date(Math.min(current.expiresAt.getTime(), now.getTime() + ROTATION_GRACE_MS));
+    
+    this.schedulePersist();
+    return rotated;
+  }
+  
+  /**
+   * Follow rotations to the token currently in use
+   */
+  resolveToken(token: string): StoredToken | undefined {
+    let storedToken = this.tokens.get(token);
+    while (storedToken?.supersededBy && this.tokens.has(storedToken.supersededBy)) {
+      storedToken = this.tokens.get(storedToken.supersededBy);
+    }
+    return storedToken;
+  }
+  
+  /**
+   * Get all tokens that can still be used to connect: QR pairing tokens and
+   * trusted devices, most recently used first
    */
   getActiveConnections(): StoredToken[] {
     const now = new Date();
     return Array.from(this.tokens.values())
-      .filter(token => token.lastUsed && now <= token.expiresAt)  // Changed > to <= to get NON-expired tokens
+      .filter(token => !token.supersededBy && now <= token.expiresAt)
       .sort((a, b) => (b.lastUsed?.getTime() || 0) - (a.lastUsed?.getTime() || 0));
   }
   
+  /**
+   * Tokens a client can still connect with, including rotated-out ones in
+   * their grace period
+   */
+  getUsableTokens(): StoredToken[] {
+    const now = new Date();
+    return Array.from(this.tokens.values())
+      .filter(token => now <= token.expiresAt && (!token.supersededBy || this.tokens.has(token.supersededBy)));
+  }
+  
+  /**
+   * Rename a trusted device
+   */
+  renameDevice(token: string, deviceName: string): boolean {
+    const storedToken = this.resolveToken(token);
+    const name = deviceName.trim();
+    if (!storedToken || storedToken.kind !== 'device' || !name) return false;
+    
+    storedToken.deviceName = name;
+    this.schedulePersist();
+    return true;
+  }
+  
   /**
    * Get connection stats
    */
@@ -136,11 +336,52 @@ export class TokenStore {
   }
   
   /**
-   * Revoke a token
+   * Bind a token to a permission profile
+   */
+  setTokenProfile(token: string, profileId: string): boolean {
+    const storedToken = this.resolveToken(token);
+    if (
+      !storedToken ||
+      storedToken.kind === 'watch' ||
+      !PERMISSION_PROFILES.some(profile => profile.id === profileId)
+    ) {
+      return false;
+    }
+    
+    storedToken.profileId = profileId;
+    this.schedulePersist();
+    return true;
+  }
+  
+  /**
+   * Revoke a token. Revoking a trusted device also revokes its rotated-out
+   * tokens, so none of them can be used to reconnect.
+   * Returns every token that was removed.
    */
-  revokeToken(token: string): boolean {
+  revokeToken(token: string): string[] {
+    const storedToken = this.resolveToken(token);
+    if (!storedToken) return [];
+    
+    const revoked = storedToken.kind === 'device'
+      ? [...(this.deviceTokens.get(storedToken.deviceId) || [])]
+      : [storedToken.token];
+    revoked.forEach(t => this.removeToken(t));
+    this.schedulePersist();
+    return revoked;
+  }
+  
+  private addToken(storedToken: StoredToken): void {
+    this.tokens.set(storedToken.token, storedToken);
+    
+    // Track tokens by device
+    const deviceTokenList = this.deviceTokens.get(storedToken.deviceId) || [];
+    deviceTokenList.push(storedToken.token);
+    this.deviceTokens.set(storedToken.deviceId, deviceTokenList);
+  }
+  
+  private removeToken(token: string): void {
     const storedToken = this.tokens.get(token);
-    if (!storedToken) return false;
+    if (!storedToken) return;
     
     // Remove from main store
     this.tokens.delete(token);
@@ -155,9 +396,56 @@ export class TokenStore {
         this.deviceTokens.delete(storedToken.deviceId);
       }
     }
+  }
+  
+  private generatePairingCode(): string {
+    const bytes = randomBytes(PAIRING_CODE_LENGTH);
+    let code = '';
+    for (let i = 0; i < PAIRING_CODE_LENGTH; i++) {
+      // 256 is a multiple of 32, so every character is equally likely
+      code += PAIRING_CODE_CHARS.charAt(bytes[i] % PAIRING_CODE_CHARS.length);
+    }
+    return code;
+  }
+  
+  private nextExpiry(): Date {
+    return new Date(Date.now() + this.expiryDays * 24 * 60 * 60 * 1000);
+  }
+  
+  /**
+   * Save shortly after a change, batching the updates of a burst of connections
+   */
+  private schedulePersist(): void {
+    if (!this.filePath || this.persistTimer) return;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist();
+    }, PERSIST_DELAY_MS);
+  }
+  
+  /**
+   * Write pending changes to disk immediately
+   */
+  flush(): void {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+      this.persist();
+    }
+  }
+  
+  private persist(): void {
+    if (!this.filePath) return;
+    // Never fall back to writing tokens in plain text
+    if (!safeStorage.isEncryptionAvailable()) return;
     
-    
-    return true;
+    try {
+      const data = JSON.stringify({ version: STORE_VERSION, tokens: Array.from(this.tokens.values()) });
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      fs.writeFileSync(this.filePath, safeStorage.encryptString(data), { mode: 0o600 });
+    } catch (error) {
+      console.error('[TokenStore] Failed to persist tokens:', error);
+    }
   }
   
   /**
@@ -169,13 +457,13 @@ export class TokenStore {
     
     for (const [token, storedToken] of this.tokens.entries()) {
       if (now > storedToken.expiresAt) {
-        this.revokeToken(token);
+        this.removeToken(token);
         removed++;
       }
     }
     
     if (removed > 0) {
-      
+      this.schedulePersist();
     }
   }
   
@@ -185,6 +473,6 @@ export class TokenStore {
   clearAll(): void {
     this.tokens.clear();
     this.deviceTokens.clear();
-    
+    this.schedulePersist();
   }
 }
\ No newline at end of file
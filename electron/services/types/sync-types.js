@@ -2,4 +2,5 @@
  * Sync types used by remote handlers
  * Duplicated here to avoid importing from outside electron directory
  */
-export {};
+// Entity type of the checkpoints devices hand to each other
+export const HANDOFF_ENTITY_TYPE = 'device.checkpoint';
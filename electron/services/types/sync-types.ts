@@ -29,4 +29,22 @@ export interface SyncConflict {
   localValue: any;
   remoteValue: any;
   timestamp: number;
-}
\ No newline at end of file
+}
+
+// Entity type of the checkpoints devices hand to each other
+export const HANDOFF_ENTITY_TYPE = 'device.checkpoint';
+
+/**
+ * Patch in the renderer sync engine's format that carries a whole entity,
+ * as a single JSON Patch replace at the document root
+ */
+export interface SnapshotPatch {
+  id: string;
+  entityId: string;
+  entityType: string;
+  fromVersion: number;
+  toVersion: number;
+  operations: Array<{ op: 'replace'; path: ''; value: any }>;
+  timestamp: Date;
+  source: 'remote';
+}
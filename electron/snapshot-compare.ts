@@ -0,0 +1,116 @@
+import { createTwoFilesPatch } from 'diff';
+import type { SnapshotComparison, SnapshotComparisonSide, SnapshotFileComparison } from '../types/snapshot';
+
+// Files larger than this (combined) are compared by hash only
+const DEFAULT_MAX_PATCH_BYTES = 1024 * 1024;
+
+export interface TreeEntry {
+  path: string;
+  hash: string;
+  size: number;
+  isTextFile: boolean;
+}
+
+export interface ComparisonTree {
+  side: SnapshotComparisonSide;
+  files: Map<string, TreeEntry>;
+  read: (entry: TreeEntry) => Promise<string | null>;
+}
+
+export interface CompareOptions {
+  includePatches?: boolean;
+  maxPatchBytes?: number;
+}
+
+function countPatchLines(patch: string): { linesAdded: number; linesRemoved: number } {
+  let linesAdded = 0;
+  let linesRemoved = 0;
+
+  for (const line of patch.split('\n')) {
+    if (line.startsWith('+++') || line.startsWith('---')) continue;
+    if (line.startsWith('+')) linesAdded++;
+    else if (line.startsWith('-')) linesRemoved++;
+  }
+
+  return { linesAdded, linesRemoved };
+}
+
+/**
+ * Compare two file trees by content hash, building unified diffs for changed text files
+ */
+export async function compareTrees(
+  from: ComparisonTree,
+  to: ComparisonTree,
+  options: CompareOptions = {}
+): Promise<SnapshotComparison> {
+  const includePatches = options.includePatches !== false;
+  const maxPatchBytes = options.maxPatchBytes ?? DEFAULT_MAX_PATCH_BYTES;
+
+  const files: SnapshotFileComparison[] = [];
+  let filesUnchanged = 0;
+
+  const paths = new Set([...from.files.keys(), ...to.files.keys()]);
+
+  for (const filePath of Array.from(paths).sort()) {
+    const before = from.files.get(filePath);
+    const after = to.files.get(filePath);
+
+    if (before && after && before.hash === after.hash) {
+      filesUnchanged++;
+      continue;
+    }
+
+    const comparison: SnapshotFileComparison = {
+      path: filePath,
+      status: !before ? 'added' : !after ? 'removed' : 'modified',
+      fromHash: before?.hash,
+      toHash: after?.hash,
+      fromSize: before?.size || 0,
+      toSize: after?.size || 0,
+      isTextFile: (before?.isTextFile ?? true) && (after?.isTextFile ?? true),
+      linesAdded: 0,
+      linesRemoved: 0
+    };
+
+    if (includePatches && comparison.isTextFile) {
+      if (comparison.fromSize + comparison.toSize > maxPatchBytes) {
+        comparison.patchOmitted = true;
+      } else {
+        const oldContent = before ? await from.read(before) : '';
+        const newContent = after ? await to.read(after) : '';
+
+        if (oldContent === null || newContent === null) {
+          comparison.patchOmitted = true;
+        } else {
+          comparison.patch = createTwoFilesPatch(
+            before ? `a/${filePath}` : '/dev/null',
+            after ? `b/${filePath}` : '/dev/null',
+            oldContent,
+            newContent,
+            from.side.name,
+            to.side.name,
+            { context: 3 }
+          );
+          Object.assign(comparison, countPatchLines(comparison.patch));
+        }
+      }
+    }
+
+    files.push(comparison);
+  }
+
+  return {
+    from: from.side,
+    to: to.side,
+    files,
+    summary: {
+      filesAdded: files.filter(f => f.status === 'added').length,
+      filesRemoved: files.filter(f => f.status === 'removed').length,
+      filesModified: files.filter(f => f.status === 'modified').length,
+      filesUnchanged,
+      linesAdded: files.reduce((sum, f) => sum + f.linesAdded, 0),
+      linesRemoved: files.reduce((sum, f) => sum + f.linesRemoved, 0),
+      bytesChanged: files.reduce((sum, f) => sum + Math.abs(f.toSize - f.fromSize), 0)
+    }
+  };
+}
@@ -0,0 +1,190 @@
+/**
+ * Binary delta encoding for the snapshot pack store.
+ *
+ * A delta describes a target buffer as a sequence of COPY (a range of the base)
+ * and INSERT (literal bytes) instructions, like git's pack deltas:
+ *
+ *   varint baseLength, varint targetLength, then instructions
+ *   0x00 varint length <bytes>      insert literal bytes
+ *   0x01 varint offset varint length copy from base
+ */
+const BLOCK_SIZE = 16;
+const MAX_CANDIDATES_PER_BLOCK = 8;
+const OP_INSERT = 0x00;
+const OP_COPY = 0x01;
+class ByteWriter {
+    chunks = [];
+    current = Buffer.alloc(4096);
+    length = 0;
+    writeByte(value) {
+        if (this.length === this.current.length)
+            this.flushCurrent();
+        this.current[this.length++] = value;
+    }
+    writeVarint(value) {
+        while (value >= 0x80) {
+            this.writeByte((value % 0x80) | 0x80);
+            value = Math.floor(value / 0x80);
+        }
+        this.writeByte(value);
+    }
+    writeBytes(bytes) {
+        this.flushCurrent();
+        this.chunks.push(bytes);
+    }
+    toBuffer() {
+        this.flushCurrent();
+        return Buffer.concat(this.chunks);
+    }
+    flushCurrent() {
+        if (this.length > 0) {
+            this.chunks.push(Buffer.from(this.current.subarray(0, this.length)));
+            this.current = Buffer.alloc(4096);
+            this.length = 0;
+        }
+    }
+}
+class ByteReader {
+    buffer;
+    offset = 0;
+    constructor(buffer) {
+        this.buffer = buffer;
+    }
+    get done() {
+        return this.offset >= this.buffer.length;
+    }
+    readByte() {
+        if (this.offset >= this.buffer.length)
+            throw new Error('Corrupt delta: unexpected end of data');
+        return this.buffer[this.offset++];
+    }
+    readVarint() {
+        let value = 0;
+        let multiplier = 1;
+        let byte;
+        do {
+            byte = this.readByte();
+            value += (byte & 0x7f) * multiplier;
+            multiplier *= 0x80;
+        } while (byte & 0x80);
+        return value;
+    }
+    readBytes(length) {
+        if (this.offset + length > this.buffer.length)
+            throw new Error('Corrupt delta: literal overruns data');
+        const bytes = this.buffer.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return bytes;
+    }
+}
+// FNV-1a over one block
+function hashBlock(buffer, start) {
+    let hash = 0x811c9dc5;
+    for (let i = start; i < start + BLOCK_SIZE; i++) {
+        hash ^= buffer[i];
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+/**
+ * Encode `target` as a delta against `base`
+ */
+export function createDelta(base, target) {
+    const writer = new ByteWriter();
+    writer.writeVarint(base.length);
+    writer.writeVarint(target.length);
+    // Index the base at block-aligned offsets
+    const blocks = new Map();
+    for (let offset = 0; offset + BLOCK_SIZE <= base.length; offset += BLOCK_SIZE) {
+        const hash = hashBlock(base, offset);
+        const offsets = blocks.get(hash);
+        if (!offsets) {
+            blocks.set(hash, [offset]);
+        }
+        else if (offsets.length < MAX_CANDIDATES_PER_BLOCK) {
+            offsets.push(offset);
+        }
+    }
+    let insertStart = 0;
+    const flushInsert = (end) => {
+        if (end > insertStart) {
+            writer.writeByte(OP_INSERT);
+            writer.writeVarint(end - insertStart);
+            writer.writeBytes(target.subarray(insertStart, end));
+        }
+    };
+    let position = 0;
+    while (position + BLOCK_SIZE <= target.length) {
+        const candidates = blocks.get(hashBlock(target, position));
+        let bestOffset = -1;
+        let bestLength = 0;
+        for (const candidate of candidates || []) {
+            let length = 0;
+            while (candidate + length < base.length &&
+                position + length < target.length &&
+                base[candidate + length] === target[position + length]) {
+                length++;
+            }
+            if (length > bestLength) {
+                bestLength = length;
+                bestOffset = candidate;
+            }
+        }
+        if (bestLength < BLOCK_SIZE) {
+            position++;
+            continue;
+        }
+        // Grow the match backwards over bytes that would otherwise be inserted
+        let start = position;
+        while (start > insertStart && bestOffset > 0 && base[bestOffset - 1] === target[start - 1]) {
+            start--;
+            bestOffset--;
+            bestLength++;
+        }
+        flushInsert(start);
+        writer.writeByte(OP_COPY);
+        writer.writeVarint(bestOffset);
+        writer.writeVarint(bestLength);
+        position = start + bestLength;
+        insertStart = position;
+    }
+    flushInsert(target.length);
+    return writer.toBuffer();
+}
+/**
+ * Rebuild the target buffer from its base and a delta produced by createDelta
+ */
+export function applyDelta(base, delta) {
+    const reader = new ByteReader(delta);
+    const baseLength = reader.readVarint();
+    const targetLength = reader.readVarint();
+    if (baseLength !== base.length) {
+        throw new Error(`Delta base length mismatch: expected ${baseLength}, got ${base.length}`);
+    }
+    const target = Buffer.alloc(targetLength);
+    let written = 0;
+    while (!reader.done) {
+        const op = reader.readByte();
+        if (op === OP_INSERT) {
+            const bytes = reader.readBytes(reader.readVarint());
+            bytes.copy(target, written);
+            written += bytes.length;
+        }
+        else if (op === OP_COPY) {
+            const offset = reader.readVarint();
+            const length = reader.readVarint();
+            if (offset + length > base.length || written + length > targetLength) {
+                throw new Error('Corrupt delta: copy out of range');
+            }
+            base.copy(target, written, offset, offset + length);
+            written += length;
+        }
+        else {
+            throw new Error(`Corrupt delta: unknown instruction ${op}`);
+        }
+    }
+    if (written !== targetLength) {
+        throw new Error(`Corrupt delta: produced ${written} of ${targetLength} bytes`);
+    }
+    return target;
+}
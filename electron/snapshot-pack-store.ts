@@ -0,0 +1,551 @@
+/**
+ * Snapshot Pack Store
+ * Packs the loose content objects of a snapshot branch directory into packfiles,
+ * storing successive versions of a file as delta chains against each other.
+ *
+ * Layout (per branch directory):
+ *   content/ab/cdef….json     loose objects (gzipped, written by SnapshotService)
+ *   packs/pack-<id>.pack      "CSPK" header followed by deflated records
+ *   packs/pack-<id>.idx       JSON index: hash -> offset, size, type, base, depth
+ *
+ * The indexes of all packs are loaded into one in-memory map for O(1) lookup.
+ */
+import path from 'path';
+import fs from 'fs-extra';
+import { createHash } from 'crypto';
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import { createDelta, applyDelta } from './snapshot-delta.js';
+
+const deflate = promisify(zlib.deflate);
+const inflate = promisify(zlib.inflate);
+const gunzip = promisify(zlib.gunzip);
+
+const PACK_MAGIC = Buffer.from('CSPK');
+const PACK_VERSION = 1;
+const PACK_HEADER_SIZE = 8;
+
+// Longest delta chain before a full copy is stored again
+const MAX_DELTA_DEPTH = 16;
+// A delta is only kept when it is meaningfully smaller than the full object
+const MAX_DELTA_RATIO = 0.9;
+// Reconstructed objects kept in memory to speed up chain reads
+const CACHE_LIMIT_BYTES = 32 * 1024 * 1024;
+
+export interface PackEntry {
+  offset: number;
+  size: number;                   // Stored (deflated) size in the pack
+  type: 'full' | 'delta';
+  base?: string;                  // Hash of the delta base
+  depth: number;                  // Number of deltas to apply to reach this object
+  originalSize: number;
+  checksum: string;               // SHA-256 of the reconstructed bytes
+  mimeType: string;
+  encoding: 'utf8' | 'binary';
+  createdAt: string;
+}
+
+interface PackIndex {
+  version: number;
+  pack: string;
+  objects: Record<string, PackEntry>;
+}
+
+export interface RepackOptions {
+  // Rewrite every packed object into a single new pack
+  full?: boolean;
+  // Pack loose objects (and delete them once packed)
+  includeLoose?: boolean;
+  // Objects to drop during a full repack
+  isLive?: (hash: string, entry: PackEntry) => boolean;
+  // Hash sequences (oldest first) of successive versions of the same file
+  chains?: string[][];
+}
+
+export interface RepackResult {
+  packedObjects: number;
+  deltaObjects: number;
+  looseObjectsRemoved: number;
+  droppedObjects: number;
+  bytesBefore: number;
+  bytesAfter: number;
+}
+
+interface SourceObject {
+  hash: string;
+  load: () => Promise<Buffer>;
+  mimeType: string;
+  encoding: 'utf8' | 'binary';
+  createdAt: string;
+  loosePath?: string;
+}
+
+export class SnapshotPackStore {
+  private contentDir: string;
+  private packsDir: string;
+  private index: Map<string, { pack: string; entry: PackEntry }> | null = null;
+  private cache: Map<string, Buffer> = new Map();
+  private cacheBytes = 0;
+  private repacking: Promise<RepackResult> | null = null;
+
+  constructor(branchDir: string) {
+    this.contentDir = path.join(branchDir, 'content');
+    this.packsDir = path.join(branchDir, 'packs');
+  }
+
+  async has(hash: string): Promise<boolean> {
+    return (await this.loadIndex()).has(hash);
+  }
+
+  /**
+   * Read a packed object as the string that was originally stored
+   */
+  async read(hash: string): Promise<string | null> {
+    if (!(await this.loadIndex()).has(hash)) {
+      return null;
+    }
+    return (await this.readBuffer(hash)).toString('utf8');
+  }
+
+  async getStats(): Promise<{ packs: number; objects: number; sizeBytes: number }> {
+    const index = await this.loadIndex();
+    const packs = await this.listPacks();
+    let sizeBytes = 0;
+    for (const pack of packs) {
+      sizeBytes += await this.getPackSize(pack);
+    }
+    return { packs: packs.length, objects: index.size, sizeBytes };
+  }
+
+  async countPacks(): Promise<number> {
+    return (await this.listPacks()).length;
+  }
+
+  async countLooseObjects(): Promise<number> {
+    return (await this.listLooseObjects()).length;
+  }
+
+  /**
+   * Write loose (and for a full repack, packed) objects into a new pack.
+   * Only one repack runs at a time; concurrent callers share the running one.
+   */
+  async repack(options: RepackOptions = {}): Promise<RepackResult> {
+    if (this.repacking) {
+      return this.repacking;
+    }
+
+    this.repacking = this.doRepack(options).finally(() => {
+      this.repacking = null;
+    });
+    return this.repacking;
+  }
+
+  /**
+   * Drop packed objects that are no longer live by rewriting the packs.
+   * Returns the number of dropped objects and the bytes reclaimed.
+   */
+  async collectGarbage(
+    isLive: (hash: string, entry: PackEntry) => boolean,
+    chains: string[][],
+    dryRun: boolean
+  ): Promise<{ removed: number; bytes: number }> {
+    const index = await this.loadIndex();
+    const dead = Array.from(index.entries()).filter(([hash, { entry }]) => !isLive(hash, entry));
+
+    if (dead.length === 0) {
+      return { removed: 0, bytes: 0 };
+    }
+
+    if (dryRun) {
+      // Approximation: deltas based on dead objects are re-encoded, not dropped
+      return { removed: dead.length, bytes: dead.reduce((sum, [, { entry }]) => sum + entry.size, 0) };
+    }
+
+    const result = await this.repack({ full: true, includeLoose: false, isLive, chains });
+    return { removed: result.droppedObjects, bytes: Math.max(0, result.bytesBefore - result.bytesAfter) };
+  }
+
+  private async doRepack(options: RepackOptions): Promise<RepackResult> {
+    const index = await this.loadIndex();
+    const oldPacks = options.full ? await this.listPacks() : [];
+    const result: RepackResult = {
+      packedObjects: 0,
+      deltaObjects: 0,
+      looseObjectsRemoved: 0,
+      droppedObjects: 0,
+      bytesBefore: 0,
+      bytesAfter: 0
+    };
+
+    for (const pack of oldPacks) {
+      result.bytesBefore += await this.getPackSize(pack);
+    }
+
+    // Gather the objects going into the new pack
+    const sources = new Map<string, SourceObject>();
+    const alreadyPackedLoose: string[] = [];
+
+    if (options.full) {
+      for (const [hash, { entry }] of index) {
+        if (options.isLive && !options.isLive(hash, entry)) {
+          result.droppedObjects++;
+          continue;
+        }
+        sources.set(hash, {
+          hash,
+          load: () => this.readBuffer(hash),
+          mimeType: entry.mimeType,
+          encoding: entry.encoding,
+          createdAt: entry.createdAt
+        });
+      }
+    }
+
+    if (options.includeLoose !== false) {
+      for (const loose of await this.listLooseObjects()) {
+        if (index.has(loose.hash) && !options.full) {
+          alreadyPackedLoose.push(loose.path);
+          continue;
+        }
+        const source = await this.readLooseMetadata(loose.hash, loose.path);
+        if (source) sources.set(loose.hash, source);
+      }
+    }
+
+    if (sources.size > 0) {
+      const written = await this.writePack(sources, options, result);
+      await this.verifyPack(written.packName, written.objects);
+
+      // The new pack is live; retire what it replaces
+      for (const pack of oldPacks) {
+        await this.removePack(pack);
+      }
+      for (const source of sources.values()) {
+        if (source.loosePath) {
+          await fs.remove(source.loosePath);
+          result.looseObjectsRemoved++;
+        }
+      }
+      result.bytesAfter = await this.getPackSize(written.packName);
+    } else if (options.full) {
+      for (const pack of oldPacks) {
+        await this.removePack(pack);
+      }
+    }
+
+    for (const loosePath of alreadyPackedLoose) {
+      await fs.remove(loosePath);
+      result.looseObjectsRemoved++;
+    }
+    await this.removeEmptyPrefixDirs();
+
+    // Rebuild the lookup map from what is on disk now
+    this.index = null;
+    this.clearCache();
+    await this.loadIndex();
+
+    return result;
+  }
+
+  private async writePack(
+    sources: Map<string, SourceObject>,
+    options: RepackOptions,
+    result: RepackResult
+  ): Promise<{ packName: string; objects: Record<string, PackEntry> }> {
+    const index = await this.loadIndex();
+    const objects: Record<string, PackEntry> = {};
+    const written = new Map<string, PackEntry>();
+
+    await fs.ensureDir(this.packsDir);
+    const packId = createHash('sha1')
+      .update(Array.from(sources.keys()).sort().join('\n'))
+      .update(String(Date.now()))
+      .digest('hex');
+    const packName = `pack-${packId}`;
+    const tempPackPath = path.join(this.packsDir, `${packName}.pack.tmp`);
+    const fd = await fs.open(tempPackPath, 'w');
+
+    try {
+      const header = Buffer.alloc(PACK_HEADER_SIZE);
+      PACK_MAGIC.copy(header, 0);
+      header.writeUInt32BE(PACK_VERSION, 4);
+      await fs.write(fd, header, 0, header.length, 0);
+      let offset = PACK_HEADER_SIZE;
+
+      const add = async (source: SourceObject, data: Buffer, base: { hash: string; depth: number; data: Buffer } | null) => {
+        const full = await deflate(data);
+        let record = full;
+        let entry: PackEntry = {
+          offset,
+          size: full.length,
+          type: 'full',
+          depth: 0,
+          originalSize: data.length,
+          checksum: createHash('sha256').update(data).digest('hex'),
+          mimeType: source.mimeType,
+          encoding: source.encoding,
+          createdAt: source.createdAt
+        };
+
+        if (base && base.depth < MAX_DELTA_DEPTH) {
+          const delta = await deflate(createDelta(base.data, data));
+          if (delta.length < full.length * MAX_DELTA_RATIO) {
+            record = delta;
+            entry = { ...entry, size: delta.length, type: 'delta', base: base.hash, depth: base.depth + 1 };
+            result.deltaObjects++;
+          }
+        }
+
+        await fs.write(fd, record, 0, record.length, offset);
+        offset += record.length;
+        objects[source.hash] = entry;
+        written.set(source.hash, entry);
+        result.packedObjects++;
+        return entry;
+      };
+
+      // A base must stay readable: something in this pack, or an existing pack we keep
+      const reachableDepth = (hash: string): number | undefined => {
+        if (written.has(hash)) return written.get(hash)!.depth;
+        if (!options.full) return index.get(hash)?.entry.depth;
+        return undefined;
+      };
+
+      const loadBase = async (hash: string): Promise<Buffer> => {
+        const source = sources.get(hash);
+        return source ? source.load() : this.readBuffer(hash);
+      };
+
+      // Successive versions of a file become a delta chain, oldest first
+      for (const chain of options.chains || []) {
+        let previous: { hash: string; depth: number; data?: Buffer } | null = null;
+
+        for (const hash of chain) {
+          const source = sources.get(hash);
+          if (!source || written.has(hash)) {
+            const depth = reachableDepth(hash);
+            previous = depth === undefined ? null : { hash, depth };
+            continue;
+          }
+
+          const data = await source.load();
+          let base: { hash: string; depth: number; data: Buffer } | null = null;
+          if (previous && previous.depth < MAX_DELTA_DEPTH) {
+            base = { hash: previous.hash, depth: previous.depth, data: previous.data ?? await loadBase(previous.hash) };
+          }
+
+          const entry = await add(source, data, base);
+          previous = { hash, depth: entry.depth, data };
+
+          // Let IPC and other work through between objects
+          await new Promise(resolve => setImmediate(resolve));
+        }
+      }
+
+      // Everything without history is stored whole
+      for (const source of sources.values()) {
+        if (written.has(source.hash)) continue;
+        await add(source, await source.load(), null);
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    } finally {
+      await fs.close(fd);
+    }
+
+    // Publish the pack before its index: an index only ever points at a complete pack
+    const packIndex: PackIndex = { version: PACK_VERSION, pack: `${packName}.pack`, objects };
+    const tempIndexPath = path.join(this.packsDir, `${packName}.idx.tmp`);
+    await fs.rename(tempPackPath, path.join(this.packsDir, `${packName}.pack`));
+    await fs.writeJson(tempIndexPath, packIndex);
+    await fs.rename(tempIndexPath, path.join(this.packsDir, `${packName}.idx`));
+
+    // Serve lookups from the new pack from now on
+    for (const [hash, entry] of Object.entries(objects)) {
+      index.set(hash, { pack: packName, entry });
+    }
+
+    return { packName, objects };
+  }
+
+  /**
+   * Read every object back from the new pack before anything it replaces is
+   * deleted. On mismatch the new pack is removed and the old state kept.
+   */
+  private async verifyPack(packName: string, objects: Record<string, PackEntry>) {
+    try {
+      for (const [hash, entry] of Object.entries(objects)) {
+        const data = await this.readBuffer(hash, false);
+        const checksum = createHash('sha256').update(data).digest('hex');
+        if (checksum !== entry.checksum) {
+          throw new Error(`Checksum mismatch for ${hash}`);
+        }
+      }
+    } catch (error) {
+      await this.removePack(packName);
+      this.index = null;
+      this.clearCache();
+      throw new Error(`Pack verification failed, kept existing objects: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private async readBuffer(hash: string, useCache: boolean = true): Promise<Buffer> {
+    if (useCache && this.cache.has(hash)) {
+      const cached = this.cache.get(hash)!;
+      // Refresh recency
+      this.cache.delete(hash);
+      this.cache.set(hash, cached);
+      return cached;
+    }
+
+    const located = (await this.loadIndex()).get(hash);
+    if (!located) {
+      throw new Error(`Object ${hash} not found in packs`);
+    }
+
+    const { pack, entry } = located;
+    const record = Buffer.alloc(entry.size);
+    const fd = await fs.open(path.join(this.packsDir, `${pack}.pack`), 'r');
+    try {
+      await fs.read(fd, record, 0, entry.size, entry.offset);
+    } finally {
+      await fs.close(fd);
+    }
+
+    const inflated = await inflate(record);
+    const data = entry.type === 'delta'
+      ? applyDelta(await this.readBuffer(entry.base!, useCache), inflated)
+      : inflated;
+
+    if (useCache) this.remember(hash, data);
+    return data;
+  }
+
+  private remember(hash: string, data: Buffer) {
+    if (data.length > CACHE_LIMIT_BYTES / 4) return;
+
+    this.cache.set(hash, data);
+    this.cacheBytes += data.length;
+
+    for (const [oldest, buffer] of this.cache) {
+      if (this.cacheBytes <= CACHE_LIMIT_BYTES) break;
+      this.cache.delete(oldest);
+      this.cacheBytes -= buffer.length;
+    }
+  }
+
+  private clearCache() {
+    this.cache.clear();
+    this.cacheBytes = 0;
+  }
+
+  private async loadIndex(): Promise<Map<string, { pack: string; entry: PackEntry }>> {
+    if (this.index) {
+      return this.index;
+    }
+
+    const index = new Map<string, { pack: string; entry: PackEntry }>();
+    for (const pack of await this.listPacks()) {
+      try {
+        const packIndex: PackIndex = await fs.readJson(path.join(this.packsDir, `${pack}.idx`));
+        for (const [hash, entry] of Object.entries(packIndex.objects)) {
+          index.set(hash, { pack, entry });
+        }
+      } catch (error) {
+        console.error(`Failed to read pack index ${pack}:`, error);
+      }
+    }
+
+    this.index = index;
+    return index;
+  }
+
+  /**
+   * Names of packs that have both a pack file and an index
+   */
+  private async listPacks(): Promise<string[]> {
+    if (!await fs.pathExists(this.packsDir)) {
+      return [];
+    }
+
+    const files = await fs.readdir(this.packsDir);
+    return files
+      .filter(file => file.endsWith('.idx'))
+      .map(file => file.slice(0, -'.idx'.length))
+      .filter(pack => files.includes(`${pack}.pack`));
+  }
+
+  private async getPackSize(pack: string): Promise<number> {
+    let size = 0;
+    for (const ext of ['.pack', '.idx']) {
+      try {
+        size += (await fs.stat(path.join(this.packsDir, pack + ext))).size;
+      } catch {
+        // Missing half of a pack counts as empty
+      }
+    }
+    return size;
+  }
+
+  private async removePack(pack: string) {
+    // Index first, so a crash never leaves an index pointing at a missing pack
+    await fs.remove(path.join(this.packsDir, `${pack}.idx`));
+    await fs.remove(path.join(this.packsDir, `${pack}.pack`));
+  }
+
+  private async listLooseObjects(): Promise<Array<{ hash: string; path: string }>> {
+    const objects: Array<{ hash: string; path: string }> = [];
+    if (!await fs.pathExists(this.contentDir)) {
+      return objects;
+    }
+
+    for (const prefix of await fs.readdir(this.contentDir)) {
+      const prefixDir = path.join(this.contentDir, prefix);
+      if (!(await fs.stat(prefixDir)).isDirectory()) continue;
+
+      for (const file of await fs.readdir(prefixDir)) {
+        if (file.endsWith('.json')) {
+          objects.push({ hash: prefix + file.slice(0, -'.json'.length), path: path.join(prefixDir, file) });
+        }
+      }
+    }
+    return objects;
+  }
+
+  private async readLooseMetadata(hash: string, loosePath: string): Promise<SourceObject | null> {
+    try {
+      const object = await fs.readJson(loosePath);
+      return {
+        hash,
+        loosePath,
+        mimeType: object.mimeType || 'text/plain',
+        encoding: object.encoding === 'binary' ? 'binary' : 'utf8',
+        createdAt: object.createdAt || new Date().toISOString(),
+        load: async () => {
+          const { content } = await fs.readJson(loosePath);
+          const stored = Buffer.from(content, 'base64');
+          try {
+            return await gunzip(stored);
+          } catch {
+            // Stored uncompressed when compression failed
+            return stored;
+          }
+        }
+      };
+    } catch (error) {
+      console.warn(`Skipping unreadable loose object ${hash}:`, error);
+      return null;
+    }
+  }
+
+  private async removeEmptyPrefixDirs() {
+    if (!await fs.pathExists(this.contentDir)) return;
+
+    for (const prefix of await fs.readdir(this.contentDir)) {
+      const prefixDir = path.join(this.contentDir, prefix);
+      const stat = await fs.stat(prefixDir);
+      if (stat.isDirectory() && (await fs.readdir(prefixDir)).length === 0) {
+        await fs.remove(prefixDir);
+      }
+    }
+  }
+}
@@ -0,0 +1,87 @@
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+export const DEFAULT_RETENTION_POLICY = {
+    keepAllHours: 24,
+    keepHourlyDays: 7,
+    keepDailyDays: 30,
+    keepTagged: true,
+    keepManual: true
+};
+/**
+ * Fill in missing policy fields from the defaults
+ */
+export function resolveRetentionPolicy(policy) {
+    return { ...DEFAULT_RETENTION_POLICY, ...(policy || {}) };
+}
+/**
+ * Tagged and manual snapshots are never thinned out (unless the policy says otherwise)
+ */
+export function isProtectedSnapshot(snapshot, policy) {
+    if (policy.keepTagged && (snapshot.tags?.length ?? 0) > 0)
+        return true;
+    if (policy.keepManual && snapshot.createdBy === 'manual')
+        return true;
+    return false;
+}
+/**
+ * Select the snapshots a retention policy removes.
+ * Each branch is thinned independently: within the hourly and daily tiers only
+ * the newest snapshot of every hour/day bucket survives.
+ */
+export function selectSnapshotsToPrune(snapshots, policy, now = Date.now()) {
+    const keepAllMs = policy.keepAllHours * HOUR_MS;
+    const hourlyMs = policy.keepHourlyDays * DAY_MS;
+    const dailyMs = policy.keepDailyDays * DAY_MS;
+    const newestFirst = snapshots
+        .map(snapshot => ({ snapshot, time: new Date(snapshot.timestamp).getTime() }))
+        .sort((a, b) => b.time - a.time);
+    const filledBuckets = new Set();
+    const prune = [];
+    for (const { snapshot, time } of newestFirst) {
+        // Never remove something we can't place in time
+        if (Number.isNaN(time) || isProtectedSnapshot(snapshot, policy))
+            continue;
+        const age = now - time;
+        if (age < keepAllMs)
+            continue;
+        const branch = snapshot.gitBranch || 'main';
+        let bucket;
+        if (age < hourlyMs) {
+            bucket = `${branch}:hour:${Math.floor(time / HOUR_MS)}`;
+        }
+        else if (age < dailyMs) {
+            bucket = `${branch}:day:${Math.floor(time / DAY_MS)}`;
+        }
+        else {
+            prune.push(snapshot);
+            continue;
+        }
+        if (filledBuckets.has(bucket)) {
+            prune.push(snapshot);
+        }
+        else {
+            filledBuckets.add(bucket);
+        }
+    }
+    return prune;
+}
+/**
+ * Content and diff hashes a snapshot still needs for restore and diff views
+ */
+export function collectSnapshotReferences(snapshot) {
+    const content = [...(snapshot.contentStorage?.objectHashes || [])];
+    const diffs = [];
+    const changes = snapshot.fileChanges;
+    const fileChanges = changes
+        ? [...(changes.added || []), ...(changes.modified || []), ...(changes.removed || []), ...(changes.unchanged || [])]
+        : [];
+    for (const change of fileChanges) {
+        if (change.contentHash)
+            content.push(change.contentHash);
+        if (change.previousHash)
+            content.push(change.previousHash);
+        if (change.diffHash)
+            diffs.push(change.diffHash);
+    }
+    return { content, diffs };
+}
@@ -1,24 +1,43 @@
-import { ipcMain } from 'electron';
+import { createRequire } from 'module';
 import path from 'path';
 import fs from 'fs-extra';
 import { homedir } from 'os';
+import { createHash } from 'crypto';
 import * as zlib from 'zlib';
 import { promisify } from 'util';
 import { isText } from 'istextorbinary';
+import { resolveRetentionPolicy, selectSnapshotsToPrune, collectSnapshotReferences } from './snapshot-retention.js';
+import { SnapshotPackStore } from './snapshot-pack-store.js';
+import { compareTrees } from './snapshot-compare.js';
 const gzip = promisify(zlib.gzip);
 const gunzip = promisify(zlib.gunzip);
+// Objects younger than this are never swept, so a capture that has stored its
+// content but not yet saved the snapshot file doesn't lose its objects
+const GC_GRACE_PERIOD_MS = 10 * 60 * 1000;
+// Background repacking: wait for captures to settle, then pack once enough loose objects piled up
+const REPACK_DELAY_MS = 30 * 1000;
+const LOOSE_OBJECT_REPACK_THRESHOLD = 64;
+// Consolidate into a single pack once a branch has this many
+const MAX_PACKS_PER_BRANCH = 8;
+// Pseudo snapshot id for the live project files in comparisons
+const WORKING_TREE_ID = 'working-tree';
 export class SnapshotService {
     baseDir;
     projectPath;
     projectName;
     projectSnapshotsDir;
     currentBranch = 'main';
+    packStores = new Map();
+    repackTimer = null;
+    repackThreshold = LOOSE_OBJECT_REPACK_THRESHOLD;
+    maintenance = Promise.resolve();
+    ready;
     constructor(projectPath) {
         this.projectPath = projectPath;
         this.projectName = path.basename(projectPath);
         this.baseDir = path.join(homedir(), '.claude-snapshots');
         this.projectSnapshotsDir = path.join(this.baseDir, this.projectName);
-        this.initialize();
+        this.ready = this.initialize();
     }
     getBranchDir(branch) {
         const branchName = (branch || this.currentBranch).replace(/\//g, '-');
@@ -38,6 +57,8 @@ export class SnapshotService {
             await fs.ensureDir(this.projectSnapshotsDir);
             // Ensure .claude-snapshots is in .gitignore
             await this.ensureGitignore();
+            // Migrate loose objects written before packing existed
+            this.scheduleRepack(1);
         }
         catch (error) {
             console.error('Failed to initialize snapshot directories:', error);
@@ -56,26 +77,288 @@ export class SnapshotService {
         const suffix = hash.substring(2);
         return path.join(this.getDiffDir(branch), prefix, suffix + '.json');
     }
+    getPackStore(branch) {
+        return this.getPackStoreForDir(this.getBranchDir(branch));
+    }
+    getPackStoreForDir(branchDir) {
+        let store = this.packStores.get(branchDir);
+        if (!store) {
+            store = new SnapshotPackStore(branchDir);
+            this.packStores.set(branchDir, store);
+        }
+        return store;
+    }
+    /**
+     * Run storage maintenance (repacking, garbage collection) one task at a time
+     */
+    exclusive(task) {
+        const run = this.maintenance.then(task, task);
+        this.maintenance = run.catch(() => undefined);
+        return run;
+    }
+    /**
+     * Repack in the background once captures have settled
+     */
+    scheduleRepack(minLooseObjects = LOOSE_OBJECT_REPACK_THRESHOLD) {
+        if (this.repackTimer) {
+            clearTimeout(this.repackTimer);
+        }
+        // A pending migration (threshold 1) must not be relaxed by later saves
+        this.repackThreshold = Math.min(this.repackThreshold, minLooseObjects);
+        this.repackTimer = setTimeout(() => {
+            const threshold = this.repackThreshold;
+            this.repackTimer = null;
+            this.repackThreshold = LOOSE_OBJECT_REPACK_THRESHOLD;
+            this.exclusive(() => this.repackAll(threshold)).catch(error => {
+                console.error('Failed to repack snapshot objects:', error);
+            });
+        }, REPACK_DELAY_MS);
+    }
+    /**
+     * Run a scheduled repack now and wait for maintenance to settle, so
+     * short-lived processes like the CLI can exit without leaving loose objects
+     */
+    async flush() {
+        await this.ready;
+        if (this.repackTimer) {
+            clearTimeout(this.repackTimer);
+            const threshold = this.repackThreshold;
+            this.repackTimer = null;
+            this.repackThreshold = LOOSE_OBJECT_REPACK_THRESHOLD;
+            await this.exclusive(() => this.repackAll(threshold));
+        }
+        await this.maintenance;
+    }
+    /**
+     * Pack loose objects of every branch, consolidating packs when there are too many
+     */
+    async repackAll(minLooseObjects = LOOSE_OBJECT_REPACK_THRESHOLD, force = false) {
+        const results = [];
+        for (const branchPath of await this.getBranchDirs()) {
+            const store = this.getPackStoreForDir(branchPath);
+            const loose = await store.countLooseObjects();
+            const packs = await store.countPacks();
+            const full = force || packs >= MAX_PACKS_PER_BRANCH;
+            if (!full && loose < minLooseObjects)
+                continue;
+            if (loose === 0 && packs <= 1 && !force)
+                continue;
+            const result = await store.repack({
+                full,
+                includeLoose: true,
+                chains: await this.buildDeltaChains(branchPath)
+            });
+            results.push({ branch: path.basename(branchPath), ...result });
+        }
+        return results;
+    }
+    /**
+     * Successive versions of each file across a branch's snapshots, oldest first,
+     * so the pack store can delta every version against the one before it
+     */
+    async buildDeltaChains(branchPath) {
+        const snapshotsDir = path.join(branchPath, 'snapshots');
+        if (!await fs.pathExists(snapshotsDir)) {
+            return [];
+        }
+        const snapshots = [];
+        for (const file of await fs.readdir(snapshotsDir)) {
+            if (!file.endsWith('.json'))
+                continue;
+            try {
+                snapshots.push(await fs.readJson(path.join(snapshotsDir, file)));
+            }
+            catch (error) {
+                console.warn(`Failed to read snapshot ${file} for delta chains:`, error);
+            }
+        }
+        snapshots.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+        const chains = new Map();
+        for (const snapshot of snapshots) {
+            const changes = snapshot.fileChanges;
+            if (!changes)
+                continue;
+            for (const change of [...(changes.added || []), ...(changes.modified || [])]) {
+                if (!change.contentHash)
+                    continue;
+                const chain = chains.get(change.path) || [];
+                if (chain[chain.length - 1] !== change.contentHash) {
+                    chain.push(change.contentHash);
+                }
+                chains.set(change.path, chain);
+            }
+        }
+        return Array.from(chains.values()).filter(chain => chain.length > 1);
+    }
     setCurrentBranch(branch) {
         this.currentBranch = branch;
     }
+    /**
+     * Snapshots of the current branch, a given branch, or all branches
+     */
+    async listSnapshots(options) {
+        const result = await this.handleListSnapshots(null, options);
+        if (!result.success) {
+            throw new Error(result.error);
+        }
+        return result.data;
+    }
+    async saveSnapshot(snapshot) {
+        const branch = snapshot.gitBranch || 'main';
+        const snapshotsDir = this.getSnapshotsDir(branch);
+        // Ensure branch directories exist
+        await fs.ensureDir(snapshotsDir);
+        await fs.ensureDir(this.getContentDir(branch));
+        await fs.ensureDir(this.getDiffDir(branch));
+        const filepath = path.join(snapshotsDir, `${snapshot.id}.json`);
+        // Calculate actual size
+        const content = JSON.stringify(snapshot, null, 2);
+        snapshot.sizeKb = Buffer.byteLength(content) / 1024;
+        await fs.writeJson(filepath, snapshot, { spaces: 2 });
+        this.scheduleRepack();
+        return snapshot;
+    }
+    /**
+     * Capture the project files without a renderer, e.g. from the CLI. Files are
+     * compared against the branch's latest snapshot the same way the IDE does;
+     * editor, Claude and task state are left empty.
+     */
+    async captureSnapshot(options = {}) {
+        const branch = options.branch || this.currentBranch;
+        const previous = (await this.listSnapshots({ branch }))
+            .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())[0];
+        const previousFiles = new Map();
+        if (previous?.fileChanges) {
+            [...previous.fileChanges.added, ...previous.fileChanges.modified]
+                .forEach(file => previousFiles.set(file.path, file));
+        }
+        const added = [];
+        const modified = [];
+        const unchanged = [];
+        const summary = { filesChanged: 0, linesAdded: 0, linesRemoved: 0, bytesChanged: 0, textFiles: 0, binaryFiles: 0 };
+        for (const file of await this.scanProjectFiles(this.projectPath)) {
+            const bytes = file.isTextFile ? Buffer.from(file.content, 'utf8') : Buffer.from(file.content, 'base64');
+            const contentHash = createHash('sha256').update(bytes).digest('hex');
+            const previousFile = previousFiles.get(file.relativePath);
+            previousFiles.delete(file.relativePath);
+            const change = {
+                path: file.relativePath,
+                status: 'added',
+                contentHash,
+                size: file.size,
+                mimeType: file.isTextFile ? 'text/plain' : 'application/octet-stream',
+                encoding: file.encoding,
+                isTextFile: file.isTextFile
+            };
+            if (previousFile?.contentHash === contentHash) {
+                unchanged.push({ ...change, status: 'unchanged', previousHash: contentHash });
+                continue;
+            }
+            if (!await this.storeContentObject(contentHash, file.content, change.mimeType, file.encoding, branch)) {
+                throw new Error(`Failed to store content of ${file.relativePath}`);
+            }
+            const lines = file.isTextFile ? file.content.split('\n').length : 0;
+            if (previousFile) {
+                modified.push({ ...change, status: 'modified', previousHash: previousFile.contentHash });
+                summary.bytesChanged += Math.abs(file.size - (previousFile.size || 0));
+                if (file.isTextFile && previousFile.contentHash) {
+                    const previousContent = await this.getContentObject(previousFile.contentHash, branch);
+                    const previousLines = previousContent ? previousContent.split('\n').length : 0;
+                    summary.linesAdded += Math.max(0, lines - previousLines);
+                    summary.linesRemoved += Math.max(0, previousLines - lines);
+                }
+            }
+            else {
+                added.push(change);
+                summary.bytesChanged += file.size;
+                summary.linesAdded += lines;
+            }
+            if (file.isTextFile) {
+                summary.textFiles++;
+            }
+            else {
+                summary.binaryFiles++;
+            }
+        }
+        // Whatever the previous snapshot had that wasn't found again was removed
+        const removed = Array.from(previousFiles.values()).map(file => ({
+            path: file.path,
+            status: 'removed',
+            previousHash: file.contentHash,
+            size: file.size || 0,
+            mimeType: file.mimeType,
+            encoding: file.encoding,
+            isTextFile: file.isTextFile
+        }));
+        for (const file of removed) {
+            summary.bytesChanged += file.size;
+            if (file.isTextFile) {
+                summary.textFiles++;
+                summary.linesRemoved += Math.ceil(file.size / 50);
+            }
+            else {
+                summary.binaryFiles++;
+            }
+        }
+        summary.filesChanged = added.length + modified.length + removed.length;
+        const snapshot = {
+            id: `snap_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            name: options.name || `${branch} - ${new Date().toLocaleString()}`,
+            timestamp: new Date().toISOString(),
+            projectPath: this.projectPath,
+            openFiles: [],
+            activeFile: null,
+            cursorPositions: {},
+            gitCommit: options.gitCommit || '',
+            gitBranch: branch,
+            dirtyFiles: [],
+            claudeInstances: [],
+            activeTaskIds: [],
+            taskCounts: { todo: 0, inProgress: 0, done: 0 },
+            fileChanges: {
+                added,
+                // Unchanged files ride along with modified ones so the snapshot is complete
+                modified: [...modified, ...unchanged],
+                removed,
+                summary
+            },
+            contentStorage: {
+                objectHashes: [...added, ...modified].map(f => f.contentHash).filter(Boolean),
+                compressionRatio: 1.0,
+                totalContentSize: summary.bytesChanged
+            },
+            sizeKb: 0,
+            createdBy: options.createdBy || 'manual',
+            tags: options.tags || []
+        };
+        return this.saveSnapshot(snapshot);
+    }
+    /**
+     * Write a snapshot's files back into the project
+     */
+    async restoreSnapshot(snapshotId) {
+        const snapshot = (await this.listSnapshots({ allBranches: true })).find(s => s.id === snapshotId);
+        if (!snapshot) {
+            throw new Error(`Snapshot not found: ${snapshotId}`);
+        }
+        if (!snapshot.fileChanges) {
+            throw new Error(`Snapshot ${snapshotId} has no file content to restore`);
+        }
+        // Content objects are read from the branch the snapshot was taken on
+        this.setCurrentBranch(snapshot.gitBranch || 'main');
+        if (!await this.restoreProjectFiles(snapshot.fileChanges, this.projectPath)) {
+            throw new Error(`Failed to restore files from snapshot ${snapshotId}`);
+        }
+        return snapshot;
+    }
     setupIpcHandlers() {
+        // Loaded on demand: the CLI imports this module under plain Node, where
+        // the electron package is not the API (and throws without its binary)
+        const { ipcMain } = createRequire(import.meta.url)('electron');
         // Save snapshot
         ipcMain.handle('snapshots:save', async (_, snapshot) => {
             try {
-                const branch = snapshot.gitBranch || 'main';
-                const snapshotsDir = this.getSnapshotsDir(branch);
-                // Ensure branch directories exist
-                await fs.ensureDir(snapshotsDir);
-                await fs.ensureDir(this.getContentDir(branch));
-                await fs.ensureDir(this.getDiffDir(branch));
-                const filename = `${snapshot.id}.json`;
-                const filepath = path.join(snapshotsDir, filename);
-                // Calculate actual size
-                const content = JSON.stringify(snapshot, null, 2);
-                snapshot.sizeKb = Buffer.byteLength(content) / 1024;
-                await fs.writeJson(filepath, snapshot, { spaces: 2 });
-                return { success: true, snapshot };
+                return { success: true, snapshot: await this.saveSnapshot(snapshot) };
             }
             catch (error) {
                 console.error('Failed to save snapshot:', error);
@@ -229,6 +512,17 @@ export class SnapshotService {
                 return { success: false, error: error.message, diffObject: null };
             }
         });
+        // Full tree comparison between two snapshots (or a snapshot and 'working-tree')
+        ipcMain.handle('snapshots:compare', async (_, params) => {
+            try {
+                const comparison = await this.compareSnapshots(params.fromId, params.toId, params);
+                return { success: true, comparison };
+            }
+            catch (error) {
+                console.error('Failed to compare snapshots:', error);
+                return { success: false, error: error.message };
+            }
+        });
         // Project file scanning
         ipcMain.handle('snapshots:scanProjectFiles', async (_, params) => {
             try {
@@ -290,7 +584,8 @@ export class SnapshotService {
                     deduplicationSavings: 0, // Calculate based on content hash duplicates
                     oldestSnapshot: new Date().toISOString(),
                     newestSnapshot: new Date().toISOString(),
-                    storageDirectory: this.projectSnapshotsDir
+                    storageDirectory: this.projectSnapshotsDir,
+                    lastGarbageCollection: await this.readGcReport()
                 };
                 return { success: true, storageInfo };
             }
@@ -312,15 +607,43 @@ export class SnapshotService {
                 };
             }
         });
-        // Cleanup
+        // Cleanup: apply the retention policy, then sweep unreferenced objects
         ipcMain.handle('snapshots:cleanup', async (_, params) => {
             try {
-                const removed = await this.cleanup(params.olderThanDays);
-                return { success: true, stats: { removed, sizeFreed: 0 } };
+                const { removedIds, report } = await this.exclusive(() => this.cleanup(params?.retention, params?.collectGarbage));
+                return {
+                    success: true,
+                    stats: { removed: removedIds.length, sizeFreed: report?.reclaimedBytes || 0, removedIds, report }
+                };
             }
             catch (error) {
                 console.error('Failed to cleanup:', error);
-                return { success: false, error: error.message, stats: { removed: 0, sizeFreed: 0 } };
+                return { success: false, error: error.message, stats: { removed: 0, sizeFreed: 0, removedIds: [] } };
+            }
+        });
+        // Pack loose content objects now instead of waiting for the background repack
+        ipcMain.handle('snapshots:repack', async (_, params) => {
+            try {
+                const results = await this.exclusive(() => this.repackAll(1, params?.full));
+                return { success: true, results };
+            }
+            catch (error) {
+                console.error('Failed to repack:', error);
+                return { success: false, error: error.message };
+            }
+        });
+        // Mark-and-sweep over content and diff objects
+        ipcMain.handle('snapshots:collectGarbage', async (_, params) => {
+            try {
+                const report = await this.exclusive(() => this.collectGarbage(params?.dryRun));
+                if (!report.dryRun) {
+                    await this.writeGcReport(report);
+                }
+                return { success: true, report };
+            }
+            catch (error) {
+                console.error('Failed to collect garbage:', error);
+                return { success: false, error: error.message };
             }
         });
     }
@@ -335,7 +658,7 @@ export class SnapshotService {
                     if (entry.isDirectory()) {
                         await walkContentDir(fullPath);
                     }
-                    else if (entry.isFile() && entry.name.endsWith('.json')) {
+                    else if (entry.isFile() && (entry.name.endsWith('.json') || entry.name.endsWith('.pack'))) {
                         const stats = await fs.stat(fullPath);
                         totalSize += stats.size;
                         count++;
@@ -355,9 +678,13 @@ export class SnapshotService {
                 if (stat.isDirectory()) {
                     const contentDir = path.join(branchPath, 'content');
                     const diffDir = path.join(branchPath, 'diffs');
+                    const packsDir = path.join(branchPath, 'packs');
                     if (await fs.pathExists(contentDir)) {
                         await walkContentDir(contentDir);
                     }
+                    if (await fs.pathExists(packsDir)) {
+                        await walkContentDir(packsDir);
+                    }
                     if (await fs.pathExists(diffDir)) {
                         await walkContentDir(diffDir);
                     }
@@ -366,6 +693,69 @@ export class SnapshotService {
         }
         return { size: totalSize, count };
     }
+    /**
+     * Compare the file trees of two snapshots. Either id may be 'working-tree'
+     * to compare against the current project files.
+     */
+    async compareSnapshots(fromId, toId, options = {}) {
+        const needsSnapshots = fromId !== WORKING_TREE_ID || toId !== WORKING_TREE_ID;
+        const snapshots = needsSnapshots ? (await this.listAllSnapshots()).data : [];
+        const from = await this.getComparisonTree(fromId, snapshots);
+        const to = await this.getComparisonTree(toId, snapshots);
+        return compareTrees(from, to, {
+            includePatches: options.includePatches,
+            maxPatchBytes: options.maxPatchBytes
+        });
+    }
+    async getComparisonTree(id, snapshots) {
+        if (id === WORKING_TREE_ID) {
+            return this.getWorkingTree();
+        }
+        const snapshot = snapshots.find(s => s.id === id);
+        if (!snapshot) {
+            throw new Error(`Snapshot ${id} not found`);
+        }
+        if (!snapshot.fileChanges) {
+            throw new Error(`Snapshot "${snapshot.name}" was captured without file contents`);
+        }
+        // added + modified hold the complete file list; modified includes unchanged files
+        const files = new Map();
+        const { added = [], modified = [], unchanged = [] } = snapshot.fileChanges;
+        for (const change of [...unchanged, ...added, ...modified]) {
+            if (!change.contentHash)
+                continue;
+            files.set(change.path, {
+                path: change.path,
+                hash: change.contentHash,
+                size: change.size,
+                isTextFile: change.isTextFile
+            });
+        }
+        return {
+            side: { id: snapshot.id, name: snapshot.name, timestamp: snapshot.timestamp },
+            files,
+            // Content is stored under the branch that was current at capture time
+            read: async (entry) => await this.getContentObject(entry.hash, snapshot.gitBranch)
+                ?? await this.getContentObject(entry.hash)
+        };
+    }
+    async getWorkingTree() {
+        const scanned = await this.scanProjectFiles(this.projectPath);
+        const files = new Map();
+        const contents = new Map();
+        for (const file of scanned) {
+            // Hash the raw bytes, matching how captures address content
+            const bytes = file.isTextFile ? Buffer.from(file.content, 'utf8') : Buffer.from(file.content, 'base64');
+            const hash = createHash('sha256').update(bytes).digest('hex');
+            files.set(file.relativePath, { path: file.relativePath, hash, size: file.size, isTextFile: file.isTextFile });
+            contents.set(file.relativePath, file.content);
+        }
+        return {
+            side: { id: WORKING_TREE_ID, name: 'Working tree', timestamp: new Date().toISOString() },
+            files,
+            read: async (entry) => contents.get(entry.path) ?? null
+        };
+    }
     /**
      * Ensure Claude directories are in .gitignore
      */
@@ -541,41 +931,150 @@ export class SnapshotService {
             return { success: false, error: error.message, data: [] };
         }
     }
-    // Clean up old snapshots
-    async cleanup(daysToKeep = 30) {
-        try {
-            const cutoffDate = new Date();
-            cutoffDate.setDate(cutoffDate.getDate() - daysToKeep);
-            let deleted = 0;
-            // Clean up snapshots in all branch directories
-            if (await fs.pathExists(this.projectSnapshotsDir)) {
-                const branchDirs = await fs.readdir(this.projectSnapshotsDir);
-                for (const branchDir of branchDirs) {
-                    const branchPath = path.join(this.projectSnapshotsDir, branchDir);
-                    const stat = await fs.stat(branchPath);
-                    if (stat.isDirectory()) {
-                        const snapshotsDir = path.join(branchPath, 'snapshots');
-                        if (await fs.pathExists(snapshotsDir)) {
-                            const files = await fs.readdir(snapshotsDir);
-                            for (const file of files) {
-                                if (file.endsWith('.json')) {
-                                    const filepath = path.join(snapshotsDir, file);
-                                    const stats = await fs.stat(filepath);
-                                    if (stats.mtime < cutoffDate) {
-                                        await fs.remove(filepath);
-                                        deleted++;
-                                    }
-                                }
-                            }
-                        }
-                    }
+    /**
+     * Thin out snapshots according to the retention policy, then garbage collect
+     * the objects they referenced. Collection also runs when forced, to reclaim
+     * objects orphaned by manual deletes or interrupted captures.
+     */
+    async cleanup(retention, forceCollect = false) {
+        const policy = resolveRetentionPolicy(retention);
+        const { data: snapshots } = await this.listAllSnapshots();
+        const toPrune = selectSnapshotsToPrune(snapshots, policy);
+        const removedIds = [];
+        for (const snapshot of toPrune) {
+            try {
+                await fs.remove(path.join(this.getSnapshotsDir(snapshot.gitBranch || 'main'), `${snapshot.id}.json`));
+                removedIds.push(snapshot.id);
+            }
+            catch (error) {
+                console.error(`Failed to remove snapshot ${snapshot.id}:`, error);
+            }
+        }
+        if (removedIds.length === 0 && !forceCollect) {
+            return { removedIds, report: null };
+        }
+        const report = await this.collectGarbage();
+        report.snapshotsRemoved = removedIds.length;
+        await this.writeGcReport(report);
+        return { removedIds, report };
+    }
+    /**
+     * Mark every content and diff object referenced by a snapshot on any branch,
+     * then sweep the unmarked ones from every branch's object directories
+     */
+    async collectGarbage(dryRun = false) {
+        const report = {
+            runAt: new Date().toISOString(),
+            snapshotsRemoved: 0,
+            contentObjectsRemoved: 0,
+            diffObjectsRemoved: 0,
+            reclaimedBytes: 0,
+            dryRun
+        };
+        const branchDirs = await this.getBranchDirs();
+        const liveContent = new Set();
+        const liveDiffs = new Set();
+        // Mark
+        for (const branchPath of branchDirs) {
+            const snapshotsDir = path.join(branchPath, 'snapshots');
+            if (!await fs.pathExists(snapshotsDir))
+                continue;
+            for (const file of await fs.readdir(snapshotsDir)) {
+                if (!file.endsWith('.json'))
+                    continue;
+                let snapshot;
+                try {
+                    snapshot = await fs.readJson(path.join(snapshotsDir, file));
+                }
+                catch {
+                    // An unreadable snapshot could reference anything; sweeping now could destroy its content
+                    throw new Error(`Cannot read snapshot ${file}, garbage collection aborted`);
+                }
+                const refs = collectSnapshotReferences(snapshot);
+                refs.content.forEach(hash => liveContent.add(hash));
+                refs.diffs.forEach(hash => liveDiffs.add(hash));
+            }
+        }
+        // Sweep
+        const cutoff = Date.now() - GC_GRACE_PERIOD_MS;
+        for (const branchPath of branchDirs) {
+            const content = await this.sweepObjectDir(path.join(branchPath, 'content'), liveContent, cutoff, dryRun);
+            const diffs = await this.sweepObjectDir(path.join(branchPath, 'diffs'), liveDiffs, cutoff, dryRun);
+            const packed = await this.getPackStoreForDir(branchPath).collectGarbage((hash, entry) => liveContent.has(hash) || new Date(entry.createdAt).getTime() > cutoff, await this.buildDeltaChains(branchPath), dryRun);
+            report.contentObjectsRemoved += content.removed + packed.removed;
+            report.diffObjectsRemoved += diffs.removed;
+            report.reclaimedBytes += content.bytes + diffs.bytes + packed.bytes;
+        }
+        return report;
+    }
+    /**
+     * Remove objects of a two-level object directory whose hash is not live
+     */
+    async sweepObjectDir(dir, live, cutoff, dryRun) {
+        let removed = 0;
+        let bytes = 0;
+        if (!await fs.pathExists(dir)) {
+            return { removed, bytes };
+        }
+        for (const prefix of await fs.readdir(dir)) {
+            const prefixDir = path.join(dir, prefix);
+            if (!(await fs.stat(prefixDir)).isDirectory())
+                continue;
+            const entries = await fs.readdir(prefixDir);
+            let remaining = entries.length;
+            for (const entry of entries) {
+                if (!entry.endsWith('.json'))
+                    continue;
+                const hash = prefix + entry.slice(0, -'.json'.length);
+                if (live.has(hash))
+                    continue;
+                const objectPath = path.join(prefixDir, entry);
+                const stats = await fs.stat(objectPath);
+                if (stats.mtimeMs > cutoff)
+                    continue;
+                if (!dryRun) {
+                    await fs.remove(objectPath);
+                    remaining--;
                 }
+                removed++;
+                bytes += stats.size;
             }
-            return deleted;
+            if (!dryRun && remaining === 0) {
+                await fs.remove(prefixDir);
+            }
+        }
+        return { removed, bytes };
+    }
+    async getBranchDirs() {
+        if (!await fs.pathExists(this.projectSnapshotsDir)) {
+            return [];
+        }
+        const branchDirs = [];
+        for (const entry of await fs.readdir(this.projectSnapshotsDir)) {
+            const branchPath = path.join(this.projectSnapshotsDir, entry);
+            if ((await fs.stat(branchPath)).isDirectory()) {
+                branchDirs.push(branchPath);
+            }
+        }
+        return branchDirs;
+    }
+    getGcReportPath() {
+        return path.join(this.projectSnapshotsDir, 'gc-report.json');
+    }
+    async readGcReport() {
+        try {
+            return await fs.readJson(this.getGcReportPath());
+        }
+        catch {
+            return undefined;
+        }
+    }
+    async writeGcReport(report) {
+        try {
+            await fs.writeJson(this.getGcReportPath(), report, { spaces: 2 });
         }
         catch (error) {
-            console.error('Failed to cleanup snapshots:', error);
-            return 0;
+            console.warn('Failed to write garbage collection report:', error);
         }
     }
     /**
@@ -706,7 +1205,7 @@ export class SnapshotService {
     async storeContentObject(hash, content, mimeType, encoding, branch) {
         const contentPath = this.getContentPath(hash, branch);
         // Check if content already exists (deduplication)
-        if (await fs.pathExists(contentPath)) {
+        if (await fs.pathExists(contentPath) || await this.getPackStore(branch).has(hash)) {
             return true;
         }
         try {
@@ -736,7 +1235,7 @@ export class SnapshotService {
     async getContentObject(hash, branch) {
         const contentPath = this.getContentPath(hash, branch);
         if (!await fs.pathExists(contentPath)) {
-            return null;
+            return this.getPackedContent(hash, branch);
         }
         try {
             const contentObject = await fs.readJson(contentPath);
@@ -749,7 +1248,20 @@ export class SnapshotService {
             return decompressed;
         }
         catch (error) {
-            console.error(`Failed to read content ${hash}:`, error);
+            // A repack may have moved the object into a pack since we checked
+            const packed = await this.getPackedContent(hash, branch);
+            if (packed === null) {
+                console.error(`Failed to read content ${hash}:`, error);
+            }
+            return packed;
+        }
+    }
+    async getPackedContent(hash, branch) {
+        try {
+            return await this.getPackStore(branch).read(hash);
+        }
+        catch (error) {
+            console.error(`Failed to read packed content ${hash}:`, error);
             return null;
         }
     }
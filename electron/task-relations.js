@@ -0,0 +1,136 @@
+/**
+ * Task relation helpers shared by the tasks store, the TASKS.md writers and the CLI
+ */
+/**
+ * Format a task reference for TASKS.md.
+ * Tasks with an identifier are referenced by it, others by their quoted content,
+ * with quotes and backslashes escaped so the content resolves back to the task.
+ */
+export function formatTaskReference(task) {
+    return task.identifier ? task.identifier : `"${task.content.replace(/[\\"]/g, '\\$&')}"`;
+}
+/**
+ * Split a comma separated reference list, keeping quoted content intact
+ */
+export function parseTaskReferences(value) {
+    const refs = [];
+    const pattern = /\s*(?:"((?:[^"\\]|\\.)*)"|([^,]+))/g;
+    let match;
+    while ((match = pattern.exec(value)) !== null) {
+        const ref = (match[1] !== undefined ? match[1].replace(/\\(.)/g, '$1') : match[2] ?? '').trim();
+        if (ref)
+            refs.push(ref);
+    }
+    return refs;
+}
+/**
+ * Resolve a TASKS.md reference to a task by identifier, id or content
+ */
+export function resolveTaskReference(ref, tasks) {
+    const normalized = ref.trim().toLowerCase();
+    return tasks.find(t => t.identifier?.toLowerCase() === normalized)
+        || tasks.find(t => t.id === ref)
+        || tasks.find(t => t.content.trim().toLowerCase() === normalized);
+}
+/**
+ * Relation metadata lines ("Parent: ...", "Blocked By: ...", "Blocks: ...") for a task
+ */
+export function formatTaskRelations(task, tasks) {
+    const lines = [];
+    const refsFor = (ids = []) => ids
+        .map(id => tasks.find(t => t.id === id))
+        .filter((t) => !!t)
+        .map(formatTaskReference);
+    if (task.parentId) {
+        const parent = tasks.find(t => t.id === task.parentId);
+        if (parent)
+            lines.push(`Parent: ${formatTaskReference(parent)}`);
+    }
+    const blockedBy = refsFor(task.blockedBy);
+    if (blockedBy.length > 0)
+        lines.push(`Blocked By: ${blockedBy.join(', ')}`);
+    const blocks = refsFor(task.blocks);
+    if (blocks.length > 0)
+        lines.push(`Blocks: ${blocks.join(', ')}`);
+    return lines;
+}
+/**
+ * Check whether making `blockerId` a blocker of `taskId` would introduce a cycle
+ */
+export function wouldCreateDependencyCycle(taskId, blockerId, tasks) {
+    if (taskId === blockerId)
+        return true;
+    // Walk everything the blocker is (transitively) blocked by; reaching taskId means a cycle
+    const visited = new Set();
+    const stack = [blockerId];
+    while (stack.length > 0) {
+        const current = stack.pop();
+        if (current === taskId)
+            return true;
+        if (visited.has(current))
+            continue;
+        visited.add(current);
+        const task = tasks.find(t => t.id === current);
+        if (task?.blockedBy)
+            stack.push(...task.blockedBy);
+    }
+    return false;
+}
+/**
+ * Check whether making `parentId` the parent of `taskId` would introduce a cycle
+ */
+export function wouldCreateParentCycle(taskId, parentId, tasks) {
+    let current = parentId;
+    const visited = new Set();
+    while (current) {
+        if (current === taskId)
+            return true;
+        if (visited.has(current))
+            return true;
+        visited.add(current);
+        current = tasks.find(t => t.id === current)?.parentId;
+    }
+    return false;
+}
+/**
+ * Blockers of a task that are not completed yet
+ */
+export function getOpenBlockers(task, tasks) {
+    return (task.blockedBy || [])
+        .map(id => tasks.find(t => t.id === id))
+        .filter((t) => !!t && t.status !== 'completed');
+}
+/**
+ * Make blockedBy/blocks symmetric and drop references to unknown tasks
+ */
+export function normalizeTaskRelations(tasks) {
+    const ids = new Set(tasks.map(t => t.id));
+    const blockedBy = new Map();
+    const blocks = new Map();
+    for (const task of tasks) {
+        blockedBy.set(task.id, new Set());
+        blocks.set(task.id, new Set());
+    }
+    for (const task of tasks) {
+        for (const blockerId of task.blockedBy || []) {
+            if (!ids.has(blockerId) || blockerId === task.id)
+                continue;
+            blockedBy.get(task.id).add(blockerId);
+            blocks.get(blockerId).add(task.id);
+        }
+        for (const blockedId of task.blocks || []) {
+            if (!ids.has(blockedId) || blockedId === task.id)
+                continue;
+            blocks.get(task.id).add(blockedId);
+            blockedBy.get(blockedId).add(task.id);
+        }
+    }
+    for (const task of tasks) {
+        task.blockedBy = Array.from(blockedBy.get(task.id));
+        task.blocks = Array.from(blocks.get(task.id));
+        if (task.parentId && (!ids.has(task.parentId) || task.parentId === task.id)) {
+            task.parentId = undefined;
+        }
+    }
+    return tasks;
+}
@@ -0,0 +1,328 @@
+/**
+ * TASKS.md format shared by the tasks store and the CLI
+ */
+import {
+  formatTaskRelations,
+  parseTaskReferences,
+  resolveTaskReference,
+  wouldCreateParentCycle,
+  wouldCreateDependencyCycle,
+  normalizeTaskRelations,
+  type RelatableTask
+} from './task-relations.js';
+
+export type MarkdownTaskStatus = 'backlog' | 'pending' | 'in_progress' | 'completed';
+
+export interface MarkdownTaskResource {
+  type: 'file' | 'knowledge' | 'hook' | 'mcp' | 'command' | 'task';
+  id: string;
+  path?: string;
+  name: string;
+  metadata?: Record<string, any>;
+}
+
+export interface MarkdownTask extends RelatableTask {
+  status: MarkdownTaskStatus;
+  priority: 'high' | 'medium' | 'low';
+  assignee?: 'claude' | 'user' | 'both';
+  type?: 'feature' | 'bugfix' | 'refactor' | 'documentation' | 'research';
+  description?: string;
+  filesModified?: string[];
+  resources?: MarkdownTaskResource[];
+  claudeTodo?: { sessionId: string; key: string };
+}
+
+// Relation references parsed from TASKS.md before they are resolved to task IDs
+export interface PendingTaskRelations {
+  parent?: string;
+  blockedBy: string[];
+  blocks: string[];
+}
+
+export interface ParsedMarkdownTask {
+  task: Partial<MarkdownTask>;
+  relations: PendingTaskRelations;
+}
+
+export const TASK_STATUSES: MarkdownTaskStatus[] = ['backlog', 'pending', 'in_progress', 'completed'];
+export const TASK_PRIORITIES: MarkdownTask['priority'][] = ['high', 'medium', 'low'];
+export const TASK_TYPES: NonNullable<MarkdownTask['type']>[] = ['feature', 'bugfix', 'refactor', 'documentation', 'research'];
+export const TASK_ASSIGNEES: NonNullable<MarkdownTask['assignee']>[] = ['claude', 'user', 'both'];
+
+function formatTask(task: MarkdownTask, tasks: MarkdownTask[], isCompleted = false): string {
+  const checkbox = isCompleted ? '[x]' : '[ ]';
+  const title = isCompleted ? `~~${task.content}~~` : `**${task.content}**`;
+  const emoji = task.status === 'in_progress' ? ' ⏳' : '';
+
+  let text = `- ${checkbox} ${title}${emoji}`;
+
+  // Add identifier if present
+  if (task.identifier) {
+    const id = isCompleted ? `~~ID: ${task.identifier}~~` : `ID: ${task.identifier}`;
+    text += `\n  - ${id}`;
+  }
+
+  // Add structured metadata
+  const assignee = isCompleted ? `~~Assignee: ${task.assignee || 'Claude'}~~` : `Assignee: ${task.assignee || 'Claude'}`;
+  const type = isCompleted ? `~~Type: ${task.type || 'feature'}~~` : `Type: ${task.type || 'feature'}`;
+  const priority = isCompleted ? `~~Priority: ${task.priority}~~` : `Priority: ${task.priority}`;
+
+  text += `\n  - ${assignee}`;
+  text += `\n  - ${type}`;
+  text += `\n  - ${priority}`;
+
+  if (task.description) {
+    const desc = isCompleted ? `~~Description: ${task.description}~~` : `Description: ${task.description}`;
+    text += `\n  - ${desc}`;
+  }
+
+  // Link to the Claude session todo this task mirrors
+  if (task.claudeTodo) {
+    const link = `Claude Todo: ${task.claudeTodo.sessionId}#${task.claudeTodo.key}`;
+    text += `\n  - ${isCompleted ? `~~${link}~~` : link}`;
+  }
+
+  // Parent and dependency relations
+  for (const relation of formatTaskRelations(task, tasks)) {
+    text += `\n  - ${isCompleted ? `~~${relation}~~` : relation}`;
+  }
+
+  // Format resources if present
+  if (task.resources && task.resources.length > 0) {
+    const resourceTexts = task.resources.map(r => {
+      if (r.type === 'task') {
+        return `Task: ${r.name}`;
+      } else if (r.type === 'file') {
+        return `File: ${r.name}`;
+      } else {
+        return `${r.type}: ${r.name}`;
+      }
+    });
+    const resourcesStr = resourceTexts.slice(0, 3).join(', ') + (resourceTexts.length > 3 ? '...' : '');
+    const resourcesText = isCompleted ? `~~Resources: ${resourcesStr}~~` : `Resources: ${resourcesStr}`;
+    text += `\n  - ${resourcesText}`;
+  }
+
+  // Keep filesModified for backward compatibility but show only if no resources
+  if (!task.resources?.length && task.filesModified && task.filesModified.length > 0) {
+    const files = task.filesModified.slice(0, 3).join(', ') + (task.filesModified.length > 3 ? '...' : '');
+    const filesText = isCompleted ? `~~Files: ${files}~~` : `Files: ${files}`;
+    text += `\n  - ${filesText}`;
+  }
+
+  return text;
+}
+
+/**
+ * Render tasks as TASKS.md
+ */
+export function formatTasksMarkdown(tasks: MarkdownTask[], updatedAt: Date = new Date()): string {
+  const byStatus = (status: MarkdownTaskStatus) => tasks.filter(task => task.status === status);
+  const backlog = byStatus('backlog');
+  const todo = byStatus('pending');
+  const inProgress = byStatus('in_progress');
+  const completed = byStatus('completed');
+
+  return `# Project Tasks
+
+*This file is synced with Clode Studio and Claude's native TodoWrite system.*  
+*Last updated: ${updatedAt.toISOString()}*
+
+## Backlog (${backlog.length})
+
+${backlog.map(task => formatTask(task, tasks)).join('\n')}
+
+## To Do (${todo.length})
+
+${todo.map(task => formatTask(task, tasks)).join('\n')}
+
+## In Progress (${inProgress.length})
+
+${inProgress.map(task => formatTask(task, tasks)).join('\n')}
+
+## Completed (${completed.length})
+
+${completed.map(task => formatTask(task, tasks, true)).join('\n')}
+
+---
+*To update tasks, use the Kanban board in Clode Studio, ask Claude to modify this file, or use Claude's native TodoWrite system.*
+`;
+}
+
+/**
+ * Parse TASKS.md (or task lists Claude prints in the same format).
+ * Relations are returned as references; resolving them needs task IDs.
+ */
+export function parseTasksMarkdown(text: string): ParsedMarkdownTask[] {
+  const lines = text.split('\n');
+  const parsed: ParsedMarkdownTask[] = [];
+
+  let currentSection: MarkdownTaskStatus | null = null;
+  let currentTask: Partial<MarkdownTask> | null = null;
+  let currentRelations: PendingTaskRelations = { blockedBy: [], blocks: [] };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Detect sections
+    if (line.includes('## Backlog')) {
+      currentSection = 'backlog';
+    } else if (line.includes('## To Do')) {
+      currentSection = 'pending';
+    } else if (line.includes('## In Progress')) {
+      currentSection = 'in_progress';
+    } else if (line.includes('## Completed') || line.includes('## Done')) {
+      currentSection = 'completed';
+    }
+    // Parse task header
+    else if (currentSection && line.match(/^[\s-]*\[[ x]\]/)) {
+      // Save previous task if exists
+      if (currentTask && currentTask.content) {
+        parsed.push({ task: currentTask, relations: currentRelations });
+      }
+
+      // Start new task
+      const taskLine = line.replace(/^[\s-]*\[[ x]\]\s*/, '');
+      const content = taskLine.replace(/\*\*/g, '').replace(/~~/g, '').replace(/⏳/g, '').trim();
+
+      currentTask = {
+        content,
+        status: currentSection,
+        priority: 'medium',
+        assignee: 'claude',
+        type: 'feature'
+      };
+      currentRelations = { blockedBy: [], blocks: [] };
+    }
+    // Parse task metadata
+    else if (currentTask && line.match(/^\s*-\s*/)) {
+      const metaLine = line.replace(/^\s*-\s*/, '').replace(/~~/g, '').trim();
+
+      if (metaLine.startsWith('ID:')) {
+        currentTask.identifier = metaLine.replace('ID:', '').trim();
+      } else if (metaLine.startsWith('Assignee:')) {
+        const assignee = metaLine.replace('Assignee:', '').trim().toLowerCase();
+        if ((TASK_ASSIGNEES as string[]).includes(assignee)) {
+          currentTask.assignee = assignee as MarkdownTask['assignee'];
+        }
+      } else if (metaLine.startsWith('Type:')) {
+        const type = metaLine.replace('Type:', '').trim().toLowerCase();
+        if ((TASK_TYPES as string[]).includes(type)) {
+          currentTask.type = type as MarkdownTask['type'];
+        }
+      } else if (metaLine.startsWith('Priority:')) {
+        const priority = metaLine.replace('Priority:', '').trim().toLowerCase();
+        if ((TASK_PRIORITIES as string[]).includes(priority)) {
+          currentTask.priority = priority as MarkdownTask['priority'];
+        }
+      } else if (metaLine.startsWith('Description:')) {
+        currentTask.description = metaLine.replace('Description:', '').trim();
+      } else if (metaLine.startsWith('Resources:')) {
+        // Parse resources string back to array
+        const resourcesStr = metaLine.replace('Resources:', '').trim();
+        currentTask.resources = [];
+
+        // Split by comma and parse each resource
+        const resourceParts = resourcesStr.split(',').map(r => r.trim()).filter(r => r);
+        for (const part of resourceParts) {
+          // Format is "Type: Name" e.g., "File: src/api.ts" or "Task: AUTH-01"
+          const colonIndex = part.indexOf(':');
+          if (colonIndex > -1) {
+            const type = part.substring(0, colonIndex).trim().toLowerCase();
+            const name = part.substring(colonIndex + 1).trim();
+
+            // Map to our resource types
+            const typeMap: Record<string, MarkdownTaskResource['type']> = {
+              'file': 'file',
+              'task': 'task',
+              'knowledge': 'knowledge',
+              'hook': 'hook',
+              'mcp': 'mcp',
+              'command': 'command'
+            };
+
+            if (typeMap[type]) {
+              currentTask.resources.push({
+                type: typeMap[type],
+                id: `${type}-${name}`, // Generate a simple ID
+                name: name,
+                metadata: {}
+              });
+            }
+          }
+        }
+      } else if (metaLine.startsWith('Claude Todo:')) {
+        const [sessionId, key] = metaLine.replace('Claude Todo:', '').trim().split('#');
+        if (sessionId && key) {
+          currentTask.claudeTodo = { sessionId, key };
+        }
+      } else if (metaLine.startsWith('Parent:')) {
+        currentRelations.parent = parseTaskReferences(metaLine.replace('Parent:', ''))[0];
+      } else if (metaLine.startsWith('Blocked By:')) {
+        currentRelations.blockedBy.push(...parseTaskReferences(metaLine.replace('Blocked By:', '')));
+      } else if (metaLine.startsWith('Blocks:')) {
+        currentRelations.blocks.push(...parseTaskReferences(metaLine.replace('Blocks:', '')));
+      } else if (metaLine.startsWith('Files:')) {
+        const files = metaLine.replace('Files:', '').trim();
+        currentTask.filesModified = files.split(',').map(f => f.trim()).filter(f => f);
+      }
+    }
+  }
+
+  // Don't forget the last task
+  if (currentTask && currentTask.content) {
+    parsed.push({ task: currentTask, relations: currentRelations });
+  }
+
+  return parsed;
+}
+
+/**
+ * Resolve the relation references of parsed tasks once every task has an ID.
+ * References may point at any task in the list, not only the parsed ones.
+ * Parent and dependency references that would form a cycle are dropped.
+ */
+export function resolveTaskRelations<T extends RelatableTask>(
+  parsed: Array<{ task: T; relations: PendingTaskRelations }>,
+  tasks: T[]
+): void {
+  // [blocked task id, blocker id]
+  const dependencies: Array<[string, string]> = [];
+  const parsedIds = new Set(parsed.map(({ task }) => task.id));
+
+  // The markdown describes every relation of a parsed task, so references to
+  // it kept by other tasks are stale
+  for (const task of tasks) {
+    if (parsedIds.has(task.id)) continue;
+    task.blockedBy = (task.blockedBy || []).filter(id => !parsedIds.has(id));
+    task.blocks = (task.blocks || []).filter(id => !parsedIds.has(id));
+  }
+
+  for (const { task, relations } of parsed) {
+    const resolve = (refs: string[]) => refs
+      .map(ref => resolveTaskReference(ref, tasks)?.id)
+      .filter((id): id is string => !!id && id !== task.id);
+
+    if (relations.parent) {
+      const parentId = resolveTaskReference(relations.parent, tasks)?.id;
+      if (parentId && !wouldCreateParentCycle(task.id, parentId, tasks)) {
+        task.parentId = parentId;
+      }
+    }
+    task.blockedBy = [];
+    task.blocks = [];
+    resolve(relations.blockedBy).forEach(blockerId => dependencies.push([task.id, blockerId]));
+    resolve(relations.blocks).forEach(blockedId => dependencies.push([blockedId, task.id]));
+  }
+  // Cycle checks follow blockedBy only, so mirror the remaining blocks first
+  normalizeTaskRelations(tasks);
+
+  // Add dependencies one at a time and skip any that would close a cycle, as the board does
+  for (const [taskId, blockerId] of dependencies) {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || task.blockedBy?.includes(blockerId)) continue;
+    if (wouldCreateDependencyCycle(taskId, blockerId, tasks)) continue;
+    task.blockedBy = [...(task.blockedBy || []), blockerId];
+  }
+  normalizeTaskRelations(tasks);
+}
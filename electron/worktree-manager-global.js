@@ -42,10 +42,13 @@ export class WorktreeManagerGlobal {
     }
     removeExistingHandlers() {
         const handlers = [
-            'worktree:list', 'worktree:create', 'worktree:remove',
+            'worktree:list', 'worktree:mainPath', 'worktree:create', 'worktree:remove',
             'worktree:switch', 'worktree:compare', 'worktree:sessions',
             'worktree:createSession', 'worktree:deleteSession',
-            'worktree:lock', 'worktree:prune'
+            'worktree:lock', 'worktree:prune',
+            'worktree:previewMerge', 'worktree:startMerge', 'worktree:getMergeConflict',
+            'worktree:resolveMergeConflict', 'worktree:continueMerge', 'worktree:abortMerge',
+            'worktree:cleanupMerged'
         ];
         handlers.forEach(channel => {
             ipcMain.removeHandler(channel);
@@ -79,11 +82,11 @@ export class WorktreeManagerGlobal {
             }
         });
         // Create new worktree
-        ipcMain.handle('worktree:create', async (event, branchName, sessionName, sessionDescription) => {
+        ipcMain.handle('worktree:create', async (event, branchName, sessionName, sessionDescription, metadata) => {
             if (!this.currentManager) {
                 return { success: false, error: 'No workspace selected' };
             }
-            return await this.currentManager.createWorktree(branchName, sessionName, sessionDescription);
+            return await this.currentManager.createWorktree(branchName, sessionName, sessionDescription, metadata);
         });
         // Remove worktree
         ipcMain.handle('worktree:remove', async (event, worktreePath, force) => {
@@ -92,6 +95,13 @@ export class WorktreeManagerGlobal {
             }
             return await this.currentManager.removeWorktree(worktreePath, force);
         });
+        // Main checkout of the repository
+        ipcMain.handle('worktree:mainPath', async () => {
+            if (!this.currentManager) {
+                return { success: false, error: 'No workspace selected' };
+            }
+            return await this.currentManager.getMainWorktreePath();
+        });
         // Switch to worktree
         ipcMain.handle('worktree:switch', async (event, worktreePath) => {
             if (!this.currentManager) {
@@ -141,5 +151,48 @@ export class WorktreeManagerGlobal {
             }
             return await this.currentManager.pruneWorktrees();
         });
+        // Merge a worktree's branch back
+        ipcMain.handle('worktree:previewMerge', async (event, worktreePath) => {
+            if (!this.currentManager) {
+                return { success: false, error: 'No workspace selected' };
+            }
+            return await this.currentManager.previewMerge(worktreePath);
+        });
+        ipcMain.handle('worktree:startMerge', async (event, worktreePath, options) => {
+            if (!this.currentManager) {
+                return { success: false, error: 'No workspace selected' };
+            }
+            return await this.currentManager.startMerge(worktreePath, options);
+        });
+        ipcMain.handle('worktree:getMergeConflict', async (event, repoPath, filePath) => {
+            if (!this.currentManager) {
+                return { success: false, error: 'No workspace selected' };
+            }
+            return await this.currentManager.getMergeConflict(repoPath, filePath);
+        });
+        ipcMain.handle('worktree:resolveMergeConflict', async (event, repoPath, filePath, content) => {
+            if (!this.currentManager) {
+                return { success: false, error: 'No workspace selected' };
+            }
+            return await this.currentManager.resolveMergeConflict(repoPath, filePath, content);
+        });
+        ipcMain.handle('worktree:continueMerge', async (event, worktreePath, options) => {
+            if (!this.currentManager) {
+                return { success: false, error: 'No workspace selected' };
+            }
+            return await this.currentManager.continueMerge(worktreePath, options);
+        });
+        ipcMain.handle('worktree:abortMerge', async (event, worktreePath, strategy) => {
+            if (!this.currentManager) {
+                return { success: false, error: 'No workspace selected' };
+            }
+            return await this.currentManager.abortMerge(worktreePath, strategy);
+        });
+        ipcMain.handle('worktree:cleanupMerged', async (event, worktreePath, options) => {
+            if (!this.currentManager) {
+                return { success: false, error: 'No workspace selected' };
+            }
+            return await this.currentManager.cleanupMergedWorktree(worktreePath, options);
+        });
     }
 }
@@ -1,7 +1,14 @@
-import { ipcMain } from 'electron';
+import { createRequire } from 'module';
 import * as path from 'path';
+import * as os from 'os';
+import { execFile } from 'child_process';
 import fs from 'fs-extra';
 import simpleGit from 'simple-git';
+// The combined diff shown in the preview is cut off beyond this size
+const MAX_PREVIEW_DIFF_CHARS = 500000;
+function branchShortName(branch) {
+    return branch.replace(/^refs\/heads\//, '');
+}
 export class WorktreeManager {
     mainRepoPath;
     git;
@@ -20,6 +27,9 @@ export class WorktreeManager {
         this.initialize();
     }
     setupIpcHandlers() {
+        // Loaded on demand: the CLI imports this module under plain Node, where
+        // the electron package is not the API (and throws without its binary)
+        const { ipcMain } = createRequire(import.meta.url)('electron');
         // List all worktrees
         ipcMain.handle('worktree:list', async () => {
             return await this.listWorktrees();
@@ -32,6 +42,10 @@ export class WorktreeManager {
         ipcMain.handle('worktree:remove', async (event, worktreePath, force) => {
             return await this.removeWorktree(worktreePath, force);
         });
+        // Main checkout of the repository
+        ipcMain.handle('worktree:mainPath', async () => {
+            return await this.getMainWorktreePath();
+        });
         // Switch to worktree
         ipcMain.handle('worktree:switch', async (event, worktreePath) => {
             return await this.switchToWorktree(worktreePath);
@@ -60,6 +74,28 @@ export class WorktreeManager {
         ipcMain.handle('worktree:prune', async () => {
             return await this.pruneWorktrees();
         });
+        // Merge a worktree's branch back
+        ipcMain.handle('worktree:previewMerge', async (event, worktreePath) => {
+            return await this.previewMerge(worktreePath);
+        });
+        ipcMain.handle('worktree:startMerge', async (event, worktreePath, options) => {
+            return await this.startMerge(worktreePath, options);
+        });
+        ipcMain.handle('worktree:getMergeConflict', async (event, repoPath, filePath) => {
+            return await this.getMergeConflict(repoPath, filePath);
+        });
+        ipcMain.handle('worktree:resolveMergeConflict', async (event, repoPath, filePath, content) => {
+            return await this.resolveMergeConflict(repoPath, filePath, content);
+        });
+        ipcMain.handle('worktree:continueMerge', async (event, worktreePath, options) => {
+            return await this.continueMerge(worktreePath, options);
+        });
+        ipcMain.handle('worktree:abortMerge', async (event, worktreePath, strategy) => {
+            return await this.abortMerge(worktreePath, strategy);
+        });
+        ipcMain.handle('worktree:cleanupMerged', async (event, worktreePath, options) => {
+            return await this.cleanupMergedWorktree(worktreePath, options);
+        });
     }
     async initialize() {
         try {
@@ -116,6 +152,26 @@ export class WorktreeManager {
             };
         }
     }
+    /**
+     * Path of the main checkout: the first entry of `git worktree list`, also when
+     * this manager was opened on a linked worktree
+     */
+    async getMainWorktreePath() {
+        try {
+            const result = await this.git.raw(['worktree', 'list', '--porcelain']);
+            const [main] = this.parseWorktreeList(result);
+            if (!main) {
+                return { success: false, error: 'No worktrees found' };
+            }
+            return { success: true, path: main.path };
+        }
+        catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to find the main worktree'
+            };
+        }
+    }
     async createWorktree(branchName, sessionName, sessionDescription, metadata) {
         try {
             // Check if repository has any commits
@@ -312,6 +368,332 @@ export class WorktreeManager {
             };
         }
     }
+    // Merge-back: bring a worktree's branch into the branch checked out in the main worktree
+    async previewMerge(worktreePath) {
+        try {
+            const { source, target } = await this.getMergeBranches(worktreePath);
+            const log = await this.execGit(this.mainRepoPath, ['log', '--format=%H%x1f%s%x1f%an%x1f%aI', `${target}..${source}`]);
+            const commits = log.stdout.split('\n').filter(Boolean).map(line => {
+                const [hash, message, author, date] = line.split('\x1f');
+                return { hash, message, author, date };
+            });
+            // Three-dot ranges diff from the merge base, i.e. only what the worktree changed
+            const range = `${target}...${source}`;
+            const nameStatus = await this.execGit(this.mainRepoPath, ['diff', '--name-status', '-M', range]);
+            const numstat = await this.execGit(this.mainRepoPath, ['diff', '--numstat', '-M', range]);
+            const counts = new Map();
+            for (const line of numstat.stdout.split('\n').filter(Boolean)) {
+                const [additions, deletions, ...rest] = line.split('\t');
+                // Renames are listed as "old => new" or "dir/{old => new}"
+                const file = rest.join('\t').replace(/\{[^}]* => ([^}]*)\}/, '$1').replace(/^.* => /, '');
+                counts.set(file, {
+                    additions: additions === '-' ? 0 : parseInt(additions, 10),
+                    deletions: deletions === '-' ? 0 : parseInt(deletions, 10)
+                });
+            }
+            const files = nameStatus.stdout.split('\n').filter(Boolean).map(line => {
+                const [code, first, second] = line.split('\t');
+                const filePath = second || first;
+                const status = code.startsWith('A') ? 'added'
+                    : code.startsWith('D') ? 'deleted'
+                        : code.startsWith('R') ? 'renamed'
+                            : 'modified';
+                return {
+                    path: filePath,
+                    oldPath: second ? first : undefined,
+                    status,
+                    ...(counts.get(filePath) || { additions: 0, deletions: 0 })
+                };
+            });
+            const diff = await this.execGit(this.mainRepoPath, ['diff', '-M', range]);
+            const worktreeStatus = await simpleGit(worktreePath).status();
+            const mainStatus = await this.git.status();
+            return {
+                success: true,
+                preview: {
+                    sourceBranch: source,
+                    targetBranch: target,
+                    commits,
+                    files,
+                    diff: diff.stdout.slice(0, MAX_PREVIEW_DIFF_CHARS),
+                    diffTruncated: diff.stdout.length > MAX_PREVIEW_DIFF_CHARS,
+                    uncommittedChanges: worktreeStatus.files.map(f => f.path),
+                    targetChanges: mainStatus.files.filter(f => f.index !== '?' || f.working_dir !== '?').map(f => f.path),
+                    predictedConflicts: await this.predictConflicts(target, source)
+                }
+            };
+        }
+        catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to preview merge'
+            };
+        }
+    }
+    async startMerge(worktreePath, options) {
+        try {
+            const { source, target } = await this.getMergeBranches(worktreePath);
+            const mainStatus = await this.git.status();
+            if (mainStatus.files.some(f => f.index !== '?' || f.working_dir !== '?')) {
+                return { success: false, error: `The main worktree (${target}) has uncommitted changes. Commit or stash them first.` };
+            }
+            const worktreeStatus = await simpleGit(worktreePath).status();
+            if (worktreeStatus.files.length > 0) {
+                if (!options.commitUncommitted) {
+                    return { success: false, error: `The worktree has uncommitted changes. Commit them before merging ${source}.` };
+                }
+                await this.execGit(worktreePath, ['add', '-A'], true);
+                await this.execGit(worktreePath, ['commit', '-m', options.commitUncommitted], true);
+            }
+            const { strategy } = options;
+            if (strategy === 'rebase') {
+                const rebase = await this.execGit(worktreePath, ['rebase', target]);
+                if (rebase.code !== 0) {
+                    return { success: true, result: await this.conflictResultOrThrow(worktreePath, strategy, rebase.stderr || rebase.stdout) };
+                }
+                return { success: true, result: await this.fastForwardTarget(source, strategy) };
+            }
+            const args = strategy === 'squash'
+                ? ['merge', '--squash', source]
+                : ['merge', '--no-ff', '--no-commit', source];
+            const merge = await this.execGit(this.mainRepoPath, args);
+            if (merge.code !== 0) {
+                return { success: true, result: await this.conflictResultOrThrow(this.mainRepoPath, strategy, merge.stderr || merge.stdout) };
+            }
+            const staged = await this.execGit(this.mainRepoPath, ['diff', '--cached', '--name-only']);
+            const mergeInProgress = await this.isMergeInProgress();
+            return {
+                success: true,
+                result: {
+                    status: staged.stdout.trim() || mergeInProgress ? 'ready-to-commit' : 'up-to-date',
+                    strategy,
+                    repoPath: this.mainRepoPath,
+                    conflicts: []
+                }
+            };
+        }
+        catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to start merge'
+            };
+        }
+    }
+    async getMergeConflict(repoPath, filePath) {
+        try {
+            const [base, ours, theirs] = await Promise.all([1, 2, 3].map(async (stage) => {
+                const result = await this.execGit(repoPath, ['show', `:${stage}:${filePath}`]);
+                return result.code === 0 ? result.stdout : null;
+            }));
+            let merged = ours ?? theirs ?? '';
+            if (ours !== null && theirs !== null) {
+                const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'clode-merge-'));
+                try {
+                    const oursFile = path.join(tmpDir, 'ours');
+                    const baseFile = path.join(tmpDir, 'base');
+                    const theirsFile = path.join(tmpDir, 'theirs');
+                    await fs.writeFile(oursFile, ours);
+                    await fs.writeFile(baseFile, base ?? '');
+                    await fs.writeFile(theirsFile, theirs);
+                    const result = await this.execGit(repoPath, ['merge-file', '-p', '--ours', oursFile, baseFile, theirsFile]);
+                    merged = result.stdout;
+                }
+                finally {
+                    await fs.remove(tmpDir);
+                }
+            }
+            return { success: true, conflict: { path: filePath, base, ours, theirs, merged } };
+        }
+        catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to read conflict'
+            };
+        }
+    }
+    /**
+     * Store the resolved content of a conflicted file and stage it; null deletes the file
+     */
+    async resolveMergeConflict(repoPath, filePath, content) {
+        try {
+            if (content === null) {
+                await this.execGit(repoPath, ['rm', '-q', '--', filePath], true);
+            }
+            else {
+                await fs.outputFile(path.join(repoPath, filePath), content);
+                await this.execGit(repoPath, ['add', '--', filePath], true);
+            }
+            return { success: true, conflicts: await this.getConflictedFiles(repoPath) };
+        }
+        catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to resolve conflict'
+            };
+        }
+    }
+    /**
+     * Finish a merge once its conflicts are resolved: commit merges and squashes,
+     * continue rebases (which may stop at the next conflicting commit)
+     */
+    async continueMerge(worktreePath, options) {
+        try {
+            const { source } = await this.getMergeBranches(worktreePath);
+            const { strategy } = options;
+            if (strategy === 'rebase') {
+                const remaining = await this.getConflictedFiles(worktreePath);
+                if (remaining.length > 0) {
+                    return { success: true, result: { status: 'conflicts', strategy, repoPath: worktreePath, conflicts: remaining } };
+                }
+                const rebase = await this.execGit(worktreePath, ['rebase', '--continue'], false, { GIT_EDITOR: 'true' });
+                if (rebase.code !== 0) {
+                    return { success: true, result: await this.conflictResultOrThrow(worktreePath, strategy, rebase.stderr || rebase.stdout) };
+                }
+                return { success: true, result: await this.fastForwardTarget(source, strategy) };
+            }
+            const remaining = await this.getConflictedFiles(this.mainRepoPath);
+            if (remaining.length > 0) {
+                return { success: true, result: { status: 'conflicts', strategy, repoPath: this.mainRepoPath, conflicts: remaining } };
+            }
+            const message = options.message?.trim() ||
+                (strategy === 'squash' ? `Squashed changes from ${source}` : `Merge branch '${source}'`);
+            await this.execGit(this.mainRepoPath, ['commit', '-m', message], true);
+            const head = await this.execGit(this.mainRepoPath, ['rev-parse', 'HEAD'], true);
+            return {
+                success: true,
+                result: { status: 'merged', strategy, repoPath: this.mainRepoPath, conflicts: [], commit: head.stdout.trim() }
+            };
+        }
+        catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to complete merge'
+            };
+        }
+    }
+    async abortMerge(worktreePath, strategy) {
+        try {
+            if (strategy === 'rebase') {
+                await this.execGit(worktreePath, ['rebase', '--abort'], true);
+            }
+            else if (strategy === 'squash') {
+                // Squash merges leave no MERGE_HEAD, so there is nothing for merge --abort to find
+                await this.execGit(this.mainRepoPath, ['reset', '--merge'], true);
+            }
+            else {
+                await this.execGit(this.mainRepoPath, ['merge', '--abort'], true);
+            }
+            return { success: true };
+        }
+        catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to abort merge'
+            };
+        }
+    }
+    /**
+     * Remove a merged worktree and its session record, optionally deleting the branch too
+     */
+    async cleanupMergedWorktree(worktreePath, options) {
+        try {
+            const { source } = await this.getMergeBranches(worktreePath);
+            const removed = await this.removeWorktree(worktreePath, true);
+            if (!removed.success) {
+                return removed;
+            }
+            if (options.deleteBranch) {
+                // Squashed branches never show up as merged, so git needs -D for them
+                await this.execGit(this.mainRepoPath, ['branch', options.strategy === 'squash' ? '-D' : '-d', source], true);
+            }
+            return { success: true };
+        }
+        catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : 'Failed to clean up worktree'
+            };
+        }
+    }
+    async getMergeBranches(worktreePath) {
+        const worktrees = await this.listWorktrees();
+        const worktree = worktrees.worktrees?.find(w => path.resolve(w.path) === path.resolve(worktreePath));
+        if (!worktree) {
+            throw new Error('Worktree not found');
+        }
+        if (path.resolve(worktreePath) === path.resolve(this.mainRepoPath)) {
+            throw new Error('The main worktree cannot be merged into itself');
+        }
+        // HEAD is detached while a rebase is stopped; the branch being rebased is recorded by git
+        let branch = worktree.branch;
+        if (!branch || branch === 'detached') {
+            const rebaseDir = await this.execGit(worktreePath, ['rev-parse', '--git-path', 'rebase-merge'], true);
+            const headNameFile = path.resolve(worktreePath, rebaseDir.stdout.trim(), 'head-name');
+            if (await fs.pathExists(headNameFile)) {
+                branch = (await fs.readFile(headNameFile, 'utf-8')).trim();
+            }
+        }
+        if (!branch || branch === 'detached') {
+            throw new Error('The worktree has no branch checked out');
+        }
+        const head = await this.execGit(this.mainRepoPath, ['rev-parse', '--abbrev-ref', 'HEAD'], true);
+        const target = head.stdout.trim();
+        if (target === 'HEAD') {
+            throw new Error('The main worktree has no branch checked out');
+        }
+        return { source: branchShortName(branch), target };
+    }
+    async predictConflicts(target, source) {
+        // merge-tree --write-tree (git 2.38+) merges without touching any checkout
+        const result = await this.execGit(this.mainRepoPath, ['merge-tree', '--write-tree', '--name-only', '--no-messages', target, source]);
+        if (result.code === 0)
+            return [];
+        if (result.code === 1) {
+            // First line is the tree id, then one conflicted path per line
+            return result.stdout.split('\n').slice(1).filter(Boolean);
+        }
+        return null;
+    }
+    async conflictResultOrThrow(repoPath, strategy, output) {
+        const conflicts = await this.getConflictedFiles(repoPath);
+        if (conflicts.length === 0) {
+            throw new Error(output.trim() || 'git failed without reporting conflicts');
+        }
+        return { status: 'conflicts', strategy, repoPath, conflicts };
+    }
+    async fastForwardTarget(source, strategy) {
+        await this.execGit(this.mainRepoPath, ['merge', '--ff-only', source], true);
+        const head = await this.execGit(this.mainRepoPath, ['rev-parse', 'HEAD'], true);
+        return { status: 'merged', strategy, repoPath: this.mainRepoPath, conflicts: [], commit: head.stdout.trim() };
+    }
+    async getConflictedFiles(repoPath) {
+        const result = await this.execGit(repoPath, ['diff', '--name-only', '--diff-filter=U'], true);
+        return result.stdout.split('\n').filter(Boolean);
+    }
+    async isMergeInProgress() {
+        const result = await this.execGit(this.mainRepoPath, ['rev-parse', '-q', '--verify', 'MERGE_HEAD']);
+        return result.code === 0;
+    }
+    /**
+     * Run git and report its exit code instead of throwing, since merges and
+     * rebases signal conflicts through it. With check, failures throw.
+     */
+    execGit(cwd, args, check = false, env) {
+        return new Promise((resolve, reject) => {
+            execFile('git', args, {
+                cwd,
+                maxBuffer: 64 * 1024 * 1024,
+                env: { ...process.env, ...env }
+            }, (error, stdout, stderr) => {
+                const code = error ? (typeof error.code === 'number' ? error.code : -1) : 0;
+                if (check && code !== 0) {
+                    reject(new Error((stderr || stdout || error?.message || `git ${args[0]} failed`).trim()));
+                    return;
+                }
+                resolve({ code, stdout, stderr });
+            });
+        });
+    }
     // Session management
     async createSession(sessionData) {
         try {
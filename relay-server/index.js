@@ -1,7 +1,6 @@
 import express from 'express';
 import { createServer } from 'http';
 import { Server as SocketIOServer } from 'socket.io';
-import Redis from 'ioredis';
 import { customAlphabet } from 'nanoid';
 import jwt from 'jsonwebtoken';
 import cors from 'cors';
@@ -12,10 +11,15 @@ const app = express();
 const httpServer = createServer(app);
 
 // Configure
+// --local runs a single self-hosted instance on this machine: sessions are
+// served from <session>.localhost (which browsers resolve without DNS), over
+// plain HTTP, with sessions kept in memory
+const LOCAL_MODE = process.argv.includes('--local');
 const PORT = process.env.PORT || 3790;
-const REDIS_URL = process.env.REDIS_URL;
+const REDIS_URL = LOCAL_MODE ? undefined : process.env.REDIS_URL;
 const JWT_SECRET = process.env.JWT_SECRET || 'change-this-secret-in-production';
-const DOMAIN = process.env.DOMAIN || 'relay.clode.studio';
+const DOMAIN = process.env.DOMAIN || (LOCAL_MODE ? `localhost:${PORT}` : 'relay.clode.studio');
+const PUBLIC_PROTOCOL = process.env.PUBLIC_PROTOCOL || (LOCAL_MODE ? 'http' : 'https');
 
 // Use Redis if available, otherwise use in-memory storage
 let redis = null;
@@ -23,6 +27,8 @@ let memoryStore = new Map();
 
 if (REDIS_URL && REDIS_URL !== 'none') {
   try {
+    // Only needed for multi-instance deployments, so it is an optional dependency
+    const { default: Redis } = await import('ioredis');
     redis = new Redis(REDIS_URL);
     redis.on('error', (err) => {
       console.error('Redis connection error:', err);
@@ -31,7 +37,7 @@ if (REDIS_URL && REDIS_URL !== 'none') {
     });
     
   } catch (err) {
-    
+    console.error('Redis unavailable, keeping sessions in memory:', err.message);
   }
 } else {
   
@@ -46,9 +52,10 @@ app.use((req, res, next) => {
   const host = req.get('host');
   if (host) {
     // Extract subdomain (session ID) from host
-    // Format: sessionid.relay.clode.studio
+    // Format: sessionid.relay.clode.studio (or sessionid.localhost:3790 in local mode)
     const parts = host.split('.');
-    if (parts.length >= 3) {
+    const isSessionHost = parts.length >= 3 || host.toLowerCase().endsWith(`.${DOMAIN.toLowerCase()}`);
+    if (isSessionHost) {
       // Check if first part looks like a session ID (6 uppercase alphanumeric)
       const potentialSession = parts[0].toUpperCase();
       if (/^[A-Z0-9]{6}$/.test(potentialSession)) {
@@ -102,7 +109,7 @@ class ConnectionManager {
   async registerDesktop(socket, auth) {
     const sessionId = generateId();
     // Use subdomain-based URL
-    const sessionUrl = `https://${sessionId.toLowerCase()}.${DOMAIN}`;
+    const sessionUrl = `${PUBLIC_PROTOCOL}://${sessionId.toLowerCase()}.${DOMAIN}`;
     
     const desktopInfo = {
       sessionId,
@@ -296,6 +303,11 @@ class ConnectionManager {
         }
       }
       pendingRequests.clear();
+      
+      // Let the desktop drop the client's end-to-end session
+      if (desktopSocket?.connected) {
+        desktopSocket.emit('relay:client-disconnected', { clientId });
+      }
     };
     
     clientSocket.once('disconnect', cleanup);
@@ -0,0 +1,55 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { readFile } from 'fs/promises';
+import path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+export default defineEventHandler(async (event) => {
+  try {
+    const query = getQuery(event);
+    const file = typeof query.file === 'string' ? query.file : '';
+    
+    const workspacePath = global.__currentWorkspace;
+    if (!workspacePath) {
+      return { success: false, error: 'No workspace selected' };
+    }
+
+    const filePath = path.resolve(workspacePath, file);
+    if (!file || !filePath.startsWith(path.resolve(workspacePath) + path.sep)) {
+      return { success: false, error: 'Invalid file path' };
+    }
+
+    // Stage 1 is the common ancestor, 2 our side and 3 their side; a stage is
+    // missing when that side added or deleted the file. The ./ makes git resolve
+    // the path from the workspace, which may be a subdirectory of the repository.
+    const [base, ours, theirs] = await Promise.all([1, 2, 3].map(async stage => {
+      try {
+        const { stdout } = await execFileAsync('git', ['show', `:${stage}:./${file}`], {
+          cwd: workspacePath,
+          maxBuffer: 50 * 1024 * 1024
+        });
+        return stdout;
+      } catch {
+        return null;
+      }
+    }));
+
+    if (base === null && ours === null && theirs === null) {
+      return { success: false, error: `${file} is not in conflict` };
+    }
+
+    const current = await readFile(filePath, 'utf-8').catch(() => null);
+
+    return { 
+      success: true,
+      data: { base, ours, theirs, current }
+    };
+  } catch (error) {
+    console.error('[API] /git/conflict error:', error);
+    return { 
+      success: false,
+      error: error.message || 'Failed to load conflict'
+    };
+  }
+});
@@ -0,0 +1,39 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { writeFile } from 'fs/promises';
+import path from 'path';
+
+const execFileAsync = promisify(execFile);
+
+export default defineEventHandler(async (event) => {
+  try {
+    const body = await readBody(event);
+    const { file, content } = body;
+    
+    const workspacePath = global.__currentWorkspace;
+    if (!workspacePath) {
+      return { success: false, error: 'No workspace selected' };
+    }
+
+    const filePath = typeof file === 'string' ? path.resolve(workspacePath, file) : '';
+    if (!filePath || !filePath.startsWith(path.resolve(workspacePath) + path.sep)) {
+      return { success: false, error: 'Invalid file path' };
+    }
+
+    // Null content resolves the conflict by deleting the file
+    if (content === null) {
+      await execFileAsync('git', ['rm', '--quiet', '--ignore-unmatch', '--', file], { cwd: workspacePath });
+    } else {
+      await writeFile(filePath, content, 'utf-8');
+      await execFileAsync('git', ['add', '--', file], { cwd: workspacePath });
+    }
+
+    return { success: true };
+  } catch (error) {
+    console.error('[API] /git/conflict error:', error);
+    return { 
+      success: false,
+      error: error.message || 'Failed to resolve conflict' 
+    };
+  }
+});
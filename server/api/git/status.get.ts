@@ -4,6 +4,8 @@ import path from 'path';
 
 const execAsync = promisify(exec);
 
+const UNMERGED_CODES = new Set(['DD', 'AU', 'UD', 'UA', 'DU', 'AA', 'UU']);
+
 export default defineEventHandler(async (event) => {
   try {
     const workspacePath = global.__currentWorkspace;
@@ -42,7 +44,8 @@ export default defineEventHandler(async (event) => {
       modified: [] as any[],
       deleted: [] as any[],
       renamed: [] as any[],
-      untracked: [] as any[]
+      untracked: [] as any[],
+      conflicted: [] as string[]
     };
 
     // Parse branch info from first line
@@ -72,6 +75,12 @@ export default defineEventHandler(async (event) => {
       const statusCode = line.substring(0, 2);
       const filePath = line.substring(3);
       
+      // Unmerged paths (DD, AU, UD, UA, DU, AA, UU)
+      if (UNMERGED_CODES.has(statusCode)) {
+        status.conflicted.push(filePath);
+        continue;
+      }
+      
       // Handle renamed files
       if (statusCode[0] === 'R' || statusCode[1] === 'R') {
         const parts = filePath.split(' -> ');
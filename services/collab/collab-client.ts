@@ -0,0 +1,308 @@
+/**
+ * Collaborative Editing Client
+ * Keeps the editor's copy of shared files in step with the desktop's
+ * collaboration host, over IPC on the desktop and the remote socket elsewhere
+ */
+import type { Socket } from 'socket.io-client';
+import { TextCrdt } from '../../electron/services/text-crdt.js';
+import type { CrdtOperation, ItemId, TextChange } from '../../electron/services/text-crdt.js';
+import type { CollabProtocol, RemoteRequest, RemoteResponse } from '../../electron/services/remote-protocol.js';
+
+export type CollabEvent = 'collab:update' | 'collab:cursor' | 'collab:presence';
+
+export interface CollabTransport {
+  join(request: CollabProtocol.JoinRequest): Promise<CollabProtocol.JoinResponse>;
+  leave(path: string): Promise<void>;
+  update(request: CollabProtocol.UpdateRequest): Promise<void>;
+  moveCursor(request: CollabProtocol.CursorRequest): void;
+  getPresence(): Promise<CollabProtocol.PresenceEvent>;
+  on(event: CollabEvent, handler: (data: any) => void): () => void;
+}
+
+/**
+ * Desktop renderer, through the preload bridge
+ */
+export class ElectronCollabTransport implements CollabTransport {
+  private get api() {
+    return window.electronAPI.collab;
+  }
+
+  join(request: CollabProtocol.JoinRequest): Promise<CollabProtocol.JoinResponse> {
+    return this.api.join(request);
+  }
+
+  leave(path: string): Promise<void> {
+    return this.api.leave(path);
+  }
+
+  update(request: CollabProtocol.UpdateRequest): Promise<void> {
+    return this.api.update(request);
+  }
+
+  moveCursor(request: CollabProtocol.CursorRequest): void {
+    this.api.moveCursor(request);
+  }
+
+  getPresence(): Promise<CollabProtocol.PresenceEvent> {
+    return this.api.getPresence();
+  }
+
+  on(event: CollabEvent, handler: (data: any) => void): () => void {
+    switch (event) {
+      case 'collab:update':
+        return this.api.onUpdate(handler);
+      case 'collab:cursor':
+        return this.api.onCursor(handler);
+      case 'collab:presence':
+        return this.api.onPresence(handler);
+    }
+  }
+}
+
+/**
+ * Remote devices, over the shared Socket.IO connection
+ */
+export class SocketCollabTransport implements CollabTransport {
+  private handlers: Map<CollabEvent, Set<(data: any) => void>> = new Map();
+  private boundSocket: Socket | null = null;
+
+  constructor(private getSocket: () => Socket | null) {}
+
+  join(request: CollabProtocol.JoinRequest): Promise<CollabProtocol.JoinResponse> {
+    return this.request('collab:join', request);
+  }
+
+  leave(path: string): Promise<void> {
+    return this.request('collab:leave', { path });
+  }
+
+  update(request: CollabProtocol.UpdateRequest): Promise<void> {
+    return this.request('collab:update', request);
+  }
+
+  moveCursor(request: CollabProtocol.CursorRequest): void {
+    const socket = this.bind();
+    if (!socket?.connected) return;
+    socket.emit('collab:cursor', { id: `collab-${Date.now()}`, payload: request });
+  }
+
+  getPresence(): Promise<CollabProtocol.PresenceEvent> {
+    return this.request('collab:presence', {});
+  }
+
+  on(event: CollabEvent, handler: (data: any) => void): () => void {
+    if (!this.handlers.has(event)) {
+      this.handlers.set(event, new Set());
+    }
+    this.handlers.get(event)!.add(handler);
+    this.bind();
+
+    return () => {
+      this.handlers.get(event)?.delete(handler);
+    };
+  }
+
+  // Listens on whichever socket is current, moving over after a reconnect
+  private bind(): Socket | null {
+    const socket = this.getSocket();
+    if (socket === this.boundSocket) return socket;
+
+    for (const event of ['collab:update', 'collab:cursor', 'collab:presence'] as const) {
+      this.boundSocket?.off(event);
+      socket?.on(event, (data: any) => {
+        this.handlers.get(event)?.forEach(handler => handler(data));
+      });
+    }
+    this.boundSocket = socket;
+    return socket;
+  }
+
+  private request<T>(event: string, payload: any): Promise<T> {
+    const socket = this.bind();
+    if (!socket?.connected) {
+      return Promise.reject(new Error('Socket not connected'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const request: RemoteRequest = {
+        id: `collab-${Date.now()}`,
+        payload
+      };
+
+      socket.emit(event, request, (response: RemoteResponse<T>) => {
+        if (response.success) {
+          resolve(response.data as T);
+        } else {
+          reject(new Error(response.error?.message || `${event} failed`));
+        }
+      });
+    });
+  }
+}
+
+export interface CollabCursor {
+  participant: CollabProtocol.Participant;
+  anchor: number;
+  head: number;
+}
+
+export interface CollabDocumentHandlers {
+  // Edits from other participants, to apply one after another
+  onRemoteChanges(changes: TextChange[]): void;
+  onCursorsChanged(cursors: CollabCursor[]): void;
+}
+
+/**
+ * One joined file: the local replica plus the other participants' cursors
+ */
+export class CollabDocument {
+  readonly path: string;
+  readonly self: CollabProtocol.Participant;
+  readonly readOnly: boolean;
+  private crdt: TextCrdt;
+  // Kept as character ids so they stay put while the text changes
+  private cursors: Map<string, { participant: CollabProtocol.Participant; anchor: ItemId | null; head: ItemId | null }> = new Map();
+  private closed = false;
+
+  constructor(
+    private transport: CollabTransport,
+    response: CollabProtocol.JoinResponse,
+    private handlers: CollabDocumentHandlers
+  ) {
+    this.path = response.path;
+    this.self = response.self;
+    this.readOnly = response.readOnly;
+    this.crdt = new TextCrdt(response.clientId, response.snapshot);
+  }
+
+  getText(): string {
+    return this.crdt.getText();
+  }
+
+  /**
+   * Share a local edit: replace from..to of the current text with insert
+   */
+  edit(from: number, to: number, insert: string): void {
+    if (this.closed || this.readOnly) return;
+
+    const operations: CrdtOperation[] = [];
+    if (to > from) {
+      operations.push(this.crdt.delete(from, to - from));
+    }
+    if (insert) {
+      operations.push(this.crdt.insert(from, insert));
+    }
+    if (operations.length === 0) return;
+
+    this.transport.update({ path: this.path, operations }).catch(error => {
+      console.error('[Collab] Failed to send edit:', error);
+    });
+  }
+
+  moveCursor(anchor: number, head: number): void {
+    if (this.closed) return;
+    this.transport.moveCursor({
+      path: this.path,
+      anchor: this.crdt.relativePosition(anchor),
+      head: this.crdt.relativePosition(head)
+    });
+  }
+
+  receiveUpdate(event: CollabProtocol.UpdateEvent): void {
+    if (this.closed) return;
+
+    const changes: TextChange[] = [];
+    for (const operation of event.operations) {
+      changes.push(...this.crdt.apply(operation));
+    }
+    if (changes.length > 0) {
+      this.handlers.onRemoteChanges(changes);
+      this.handlers.onCursorsChanged(this.getCursors());
+    }
+  }
+
+  receiveCursor(event: CollabProtocol.CursorEvent): void {
+    if (this.closed) return;
+
+    if (event.left) {
+      this.cursors.delete(event.participant.id);
+    } else {
+      this.cursors.set(event.participant.id, {
+        participant: event.participant,
+        anchor: event.anchor,
+        head: event.head
+      });
+    }
+    this.handlers.onCursorsChanged(this.getCursors());
+  }
+
+  getCursors(): CollabCursor[] {
+    const cursors: CollabCursor[] = [];
+    for (const cursor of this.cursors.values()) {
+      const anchor = this.crdt.absolutePosition(cursor.anchor);
+      const head = this.crdt.absolutePosition(cursor.head);
+      if (anchor === null || head === null) continue;
+      cursors.push({ participant: cursor.participant, anchor, head });
+    }
+    return cursors;
+  }
+
+  close(): void {
+    this.closed = true;
+  }
+}
+
+/**
+ * All files this window edits together with others
+ */
+export class CollabClient {
+  private documents: Map<string, CollabDocument> = new Map();
+  private unsubscribers: Array<() => void> = [];
+
+  constructor(private transport: CollabTransport) {
+    this.unsubscribers.push(
+      transport.on('collab:update', (event: CollabProtocol.UpdateEvent) => {
+        this.documents.get(event.path)?.receiveUpdate(event);
+      }),
+      transport.on('collab:cursor', (event: CollabProtocol.CursorEvent) => {
+        this.documents.get(event.path)?.receiveCursor(event);
+      })
+    );
+  }
+
+  /**
+   * Join the shared session of a file. Whoever opens the file first decides
+   * its starting text; later joiners get the shared text back.
+   */
+  async join(path: string, content: string, handlers: CollabDocumentHandlers): Promise<CollabDocument> {
+    const response = await this.transport.join({ path, content });
+    this.documents.get(response.path)?.close();
+
+    const document = new CollabDocument(this.transport, response, handlers);
+    this.documents.set(response.path, document);
+    return document;
+  }
+
+  async leave(document: CollabDocument): Promise<void> {
+    document.close();
+    if (this.documents.get(document.path) === document) {
+      this.documents.delete(document.path);
+      await this.transport.leave(document.path);
+    }
+  }
+
+  getPresence(): Promise<CollabProtocol.PresenceEvent> {
+    return this.transport.getPresence();
+  }
+
+  onPresence(handler: (event: CollabProtocol.PresenceEvent) => void): () => void {
+    return this.transport.on('collab:presence', handler);
+  }
+
+  dispose(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.documents.forEach(document => document.close());
+    this.documents.clear();
+  }
+}
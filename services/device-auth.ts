@@ -10,6 +10,14 @@ export interface DeviceAuth {
   expiresAt?: Date;
 }
 
+// Device token issued by a desktop after pairing, replaced on every reconnect
+export interface TrustedDeviceCredentials {
+  deviceId: string;
+  token: string;
+  deviceName?: string;
+  expiresAt: string;
+}
+
 export interface DeviceConnectionInfo {
   url: string;
   deviceAuth: DeviceAuth;
@@ -19,6 +27,7 @@ export interface DeviceConnectionInfo {
 export class DeviceAuthService {
   private static readonly TOKEN_LENGTH = 32;
   private static readonly PAIRING_CODE_LENGTH = 6;
+  private static readonly TRUSTED_CREDENTIALS_KEY = 'clode-trusted-device';
   
   /**
    * Generate a new device token for authentication
@@ -41,24 +50,63 @@ export class DeviceAuthService {
    */
   static async generateConnectionInfo(
     serverUrl: string,
-    deviceAuth: DeviceAuth
+    deviceAuth: DeviceAuth,
+    options: { relay?: boolean } = {}
   ): Promise<DeviceConnectionInfo> {
     // Create a short pairing code for manual entry
     const pairingCode = this.generatePairingCode();
     
     // Build connection URL with auth info
-    const url = new URL(serverUrl);
-    url.searchParams.set('deviceId', deviceAuth.deviceId);
-    url.searchParams.set('token', deviceAuth.token);
-    url.searchParams.set('pairing', pairingCode);
+    const params = new URLSearchParams();
+    params.set('deviceId', deviceAuth.deviceId);
+    params.set('token', deviceAuth.token);
+    params.set('pairing', pairingCode);
     
     return {
-      url: url.toString(),
+      url: this.buildConnectionUrl(serverUrl, params, options.relay),
       deviceAuth,
       pairingCode
     };
   }
   
+  /**
+   * Build the link of a watch token issued by the desktop, which opens a
+   * read-only view of one Claude instance
+   */
+  static generateWatchUrl(
+    serverUrl: string,
+    share: { deviceId: string; token: string; pairingCode: string; instanceId: string },
+    options: { relay?: boolean } = {}
+  ): string {
+    const params = new URLSearchParams();
+    params.set('deviceId', share.deviceId);
+    params.set('token', share.token);
+    params.set('pairing', share.pairingCode);
+    params.set('watch', share.instanceId);
+    return this.buildConnectionUrl(serverUrl, params, options.relay);
+  }
+  
+  /**
+   * Parameters of the connection link this page was opened from; relay links
+   * carry them in the fragment
+   */
+  static readLinkParams(): URLSearchParams {
+    const fragmentParams = new URLSearchParams(window.location.hash.slice(1));
+    return fragmentParams.has('deviceId') ? fragmentParams : new URLSearchParams(window.location.search);
+  }
+  
+  private static buildConnectionUrl(serverUrl: string, params: URLSearchParams, relay?: boolean): string {
+    const url = new URL(serverUrl);
+    if (relay) {
+      // Browsers never send the fragment, so the relay doesn't see the credentials
+      params.set('relay', '1');
+      url.hash = params.toString();
+    } else {
+      params.forEach((value, key) => url.searchParams.set(key, value));
+    }
+    return url.toString();
+  }
+  
   /**
    * Get a unique device identifier
    */
@@ -116,13 +164,74 @@ export class DeviceAuthService {
    */
   private static generatePairingCode(): string {
     const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'; // Avoid confusing characters
+    // The desktop checks the code on connect, so it must not be predictable
+    const bytes = new Uint8Array(this.PAIRING_CODE_LENGTH);
+    if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+      crypto.getRandomValues(bytes);
+    } else {
+      for (let i = 0; i < bytes.length; i++) {
+        bytes[i] = Math.floor(Math.random() * 256);
+      }
+    }
     let code = '';
     for (let i = 0; i < this.PAIRING_CODE_LENGTH; i++) {
-      code += chars.charAt(Math.floor(Math.random() * chars.length));
+      // 256 is a multiple of 32, so every character is equally likely
+      code += chars.charAt(bytes[i] % chars.length);
     }
     return code;
   }
   
+  /**
+   * Device token saved for the desktop at the current address, if still valid
+   */
+  static loadTrustedCredentials(): TrustedDeviceCredentials | null {
+    if (typeof window === 'undefined' || !window.localStorage) return null;
+    
+    try {
+      const stored = localStorage.getItem(`${this.TRUSTED_CREDENTIALS_KEY}:${window.location.host}`);
+      const credentials = stored ? JSON.parse(stored) as TrustedDeviceCredentials : null;
+      if (credentials && new Date(credentials.expiresAt) > new Date()) {
+        return credentials;
+      }
+    } catch {
+      // Corrupt entry, fall through to clearing it
+    }
+    this.clearTrustedCredentials();
+    return null;
+  }
+  
+  static saveTrustedCredentials(credentials: TrustedDeviceCredentials): void {
+    if (typeof window === 'undefined' || !window.localStorage) return;
+    localStorage.setItem(`${this.TRUSTED_CREDENTIALS_KEY}:${window.location.host}`, JSON.stringify(credentials));
+  }
+  
+  static clearTrustedCredentials(): void {
+    if (typeof window === 'undefined' || !window.localStorage) return;
+    localStorage.removeItem(`${this.TRUSTED_CREDENTIALS_KEY}:${window.location.host}`);
+  }
+  
+  /**
+   * Short description of this browser, shown in the desktop's trusted devices
+   */
+  static describeClient(): string {
+    if (typeof navigator === 'undefined') return 'Remote Device';
+    
+    const ua = navigator.userAgent;
+    const device = /iPad/.test(ua) ? 'iPad'
+      : /iPhone/.test(ua) ? 'iPhone'
+      : /Android/.test(ua) ? 'Android'
+      : /Macintosh/.test(ua) ? 'Mac'
+      : /Windows/.test(ua) ? 'Windows'
+      : /Linux/.test(ua) ? 'Linux'
+      : 'Device';
+    const browser = /Edg\//.test(ua) ? 'Edge'
+      : /Firefox\//.test(ua) ? 'Firefox'
+      : /Chrome\//.test(ua) ? 'Chrome'
+      : /Safari\//.test(ua) ? 'Safari'
+      : 'Browser';
+    return `${device} ${browser}`;
+  }
+  
   /**
    * Validate a device token
    */
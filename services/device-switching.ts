@@ -4,6 +4,18 @@
  */
 import type { IServiceProvider } from './interfaces/IServiceProvider';
 import type { SessionState } from './interfaces/IPerformanceCache';
+import type { SyncableState } from './sync/sync-engine';
+
+export const HANDOFF_ENTITY_TYPE = 'device.checkpoint';
+
+// Checkpoints older than this aren't restored, so a device that catches up
+// on sync later isn't thrown back to a stale state
+const HANDOFF_MAX_AGE = 5 * 60 * 1000;
+
+export interface CursorPosition {
+  line: number;
+  column: number;
+}
 
 export interface DeviceCheckpoint {
   id: string;
@@ -14,9 +26,11 @@ export interface DeviceCheckpoint {
   // Additional checkpoint data
   openFiles: string[];
   activeFile: string | null;
-  cursorPositions: Map<string, { line: number; column: number }>;
+  // A plain object rather than a Map, so it survives the trip as JSON
+  cursorPositions: Record<string, CursorPosition>;
   terminalStates: TerminalState[];
   claudeInstances: ClaudeInstanceState[];
+  activeClaudeInstance: string | null;
   gitBranch: string | null;
   uncommittedChanges: boolean;
 }
@@ -26,9 +40,9 @@ export interface TerminalState {
   title: string;
   cwd: string;
   buffer?: string;
-  cursorPosition: { row: number; col: number };
-  environment: Record<string, string>;
-  size: { rows: number; cols: number };
+  cursorPosition?: { row: number; col: number };
+  environment?: Record<string, string>;
+  size?: { rows: number; cols: number };
 }
 
 export interface ClaudeInstanceState {
@@ -39,8 +53,30 @@ export interface ClaudeInstanceState {
   conversationHistory?: any[]; // Simplified for now
 }
 
+/**
+ * Editor and Claude state a checkpoint captures and restores, supplied by
+ * the app so this service doesn't depend on the stores
+ */
+export interface CheckpointWorkspace {
+  getOpenFiles(): string[];
+  getActiveFile(): string | null;
+  getCursorPositions(): Record<string, CursorPosition>;
+  getClaudeInstances(): ClaudeInstanceState[];
+  getActiveClaudeInstance(): string | null;
+  openFile(path: string): Promise<void>;
+  setActiveFile(path: string): void;
+  restoreCursorPositions(positions: Record<string, CursorPosition>): void;
+  setActiveClaudeInstance(instanceId: string): void;
+  restoreScrollback(instanceId: string, buffer: string): void;
+}
+
 export class DeviceSwitchingService {
-  constructor(private serviceProvider: IServiceProvider) {}
+  private restoredCheckpoints = new Set<string>();
+  
+  constructor(
+    private serviceProvider: IServiceProvider,
+    private workspace: CheckpointWorkspace
+  ) {}
   
   /**
    * Create a checkpoint of current state
@@ -52,6 +88,7 @@ export class DeviceSwitchingService {
     const cursorPositions = await this.getCursorPositions();
     const terminalStates = await this.getTerminalStates();
     const claudeInstances = await this.getClaudeInstances();
+    const activeClaudeInstance = this.workspace.getActiveClaudeInstance();
     const gitInfo = await this.getGitInfo();
     
     const checkpoint: DeviceCheckpoint = {
@@ -65,6 +102,7 @@ export class DeviceSwitchingService {
       cursorPositions,
       terminalStates,
       claudeInstances,
+      activeClaudeInstance,
       gitBranch: gitInfo.branch,
       uncommittedChanges: gitInfo.hasChanges
     };
@@ -88,28 +126,30 @@ export class DeviceSwitchingService {
     
     // Restore open files
     for (const file of checkpoint.openFiles) {
-      // This would trigger file opening in the UI
-      await this.openFile(file);
+      try {
+        await this.workspace.openFile(file);
+      } catch (error) {
+        console.warn(`Could not reopen ${file}:`, error);
+      }
     }
     
     // Restore active file
     if (checkpoint.activeFile) {
-      await this.setActiveFile(checkpoint.activeFile);
+      this.workspace.setActiveFile(checkpoint.activeFile);
     }
     
     // Restore cursor positions
-    for (const [file, position] of checkpoint.cursorPositions) {
-      await this.setCursorPosition(file, position);
-    }
+    this.workspace.restoreCursorPositions(checkpoint.cursorPositions || {});
     
     // Restore terminals
     for (const terminalState of checkpoint.terminalStates) {
       await this.restoreTerminal(terminalState);
     }
     
-    // Restore Claude instances
-    for (const claudeState of checkpoint.claudeInstances) {
-      await this.restoreClaude(claudeState);
+    // Claude instances run on the desktop for every device, so restoring
+    // one means picking up the same instance rather than starting another
+    if (checkpoint.activeClaudeInstance) {
+      this.workspace.setActiveClaudeInstance(checkpoint.activeClaudeInstance);
     }
     
     // Notify about git state
@@ -118,6 +158,71 @@ export class DeviceSwitchingService {
     }
   }
   
+  /**
+   * Continue this session on another device by sending it a checkpoint.
+   * The desktop hands off to a connected remote session; remote clients
+   * hand off to the desktop through the sync service.
+   */
+  async handOff(targetSessionId?: string): Promise<DeviceCheckpoint> {
+    const checkpoint = await this.createCheckpoint();
+    
+    const remote = window.electronAPI?.remote;
+    if (remote?.handOff) {
+      if (!targetSessionId) {
+        throw new Error('No device selected to continue on');
+      }
+      const delivered = await remote.handOff(targetSessionId, checkpoint);
+      if (!delivered) {
+        throw new Error('Device is no longer connected');
+      }
+      return checkpoint;
+    }
+    
+    const syncService = this.getSyncService();
+    if (!syncService) {
+      throw new Error('Not connected to a desktop');
+    }
+    await syncService.publishState({
+      id: checkpoint.id,
+      type: HANDOFF_ENTITY_TYPE,
+      version: 1,
+      lastModified: checkpoint.timestamp,
+      data: checkpoint
+    });
+    return checkpoint;
+  }
+  
+  /**
+   * Restore checkpoints other devices hand to this one
+   * Returns a function that stops listening.
+   */
+  listenForHandoffs(onRestored: (checkpoint: DeviceCheckpoint) => void): () => void {
+    const receive = (checkpoint: DeviceCheckpoint) => {
+      if (!this.shouldRestore(checkpoint)) return;
+      this.restoredCheckpoints.add(checkpoint.id);
+      
+      this.restoreCheckpoint(checkpoint)
+        .then(() => onRestored(checkpoint))
+        .catch(error => console.error('Failed to restore handoff checkpoint:', error));
+    };
+    
+    const remote = window.electronAPI?.remote;
+    if (remote?.onHandoff) {
+      return remote.onHandoff(receive);
+    }
+    
+    const syncService = this.getSyncService();
+    if (!syncService) return () => {};
+    
+    const handler = (state: SyncableState) => {
+      if (state.type === HANDOFF_ENTITY_TYPE) {
+        receive(state.data);
+      }
+    };
+    syncService.on('state:received', handler);
+    return () => syncService.off('state:received', handler);
+  }
+  
   /**
    * Get checkpoint for a specific device
    */
@@ -164,38 +269,29 @@ export class DeviceSwitchingService {
   }
   
   private async getOpenFiles(): Promise<string[]> {
-    // This would integrate with the file editor state
-    return JSON.parse(localStorage.getItem('openFiles') || '[]');
+    return this.workspace.getOpenFiles();
   }
   
   private async getActiveFile(): Promise<string | null> {
-    // This would integrate with the active editor
-    return localStorage.getItem('activeFile') || null;
+    return this.workspace.getActiveFile();
   }
   
-  private async getCursorPositions(): Promise<Map<string, { line: number; column: number }>> {
-    // This would integrate with editor cursor positions
-    const positions = new Map();
-    // Simplified for now
-    return positions;
+  private async getCursorPositions(): Promise<Record<string, CursorPosition>> {
+    return this.workspace.getCursorPositions();
   }
   
   private async getTerminalStates(): Promise<TerminalState[]> {
-    // Get all active terminals
-    if (!this.serviceProvider.terminal) return [];
-    
-    // This would need integration with terminal service
-    // For now, return empty array
-    return [];
+    // The Claude terminals; their scrollback is fetched by the receiving
+    // device, which gets it fresher than a copy taken now
+    return this.workspace.getClaudeInstances().map(instance => ({
+      id: instance.id,
+      title: instance.name,
+      cwd: instance.workingDirectory
+    }));
   }
   
   private async getClaudeInstances(): Promise<ClaudeInstanceState[]> {
-    // Get all active Claude instances
-    if (!this.serviceProvider.claude) return [];
-    
-    // This would need integration with Claude service
-    // For now, return empty array
-    return [];
+    return this.workspace.getClaudeInstances();
   }
   
   private async getGitInfo(): Promise<{ branch: string | null; hasChanges: boolean }> {
@@ -213,6 +309,17 @@ export class DeviceSwitchingService {
     }
   }
   
+  private getSyncService(): { publishState(state: SyncableState): Promise<void>; on(event: string, handler: Function): void; off(event: string, handler: Function): void } | null {
+    const provider = this.serviceProvider as any;
+    return 'getSyncService' in provider ? provider.getSyncService() : null;
+  }
+  
+  private shouldRestore(checkpoint: DeviceCheckpoint): boolean {
+    if (!checkpoint?.id || this.restoredCheckpoints.has(checkpoint.id)) return false;
+    if (checkpoint.deviceId === this.getDeviceId()) return false;
+    return Date.now() - new Date(checkpoint.timestamp).getTime() < HANDOFF_MAX_AGE;
+  }
+  
   private getDeviceId(): string {
     let deviceId = localStorage.getItem('clode-device-id');
     if (!deviceId) {
@@ -242,57 +349,16 @@ export class DeviceSwitchingService {
     return 'default-user';
   }
   
-  private async openFile(filePath: string): Promise<void> {
-    // This would trigger file opening in the UI
-    // Emit event or call appropriate composable
-    window.dispatchEvent(new CustomEvent('open-file', { detail: { path: filePath } }));
-  }
-  
-  private async setActiveFile(filePath: string): Promise<void> {
-    // This would set the active file in the editor
-    window.dispatchEvent(new CustomEvent('set-active-file', { detail: { path: filePath } }));
-  }
-  
-  private async setCursorPosition(
-    filePath: string, 
-    position: { line: number; column: number }
-  ): Promise<void> {
-    // This would set cursor position in the editor
-    window.dispatchEvent(new CustomEvent('set-cursor-position', { 
-      detail: { path: filePath, position } 
-    }));
-  }
-  
   private async restoreTerminal(state: TerminalState): Promise<void> {
-    // Create terminal with saved state
-    const terminal = await this.serviceProvider.terminal.createTerminal({
-      cwd: state.cwd,
-      env: state.environment
-    });
-    
-    // Restore buffer if available
-    if (state.buffer && terminal.terminalId) {
-      // This would need special handling to restore buffer
-     
-    }
-  }
-  
-  private async restoreClaude(state: ClaudeInstanceState): Promise<void> {
-    // Spawn Claude instance with saved state
-    await this.serviceProvider.claude.spawnClaude(
-      state.id,
-      state.workingDirectory,
-      {
-        instanceName: state.name,
-        config: {
-          personalityId: state.personality
-        }
-      }
-    );
+    // Remote devices pull the current scrollback (claude:getBuffer); the
+    // desktop's terminals never stopped, so there is nothing to fetch
+    const claude = this.serviceProvider.claude as { getClaudeBuffer?: (instanceId: string) => Promise<string | null> };
+    const buffer = claude.getClaudeBuffer
+      ? await claude.getClaudeBuffer(state.id)
+      : state.buffer;
     
-    // Restore conversation history if available
-    if (state.conversationHistory) {
-     
+    if (buffer) {
+      this.workspace.restoreScrollback(state.id, buffer);
     }
   }
 }
\ No newline at end of file
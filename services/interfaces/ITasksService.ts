@@ -8,6 +8,9 @@ export interface SimpleTask {
   assignee?: 'claude' | 'user' | 'both';
   description?: string;
   resources?: any[];
+  blockedBy?: string[];
+  blocks?: string[];
+  parentId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
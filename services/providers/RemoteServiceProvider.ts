@@ -27,6 +27,7 @@ import { RemoteStorageService } from './remote/RemoteStorageService.js';
 import { RemoteTasksService } from './remote/RemoteTasksService.js';
 import { RemoteMemoryCache } from './remote/RemoteMemoryCache.js';
 import { RemoteDesktopFeaturesService } from './remote/RemoteDesktopFeaturesService.js';
+import { RemoteQueueManager } from './remote/RemoteQueueManager.js';
 import { connectionManager, ConnectionState } from '../connection-manager.js';
 import { SyncService } from '../sync/sync-service.js';
 
@@ -64,6 +65,7 @@ export class RemoteServiceProvider implements IServiceProvider {
   private config: RemoteServiceConfig;
   private sessionId: string | null = null;
   private syncService: SyncService;
+  private queueManager: RemoteQueueManager;
   private desktopFeaturesService: RemoteDesktopFeaturesService;
   
   constructor(config: RemoteServiceConfig) {
@@ -85,6 +87,9 @@ export class RemoteServiceProvider implements IServiceProvider {
     // Initialize sync service
     this.syncService = new SyncService(() => this.socket, config.syncOptions);
     
+    // Initialize offline queue for edits made while disconnected
+    this.queueManager = new RemoteQueueManager(() => this.socket, connectionManager);
+    
     // Initialize desktop features service
     this.desktopFeaturesService = new RemoteDesktopFeaturesService(() => this.socket);
     
@@ -305,6 +310,13 @@ export class RemoteServiceProvider implements IServiceProvider {
     return this.syncService;
   }
   
+  /**
+   * Get offline queue for direct access
+   */
+  getQueueManager(): RemoteQueueManager {
+    return this.queueManager;
+  }
+  
   /**
    * Set up connection state listeners
    */
@@ -340,7 +352,18 @@ export class RemoteServiceProvider implements IServiceProvider {
     // Handle session ready
     this.socket.on('connection:ready', (data) => {
       this.sessionId = data.sessionId;
-     
+      
+      // Replay edits queued while offline
+      this.queueManager.flush().catch(error => {
+        console.error('Failed to replay offline queue:', error);
+      });
+    });
+    
+    // Patches the desktop pushes, such as handoff checkpoints
+    this.socket.on('sync:patches', (data) => {
+      this.syncService.applyPushedPatches(data.patches || []).catch(error => {
+        console.error('Failed to apply pushed patches:', error);
+      });
     });
     
     // Track data transfer
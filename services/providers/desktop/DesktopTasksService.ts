@@ -1,4 +1,5 @@
 import type { ITasksService, SimpleTask, TasksData } from '../../interfaces/ITasksService';
+import { formatTaskRelations } from '../../../electron/task-relations';
 
 export class DesktopTasksService implements ITasksService {
   async loadTasks(projectPath: string): Promise<SimpleTask[]> {
@@ -65,6 +66,10 @@ export class DesktopTasksService implements ITasksService {
       taskLine += `  - ${strikethrough}Priority: ${task.priority}${strikethrough}\n`;
       if (task.description) taskLine += `  - ${strikethrough}Description: ${task.description}${strikethrough}\n`;
       
+      for (const relation of formatTaskRelations(task, tasks)) {
+        taskLine += `  - ${strikethrough}${relation}${strikethrough}\n`;
+      }
+      
       if (task.resources && task.resources.length > 0) {
         const resourcesList = task.resources.map(r => {
           if (typeof r === 'string') return r;
@@ -4,7 +4,7 @@
  */
 import type { Socket } from 'socket.io-client';
 import type { IFileService } from '../../interfaces/IFileService.js';
-import type { RemoteRequest, RemoteResponse } from '../../../electron/services/remote-protocol.js';
+import type { FileProtocol, RemoteRequest, RemoteResponse } from '../../../electron/services/remote-protocol.js';
 
 export class RemoteFileService implements IFileService {
   constructor(private getSocket: () => Socket | null) {}
@@ -49,7 +49,14 @@ export class RemoteFileService implements IFileService {
   async readFile(path: string): Promise<string> {
     return this.request('file:read', { path });
   }
-  
+
+  /**
+   * Read a file along with the desktop's hash of it, as the base for offline edits
+   */
+  async readFileWithHash(path: string): Promise<FileProtocol.ReadResponse> {
+    return this.request('file:read', { path, withHash: true });
+  }
+
   async writeFile(path: string, content: string): Promise<void> {
     await this.request('file:write', { path, content });
   }
@@ -1,28 +1,94 @@
 /**
  * Remote Queue Manager
- * Manages offline queue for remote operations
+ * Manages offline queue for remote operations. File writes carry the hash of
+ * the desktop version they were made against: if the desktop copy changed in
+ * the meantime they are rebased with a three-way merge, and edits that can't
+ * be merged become sync conflicts instead of overwriting the desktop.
  */
+import { EventEmitter } from 'events';
 import type { Socket } from 'socket.io-client';
-import type { IQueueManager, QueuedOperation, QueuePriority } from '../../interfaces/IQueueManager.js';
-import { ConnectionManager, ConnectionState } from '../../connection-manager.js';
+import type { FileProtocol, RemoteResponse } from '../../../electron/services/remote-protocol.js';
+import { ConnectionManager } from '../../connection-manager.js';
+import { syncEngine } from '../../sync/sync-engine.js';
+import type { SyncConflict } from '../../sync/sync-engine.js';
+import { mergeText } from '../../sync/text-merge.js';
 
-export class RemoteQueueManager implements IQueueManager {
-  private queue: QueuedOperation[] = [];
+export type RemoteOperationType = 'file:write' | 'claude:send';
+
+export interface RemoteQueuedOperation {
+  id: string;
+  type: RemoteOperationType;
+  data: any;
+  priority: number;
+  timestamp?: number;
+  retryCount?: number;
+  maxRetries?: number;
+}
+
+export interface FileWriteData {
+  path: string;
+  content: string;
+  // The desktop version the edit started from
+  baseContent: string;
+  baseHash?: string;
+  // Content was rebased onto a newer desktop version
+  merged?: boolean;
+}
+
+export interface FileSyncedEvent {
+  path: string;
+  content: string;
+  hash: string | null;
+  merged: boolean;
+}
+
+const STORAGE_KEY = 'clode-remote-queue';
+// A file that keeps changing while we merge is left for the next attempt
+const MAX_REBASES = 3;
+
+export class RemoteQueueManager extends EventEmitter {
+  private queue: RemoteQueuedOperation[] = [];
   private processing: boolean = false;
-  
+
   constructor(
     private getSocket: () => Socket | null,
     private connectionManager: ConnectionManager
   ) {
+    super();
+    this.restore();
+
     // Process queue when connection is restored
     this.connectionManager.on('state:connected', () => {
       this.processQueue();
     });
+
+    // Write back the outcome of conflicts the user resolved
+    syncEngine.on('conflict:resolved', (conflict: SyncConflict) => {
+      this.handleResolvedConflict(conflict);
+    });
+  }
+
+  isOnline(): boolean {
+    return !!this.getSocket()?.connected;
   }
-  
-  async enqueue(operation: QueuedOperation): Promise<void> {
+
+  async enqueue(operation: RemoteQueuedOperation): Promise<void> {
+    // A newer save of a file replaces the queued one but keeps its base,
+    // so the merge still sees everything changed since going offline
+    if (operation.type === 'file:write') {
+      const queued = this.queue.find(op => op.type === 'file:write' && op.data.path === operation.data.path);
+      if (queued) {
+        queued.data = { ...queued.data, content: operation.data.content };
+        this.persist();
+        if (this.isOnline()) {
+          this.processQueue();
+        }
+        return;
+      }
+    }
+
     // If connected and high priority, try to execute immediately
-    if (this.connectionManager.isConnected() && operation.priority >= 2) {
+    if (this.isOnline() && operation.priority >= 2) {
       try {
         await this.executeOperation(operation);
         return;
@@ -30,88 +96,99 @@ export class RemoteQueueManager implements IQueueManager {
         console.warn('Failed to execute operation immediately, queuing:', error);
       }
     }
-    
+
     // Add to queue
     this.queue.push({
       ...operation,
       timestamp: Date.now()
     });
-    
+
     // Sort by priority and timestamp
     this.queue.sort((a, b) => {
       if (a.priority !== b.priority) {
         return b.priority - a.priority; // Higher priority first
       }
-      return a.timestamp - b.timestamp; // Older first
+      return (a.timestamp || 0) - (b.timestamp || 0); // Older first
     });
-    
+    this.persist();
+
     // Try to process if connected
-    if (this.connectionManager.isConnected()) {
+    if (this.isOnline()) {
       this.processQueue();
     }
   }
-  
+
   async flush(): Promise<void> {
-    if (!this.connectionManager.isConnected()) {
+    if (!this.isOnline()) {
       throw new Error('Cannot flush queue while offline');
     }
-    
+
     await this.processQueue();
   }
-  
+
   async clear(): Promise<void> {
     this.queue = [];
+    this.persist();
   }
-  
-  getQueuedOperations(): QueuedOperation[] {
+
+  getQueuedOperations(): RemoteQueuedOperation[] {
     return [...this.queue];
   }
-  
+
   getQueueSize(): number {
     return this.queue.length;
   }
-  
+
+  /**
+   * Queued save of a file, if it hasn't reached the desktop yet
+   */
+  getPendingWrite(path: string): FileWriteData | null {
+    const operation = this.queue.find(op => op.type === 'file:write' && op.data.path === path);
+    return operation ? operation.data : null;
+  }
+
   async retryOperation(operationId: string): Promise<void> {
     const operation = this.queue.find(op => op.id === operationId);
     if (!operation) {
       throw new Error(`Operation ${operationId} not found in queue`);
     }
-    
-    if (!this.connectionManager.isConnected()) {
+
+    if (!this.isOnline()) {
       throw new Error('Cannot retry while offline');
     }
-    
+
     await this.executeOperation(operation);
-    
+
     // Remove from queue on success
     this.queue = this.queue.filter(op => op.id !== operationId);
+    this.persist();
   }
-  
+
   /**
    * Process queued operations
    */
   private async processQueue(): Promise<void> {
-    if (this.processing || !this.connectionManager.isConnected() || this.queue.length === 0) {
+    if (this.processing || !this.isOnline() || this.queue.length === 0) {
       return;
     }
-    
+
     this.processing = true;
-    
+
     try {
       // Process operations in order
-      while (this.queue.length > 0 && this.connectionManager.isConnected()) {
+      while (this.queue.length > 0 && this.isOnline()) {
         const operation = this.queue[0];
-        
+
         try {
           await this.executeOperation(operation);
           // Remove successful operation
           this.queue.shift();
         } catch (error) {
           console.error(`Failed to execute queued operation ${operation.id}:`, error);
-          
+
           // Increment retry count
           operation.retryCount = (operation.retryCount || 0) + 1;
-          
+
           // Remove if max retries exceeded
           if (operation.retryCount >= (operation.maxRetries || 3)) {
             console.error(`Operation ${operation.id} exceeded max retries, removing from queue`);
@@ -121,25 +198,27 @@ export class RemoteQueueManager implements IQueueManager {
             this.queue.shift();
             this.queue.push(operation);
           }
-          
+
           // Stop processing on error to avoid cascading failures
           break;
+        } finally {
+          this.persist();
         }
       }
     } finally {
       this.processing = false;
     }
   }
-  
+
   /**
    * Execute a single operation
    */
-  private async executeOperation(operation: QueuedOperation): Promise<void> {
+  private async executeOperation(operation: RemoteQueuedOperation): Promise<void> {
     const socket = this.getSocket();
     if (!socket?.connected) {
       throw new Error('Socket not connected');
     }
-    
+
     // Execute based on operation type
     switch (operation.type) {
       case 'file:write':
@@ -153,29 +232,78 @@ export class RemoteQueueManager implements IQueueManager {
         throw new Error(`Unknown operation type: ${operation.type}`);
     }
   }
-  
+
   /**
-   * Execute file write operation
+   * Execute file write operation, rebasing it when the desktop copy changed
    */
-  private executeFileWrite(socket: Socket, operation: QueuedOperation): Promise<void> {
-    return new Promise((resolve, reject) => {
-      socket.emit('file:write', {
-        id: operation.id,
-        payload: operation.data
-      }, (response: any) => {
-        if (response.success) {
-          resolve();
-        } else {
-          reject(new Error(response.error?.message || 'File write failed'));
-        }
+  private async executeFileWrite(socket: Socket, operation: RemoteQueuedOperation): Promise<void> {
+    for (let attempt = 0; attempt <= MAX_REBASES; attempt++) {
+      const data = operation.data as FileWriteData;
+      const response = await this.writeFile(socket, operation.id, data);
+
+      if (response.success) {
+        const synced: FileSyncedEvent = {
+          path: data.path,
+          content: data.content,
+          hash: response.data?.hash || null,
+          merged: !!data.merged
+        };
+        this.emit('file:synced', synced);
+        return;
+      }
+
+      if (response.error?.code !== 'FILE_CONFLICT') {
+        throw new Error(response.error?.message || 'File write failed');
+      }
+
+      const desktop = response.error.details as FileProtocol.ConflictDetails;
+      const result = mergeText(data.baseContent, data.content, desktop.content);
+      if (result.merged === null) {
+        // Parked until the user picks a side; the operation itself is done
+        syncEngine.reportTextConflict({
+          path: data.path,
+          base: data.baseContent,
+          local: data.content,
+          remote: desktop.content,
+          remoteHash: desktop.hash,
+          hunks: result.hunks
+        });
+        return;
+      }
+
+      operation.data = {
+        path: data.path,
+        content: result.merged,
+        baseContent: desktop.content,
+        baseHash: desktop.hash ?? undefined,
+        merged: true
+      } satisfies FileWriteData;
+    }
+
+    throw new Error('File kept changing on the desktop while merging');
+  }
+
+  private writeFile(
+    socket: Socket,
+    id: string,
+    data: FileWriteData
+  ): Promise<RemoteResponse<FileProtocol.WriteResponse>> {
+    return new Promise((resolve) => {
+      const payload: FileProtocol.WriteRequest = {
+        path: data.path,
+        content: data.content,
+        baseHash: data.baseHash
+      };
+      socket.emit('file:write', { id, payload }, (response: RemoteResponse<FileProtocol.WriteResponse>) => {
+        resolve(response);
       });
     });
   }
-  
+
   /**
    * Execute Claude send operation
    */
-  private executeClaudeSend(socket: Socket, operation: QueuedOperation): Promise<void> {
+  private executeClaudeSend(socket: Socket, operation: RemoteQueuedOperation): Promise<void> {
     return new Promise((resolve, reject) => {
       socket.emit('claude:send', {
         id: operation.id,
@@ -189,4 +317,50 @@ export class RemoteQueueManager implements IQueueManager {
       });
     });
   }
-}
\ No newline at end of file
+
+  private handleResolvedConflict(conflict: SyncConflict): void {
+    const text = conflict.text;
+    if (!text || conflict.resolvedContent === undefined) return;
+
+    if (conflict.resolution === 'remote') {
+      // Nothing to write; the client just takes the desktop version
+      this.emit('file:synced', { path: text.path, content: text.remote, hash: text.remoteHash, merged: false });
+      return;
+    }
+
+    this.enqueue({
+      id: `resolve-${Date.now()}`,
+      type: 'file:write',
+      priority: 2,
+      data: {
+        path: text.path,
+        content: conflict.resolvedContent,
+        baseContent: text.remote,
+        baseHash: text.remoteHash ?? undefined,
+        merged: conflict.resolution === 'merge'
+      } satisfies FileWriteData
+    }).catch(error => {
+      console.error('Failed to write resolved conflict:', error);
+    });
+  }
+
+  // Offline edits survive a reload of the page
+  private persist(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.queue));
+    } catch (error) {
+      console.warn('Failed to persist remote queue:', error);
+    }
+  }
+
+  private restore(): void {
+    if (typeof localStorage === 'undefined') return;
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      this.queue = stored ? JSON.parse(stored) : [];
+    } catch {
+      this.queue = [];
+    }
+  }
+}
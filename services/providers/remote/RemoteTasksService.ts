@@ -1,5 +1,6 @@
 import type { ITasksService, SimpleTask, TasksData } from '../../interfaces/ITasksService';
 import type { IFileService } from '../../interfaces/IFileService';
+import { formatTaskRelations } from '../../../electron/task-relations';
 
 export class RemoteTasksService implements ITasksService {
   constructor(private fileService: IFileService) {}
@@ -67,6 +68,10 @@ export class RemoteTasksService implements ITasksService {
       taskLine += `  - ${strikethrough}Priority: ${task.priority}${strikethrough}\n`;
       if (task.description) taskLine += `  - ${strikethrough}Description: ${task.description}${strikethrough}\n`;
       
+      for (const relation of formatTaskRelations(task, tasks)) {
+        taskLine += `  - ${strikethrough}${relation}${strikethrough}\n`;
+      }
+      
       if (task.resources && task.resources.length > 0) {
         const resourcesList = task.resources.map(r => {
           if (typeof r === 'string') return r;
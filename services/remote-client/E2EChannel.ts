@@ -0,0 +1,333 @@
+/**
+ * End-to-end encrypted channel to the desktop through the relay server
+ * Browser half of electron/services/relay-e2e.ts: keys are agreed with an
+ * ephemeral ECDH (P-256) exchange authenticated by the device token, and
+ * every event after that travels as AES-GCM ciphertext in 'e2e:msg'.
+ *
+ * The channel hooks into an existing Socket.IO socket, so components keep
+ * using socket.emit/socket.on unchanged. Events sent before the channel is
+ * ready are queued, and plaintext events from the relay are ignored.
+ */
+import type { Socket } from 'socket.io-client';
+
+const E2E_PROTOCOL = 'clode-e2e-v2';
+const E2E_VERSION = 2;
+const KEY_INFO = `${E2E_PROTOCOL} keys`;
+const BINARY_MARKER = '__e2eBinary';
+
+// Sent by the relay itself rather than the desktop
+const RELAY_EVENTS = new Set(['connected', 'error']);
+
+type E2EPayload =
+  | { t: 'event'; e: string; a: any[] }
+  | { t: 'req'; id: number; e: string; a: any[] }
+  | { t: 'res'; id: number; r: any };
+
+interface E2EEnvelope {
+  n: number;
+  c: string;
+}
+
+interface ChannelKeys {
+  send: CryptoKey;
+  receive: CryptoKey;
+}
+
+export interface E2EChannelOptions {
+  sessionId: string;
+  token: string;
+  clientName?: string;
+  onReady?: () => void;
+  onError?: (message: string) => void;
+}
+
+export class E2EChannel {
+  private keys: ChannelKeys | null = null;
+  private sendCounter = 0;
+  private receiveCounter = 0;
+  // Keep WebCrypto work in order, since counters must match wire order
+  private sendChain: Promise<void> = Promise.resolve();
+  private receiveChain: Promise<void> = Promise.resolve();
+  private queue: E2EPayload[] = [];
+  private pendingAcks: Map<number, (...args: any[]) => void> = new Map();
+  private nextRequestId = 0;
+  private token: string;
+  private handshake: {
+    keyPair: CryptoKeyPair;
+    clientKey: string;
+    clientNonce: string;
+  } | null = null;
+  // Keys derived and proof sent, waiting for the desktop's proof
+  private pendingHandshake: { keys: ChannelKeys; confirm: CryptoKey; transcript: string } | null = null;
+  private rawEmit: (event: string, ...args: any[]) => Socket;
+  private dispatch: (args: any[]) => void;
+
+  private constructor(private readonly socket: Socket, private readonly options: E2EChannelOptions) {
+    const target = socket as any;
+    this.token = options.token;
+    this.rawEmit = socket.emit.bind(socket);
+    this.dispatch = target.emitEvent.bind(socket);
+
+    // Outgoing events are sealed (or queued until the channel is up)
+    target.emit = (event: string, ...args: any[]) => {
+      if (event.startsWith('e2e:')) return this.rawEmit(event, ...args);
+
+      const callback = typeof args[args.length - 1] === 'function' ? args.pop() : null;
+      if (callback) {
+        const id = ++this.nextRequestId;
+        this.pendingAcks.set(id, callback);
+        this.send({ t: 'req', id, e: event, a: args });
+      } else {
+        this.send({ t: 'event', e: event, a: args });
+      }
+      return socket;
+    };
+
+    // Incoming events: handshake and ciphertext are handled here, anything
+    // else from the desktop side is dropped
+    const onevent = target.onevent.bind(socket);
+    target.onevent = (packet: { data?: any[] }) => {
+      const [event, data] = packet.data || [];
+      if (event === 'e2e:challenge') {
+        this.completeHandshake(data).catch(error => this.fail(error));
+      } else if (event === 'e2e:ready') {
+        this.confirmReady(data).catch(error => this.fail(error));
+      } else if (event === 'e2e:error') {
+        this.fail(new Error(data?.message || 'Encrypted connection refused'));
+      } else if (event === 'e2e:msg') {
+        this.receive(data);
+      } else if (RELAY_EVENTS.has(event)) {
+        onevent(packet);
+      }
+    };
+
+    // Each connection to the relay needs a fresh key exchange
+    socket.on('connected', () => {
+      this.start().catch(error => this.fail(error));
+    });
+    socket.on('disconnect', () => {
+      this.reset();
+    });
+  }
+
+  /**
+   * Encrypt all traffic on a socket connected to a relay session
+   */
+  static attach(socket: Socket, options: E2EChannelOptions): E2EChannel {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      throw new Error('End-to-end encryption needs a secure (HTTPS) page');
+    }
+    return new E2EChannel(socket, options);
+  }
+
+  isReady(): boolean {
+    return this.keys !== null;
+  }
+
+  /**
+   * Authenticate the next key exchange with the token the desktop rotated to
+   */
+  setToken(token: string): void {
+    this.token = token;
+  }
+
+  private async start(): Promise<void> {
+    this.reset();
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+    const clientKey = toBase64(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+    const clientNonce = toBase64(crypto.getRandomValues(new Uint8Array(16)));
+    this.handshake = { keyPair, clientKey, clientNonce };
+    this.rawEmit('e2e:hello', {
+      version: E2E_VERSION,
+      clientKey,
+      clientNonce,
+      clientName: this.options.clientName
+    });
+  }
+
+  private transcript(serverKey: string, serverNonce: string): string {
+    const { clientKey, clientNonce } = this.handshake!;
+    return [E2E_PROTOCOL, this.options.sessionId, clientKey, clientNonce, serverKey, serverNonce].join('|');
+  }
+
+  private async completeHandshake(challenge: { serverKey: string; serverNonce: string }): Promise<void> {
+    if (!this.handshake) return;
+    const transcript = this.transcript(challenge.serverKey, challenge.serverNonce);
+
+    const serverKey = await crypto.subtle.importKey(
+      'raw', fromBase64(challenge.serverKey), { name: 'ECDH', namedCurve: 'P-256' }, false, []
+    );
+    const shared = await crypto.subtle.deriveBits(
+      { name: 'ECDH', public: serverKey }, this.handshake.keyPair.privateKey, 256
+    );
+
+    const tokenKey = await crypto.subtle.importKey(
+      'raw', encode(this.token), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']
+    );
+    const psk = await crypto.subtle.sign('HMAC', tokenKey, encode(transcript));
+    const ikm = await crypto.subtle.importKey('raw', shared, 'HKDF', false, ['deriveBits']);
+    const material = new Uint8Array(await crypto.subtle.deriveBits(
+      { name: 'HKDF', hash: 'SHA-256', salt: psk, info: encode(KEY_INFO) },
+      ikm,
+      768
+    ));
+
+    const aes = (bytes: Uint8Array<ArrayBuffer>) => crypto.subtle.importKey('raw', bytes, 'AES-GCM', false, ['encrypt', 'decrypt']);
+    const confirm = await crypto.subtle.importKey(
+      'raw', material.slice(64, 96), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']
+    );
+    const proof = await crypto.subtle.sign('HMAC', confirm, encode(`client|${transcript}`));
+
+    this.pendingHandshake = {
+      keys: { send: await aes(material.slice(0, 32)), receive: await aes(material.slice(32, 64)) },
+      confirm,
+      transcript
+    };
+    this.rawEmit('e2e:confirm', { proof: toBase64(proof) });
+  }
+
+  private async confirmReady(ready: { proof: string }): Promise<void> {
+    const pending = this.pendingHandshake;
+    if (!pending) return;
+
+    // The desktop proves it issued the same token
+    const valid = await crypto.subtle.verify(
+      'HMAC', pending.confirm, fromBase64(ready.proof), encode(`server|${pending.transcript}`)
+    );
+    if (!valid) {
+      throw new Error('Desktop could not prove it issued this device token');
+    }
+
+    this.pendingHandshake = null;
+    this.handshake = null;
+    this.keys = pending.keys;
+    const queued = this.queue;
+    this.queue = [];
+    queued.forEach(payload => this.send(payload));
+    this.options.onReady?.();
+  }
+
+  private send(payload: E2EPayload): void {
+    const keys = this.keys;
+    if (!keys) {
+      this.queue.push(payload);
+      return;
+    }
+
+    const n = this.sendCounter++;
+    this.sendChain = this.sendChain
+      .then(async () => {
+        const sealed = await crypto.subtle.encrypt(
+          { name: 'AES-GCM', iv: counterIv(n) }, keys.send, encode(encodePayload(payload))
+        );
+        // Skip messages sealed for a channel that has since been replaced
+        if (this.keys === keys) {
+          this.rawEmit('e2e:msg', { n, c: toBase64(sealed) } satisfies E2EEnvelope);
+        }
+      })
+      .catch(error => this.fail(error));
+  }
+
+  private receive(envelope: E2EEnvelope): void {
+    const keys = this.keys;
+    if (!keys) return;
+
+    this.receiveChain = this.receiveChain
+      .then(async () => {
+        if (this.keys !== keys) return;
+        if (envelope.n !== this.receiveCounter) {
+          throw new Error(`Expected message ${this.receiveCounter}, got ${envelope.n}`);
+        }
+        const plaintext = await crypto.subtle.decrypt(
+          { name: 'AES-GCM', iv: counterIv(envelope.n) }, keys.receive, fromBase64(envelope.c)
+        );
+        this.receiveCounter++;
+
+        const payload = decodePayload(new TextDecoder().decode(plaintext));
+        if (payload.t === 'res') {
+          const callback = this.pendingAcks.get(payload.id);
+          this.pendingAcks.delete(payload.id);
+          callback?.(payload.r);
+        } else if (payload.t === 'event') {
+          this.dispatch([payload.e, ...payload.a]);
+        }
+      })
+      .catch(error => this.fail(error));
+  }
+
+  private reset(): void {
+    this.keys = null;
+    this.handshake = null;
+    this.pendingHandshake = null;
+    this.sendCounter = 0;
+    this.receiveCounter = 0;
+    // Requests in flight on the old channel will never be answered; queued
+    // ones are still sent once the next channel is up
+    const queued = new Set(this.queue.map(payload => payload.t === 'req' ? payload.id : null));
+    for (const [id, callback] of this.pendingAcks) {
+      if (queued.has(id)) continue;
+      this.pendingAcks.delete(id);
+      callback({ success: false, error: { code: 'CONNECTION_LOST', message: 'Connection lost' } });
+    }
+  }
+
+  private fail(error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error('[E2EChannel]', message);
+    this.queue = [];
+    this.reset();
+    this.options.onError?.(message);
+  }
+}
+
+function encode(text: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(text);
+}
+
+function toBase64(data: ArrayBuffer | Uint8Array): string {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function counterIv(n: number): Uint8Array<ArrayBuffer> {
+  const iv = new Uint8Array(12);
+  const view = new DataView(iv.buffer);
+  view.setUint32(4, Math.floor(n / 0x100000000));
+  view.setUint32(8, n >>> 0);
+  return iv;
+}
+
+// Binary values travel as base64 and come back as ArrayBuffers, as Socket.IO delivers them
+function encodePayload(payload: E2EPayload): string {
+  return JSON.stringify(payload, function (this: any, key, value) {
+    const raw = this[key];
+    if (raw instanceof ArrayBuffer) return { [BINARY_MARKER]: toBase64(raw) };
+    if (ArrayBuffer.isView(raw)) {
+      return { [BINARY_MARKER]: toBase64(new Uint8Array(raw.buffer, raw.byteOffset, raw.byteLength)) };
+    }
+    return value;
+  });
+}
+
+function decodePayload(text: string): E2EPayload {
+  return JSON.parse(text, (key, value) => {
+    if (value && typeof value === 'object' && typeof value[BINARY_MARKER] === 'string') {
+      const bytes = fromBase64(value[BINARY_MARKER]);
+      return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+    }
+    return value;
+  });
+}
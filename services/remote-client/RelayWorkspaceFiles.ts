@@ -0,0 +1,61 @@
+/**
+ * Workspace file access for pages served through the relay
+ * The relay doesn't forward /api requests, so these go over the encrypted socket
+ * and take the same workspace-relative paths as the /api/files routes
+ */
+import { remoteConnection } from './RemoteConnectionSingleton';
+import { RemoteFileService } from '../providers/remote/RemoteFileService';
+
+export interface RelayFileEntry {
+  name: string;
+  path: string;
+  isDirectory: boolean;
+  size?: number;
+  modified?: string;
+}
+
+// Same ignore list as /api/files/list
+const HIDDEN_NAMES = new Set(['node_modules', 'dist', 'build', '.nuxt', '.output']);
+
+const fileService = new RemoteFileService(() => remoteConnection.getSocket());
+
+function getWorkspacePath(): string {
+  const workspacePath = (window as any).__remoteWorkspace?.path;
+  if (!workspacePath) {
+    throw new Error('No workspace open on the desktop');
+  }
+  return workspacePath.replace(/\/+$/, '');
+}
+
+function toAbsolute(relativePath: string): string {
+  const cleaned = relativePath.split('/').filter(Boolean).join('/');
+  return cleaned ? `${getWorkspacePath()}/${cleaned}` : getWorkspacePath();
+}
+
+export async function listRelayDirectory(relativePath: string): Promise<RelayFileEntry[]> {
+  const workspacePath = getWorkspacePath();
+  const entries = await fileService.listDirectory(toAbsolute(relativePath));
+
+  return entries
+    .filter(entry => !entry.name.startsWith('.') && !HIDDEN_NAMES.has(entry.name))
+    .map(entry => ({
+      name: entry.name,
+      path: String(entry.path).slice(workspacePath.length + 1),
+      isDirectory: entry.isDirectory,
+      size: entry.size,
+      modified: entry.modified ? new Date(entry.modified).toISOString() : undefined
+    }))
+    .sort((a, b) => {
+      if (a.isDirectory && !b.isDirectory) return -1;
+      if (!a.isDirectory && b.isDirectory) return 1;
+      return a.name.localeCompare(b.name);
+    });
+}
+
+export function readRelayFile(relativePath: string): Promise<string> {
+  return fileService.readFile(toAbsolute(relativePath));
+}
+
+export function writeRelayFile(relativePath: string, content: string): Promise<void> {
+  return fileService.writeFile(toAbsolute(relativePath), content);
+}
@@ -8,6 +8,7 @@ import type { Socket } from 'socket.io-client';
 class RemoteConnectionSingleton {
   private static instance: RemoteConnectionSingleton;
   private socketRef = ref<Socket | null>(null);
+  private relayed = false;
   
   private constructor() {}
   
@@ -34,6 +35,15 @@ class RemoteConnectionSingleton {
   isConnected(): boolean {
     return this.socketRef.value?.connected || false;
   }
+  
+  // Relayed pages can't use the /api routes, so file access goes over the socket
+  setRelayed(relayed: boolean) {
+    this.relayed = relayed;
+  }
+  
+  isRelayed(): boolean {
+    return this.relayed;
+  }
 }
 
 export const remoteConnection = RemoteConnectionSingleton.getInstance();
\ No newline at end of file
@@ -4,6 +4,7 @@
  */
 import { EventEmitter } from 'events';
 import * as jsonpatch from 'fast-json-patch';
+export const TEXT_CONFLICT_TYPE = 'file.content';
 export class SyncEngine extends EventEmitter {
     localState = new Map();
     pendingPatches = new Map();
@@ -52,6 +53,24 @@ export class SyncEngine extends EventEmitter {
         // Update local state
         this.localState.set(key, entity);
     }
+    /**
+     * Queue an entity to be sent whole rather than as a diff, for one-off
+     * states like handoff checkpoints that the other side has never seen
+     */
+    publishSnapshot(entity) {
+        const key = `${entity.type}:${entity.id}`;
+        this.addPendingPatch({
+            id: `patch-${Date.now()}-${Math.random()}`,
+            entityId: entity.id,
+            entityType: entity.type,
+            fromVersion: 0,
+            toVersion: entity.version,
+            operations: [{ op: 'replace', path: '', value: entity.data }],
+            timestamp: new Date(),
+            source: 'local'
+        });
+        this.localState.set(key, entity);
+    }
     /**
      * Get pending patches for sync
      */
@@ -96,6 +115,7 @@ export class SyncEngine extends EventEmitter {
                     const result = jsonpatch.applyPatch(newEntity.data, patch.operations);
                     newEntity.data = result.newDocument;
                     this.localState.set(key, newEntity);
+                    this.emit('state:received', newEntity);
                 }
                 catch (error) {
                     console.error('Failed to apply remote patch:', error);
@@ -128,6 +148,7 @@ export class SyncEngine extends EventEmitter {
                     localEntity.lastModified = patch.timestamp;
                     // Clear pending local patches as they're now obsolete
                     this.pendingPatches.delete(key);
+                    this.emit('state:received', localEntity);
                 }
                 catch (error) {
                     console.error('Failed to apply remote patch:', error);
@@ -136,14 +157,39 @@ export class SyncEngine extends EventEmitter {
         }
         return conflicts;
     }
+    /**
+     * Record a file edit that couldn't be merged automatically
+     */
+    reportTextConflict(text) {
+        const conflict = {
+            entityId: text.path,
+            entityType: TEXT_CONFLICT_TYPE,
+            // Files carry no versions; the hash in text.remoteHash plays that role
+            localVersion: 0,
+            remoteVersion: 0,
+            text
+        };
+        this.conflicts.set(`${TEXT_CONFLICT_TYPE}:${text.path}`, conflict);
+        this.emit('conflict:detected', conflict);
+        return conflict;
+    }
     /**
      * Resolve conflicts
      */
-    resolveConflict(entityId, entityType, resolution) {
+    resolveConflict(entityId, entityType, resolution, mergedContent) {
         const key = `${entityType}:${entityId}`;
         const conflict = this.conflicts.get(key);
         if (!conflict)
             return;
+        if (conflict.text) {
+            // The caller writes the outcome back, based on the desktop's current hash
+            if (resolution === 'merge' && mergedContent === undefined) {
+                throw new Error('Merged content is required to resolve a file conflict');
+            }
+            conflict.resolvedContent = resolution === 'local' ? conflict.text.local
+                : resolution === 'remote' ? conflict.text.remote
+                    : mergedContent;
+        }
         switch (resolution) {
             case 'local':
                 // Keep local version, will sync on next cycle
@@ -165,8 +211,10 @@ export class SyncEngine extends EventEmitter {
                 }
                 break;
             case 'merge':
-                // TODO: Implement three-way merge
-                console.warn('Merge resolution not yet implemented');
+                // TODO: Implement three-way merge for JSON state
+                if (!conflict.text) {
+                    console.warn('Merge resolution not yet implemented');
+                }
                 break;
         }
         conflict.resolution = resolution;
@@ -261,6 +309,7 @@ export class SyncEngine extends EventEmitter {
     setupDefaultPriorities() {
         // High priority - sync immediately
         this.registerEntityType('claude.conversation', 100, 'immediate');
+        this.registerEntityType('device.checkpoint', 98, 'immediate');
         this.registerEntityType('editor.activeFile', 95, 'immediate');
         // Medium priority - batch sync
         this.registerEntityType('tasks.update', 80, 'batch');
@@ -5,6 +5,7 @@
 import { EventEmitter } from 'events';
 import * as jsonpatch from 'fast-json-patch';
 import type { Operation } from 'fast-json-patch';
+import type { MergeHunk } from './text-merge.js';
 
 export interface SyncableState {
   id: string;
@@ -31,11 +32,29 @@ export interface SyncConflict {
   entityType: string;
   localVersion: number;
   remoteVersion: number;
-  localPatch: SyncPatch;
-  remotePatch: SyncPatch;
+  localPatch?: SyncPatch;
+  remotePatch?: SyncPatch;
+  // Set for file edits, which are compared by content hash rather than patches
+  text?: TextConflict;
   resolution?: 'local' | 'remote' | 'merge';
+  resolvedContent?: string;
 }
 
+/**
+ * File edited on a remote client while the desktop copy changed too, with
+ * the hunks the three-way merge couldn't reconcile
+ */
+export interface TextConflict {
+  path: string;
+  base: string;
+  local: string;
+  remote: string;
+  remoteHash: string | null;
+  hunks: MergeHunk[];
+}
+
+export const TEXT_CONFLICT_TYPE = 'file.content';
+
 export interface SyncPriority {
   type: string;
   priority: number;
@@ -109,6 +128,25 @@ export class SyncEngine extends EventEmitter {
     this.localState.set(key, entity);
   }
   
+  /**
+   * Queue an entity to be sent whole rather than as a diff, for one-off
+   * states like handoff checkpoints that the other side has never seen
+   */
+  publishSnapshot(entity: SyncableState): void {
+    const key = `${entity.type}:${entity.id}`;
+    this.addPendingPatch({
+      id: `patch-${Date.now()}-${Math.random()}`,
+      entityId: entity.id,
+      entityType: entity.type,
+      fromVersion: 0,
+      toVersion: entity.version,
+      operations: [{ op: 'replace', path: '', value: entity.data }],
+      timestamp: new Date(),
+      source: 'local'
+    });
+    this.localState.set(key, entity);
+  }
+  
   /**
    * Get pending patches for sync
    */
@@ -163,6 +201,7 @@ export class SyncEngine extends EventEmitter {
           const result = jsonpatch.applyPatch(newEntity.data, patch.operations);
           newEntity.data = result.newDocument;
           this.localState.set(key, newEntity);
+          this.emit('state:received', newEntity);
         } catch (error) {
           console.error('Failed to apply remote patch:', error);
         }
@@ -192,6 +231,7 @@ export class SyncEngine extends EventEmitter {
           
           // Clear pending local patches as they're now obsolete
           this.pendingPatches.delete(key);
+          this.emit('state:received', localEntity);
         } catch (error) {
           console.error('Failed to apply remote patch:', error);
         }
@@ -201,15 +241,47 @@ export class SyncEngine extends EventEmitter {
     return conflicts;
   }
   
+  /**
+   * Record a file edit that couldn't be merged automatically
+   */
+  reportTextConflict(text: TextConflict): SyncConflict {
+    const conflict: SyncConflict = {
+      entityId: text.path,
+      entityType: TEXT_CONFLICT_TYPE,
+      // Files carry no versions; the hash in text.remoteHash plays that role
+      localVersion: 0,
+      remoteVersion: 0,
+      text
+    };
+    this.conflicts.set(`${TEXT_CONFLICT_TYPE}:${text.path}`, conflict);
+    this.emit('conflict:detected', conflict);
+    return conflict;
+  }
+  
   /**
    * Resolve conflicts
    */
-  resolveConflict(entityId: string, entityType: string, resolution: 'local' | 'remote' | 'merge'): void {
+  resolveConflict(
+    entityId: string,
+    entityType: string,
+    resolution: 'local' | 'remote' | 'merge',
+    mergedContent?: string
+  ): void {
     const key = `${entityType}:${entityId}`;
     const conflict = this.conflicts.get(key);
     
     if (!conflict) return;
     
+    if (conflict.text) {
+      // The caller writes the outcome back, based on the desktop's current hash
+      if (resolution === 'merge' && mergedContent === undefined) {
+        throw new Error('Merged content is required to resolve a file conflict');
+      }
+      conflict.resolvedContent = resolution === 'local' ? conflict.text.local
+        : resolution === 'remote' ? conflict.text.remote
+        : mergedContent;
+    }
+    
     switch (resolution) {
       case 'local':
         // Keep local version, will sync on next cycle
@@ -232,8 +304,10 @@ export class SyncEngine extends EventEmitter {
         break;
         
       case 'merge':
-        // TODO: Implement three-way merge
-        console.warn('Merge resolution not yet implemented');
+        // TODO: Implement three-way merge for JSON state
+        if (!conflict.text) {
+          console.warn('Merge resolution not yet implemented');
+        }
         break;
     }
     
@@ -349,6 +423,7 @@ export class SyncEngine extends EventEmitter {
   private setupDefaultPriorities(): void {
     // High priority - sync immediately
     this.registerEntityType('claude.conversation', 100, 'immediate');
+    this.registerEntityType('device.checkpoint', 98, 'immediate');
     this.registerEntityType('editor.activeFile', 95, 'immediate');
     
     // Medium priority - batch sync
@@ -50,6 +50,24 @@ export class SyncService {
     syncEngine.trackState(state);
   }
   
+  /**
+   * Send an entity whole and sync right away
+   */
+  async publishState(state: SyncableState): Promise<void> {
+    syncEngine.publishSnapshot(state);
+    await this.sync();
+  }
+  
+  /**
+   * Apply patches the desktop pushed without waiting for a pull
+   */
+  async applyPushedPatches(patches: SyncPatch[]): Promise<void> {
+    const conflicts = syncEngine.applyRemotePatches(patches);
+    if (conflicts.length > 0) {
+      await this.handleConflicts(conflicts);
+    }
+  }
+  
   /**
    * Perform manual sync
    */
@@ -114,9 +132,10 @@ export class SyncService {
   resolveConflict(
     entityId: string,
     entityType: string,
-    resolution: 'local' | 'remote' | 'merge'
+    resolution: 'local' | 'remote' | 'merge',
+    mergedContent?: string
   ): void {
-    syncEngine.resolveConflict(entityId, entityType, resolution);
+    syncEngine.resolveConflict(entityId, entityType, resolution, mergedContent);
     
     // Remove from pending
     this.pendingConflicts = this.pendingConflicts.filter(
@@ -260,6 +279,22 @@ export class SyncService {
       }, 100);
     });
     
+    // File edits that failed to merge always wait for the user, whatever
+    // the resolution setting, since either side would lose work
+    syncEngine.on('conflict:detected', (conflict: SyncConflict) => {
+      if (!conflict.text) return;
+      this.pendingConflicts = this.pendingConflicts.filter(
+        c => c.entityId !== conflict.entityId || c.entityType !== conflict.entityType
+      );
+      this.pendingConflicts.push(conflict);
+      this.emit('conflicts:pending', [conflict]);
+    });
+    
+    // Entities created or updated by other devices
+    syncEngine.on('state:received', (state: SyncableState) => {
+      this.emit('state:received', state);
+    });
+    
     // Listen for connection state changes
     connectionManager.on('state:connected', () => {
       // Sync on reconnect
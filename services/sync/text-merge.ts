@@ -0,0 +1,198 @@
+/**
+ * Three-way Text Merge
+ * Line-based diff3 used to rebase edits made offline onto a file that
+ * changed on the desktop in the meantime
+ */
+
+export type MergeHunk =
+  | { type: 'stable'; lines: string[] }
+  | { type: 'conflict'; base: string[]; local: string[]; remote: string[] };
+
+export interface TextMergeResult {
+  hunks: MergeHunk[];
+  conflicts: number;
+  // Merged text, or null while conflicts remain
+  merged: string | null;
+}
+
+export type HunkChoice = 'local' | 'remote' | 'both';
+
+// Above this many line comparisons the merge gives up and reports the whole
+// changed region as one conflict
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Merge the local and remote edits of a common base
+ */
+export function mergeText(base: string, local: string, remote: string): TextMergeResult {
+  if (local === remote || remote === base) return cleanResult(local);
+  if (local === base) return cleanResult(remote);
+
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const remoteLines = splitLines(remote);
+  const toLocal = matchLines(baseLines, localLines);
+  const toRemote = matchLines(baseLines, remoteLines);
+
+  const hunks: MergeHunk[] = [];
+  const pushStable = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = hunks[hunks.length - 1];
+    if (last?.type === 'stable') {
+      last.lines.push(...lines);
+    } else {
+      hunks.push({ type: 'stable', lines: [...lines] });
+    }
+  };
+
+  let b = 0;
+  let l = 0;
+  let r = 0;
+  while (b < baseLines.length || l < localLines.length || r < remoteLines.length) {
+    // Lines unchanged on both sides
+    if (b < baseLines.length && toLocal[b] === l && toRemote[b] === r) {
+      pushStable([baseLines[b]]);
+      b++;
+      l++;
+      r++;
+      continue;
+    }
+
+    // The changed region runs up to the next base line both sides kept
+    let next = b;
+    while (next < baseLines.length && (toLocal[next] === -1 || toRemote[next] === -1)) next++;
+    const localEnd = next < baseLines.length ? toLocal[next] : localLines.length;
+    const remoteEnd = next < baseLines.length ? toRemote[next] : remoteLines.length;
+
+    const baseChunk = baseLines.slice(b, next);
+    const localChunk = localLines.slice(l, localEnd);
+    const remoteChunk = remoteLines.slice(r, remoteEnd);
+
+    if (sameLines(localChunk, baseChunk)) {
+      pushStable(remoteChunk);
+    } else if (sameLines(remoteChunk, baseChunk) || sameLines(localChunk, remoteChunk)) {
+      pushStable(localChunk);
+    } else {
+      hunks.push({ type: 'conflict', base: baseChunk, local: localChunk, remote: remoteChunk });
+    }
+
+    b = next;
+    l = localEnd;
+    r = remoteEnd;
+  }
+
+  const conflicts = hunks.filter(hunk => hunk.type === 'conflict').length;
+  return {
+    hunks,
+    conflicts,
+    merged: conflicts === 0 ? joinHunks(hunks, []) : null
+  };
+}
+
+/**
+ * Build the merged text once every conflict has a choice
+ */
+export function resolveHunks(hunks: MergeHunk[], choices: HunkChoice[]): string {
+  const conflicts = hunks.filter(hunk => hunk.type === 'conflict').length;
+  if (choices.length < conflicts) {
+    throw new Error(`${conflicts - choices.length} conflict(s) still unresolved`);
+  }
+  return joinHunks(hunks, choices);
+}
+
+/**
+ * Render conflicts with git-style markers, for editing by hand
+ */
+export function withConflictMarkers(hunks: MergeHunk[]): string {
+  return hunks.map(hunk => hunk.type === 'stable'
+    ? hunk.lines.join('')
+    : [
+        '<<<<<<< mine\n',
+        ...ensureTrailingNewline(hunk.local),
+        '=======\n',
+        ...ensureTrailingNewline(hunk.remote),
+        '>>>>>>> desktop\n'
+      ].join('')
+  ).join('');
+}
+
+function joinHunks(hunks: MergeHunk[], choices: HunkChoice[]): string {
+  let conflictIndex = 0;
+  return hunks.map(hunk => {
+    if (hunk.type === 'stable') return hunk.lines.join('');
+    const choice = choices[conflictIndex++];
+    if (choice === 'local') return hunk.local.join('');
+    if (choice === 'remote') return hunk.remote.join('');
+    return [...ensureTrailingNewline(hunk.local), ...hunk.remote].join('');
+  }).join('');
+}
+
+function cleanResult(text: string): TextMergeResult {
+  return { hunks: [{ type: 'stable', lines: splitLines(text) }], conflicts: 0, merged: text };
+}
+
+// Lines keep their terminators so joining them restores the text exactly
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+function ensureTrailingNewline(lines: string[]): string[] {
+  if (lines.length === 0 || lines[lines.length - 1].endsWith('\n')) return lines;
+  return [...lines.slice(0, -1), lines[lines.length - 1] + '\n'];
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * Longest common subsequence between base and an edited copy: for each base
+ * line, the index of the edited line it survived as, or -1
+ */
+function matchLines(base: string[], edited: string[]): number[] {
+  const matches = new Array<number>(base.length).fill(-1);
+
+  // Common prefix and suffix don't need the quadratic table
+  let start = 0;
+  while (start < base.length && start < edited.length && base[start] === edited[start]) {
+    matches[start] = start;
+    start++;
+  }
+  let baseEnd = base.length;
+  let editedEnd = edited.length;
+  while (baseEnd > start && editedEnd > start && base[baseEnd - 1] === edited[editedEnd - 1]) {
+    baseEnd--;
+    editedEnd--;
+    matches[baseEnd] = editedEnd;
+  }
+
+  const rows = baseEnd - start;
+  const cols = editedEnd - start;
+  if (rows === 0 || cols === 0 || rows * cols > MAX_DIFF_CELLS) return matches;
+
+  // lengths[i][j] = LCS length of base[start+i..] and edited[start+j..]
+  const width = cols + 1;
+  const lengths = new Uint32Array((rows + 1) * width);
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i * width + j] = base[start + i] === edited[start + j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (base[start + i] === edited[start + j]) {
+      matches[start + i] = start + j;
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
@@ -0,0 +1,535 @@
+import { defineStore } from 'pinia';
+import { ref, computed } from 'vue';
+import { useClaudeInstancesStore } from '~/stores/claude-instances';
+import { useClaudeRunConfigsStore } from '~/stores/claude-run-configs';
+import { useTasksStore } from '~/stores/tasks';
+import { useWorkspaceManager } from '~/composables/useWorkspaceManager';
+import { rankAgents, type AgentRanking } from '~/utils/agent-ranking';
+import type { TestRunResult } from '~/electron/agent-test-runner';
+
+export type OrchestratedAgentStatus =
+  | 'queued'
+  | 'setting-up'
+  | 'working'
+  | 'idle'
+  | 'exited'
+  | 'failed'
+  | 'stopped';
+
+export interface AgentComparison {
+  filesAdded: string[];
+  filesRemoved: string[];
+  filesModified: string[];
+  commits: { ahead: number; behind: number; diverged: boolean };
+  comparedAt: string;
+}
+
+export interface OrchestratedAgent {
+  id: string;
+  title: string;
+  prompt: string;
+  taskId?: string;
+  branch: string;
+  worktreePath?: string;
+  instanceId?: string;
+  status: OrchestratedAgentStatus;
+  turns: number;
+  toolUses: number;
+  files: string[];
+  startedAt?: string;
+  lastActivityAt?: string;
+  comparison?: AgentComparison;
+  test?: TestRunResult;
+  error?: string;
+}
+
+export interface OrchestrationRun {
+  id: string;
+  goal?: string;
+  mode: 'goal' | 'tasks';
+  personalityId?: string;
+  runConfigId?: string;
+  testCommand?: string;
+  createdAt: string;
+  agents: OrchestratedAgent[];
+}
+
+export interface StartRunOptions {
+  mode: 'goal' | 'tasks';
+  goal?: string;
+  agentCount?: number;
+  taskIds?: string[];
+  personalityId?: string;
+  runConfigId?: string;
+  testCommand?: string;
+}
+
+const RUNS_FILE = '.claude/agent-runs.json';
+// Claude needs a moment after spawning before it accepts input
+const PROMPT_DELAY_MS = 3000;
+const ACTIVE_STATUSES: OrchestratedAgentStatus[] = ['queued', 'setting-up', 'working', 'idle'];
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 32) || 'agent';
+}
+
+export const useAgentOrchestrationStore = defineStore('agentOrchestration', () => {
+  // State
+  const runs = ref<OrchestrationRun[]>([]);
+  const selectedRunId = ref<string | null>(null);
+  const comparingAgentIds = ref<Set<string>>(new Set());
+  const testingAgentIds = ref<Set<string>>(new Set());
+  const loadedWorkspace = ref<string | null>(null);
+  const error = ref<string | null>(null);
+
+  // Computed
+  const selectedRun = computed(() =>
+    runs.value.find(r => r.id === selectedRunId.value) || runs.value[0] || null
+  );
+
+  const allAgents = computed(() => runs.value.flatMap(r => r.agents));
+
+  const hasActiveAgents = computed(() =>
+    allAgents.value.some(a => ACTIVE_STATUSES.includes(a.status))
+  );
+
+  const rankingsByRun = computed(() => {
+    const result = new Map<string, Map<string, AgentRanking>>();
+    for (const run of runs.value) {
+      const rankings = rankAgents(run.agents.map(agent => ({
+        id: agent.id,
+        status: agent.status,
+        diff: agent.comparison ? {
+          filesAdded: agent.comparison.filesAdded.length,
+          filesRemoved: agent.comparison.filesRemoved.length,
+          filesModified: agent.comparison.filesModified.length
+        } : null,
+        test: agent.test || null
+      })));
+      result.set(run.id, new Map(rankings.map(r => [r.agentId, r])));
+    }
+    return result;
+  });
+
+  // Runs belong to the main checkout; the workspace path follows whichever worktree is open
+  async function getWorkspacePath(): Promise<string> {
+    const path = useWorkspaceManager().currentWorkspacePath.value;
+    if (!path || !window.electronAPI?.worktree) return path;
+
+    // Workspaces outside git have no main worktree and are used as they are
+    const result = await window.electronAPI.worktree.mainPath();
+    return result.success && result.path ? result.path : path;
+  }
+
+  function findAgent(agentId: string): { run: OrchestrationRun; agent: OrchestratedAgent } | null {
+    for (const run of runs.value) {
+      const agent = run.agents.find(a => a.id === agentId);
+      if (agent) return { run, agent };
+    }
+    return null;
+  }
+
+  function findAgentByInstance(instanceId: string): OrchestratedAgent | null {
+    return allAgents.value.find(a => a.instanceId === instanceId) || null;
+  }
+
+  // Persistence
+  async function loadRuns() {
+    const workspacePath = await getWorkspacePath();
+    if (!workspacePath || !window.electronAPI) return;
+    if (loadedWorkspace.value === workspacePath) return;
+
+    runs.value = [];
+    selectedRunId.value = null;
+    loadedWorkspace.value = workspacePath;
+
+    try {
+      const result = await window.electronAPI.fs.readFile(`${workspacePath}/${RUNS_FILE}`);
+      if (!result.success) return;
+
+      const data = JSON.parse(result.content);
+      const instancesStore = useClaudeInstancesStore();
+      runs.value = (data.runs || []).map((run: OrchestrationRun) => ({
+        ...run,
+        agents: run.agents.map(agent => {
+          // Agents whose Claude instance didn't survive a restart can't be working anymore
+          const instance = agent.instanceId ? instancesStore.instances.get(agent.instanceId) : undefined;
+          if (ACTIVE_STATUSES.includes(agent.status) && instance?.status !== 'connected') {
+            return { ...agent, status: 'exited' as const };
+          }
+          return agent;
+        })
+      }));
+    } catch (err) {
+      console.error('Failed to load agent runs:', err);
+    }
+  }
+
+  async function saveRuns() {
+    const workspacePath = loadedWorkspace.value;
+    if (!workspacePath || !window.electronAPI) return;
+
+    try {
+      await window.electronAPI.fs.ensureDir(`${workspacePath}/.claude`);
+      await window.electronAPI.fs.writeFile(
+        `${workspacePath}/${RUNS_FILE}`,
+        JSON.stringify({ runs: runs.value }, null, 2)
+      );
+    } catch (err) {
+      console.error('Failed to save agent runs:', err);
+    }
+  }
+
+  // Actions
+  async function startRun(options: StartRunOptions): Promise<OrchestrationRun> {
+    await loadRuns();
+    const tasksStore = useTasksStore();
+    const runId = `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const short = runId.slice(-5);
+
+    let agents: OrchestratedAgent[];
+    if (options.mode === 'tasks') {
+      const tasks = (options.taskIds || [])
+        .map(id => tasksStore.tasks.find(t => t.id === id))
+        .filter((task): task is NonNullable<typeof task> => !!task);
+      if (tasks.length === 0) {
+        throw new Error('Select at least one task');
+      }
+      agents = tasks.map((task, index) => ({
+        id: `${runId}_${index}`,
+        title: task.content,
+        prompt: task.description ? `${task.content}: ${task.description}` : task.content,
+        taskId: task.id,
+        branch: `agent/${slugify(task.identifier || task.content)}-${short}`,
+        status: 'queued',
+        turns: 0,
+        toolUses: 0,
+        files: []
+      }));
+    } else {
+      const goal = options.goal?.trim();
+      if (!goal) {
+        throw new Error('Describe the goal for the agents');
+      }
+      const count = Math.max(1, Math.min(options.agentCount || 1, 8));
+      agents = Array.from({ length: count }, (_, index) => ({
+        id: `${runId}_${index}`,
+        title: count > 1 ? `Attempt ${index + 1}` : 'Attempt',
+        prompt: goal,
+        branch: `agent/${slugify(goal)}-${short}-${index + 1}`,
+        status: 'queued',
+        turns: 0,
+        toolUses: 0,
+        files: []
+      }));
+    }
+
+    const run: OrchestrationRun = {
+      id: runId,
+      goal: options.mode === 'goal' ? options.goal?.trim() : undefined,
+      mode: options.mode,
+      personalityId: options.personalityId,
+      runConfigId: options.runConfigId,
+      testCommand: options.testCommand?.trim() || undefined,
+      createdAt: new Date().toISOString(),
+      agents
+    };
+
+    runs.value.unshift(run);
+    selectedRunId.value = run.id;
+    await saveRuns();
+
+    // Work on the reactive copy so progress shows up on the board
+    const trackedRun = runs.value[0];
+    // Worktrees are created one at a time; parallel git worktree commands contend for the index lock
+    for (const agent of trackedRun.agents) {
+      await startAgent(trackedRun, agent);
+    }
+    return trackedRun;
+  }
+
+  async function startAgent(run: OrchestrationRun, agent: OrchestratedAgent) {
+    const instancesStore = useClaudeInstancesStore();
+    const runConfigsStore = useClaudeRunConfigsStore();
+    const tasksStore = useTasksStore();
+    const workspaceManager = useWorkspaceManager();
+
+    agent.status = 'setting-up';
+    agent.error = undefined;
+
+    try {
+      const result = await window.electronAPI.worktree.create(
+        agent.branch,
+        agent.title,
+        agent.prompt,
+        { orchestrationRunId: run.id, taskId: agent.taskId }
+      );
+      if (!result.success || !result.worktree) {
+        throw new Error(result.error || 'Failed to create worktree');
+      }
+      const worktreePath: string = result.worktree.path;
+      agent.worktreePath = worktreePath;
+
+      // Creating an instance makes it the active one; keep the user's current instance focused
+      const previousActiveId = instancesStore.activeInstanceId;
+      const instanceName = `Agent: ${agent.title}`.slice(0, 40);
+      const instanceId = await instancesStore.createInstance(instanceName, run.personalityId, worktreePath);
+      agent.instanceId = instanceId;
+      instancesStore.activeInstanceByWorktree.set(worktreePath, instanceId);
+      if (previousActiveId) {
+        instancesStore.setActiveInstance(previousActiveId);
+      }
+
+      // The instance must exist before the worktree is listed, or its tabs create a default one
+      await workspaceManager.addWorktreeToList(worktreePath);
+      await instancesStore.saveWorkspaceConfiguration(worktreePath);
+
+      const runConfig = run.runConfigId
+        ? runConfigsStore.getConfigById(run.runConfigId)
+        : runConfigsStore.defaultConfig;
+      instancesStore.updateInstanceStatus(instanceId, 'connecting');
+      const startResult = await window.electronAPI.claude.start(
+        instanceId,
+        worktreePath,
+        instanceName,
+        runConfig ? { command: runConfig.command, args: [...runConfig.args] } : undefined
+      );
+      if (!startResult.success) {
+        instancesStore.updateInstanceStatus(instanceId, 'disconnected');
+        throw new Error(startResult.error || 'Failed to start Claude');
+      }
+      instancesStore.updateInstanceStatus(instanceId, 'connected', startResult.pid);
+
+      agent.status = 'working';
+      agent.startedAt = new Date().toISOString();
+      agent.lastActivityAt = agent.startedAt;
+
+      if (agent.taskId) {
+        tasksStore.moveTask(agent.taskId, 'in_progress');
+      }
+
+      // The prompt goes in as a single line since a newline submits it
+      const personality = run.personalityId ? instancesStore.getPersonalityById(run.personalityId) : undefined;
+      const prompt = agent.prompt.replace(/\s*\n\s*/g, ' ').trim();
+      const message = personality?.instructions
+        ? `System: ${personality.instructions.replace(/\s*\n\s*/g, ' ')} ${prompt}`
+        : prompt;
+      setTimeout(async () => {
+        try {
+          await window.electronAPI.claude.send(instanceId, message + '\n');
+        } catch (err) {
+          console.error('Failed to send agent prompt:', err);
+        }
+      }, PROMPT_DELAY_MS);
+    } catch (err) {
+      agent.status = 'failed';
+      agent.error = err instanceof Error ? err.message : String(err);
+      console.error(`Failed to start agent ${agent.title}:`, err);
+    }
+
+    await saveRuns();
+  }
+
+  async function stopAgent(agentId: string) {
+    const found = findAgent(agentId);
+    if (!found) return;
+    const { agent } = found;
+
+    if (agent.instanceId) {
+      const instancesStore = useClaudeInstancesStore();
+      try {
+        await window.electronAPI.claude.stop(agent.instanceId);
+      } catch (err) {
+        console.error('Failed to stop agent:', err);
+      }
+      instancesStore.updateInstanceStatus(agent.instanceId, 'disconnected');
+    }
+    if (ACTIVE_STATUSES.includes(agent.status)) {
+      agent.status = 'stopped';
+    }
+    await saveRuns();
+  }
+
+  async function stopRun(runId: string) {
+    const run = runs.value.find(r => r.id === runId);
+    if (!run) return;
+    for (const agent of run.agents) {
+      if (ACTIVE_STATUSES.includes(agent.status)) {
+        await stopAgent(agent.id);
+      }
+    }
+  }
+
+  /**
+   * Remove a run from the board. With removeWorktrees, each agent's worktree
+   * and branch checkout are deleted along with its Claude instance.
+   */
+  async function removeRun(runId: string, removeWorktrees: boolean) {
+    const run = runs.value.find(r => r.id === runId);
+    if (!run) return;
+
+    await stopRun(runId);
+
+    if (removeWorktrees) {
+      const instancesStore = useClaudeInstancesStore();
+      const workspaceManager = useWorkspaceManager();
+      for (const agent of run.agents) {
+        if (agent.instanceId) {
+          await instancesStore.removeInstance(agent.instanceId);
+        }
+        if (agent.worktreePath) {
+          const result = await window.electronAPI.worktree.remove(agent.worktreePath, true);
+          if (result.success) {
+            await workspaceManager.removeWorktreeFromList(agent.worktreePath);
+          } else {
+            console.error(`Failed to remove worktree ${agent.worktreePath}:`, result.error);
+          }
+        }
+      }
+    }
+
+    runs.value = runs.value.filter(r => r.id !== runId);
+    if (selectedRunId.value === runId) {
+      selectedRunId.value = null;
+    }
+    await saveRuns();
+  }
+
+  async function compareAgent(agentId: string) {
+    const found = findAgent(agentId);
+    const workspacePath = await getWorkspacePath();
+    if (!found?.agent.worktreePath || !workspacePath) return;
+    const { agent } = found;
+
+    comparingAgentIds.value.add(agentId);
+    try {
+      const result = await window.electronAPI.worktree.compare(workspacePath, agent.worktreePath!);
+      if (!result.success || !result.comparison) {
+        throw new Error(result.error || 'Failed to compare worktrees');
+      }
+      agent.comparison = { ...result.comparison, comparedAt: new Date().toISOString() };
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : String(err);
+      console.error('Failed to compare agent worktree:', err);
+    } finally {
+      comparingAgentIds.value.delete(agentId);
+    }
+    await saveRuns();
+  }
+
+  async function runAgentTests(agentId: string) {
+    const found = findAgent(agentId);
+    if (!found?.agent.worktreePath || !found.run.testCommand) return;
+    const { run, agent } = found;
+
+    testingAgentIds.value.add(agentId);
+    try {
+      const result = await window.electronAPI.orchestration.runTests({
+        cwd: agent.worktreePath!,
+        command: run.testCommand!
+      });
+      if (!result.success || !result.result) {
+        throw new Error(result.error || 'Failed to run tests');
+      }
+      agent.test = result.result;
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : String(err);
+      console.error('Failed to run agent tests:', err);
+    } finally {
+      testingAgentIds.value.delete(agentId);
+    }
+    await saveRuns();
+  }
+
+  /**
+   * Compare every agent's worktree with the workspace and run the test command
+   * in each, so the board can rank them. Tests run one worktree at a time.
+   */
+  async function refreshResults(runId: string) {
+    const run = runs.value.find(r => r.id === runId);
+    if (!run) return;
+
+    for (const agent of run.agents) {
+      if (!agent.worktreePath) continue;
+      await compareAgent(agent.id);
+      if (run.testCommand) {
+        await runAgentTests(agent.id);
+      }
+    }
+  }
+
+  // Progress reported by the turn tracker and instance status changes
+  function recordTurnStarted(instanceId: string) {
+    const agent = findAgentByInstance(instanceId);
+    if (!agent || !ACTIVE_STATUSES.includes(agent.status)) return;
+    agent.status = 'working';
+    agent.lastActivityAt = new Date().toISOString();
+  }
+
+  function recordTurnEnded(instanceId: string, files: string[], toolUses: number) {
+    const agent = findAgentByInstance(instanceId);
+    if (!agent) return;
+
+    const root = agent.worktreePath ? `${agent.worktreePath.replace(/[\\/]+$/, '')}/` : '';
+    const relative = files.map(file => (root && file.startsWith(root) ? file.slice(root.length) : file));
+    agent.files = Array.from(new Set([...agent.files, ...relative]));
+    agent.turns++;
+    agent.toolUses += toolUses;
+    agent.lastActivityAt = new Date().toISOString();
+    saveRuns();
+  }
+
+  function recordStopped(instanceId: string) {
+    const agent = findAgentByInstance(instanceId);
+    if (!agent || agent.status !== 'working') return;
+    agent.status = 'idle';
+    agent.lastActivityAt = new Date().toISOString();
+    saveRuns();
+  }
+
+  function recordExited(instanceId: string) {
+    const agent = findAgentByInstance(instanceId);
+    if (!agent || !['working', 'idle'].includes(agent.status)) return;
+    agent.status = 'exited';
+    agent.lastActivityAt = new Date().toISOString();
+    saveRuns();
+  }
+
+  function selectRun(runId: string) {
+    selectedRunId.value = runId;
+  }
+
+  return {
+    // State
+    runs,
+    selectedRunId,
+    comparingAgentIds,
+    testingAgentIds,
+    error,
+
+    // Computed
+    selectedRun,
+    allAgents,
+    hasActiveAgents,
+    rankingsByRun,
+
+    // Actions
+    loadRuns,
+    startRun,
+    stopAgent,
+    stopRun,
+    removeRun,
+    compareAgent,
+    runAgentTests,
+    refreshResults,
+    recordTurnStarted,
+    recordTurnEnded,
+    recordStopped,
+    recordExited,
+    selectRun
+  };
+});
@@ -334,6 +334,16 @@ export const useClaudeInstancesStore = defineStore('claudeInstances', {
       }
     },
 
+    updateInstanceSessionId(id: string, sessionId: string) {
+      const instance = this.instances.get(id);
+      if (instance && instance.sessionId !== sessionId) {
+        // Create a new instance object to trigger reactivity
+        const updatedInstance = { ...instance, sessionId };
+        this.instances.set(id, updatedInstance);
+        // Runtime session, same as status - not persisted
+      }
+    },
+
     async updateInstanceName(id: string, name: string) {
       const instance = this.instances.get(id);
       if (instance) {
@@ -39,6 +39,8 @@ export const useEditorStore = defineStore('editor', {
   state: () => ({
     tabs: [] as EditorTab[],
     activeTabId: null as string | null,
+    // Last cursor position in each open file, by path
+    cursorPositions: {} as Record<string, { line: number; column: number }>,
     fontSize: 14,
     theme: 'vs-dark' as 'vs-dark' | 'vs-light'
   }),
@@ -84,7 +86,9 @@ export const useEditorStore = defineStore('editor', {
       this.activeTabId = newTab.id;
 
       // Start watching this file for changes
-      await window.electronAPI.fs.watchFile(path);
+      if (window.electronAPI?.fs?.watchFile) {
+        await window.electronAPI.fs.watchFile(path);
+      }
 
       // Emit event to jump to line if provided
       if (line) {
@@ -221,12 +225,20 @@ export const useEditorStore = defineStore('editor', {
     
     // Methods for checkpoint system
     getCursorPositions(): Record<string, { line: number; column: number }> {
+      const openFiles = new Set(this.openFiles);
       const positions: Record<string, { line: number; column: number }> = {};
-      // This would need to be implemented based on your editor integration
-      // For now, return empty object
+      for (const [path, position] of Object.entries(this.cursorPositions)) {
+        if (openFiles.has(path)) {
+          positions[path] = { ...position };
+        }
+      }
       return positions;
     },
     
+    setCursorPosition(path: string, position: { line: number; column: number }) {
+      this.cursorPositions[path] = position;
+    },
+    
     getScrollPositions(): Record<string, number> {
       const positions: Record<string, number> = {};
       // This would need to be implemented based on your editor integration
@@ -235,8 +247,15 @@ export const useEditorStore = defineStore('editor', {
     },
     
     restoreCursorPositions(positions: Record<string, { line: number; column: number }>) {
-      // This would need to be implemented based on your editor integration
+      Object.assign(this.cursorPositions, positions);
       
+      // Other tabs pick theirs up when they are next shown
+      const active = this.activeTab && positions[this.activeTab.path];
+      if (active) {
+        setTimeout(() => {
+          window.dispatchEvent(new CustomEvent('editor:goto-line', { detail: active }));
+        }, 100);
+      }
     },
     
     setActiveTab(tabId: string) {
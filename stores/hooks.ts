@@ -1,8 +1,9 @@
 import { defineStore } from 'pinia';
+import { HOOK_EVENT_NAMES, type HookEventName } from '~/electron/claude-hook-events';
 
 export interface Hook {
   id: string;
-  event: string;
+  event: HookEventName;
   matcher: string;
   command: string;
   disabled?: boolean;
@@ -21,8 +22,12 @@ export const useHooksStore = defineStore('hooks', {
       return this.hooks.filter(hook => !hook.disabled);
     },
 
+    // Every event Claude supports, in lifecycle order, even those without hooks
     hooksByEvent(): Record<string, Hook[]> {
       const grouped: Record<string, Hook[]> = {};
+      for (const event of HOOK_EVENT_NAMES) {
+        grouped[event] = [];
+      }
       
       for (const hook of this.hooks) {
         if (!grouped[hook.event]) {
@@ -131,9 +136,12 @@ export const useHooksStore = defineStore('hooks', {
       }
     },
 
-    async testHook(hook: Hook) {
+    /**
+     * Run a hook with a sample (or given) stdin payload for its event
+     */
+    async testHook(hook: Pick<Hook, 'event' | 'matcher' | 'command'>, input?: Record<string, any>, workspacePath?: string) {
       try {
-        return await window.electronAPI.claude.testHook(hook);
+        return await window.electronAPI.claude.testHook({ ...hook }, input, workspacePath);
       } catch (error) {
         console.error('Failed to test hook:', error);
         throw error;
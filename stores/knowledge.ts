@@ -1,25 +1,36 @@
 import { defineStore } from 'pinia';
+import { markRaw } from 'vue';
 import matter from 'gray-matter';
 import { v4 as uuidv4 } from 'uuid';
-import lunr from 'lunr';
+import { parseKnowledgeEntry, buildKnowledgeIndex, searchKnowledgeIndex, type KnowledgeEntry } from '~/electron/knowledge-base';
+import {
+  DEFAULT_KNOWLEDGE_SEARCH_CONFIG,
+  KNOWLEDGE_EMBEDDINGS_FILE,
+  KNOWLEDGE_SEARCH_CONFIG_FILE,
+  createEmbeddingProvider,
+  findRelatedEntries,
+  hybridSearch,
+  normalizeSearchConfig,
+  updateEmbeddingIndex,
+  type EmbeddingIndex,
+  type EmbeddingProvider,
+  type KnowledgeSearchConfig
+} from '~/utils/knowledge-embeddings';
+import {
+  buildLinkGraph,
+  normalizeLinkName,
+  renameWikiLinks,
+  type Backlink,
+  type KnowledgeLinkGraph,
+  type ResolvedLink
+} from '~/utils/knowledge-links';
 
-export interface KnowledgeEntry {
-  id: string;
-  filename?: string; // Actual filename on disk
-  title: string;
-  content: string;
-  markdown: string; // Full markdown with frontmatter
-  metadata: {
-    tags: string[];
-    category: string;
-    created: Date;
-    updated: Date;
-    priority?: 'high' | 'medium' | 'low';
-    relatedFiles?: string[];
-    aliases?: string[];
-  };
-  frontmatter: Record<string, any>;
-}
+export type { KnowledgeEntry };
+
+// The provider holds functions, so it lives outside the store state
+let embeddingProvider: EmbeddingProvider | null = null;
+// Index updates run one at a time so overlapping saves don't race
+let embeddingQueue: Promise<void> = Promise.resolve();
 
 export interface KnowledgeCategory {
   id: string;
@@ -41,6 +52,10 @@ export const useKnowledgeStore = defineStore('knowledge', {
       { id: 'other', name: 'Other', icon: 'mdi:file-document', color: '#858585', count: 0 }
     ] as KnowledgeCategory[],
     searchIndex: null as any, // Lunr search index
+    searchConfig: { ...DEFAULT_KNOWLEDGE_SEARCH_CONFIG } as KnowledgeSearchConfig,
+    embeddingIndex: null as EmbeddingIndex | null,
+    isEmbedding: false,
+    embeddingError: null as string | null,
     isLoading: false,
     error: null as string | null,
     selectedEntryId: null as string | null,
@@ -76,10 +91,28 @@ export const useKnowledgeStore = defineStore('knowledge', {
       );
     },
 
+    semanticSearchReady: (state) => state.searchConfig.semantic && !!state.embeddingIndex,
+
+    linkGraph: (state): KnowledgeLinkGraph => buildLinkGraph(state.entries),
+
+    getBacklinks(): (entryId: string) => Backlink[] {
+      return (entryId: string) => this.linkGraph.backlinks[entryId] || [];
+    },
+
+    getBrokenLinks(): (entryId: string) => ResolvedLink[] {
+      return (entryId: string) => this.linkGraph.broken.filter(link => link.sourceId === entryId);
+    },
+
     getRelatedEntries: (state) => (entryId: string) => {
       const entry = state.entries.find(e => e.id === entryId);
       if (!entry) return [];
 
+      // Closest in meaning when the embedding index is available
+      if (state.embeddingIndex && embeddingProvider) {
+        const related = findRelatedEntries(state.embeddingIndex, state.entries, entryId, embeddingProvider);
+        if (related.length > 0) return related.map(r => r.entry);
+      }
+
       // Find entries with similar tags or in same category
       return state.entries.filter(e => {
         if (e.id === entryId) return false;
@@ -99,7 +132,12 @@ export const useKnowledgeStore = defineStore('knowledge', {
 
   actions: {
     async initialize(workspacePath: string) {
+      if (workspacePath !== this.workspacePath) {
+        // Titles from another workspace must not look like renames
+        this.entries = [];
+      }
       this.workspacePath = workspacePath;
+      await this.loadSearchConfig();
       await this.loadEntries();
     },
     
@@ -179,6 +217,8 @@ export const useKnowledgeStore = defineStore('knowledge', {
         }
         const mdFiles = result.files.filter((f: any) => f.name.endsWith('.md'));
 
+        // Titles before the reload, to catch entries renamed outside the store
+        const previousTitles = new Map(this.entries.map(entry => [entry.id, entry.title]));
         this.entries = [];
         
         for (const file of mdFiles) {
@@ -192,26 +232,7 @@ export const useKnowledgeStore = defineStore('knowledge', {
           
           const content = fileResult.content;
           
-          // Parse markdown with frontmatter
-          const { data, content: markdownContent } = matter(content);
-          
-          const entry: KnowledgeEntry = {
-            id: data.id || file.name.replace('.md', ''),
-            filename: file.name, // Store actual filename
-            title: data.title || file.name.replace('.md', ''),
-            content: markdownContent,
-            markdown: content,
-            metadata: {
-              tags: data.tags || [],
-              category: data.category || 'other',
-              created: new Date(data.created || file.stats?.birthtime || Date.now()),
-              updated: new Date(data.updated || file.stats?.mtime || Date.now()),
-              priority: data.priority,
-              relatedFiles: data.relatedFiles || [],
-              aliases: data.aliases || []
-            },
-            frontmatter: data
-          };
+          const entry = parseKnowledgeEntry(file.name, content, file.stats);
           
           this.entries.push(entry);
         }
@@ -221,6 +242,13 @@ export const useKnowledgeStore = defineStore('knowledge', {
         
         // Build search index
         await this.buildSearchIndex();
+
+        for (const entry of [...this.entries]) {
+          const previousTitle = previousTitles.get(entry.id);
+          if (previousTitle && previousTitle !== entry.title) {
+            await this.propagateRename(previousTitle, entry.title);
+          }
+        }
         
       } catch (error) {
         console.error('Failed to load knowledge entries:', error);
@@ -334,6 +362,7 @@ export const useKnowledgeStore = defineStore('knowledge', {
       try {
         const entryIndex = this.entries.findIndex(e => e.id === id);
         if (entryIndex === -1) throw new Error('Entry not found');
+        const previousTitle = this.entries[entryIndex].title;
         
         const isRemoteMode = !window.electronAPI;
         
@@ -359,6 +388,10 @@ export const useKnowledgeStore = defineStore('knowledge', {
           this.entries[entryIndex] = updatedEntry;
           this.updateCategoryCounts();
           await this.buildSearchIndex();
+
+          if (updatedEntry.title !== previousTitle) {
+            await this.propagateRename(previousTitle, updatedEntry.title);
+          }
           
           return updatedEntry;
         }
@@ -415,6 +448,10 @@ export const useKnowledgeStore = defineStore('knowledge', {
         this.entries[entryIndex] = updatedEntry;
         this.updateCategoryCounts();
         await this.buildSearchIndex();
+
+        if (updatedEntry.title !== previousTitle) {
+          await this.propagateRename(previousTitle, updatedEntry.title);
+        }
         
         return updatedEntry;
       } catch (error) {
@@ -476,18 +513,47 @@ export const useKnowledgeStore = defineStore('knowledge', {
       }
     },
 
+    /**
+     * Rewrite [[Old Title]] links in every entry to the new title
+     */
+    async propagateRename(oldTitle: string, newTitle: string) {
+      // Another entry still answers to the old title, so its links stay
+      if (this.entries.some(entry => normalizeLinkName(entry.title) === normalizeLinkName(oldTitle))) return;
+
+      for (const entry of [...this.entries]) {
+        const content = renameWikiLinks(entry.content, oldTitle, newTitle);
+        if (content !== entry.content) {
+          await this.updateEntry(entry.id, { content });
+        }
+      }
+    },
+
     selectEntry(id: string | null) {
       this.selectedEntryId = id;
     },
 
     async search(query: string) {
       if (!this.searchIndex || !query) return this.entries;
+
+      if (this.embeddingIndex && embeddingProvider) {
+        try {
+          const results = await hybridSearch(
+            this.searchIndex,
+            this.embeddingIndex,
+            this.entries,
+            query,
+            embeddingProvider,
+            this.searchConfig.keywordWeight
+          );
+          return results.map(result => result.entry);
+        } catch (error) {
+          // Fall back to keywords when the embedding model is unreachable
+          console.error('Semantic search failed:', error);
+        }
+      }
       
       try {
-        const results = this.searchIndex.search(query);
-        return results.map(result => 
-          this.entries.find(e => e.id === result.ref)
-        ).filter(Boolean);
+        return searchKnowledgeIndex(this.searchIndex, this.entries, query);
       } catch (error) {
         console.error('Search failed:', error);
         return [];
@@ -509,29 +575,106 @@ export const useKnowledgeStore = defineStore('knowledge', {
 
     async buildSearchIndex() {
       try {
-        this.searchIndex = lunr(function() {
-          this.ref('id');
-          this.field('title', { boost: 10 });
-          this.field('content', { boost: 5 });
-          this.field('tags', { boost: 8 });
-          this.field('category', { boost: 3 });
-          this.field('aliases', { boost: 7 });
-
-          // Add documents to index
-          useKnowledgeStore().entries.forEach(entry => {
-            this.add({
-              id: entry.id,
-              title: entry.title,
-              content: entry.content,
-              tags: entry.metadata.tags.join(' '),
-              category: entry.metadata.category,
-              aliases: (entry.metadata.aliases || []).join(' ')
-            });
-          });
-        });
+        this.searchIndex = buildKnowledgeIndex(this.entries);
       } catch (error) {
         console.error('Failed to build search index:', error);
       }
+
+      // Not awaited: a model can take a while, and keyword search works meanwhile
+      if (this.searchConfig.semantic) {
+        this.updateEmbeddings();
+      }
+    },
+
+    async loadSearchConfig() {
+      let config: Partial<KnowledgeSearchConfig> | null = null;
+      const configPath = `${this.workspacePath}/${KNOWLEDGE_SEARCH_CONFIG_FILE}`;
+
+      if (window.electronAPI?.fs && await window.electronAPI.fs.exists(configPath)) {
+        const result = await window.electronAPI.fs.readFile(configPath);
+        try {
+          config = result.success ? JSON.parse(result.content) : null;
+        } catch (error) {
+          console.error('Invalid knowledge search config:', error);
+        }
+      }
+
+      this.searchConfig = normalizeSearchConfig(config);
+      embeddingProvider = createEmbeddingProvider(this.searchConfig.provider);
+      this.embeddingIndex = null;
+      this.embeddingError = null;
+    },
+
+    async setSemanticSearch(enabled: boolean) {
+      this.searchConfig = { ...this.searchConfig, semantic: enabled };
+
+      if (window.electronAPI?.fs && this.workspacePath) {
+        const configPath = `${this.workspacePath}/${KNOWLEDGE_SEARCH_CONFIG_FILE}`;
+        const result = await window.electronAPI.fs.writeFile(configPath, JSON.stringify(this.searchConfig, null, 2));
+        if (!result.success) {
+          console.error('Failed to save knowledge search config:', result.error);
+        }
+      }
+
+      if (enabled) {
+        await this.updateEmbeddings();
+      } else {
+        this.embeddingIndex = null;
+      }
+    },
+
+    /**
+     * Bring the embedding index up to date with the entries, embedding only
+     * new and changed ones, and save it under the workspace
+     */
+    updateEmbeddings() {
+      embeddingQueue = embeddingQueue.then(async () => {
+        if (!this.searchConfig.semantic) return;
+
+        this.isEmbedding = true;
+        this.embeddingError = null;
+        try {
+          const provider = embeddingProvider || (embeddingProvider = createEmbeddingProvider(this.searchConfig.provider));
+          const previous = this.embeddingIndex || await this.readEmbeddingIndex();
+          const { index, embedded, removed } = await updateEmbeddingIndex(previous, this.entries, provider);
+
+          // Vectors never change in place, so skip deep reactivity
+          this.embeddingIndex = markRaw(index);
+          if (embedded > 0 || removed > 0 || previous?.provider !== index.provider) {
+            await this.writeEmbeddingIndex(index);
+          }
+        } catch (error) {
+          console.error('Failed to update knowledge embeddings:', error);
+          this.embeddingError = error instanceof Error ? error.message : 'Failed to update embeddings';
+        } finally {
+          this.isEmbedding = false;
+        }
+      });
+      return embeddingQueue;
+    },
+
+    async readEmbeddingIndex(): Promise<EmbeddingIndex | null> {
+      const indexPath = `${this.workspacePath}/${KNOWLEDGE_EMBEDDINGS_FILE}`;
+      if (!window.electronAPI?.fs || !await window.electronAPI.fs.exists(indexPath)) return null;
+
+      const result = await window.electronAPI.fs.readFile(indexPath);
+      try {
+        return result.success ? JSON.parse(result.content) : null;
+      } catch {
+        // A corrupt index is rebuilt
+        return null;
+      }
+    },
+
+    async writeEmbeddingIndex(index: EmbeddingIndex) {
+      if (!window.electronAPI?.fs || !this.workspacePath) return;
+
+      const indexPath = `${this.workspacePath}/${KNOWLEDGE_EMBEDDINGS_FILE}`;
+      await window.electronAPI.fs.ensureDir(indexPath.slice(0, indexPath.lastIndexOf('/')));
+      const result = await window.electronAPI.fs.writeFile(indexPath, JSON.stringify(index));
+      if (!result.success) {
+        console.error('Failed to save knowledge embeddings:', result.error);
+      }
     },
 
     async createSampleEntry() {
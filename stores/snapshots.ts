@@ -1,6 +1,6 @@
 import { defineStore } from 'pinia';
 import { ref, computed, watch } from 'vue';
-import type { ClaudeSnapshot, SnapshotConfig, SnapshotDiff } from '~/types/snapshot';
+import type { ClaudeSnapshot, ClaudeTurnInfo, SnapshotConfig, SnapshotDiff, SnapshotComparison, GarbageCollectionReport } from '~/types/snapshot';
 import { useEditorStore } from './editor';
 import { useSourceControlStore } from './source-control';
 import { useClaudeInstancesStore } from './claude-instances';
@@ -16,15 +16,23 @@ export const useSnapshotsStore = defineStore('snapshots', () => {
   const isLoading = ref(false);
   const lastSnapshotTime = ref<Date | null>(null);
   const selectedSnapshotId = ref<string | null>(null);
+  const lastGarbageCollection = ref<GarbageCollectionReport | null>(null);
   
   // Configuration with new defaults
   const config = ref<SnapshotConfig>({
     maxSnapshots: 50,
     maxSizeMb: 100,
-    autoCleanupDays: 30,
+    retention: {
+      keepAllHours: 24,
+      keepHourlyDays: 7,
+      keepDailyDays: 30,
+      keepTagged: true,
+      keepManual: true
+    },
     autoSnapshotInterval: 600000, // 10 minutes
     enableAutoSnapshots: true,
-    enableClaudePromptSnapshots: false // New setting for Claude prompt snapshots
+    enableClaudePromptSnapshots: false, // New setting for Claude prompt snapshots
+    enableClaudeTurnSnapshots: true
   });
 
   // Computed
@@ -60,7 +68,7 @@ export const useSnapshotsStore = defineStore('snapshots', () => {
   });
 
   // Actions
-  async function captureSnapshot(name?: string, trigger: ClaudeSnapshot['createdBy'] = 'manual') {
+  async function captureSnapshot(name?: string, trigger: ClaudeSnapshot['createdBy'] = 'manual', claudeTurn?: ClaudeTurnInfo) {
     if (isCapturing.value) return;
     
     isCapturing.value = true;
@@ -237,7 +245,8 @@ export const useSnapshotsStore = defineStore('snapshots', () => {
         // Metadata
         sizeKb: totalSizeKb,
         createdBy: trigger,
-        tags: []
+        tags: [],
+        ...(claudeTurn ? { claudeTurn } : {})
       };
 
     
@@ -578,27 +587,45 @@ export const useSnapshotsStore = defineStore('snapshots', () => {
     }
   }
 
-  async function cleanupSnapshots() {
-    // Remove old snapshots
-    const cutoffDate = new Date();
-    cutoffDate.setDate(cutoffDate.getDate() - config.value.autoCleanupDays);
-    
-    const toDelete = snapshots.value.filter(s => 
-      new Date(s.timestamp) < cutoffDate
-    );
+  function isProtectedSnapshot(snapshot: ClaudeSnapshot) {
+    const { keepTagged, keepManual } = config.value.retention;
+    return (keepTagged && (snapshot.tags?.length ?? 0) > 0) || (keepManual && snapshot.createdBy === 'manual');
+  }
+
+  async function cleanupSnapshots(collectGarbage: boolean = false) {
+    // Remote clients leave retention to the desktop, which cleans up after every capture
+    if (!window.electronAPI) return null;
     
-    for (const snapshot of toDelete) {
+    // Remove excess snapshots first so the garbage collection below reclaims their content
+    const unprotected = sortedSnapshots.value.filter(s => !isProtectedSnapshot(s));
+    const excess = unprotected.slice(Math.max(0, config.value.maxSnapshots - (snapshots.value.length - unprotected.length)));
+    for (const snapshot of excess) {
       await deleteSnapshot(snapshot.id);
     }
     
-    // Remove excess snapshots
-    if (snapshots.value.length > config.value.maxSnapshots) {
-      const sorted = sortedSnapshots.value;
-      const excess = sorted.slice(config.value.maxSnapshots);
-      
-      for (const snapshot of excess) {
-        await deleteSnapshot(snapshot.id);
-      }
+    const workspacePath = await window.electronAPI.workspace.getCurrentPath();
+    if (!workspacePath) return null;
+    
+    const fileContentManager = useFileContentManager(workspacePath);
+    const stats = await fileContentManager.cleanup(config.value.retention, collectGarbage || excess.length > 0);
+    
+    if (stats.removedIds.length > 0) {
+      const removed = new Set(stats.removedIds);
+      snapshots.value = snapshots.value.filter(s => !removed.has(s.id));
+    }
+    if (stats.report) {
+      lastGarbageCollection.value = stats.report;
+    }
+    
+    return stats;
+  }
+
+  async function loadStorageInfo() {
+    if (!window.electronAPI) return;
+    
+    const result = await window.electronAPI.snapshots.getStorageInfo();
+    if (result.success && result.storageInfo.lastGarbageCollection) {
+      lastGarbageCollection.value = result.storageInfo.lastGarbageCollection;
     }
   }
 
@@ -625,6 +652,59 @@ export const useSnapshotsStore = defineStore('snapshots', () => {
     };
   }
 
+  /**
+   * Full file tree comparison; either id may be 'working-tree'
+   */
+  async function compareSnapshotTrees(fromId: string, toId: string): Promise<SnapshotComparison> {
+    const snapshot = snapshots.value.find(s => s.id === fromId) || snapshots.value.find(s => s.id === toId);
+    if (!snapshot) {
+      throw new Error('Snapshot not found');
+    }
+    
+    const fileContentManager = useFileContentManager(snapshot.projectPath);
+    return fileContentManager.compareSnapshots(fromId, toId);
+  }
+
+  /**
+   * Snapshot the workspace before or after a Claude turn that edits files.
+   * Turns run in other worktrees are skipped since captures cover the open workspace only;
+   * that includes worktrees nested under the workspace's .worktrees folder.
+   */
+  async function captureClaudeTurnSnapshot(turn: Omit<ClaudeTurnInfo, 'phase'> & { workingDirectory?: string }, phase: ClaudeTurnInfo['phase']) {
+    const { workingDirectory, ...turnInfo } = turn;
+    const workspacePath = await window.electronAPI.workspace.getCurrentPath();
+    if (!workspacePath) return null;
+
+    const root = workspacePath.replace(/[\\/]+$/, '');
+    const inWorkspace = !workingDirectory || workingDirectory === workspacePath ||
+      (workingDirectory.startsWith(`${root}/`) && !workingDirectory.startsWith(`${root}/.worktrees/`));
+    if (!inWorkspace) return null;
+
+    // Unlike timer snapshots, a turn snapshot must not be dropped because another capture is running
+    while (isCapturing.value) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+
+    const prompt = turnInfo.prompt.replace(/\s+/g, ' ').trim();
+    const label = prompt ? (prompt.length > 60 ? `${prompt.slice(0, 60)}…` : prompt) : turnInfo.instanceName || 'Claude turn';
+    return captureSnapshot(
+      `${phase === 'before' ? 'Before' : 'After'} Claude: ${label}`,
+      'auto-claude-turn',
+      { ...turnInfo, phase }
+    );
+  }
+
+  /**
+   * Undo one Claude turn by restoring the snapshot taken right before it
+   */
+  async function rollbackClaudeTurn(turnId: string) {
+    const before = snapshots.value.find(s => s.claudeTurn?.turnId === turnId && s.claudeTurn.phase === 'before');
+    if (!before) {
+      throw new Error('No snapshot was taken before this Claude turn');
+    }
+    return restoreSnapshot(before.id, { restoreIdeState: false });
+  }
+
   async function addTag(snapshotId: string, tag: string) {
     const snapshot = snapshots.value.find(s => s.id === snapshotId);
     if (snapshot && !snapshot.tags?.includes(tag)) {
@@ -698,10 +778,11 @@ export const useSnapshotsStore = defineStore('snapshots', () => {
           const serializableConfig = {
             maxSnapshots: config.value.maxSnapshots,
             maxSizeMb: config.value.maxSizeMb,
-            autoCleanupDays: config.value.autoCleanupDays,
+            retention: { ...config.value.retention },
             autoSnapshotInterval: config.value.autoSnapshotInterval,
             enableAutoSnapshots: config.value.enableAutoSnapshots,
-            enableClaudePromptSnapshots: config.value.enableClaudePromptSnapshots
+            enableClaudePromptSnapshots: config.value.enableClaudePromptSnapshots,
+            enableClaudeTurnSnapshots: config.value.enableClaudeTurnSnapshots
           };
           await window.electronAPI.store.set(key, serializableConfig);
         }
@@ -720,7 +801,14 @@ export const useSnapshotsStore = defineStore('snapshots', () => {
           const key = `snapshots-config-${workspacePath.replace(/[^a-zA-Z0-9]/g, '_')}`;
           const savedConfig = await window.electronAPI.store.get(key);
           if (savedConfig) {
-            config.value = { ...config.value, ...savedConfig };
+            // Configs saved before retention tiers only had a day cutoff
+            const { autoCleanupDays, ...rest } = savedConfig;
+            const retention = {
+              ...config.value.retention,
+              ...(autoCleanupDays ? { keepDailyDays: autoCleanupDays } : {}),
+              ...(rest.retention || {})
+            };
+            config.value = { ...config.value, ...rest, retention };
           }
         }
       } catch (error) {
@@ -832,6 +920,7 @@ export const useSnapshotsStore = defineStore('snapshots', () => {
     lastSnapshotTime,
     selectedSnapshotId,
     config,
+    lastGarbageCollection,
     
     // Computed
     sortedSnapshots,
@@ -846,7 +935,11 @@ export const useSnapshotsStore = defineStore('snapshots', () => {
     deleteSnapshot,
     loadSnapshots,
     cleanupSnapshots,
+    loadStorageInfo,
     compareSnapshots,
+    compareSnapshotTrees,
+    captureClaudeTurnSnapshot,
+    rollbackClaudeTurn,
     addTag,
     removeTag,
     startAutoSnapshots,
@@ -3,7 +3,7 @@ import { ref, computed } from 'vue';
 
 export interface GitFile {
   path: string;
-  status: 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked';
+  status: 'modified' | 'added' | 'deleted' | 'renamed' | 'untracked' | 'conflicted';
   staged: boolean;
   oldPath?: string; // For renamed files
 }
@@ -28,6 +28,15 @@ export interface RemoteInfo {
   url: string;
 }
 
+// Versions of an unmerged file; a side is null when it added or deleted the file
+export interface ConflictVersions {
+  base: string | null;
+  ours: string | null;
+  theirs: string | null;
+  // Working copy, with conflict markers until resolved
+  current: string | null;
+}
+
 export const useSourceControlStore = defineStore('source-control', () => {
   // State
   const initialized = ref(false);
@@ -42,6 +51,7 @@ export const useSourceControlStore = defineStore('source-control', () => {
   const untrackedFiles = ref<GitFile[]>([]);
   const deletedFiles = ref<GitFile[]>([]);
   const renamedFiles = ref<GitFile[]>([]);
+  const conflictedFiles = ref<GitFile[]>([]);
   
   // Commit info
   const ahead = ref(0);
@@ -63,11 +73,16 @@ export const useSourceControlStore = defineStore('source-control', () => {
     modifiedFiles.value.length > 0 || 
     untrackedFiles.value.length > 0 ||
     deletedFiles.value.length > 0 ||
-    renamedFiles.value.length > 0
+    renamedFiles.value.length > 0 ||
+    conflictedFiles.value.length > 0
   );
   
+  const hasConflicts = computed(() => conflictedFiles.value.length > 0);
+  
+  // Git refuses to commit while any path is still unmerged
   const canCommit = computed(() => 
     stagedFiles.value.length > 0 && 
+    !hasConflicts.value &&
     commitMessage.value.trim().length > 0
   );
   
@@ -249,7 +264,17 @@ export const useSourceControlStore = defineStore('source-control', () => {
       untrackedFiles.value = [];
       deletedFiles.value = [];
       renamedFiles.value = [];
+      conflictedFiles.value = [];
       
+      // Process unmerged files; they are listed only as conflicts until resolved
+      const conflictedPaths = new Set<string>();
+      if (status.conflicted && status.conflicted.length > 0) {
+        status.conflicted.forEach((file: any) => {
+          const filePath = typeof file === 'string' ? file : file.path;
+          conflictedPaths.add(filePath);
+          conflictedFiles.value.push({ path: filePath, status: 'conflicted', staged: false });
+        });
+      }
       
       // Process staged files
       if (status.staged && status.staged.length > 0) {
@@ -257,6 +282,7 @@ export const useSourceControlStore = defineStore('source-control', () => {
           // Handle both string and object formats
           const filePath = typeof file === 'string' ? file : file.path;
           const fileStatus = typeof file === 'object' ? file.status : 'modified';
+          if (conflictedPaths.has(filePath)) return;
           
           stagedFiles.value.push({ 
             path: filePath, 
@@ -280,7 +306,7 @@ export const useSourceControlStore = defineStore('source-control', () => {
             return stagePath === filePath;
           });
           
-          if (!isStaged) {
+          if (!isStaged && !conflictedPaths.has(filePath)) {
             modifiedFiles.value.push({ path: filePath, status: 'modified', staged: false });
           }
         });
@@ -300,7 +326,7 @@ export const useSourceControlStore = defineStore('source-control', () => {
             return stagePath === filePath;
           });
           
-          if (!isStaged) {
+          if (!isStaged && !conflictedPaths.has(filePath)) {
             deletedFiles.value.push({ path: filePath, status: 'deleted', staged: false });
           }
         });
@@ -617,6 +643,8 @@ export const useSourceControlStore = defineStore('source-control', () => {
           await refreshHistory();
         } else if (result.error) {
           lastError.value = result.error;
+          // A pull that stops on conflicts fails but leaves unmerged files to resolve
+          await refreshStatus();
         }
       } else {
         // Desktop mode
@@ -626,6 +654,8 @@ export const useSourceControlStore = defineStore('source-control', () => {
           await refreshHistory();
         } else if (result.error) {
           lastError.value = result.error;
+          // A pull that stops on conflicts fails but leaves unmerged files to resolve
+          await refreshStatus();
         }
       }
     } finally {
@@ -801,6 +831,66 @@ export const useSourceControlStore = defineStore('source-control', () => {
     }
   }
   
+  async function getConflictVersions(file: string): Promise<ConflictVersions | null> {
+    const isRemoteMode = !window.electronAPI;
+    
+    if (isRemoteMode) {
+      // Remote mode - use API
+      const params = new URLSearchParams({ file });
+      const response = await window.fetch(`/api/git/conflict?${params}`);
+      const result = await response.json();
+      
+      if (result.success) {
+        return result.data;
+      } else if (result.error) {
+        lastError.value = result.error;
+      }
+      return null;
+    } else {
+      // Desktop mode
+      const result = await window.electronAPI.git.getConflictVersions(file);
+      if (result.success) {
+        return result.data;
+      } else if (result.error) {
+        lastError.value = result.error;
+      }
+      return null;
+    }
+  }
+  
+  // Write the resolved content and stage it; null resolves the conflict by deleting the file
+  async function resolveConflict(file: string, content: string | null): Promise<boolean> {
+    lastError.value = null;
+    
+    const isRemoteMode = !window.electronAPI;
+    
+    try {
+      let result;
+      if (isRemoteMode) {
+        // Remote mode - use API
+        const response = await window.fetch('/api/git/conflict', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ file, content })
+        });
+        result = await response.json();
+      } else {
+        // Desktop mode
+        result = await window.electronAPI.git.resolveConflict(file, content);
+      }
+      
+      if (result.success) {
+        await refreshStatus();
+        return true;
+      }
+      lastError.value = result.error || 'Failed to resolve conflict';
+      return false;
+    } catch (error) {
+      lastError.value = error instanceof Error ? error.message : 'Failed to resolve conflict';
+      return false;
+    }
+  }
+  
   function clearState() {
     currentBranch.value = '';
     branches.value = [];
@@ -810,6 +900,7 @@ export const useSourceControlStore = defineStore('source-control', () => {
     untrackedFiles.value = [];
     deletedFiles.value = [];
     renamedFiles.value = [];
+    conflictedFiles.value = [];
     ahead.value = 0;
     behind.value = 0;
     tracking.value = null;
@@ -945,6 +1036,7 @@ export const useSourceControlStore = defineStore('source-control', () => {
     untrackedFiles,
     deletedFiles,
     renamedFiles,
+    conflictedFiles,
     ahead,
     behind,
     tracking,
@@ -958,6 +1050,7 @@ export const useSourceControlStore = defineStore('source-control', () => {
     
     // Computed
     hasChanges,
+    hasConflicts,
     canCommit,
     totalChanges,
     allFiles,
@@ -983,6 +1076,8 @@ export const useSourceControlStore = defineStore('source-control', () => {
     discardChanges,
     getDiff,
     getStagedDiff,
+    getConflictVersions,
+    resolveConflict,
     clearState,
     selectFile,
     clearSelection,
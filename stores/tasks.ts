@@ -1,4 +1,11 @@
 import { defineStore } from 'pinia';
+import { getOpenBlockers, wouldCreateDependencyCycle, wouldCreateParentCycle } from '~/electron/task-relations';
+import {
+  formatTasksMarkdown,
+  parseTasksMarkdown,
+  resolveTaskRelations,
+  type PendingTaskRelations
+} from '~/electron/tasks-markdown';
 
 // Simple path joining for browser context
 const joinPath = (...parts: string[]) => {
@@ -22,8 +29,97 @@ interface SimpleTask {
   description?: string;
   filesModified?: string[]; // Deprecated - kept for backward compatibility
   resources?: ResourceReference[]; // New field for linked resources
+  blockedBy?: string[]; // IDs of tasks that must be completed first
+  blocks?: string[]; // IDs of tasks waiting on this one
+  parentId?: string; // ID of the parent task for sub-tasks
+  claudeTodo?: ClaudeTodoLink; // Set when the task mirrors a Claude TodoWrite entry
 }
 
+// Link between a Kanban task and an entry of a Claude session's TodoWrite list
+interface ClaudeTodoLink {
+  sessionId: string;
+  key: string; // Stable key of the todo within the session
+}
+
+// Entry of Claude's native TodoWrite list
+export interface ClaudeTodo {
+  id?: string;
+  content: string;
+  status: string;
+  priority?: string;
+  activeForm?: string;
+}
+
+export interface ClaudeTodosUpdate {
+  instanceId: string;
+  sessionId: string;
+  todos: ClaudeTodo[];
+}
+
+// Todo state as Claude sees it; the last state both sides agreed on is the merge base
+interface ClaudeTodoSnapshot {
+  content: string;
+  status: 'pending' | 'in_progress' | 'completed';
+  priority: SimpleTask['priority'];
+  activeForm?: string;
+}
+
+// A todo edited on the board and by Claude since the last sync
+export interface TodoSyncConflict {
+  id: string;
+  sessionId: string;
+  key: string;
+  taskId?: string;
+  board: ClaudeTodoSnapshot | null; // null when the task was deleted on the board
+  claude: ClaudeTodoSnapshot | null; // null when Claude removed the todo
+  detectedAt: Date;
+}
+
+const toClaudeStatus = (status: string): ClaudeTodoSnapshot['status'] => {
+  switch (status) {
+    case 'in_progress': return 'in_progress';
+    case 'completed': return 'completed';
+    default: return 'pending'; // Claude has no backlog
+  }
+};
+
+const toPriority = (priority?: string): SimpleTask['priority'] => {
+  switch (priority) {
+    case 'high': return 'high';
+    case 'low': return 'low';
+    default: return 'medium';
+  }
+};
+
+const todoToSnapshot = (todo: ClaudeTodo): ClaudeTodoSnapshot => ({
+  content: todo.content.trim(),
+  status: toClaudeStatus(todo.status),
+  priority: toPriority(todo.priority),
+  activeForm: todo.activeForm
+});
+
+const taskToSnapshot = (task: SimpleTask, activeForm?: string): ClaudeTodoSnapshot => ({
+  content: task.content.trim(),
+  status: toClaudeStatus(task.status),
+  priority: task.priority,
+  activeForm
+});
+
+const sameSnapshot = (a: ClaudeTodoSnapshot, b: ClaudeTodoSnapshot) =>
+  a.content === b.content && a.status === b.status && a.priority === b.priority;
+
+// Small stable hash so todos without an id still get a stable key
+const hashContent = (content: string) => {
+  let hash = 5381;
+  for (let i = 0; i < content.length; i++) {
+    hash = ((hash << 5) + hash + content.charCodeAt(i)) >>> 0;
+  }
+  return hash.toString(36);
+};
+
+// Pending write-backs per Claude session
+const claudePushTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
 // Import type from prompt-engineering store
 interface ResourceReference {
   type: 'file' | 'knowledge' | 'hook' | 'mcp' | 'command' | 'task';
@@ -40,7 +136,9 @@ export const useTasksStore = defineStore('tasks', {
     projectPath: '',
     isAutoSaveEnabled: true,
     lastSyncedWithClaude: null as Date | null,
-    claudeNativeTodos: [] as Array<{content: string, status: string, priority: string, id: string}>,
+    claudeSessions: {} as Record<string, string>, // Claude session ID -> instance ID
+    claudeTodoBase: {} as Record<string, Record<string, ClaudeTodoSnapshot>>, // session -> todo key -> last synced state
+    todoConflicts: [] as TodoSyncConflict[],
     isImportingFromFile: false,
     isInitialized: false
   }),
@@ -73,7 +171,22 @@ export const useTasksStore = defineStore('tasks', {
     tasksMarkdownPath: (state) => {
       if (!state.projectPath) return null;
       return joinPath(state.projectPath, 'TASKS.md');
-    }
+    },
+
+    getTaskById: (state) => (id: string) => state.tasks.find(task => task.id === id),
+
+    // Blockers that are not completed yet
+    getBlockers: (state) => (id: string) => {
+      const task = state.tasks.find(t => t.id === id);
+      return task ? getOpenBlockers(task, state.tasks) : [];
+    },
+
+    isTaskBlocked: (state) => (id: string) => {
+      const task = state.tasks.find(t => t.id === id);
+      return !!task && getOpenBlockers(task, state.tasks).length > 0;
+    },
+
+    getSubtasks: (state) => (id: string) => state.tasks.filter(task => task.parentId === id)
   },
 
   actions: {
@@ -132,6 +245,11 @@ export const useTasksStore = defineStore('tasks', {
           updatedAt: new Date()
         };
         
+        const link = this.tasks[index].claudeTodo;
+        if (link) {
+          this.scheduleClaudeTodoPush(link.sessionId);
+        }
+        
         if (this.isAutoSaveEnabled) {
           this.saveTasksToProject();
         }
@@ -142,7 +260,17 @@ export const useTasksStore = defineStore('tasks', {
     deleteTask(id: string) {
       const index = this.tasks.findIndex(task => task.id === id);
       if (index !== -1) {
-        this.tasks.splice(index, 1);
+        const [removed] = this.tasks.splice(index, 1);
+        if (removed.claudeTodo) {
+          this.scheduleClaudeTodoPush(removed.claudeTodo.sessionId);
+        }
+        
+        // Detach sub-tasks and drop dependency references to the removed task
+        for (const task of this.tasks) {
+          if (task.parentId === id) task.parentId = undefined;
+          if (task.blockedBy?.includes(id)) task.blockedBy = task.blockedBy.filter(b => b !== id);
+          if (task.blocks?.includes(id)) task.blocks = task.blocks.filter(b => b !== id);
+        }
         
         if (this.isAutoSaveEnabled) {
           this.saveTasksToProject();
@@ -150,73 +278,344 @@ export const useTasksStore = defineStore('tasks', {
       }
     },
 
-    // Move task to new status
-    moveTask(taskId: string, newStatus: SimpleTask['status']) {
+    // Move task to new status. Blocked tasks cannot be started.
+    moveTask(taskId: string, newStatus: SimpleTask['status']): boolean {
+      if (newStatus === 'in_progress' && this.isTaskBlocked(taskId)) {
+        return false;
+      }
+      
       this.updateTask(taskId, { status: newStatus });
+      return true;
+    },
+
+    // Declare that `taskId` cannot start until `blockerId` is completed
+    addDependency(taskId: string, blockerId: string): boolean {
+      const task = this.tasks.find(t => t.id === taskId);
+      const blocker = this.tasks.find(t => t.id === blockerId);
+      if (!task || !blocker) return false;
+      if (wouldCreateDependencyCycle(taskId, blockerId, this.tasks)) return false;
+      
+      if (!task.blockedBy?.includes(blockerId)) {
+        task.blockedBy = [...(task.blockedBy || []), blockerId];
+      }
+      if (!blocker.blocks?.includes(taskId)) {
+        blocker.blocks = [...(blocker.blocks || []), taskId];
+      }
+      task.updatedAt = new Date();
+      
+      if (this.isAutoSaveEnabled) {
+        this.saveTasksToProject();
+      }
+      return true;
+    },
+
+    removeDependency(taskId: string, blockerId: string) {
+      const task = this.tasks.find(t => t.id === taskId);
+      const blocker = this.tasks.find(t => t.id === blockerId);
+      if (task) {
+        task.blockedBy = (task.blockedBy || []).filter(id => id !== blockerId);
+        task.updatedAt = new Date();
+      }
+      if (blocker) {
+        blocker.blocks = (blocker.blocks || []).filter(id => id !== taskId);
+      }
+      
+      if (this.isAutoSaveEnabled) {
+        this.saveTasksToProject();
+      }
     },
 
-    // Sync with Claude's native TodoWrite
-    syncWithClaudeNative(claudeTodos: Array<{content: string, status: string, priority: string, id: string}>) {
-      this.claudeNativeTodos = claudeTodos;
+    // Replace the full blocker list of a task, skipping blockers that would form a cycle
+    setDependencies(taskId: string, blockerIds: string[]): string[] {
+      const task = this.tasks.find(t => t.id === taskId);
+      if (!task) return [];
+      
+      const previous = this.isAutoSaveEnabled;
+      this.isAutoSaveEnabled = false;
+      const rejected: string[] = [];
       
-      // Convert Claude's native todos to our format
-      const claudeToSimpleStatus = (status: string): SimpleTask['status'] => {
-        switch (status) {
-          case 'in_progress': return 'in_progress';
-          case 'completed': return 'completed';
-          default: return 'pending';
+      try {
+        for (const blockerId of task.blockedBy || []) {
+          if (!blockerIds.includes(blockerId)) this.removeDependency(taskId, blockerId);
+        }
+        for (const blockerId of blockerIds) {
+          if (!this.addDependency(taskId, blockerId)) rejected.push(blockerId);
         }
+      } finally {
+        this.isAutoSaveEnabled = previous;
+      }
+      
+      if (this.isAutoSaveEnabled) {
+        this.saveTasksToProject();
+      }
+      return rejected;
+    },
+
+    // Nest a task under a parent (pass null to make it top-level again)
+    setParent(taskId: string, parentId: string | null): boolean {
+      const task = this.tasks.find(t => t.id === taskId);
+      if (!task) return false;
+      if (parentId) {
+        if (!this.tasks.some(t => t.id === parentId)) return false;
+        if (wouldCreateParentCycle(taskId, parentId, this.tasks)) return false;
+      }
+      
+      this.updateTask(taskId, { parentId: parentId || undefined });
+      return true;
+    },
+
+    // Merge a Claude session's TodoWrite list into the board (three-way, against the last synced state)
+    syncWithClaudeNative(update: ClaudeTodosUpdate) {
+      const { instanceId, sessionId, todos } = update;
+      this.claudeSessions[sessionId] = instanceId;
+      
+      const base = this.claudeTodoBase[sessionId] || {};
+      const nextBase: Record<string, ClaudeTodoSnapshot> = {};
+      const seen = new Set<string>();
+      let needsPush = false;
+      
+      const linkedTask = (key: string) =>
+        this.tasks.find(t => t.claudeTodo?.sessionId === sessionId && t.claudeTodo.key === key);
+      
+      // Prefer Claude's own id, then a base entry or linked task with the same content
+      const keyFor = (todo: ClaudeTodo, remote: ClaudeTodoSnapshot) => {
+        if (todo.id) return String(todo.id);
+        const byBase = Object.entries(base).find(([key, snap]) => !seen.has(key) && snap.content === remote.content);
+        if (byBase) return byBase[0];
+        const byTask = this.tasks.find(t =>
+          t.claudeTodo?.sessionId === sessionId && !seen.has(t.claudeTodo.key) && t.content.trim() === remote.content
+        );
+        if (byTask) return byTask.claudeTodo!.key;
+        let key = `h${hashContent(remote.content)}`;
+        while (seen.has(key)) key += '_';
+        return key;
       };
       
-      const claudeToSimplePriority = (priority: string): SimpleTask['priority'] => {
-        switch (priority) {
-          case 'high': return 'high';
-          case 'low': return 'low';
-          default: return 'medium';
+      for (const todo of todos) {
+        if (!todo?.content) continue;
+        const remote = todoToSnapshot(todo);
+        const key = keyFor(todo, remote);
+        seen.add(key);
+        
+        const previous = base[key];
+        const task = linkedTask(key);
+        
+        if (!task) {
+          if (previous && sameSnapshot(previous, remote)) {
+            // Deleted on the board while Claude left it alone - the deletion wins
+            needsPush = true;
+          } else if (previous) {
+            this.recordTodoConflict(sessionId, key, undefined, null, remote);
+            nextBase[key] = previous;
+          } else {
+            this.tasks.push({
+              id: `claude-${sessionId.slice(0, 8)}-${key}`,
+              content: remote.content,
+              status: remote.status,
+              priority: remote.priority,
+              createdAt: new Date(),
+              updatedAt: new Date(),
+              assignee: 'claude',
+              type: 'feature',
+              description: '',
+              filesModified: [],
+              resources: [],
+              claudeTodo: { sessionId, key }
+            });
+            nextBase[key] = remote;
+          }
+          continue;
         }
-      };
+        
+        const local = taskToSnapshot(task, remote.activeForm);
+        if (!previous || sameSnapshot(local, previous) || sameSnapshot(local, remote)) {
+          // Only Claude changed it (or both agree)
+          this.applyTodoSnapshot(task, remote);
+          nextBase[key] = remote;
+        } else if (sameSnapshot(remote, previous)) {
+          // Only the board changed it - keep the board version and send it back
+          nextBase[key] = previous;
+          needsPush = true;
+        } else {
+          this.recordTodoConflict(sessionId, key, task.id, local, remote);
+          nextBase[key] = previous;
+        }
+      }
       
-      // Update existing tasks or add new ones
-      for (const claudeTodo of claudeTodos) {
-        const existing = this.tasks.find(t => t.id === claudeTodo.id);
-        if (existing) {
-          // Update existing task
-          this.updateTask(claudeTodo.id, {
-            content: claudeTodo.content,
-            status: claudeToSimpleStatus(claudeTodo.status),
-            priority: claudeToSimplePriority(claudeTodo.priority)
-          });
+      // Todos Claude dropped from its list
+      for (const [key, previous] of Object.entries(base)) {
+        if (seen.has(key)) continue;
+        const task = linkedTask(key);
+        if (!task) continue;
+        
+        if (sameSnapshot(taskToSnapshot(task), previous)) {
+          this.tasks = this.tasks.filter(t => t.id !== task.id);
+        } else {
+          this.recordTodoConflict(sessionId, key, task.id, taskToSnapshot(task), null);
+          nextBase[key] = previous;
+        }
+      }
+      
+      this.claudeTodoBase[sessionId] = nextBase;
+      this.lastSyncedWithClaude = new Date();
+      
+      if (needsPush) {
+        this.scheduleClaudeTodoPush(sessionId);
+      }
+      
+      if (this.isAutoSaveEnabled) {
+        this.saveTasksToProject();
+      }
+    },
+
+    applyTodoSnapshot(task: SimpleTask, snapshot: ClaudeTodoSnapshot) {
+      // Keep a backlog task in the backlog while Claude still considers it pending
+      const status = task.status === 'backlog' && snapshot.status === 'pending' ? 'backlog' : snapshot.status;
+      if (task.content !== snapshot.content || task.status !== status || task.priority !== snapshot.priority) {
+        task.content = snapshot.content;
+        task.status = status;
+        task.priority = snapshot.priority;
+        task.updatedAt = new Date();
+      }
+    },
+
+    recordTodoConflict(
+      sessionId: string,
+      key: string,
+      taskId: string | undefined,
+      board: ClaudeTodoSnapshot | null,
+      claude: ClaudeTodoSnapshot | null
+    ) {
+      // Replace an older conflict on the same todo
+      this.todoConflicts = this.todoConflicts.filter(c => !(c.sessionId === sessionId && c.key === key));
+      this.todoConflicts.push({
+        id: `conflict-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
+        sessionId,
+        key,
+        taskId,
+        board,
+        claude,
+        detectedAt: new Date()
+      });
+    },
+
+    // Settle a conflict by keeping either the board version or Claude's version
+    resolveTodoConflict(conflictId: string, keep: 'board' | 'claude') {
+      const conflict = this.todoConflicts.find(c => c.id === conflictId);
+      if (!conflict) return;
+      
+      const { sessionId, key } = conflict;
+      const base = { ...(this.claudeTodoBase[sessionId] || {}) };
+      const task = this.tasks.find(t => t.claudeTodo?.sessionId === sessionId && t.claudeTodo.key === key);
+      
+      if (keep === 'claude') {
+        if (!conflict.claude) {
+          if (task) this.tasks = this.tasks.filter(t => t.id !== task.id);
+          delete base[key];
+        } else if (task) {
+          this.applyTodoSnapshot(task, conflict.claude);
+          base[key] = conflict.claude;
         } else {
-          // Add new task from Claude
-          const task: SimpleTask = {
-            id: claudeTodo.id,
-            content: claudeTodo.content,
-            status: claudeToSimpleStatus(claudeTodo.status),
-            priority: claudeToSimplePriority(claudeTodo.priority),
+          this.tasks.push({
+            id: `claude-${sessionId.slice(0, 8)}-${key}`,
+            content: conflict.claude.content,
+            status: conflict.claude.status,
+            priority: conflict.claude.priority,
             createdAt: new Date(),
             updatedAt: new Date(),
             assignee: 'claude',
             type: 'feature',
             description: '',
             filesModified: [],
-            resources: []
-          };
-          this.tasks.push(task);
+            resources: [],
+            claudeTodo: { sessionId, key }
+          });
+          base[key] = conflict.claude;
         }
+      } else if (conflict.claude) {
+        // Make the base match Claude so the board version is detected as the newer edit
+        base[key] = conflict.claude;
+      } else {
+        delete base[key];
       }
       
-      // Remove tasks that are no longer in Claude's list
-      this.tasks = this.tasks.filter(task => 
-        claudeTodos.some(ct => ct.id === task.id) || task.assignee !== 'claude'
-      );
-      
-      this.lastSyncedWithClaude = new Date();
+      this.claudeTodoBase[sessionId] = base;
+      this.todoConflicts = this.todoConflicts.filter(c => c.id !== conflictId);
+      this.scheduleClaudeTodoPush(sessionId);
       
       if (this.isAutoSaveEnabled) {
         this.saveTasksToProject();
       }
     },
 
+    // Debounced write-back of board changes to a Claude session
+    scheduleClaudeTodoPush(sessionId: string) {
+      const pending = claudePushTimers.get(sessionId);
+      if (pending) clearTimeout(pending);
+      
+      claudePushTimers.set(sessionId, setTimeout(() => {
+        claudePushTimers.delete(sessionId);
+        this.pushTodosToClaude(sessionId);
+      }, 500));
+    },
+
+    scheduleClaudeTodoPushFor(tasks: SimpleTask[]) {
+      const sessions = new Set(tasks.map(t => t.claudeTodo?.sessionId).filter((id): id is string => !!id));
+      sessions.forEach(sessionId => this.scheduleClaudeTodoPush(sessionId));
+    },
+
+    // Write the board's view of a session back to Claude's todo file
+    async pushTodosToClaude(sessionId: string) {
+      const instanceId = this.claudeSessions[sessionId];
+      if (!instanceId || !window.electronAPI?.claude?.todos) return;
+      
+      const base = this.claudeTodoBase[sessionId] || {};
+      const conflicts = new Map(
+        this.todoConflicts.filter(c => c.sessionId === sessionId).map(c => [c.key, c] as const)
+      );
+      const nextBase: Record<string, ClaudeTodoSnapshot> = {};
+      const todos: ClaudeTodo[] = [];
+      const toTodo = (key: string, snapshot: ClaudeTodoSnapshot): ClaudeTodo => ({
+        id: key,
+        content: snapshot.content,
+        status: snapshot.status,
+        priority: snapshot.priority,
+        ...(snapshot.activeForm ? { activeForm: snapshot.activeForm } : {})
+      });
+      
+      for (const task of this.tasks) {
+        const link = task.claudeTodo;
+        if (link?.sessionId !== sessionId || conflicts.has(link.key)) continue;
+        
+        const snapshot = taskToSnapshot(task, base[link.key]?.activeForm);
+        nextBase[link.key] = snapshot;
+        todos.push(toTodo(link.key, snapshot));
+      }
+      
+      // Leave conflicted todos as Claude has them until the user decides
+      for (const [key, conflict] of conflicts) {
+        if (base[key]) nextBase[key] = base[key];
+        if (conflict.claude) todos.push(toTodo(key, conflict.claude));
+      }
+      
+      const unchanged = Object.keys(nextBase).length === Object.keys(base).length &&
+        Object.entries(nextBase).every(([key, snap]) => base[key] && sameSnapshot(base[key], snap));
+      if (unchanged) return;
+      
+      try {
+        const result = await window.electronAPI.claude.todos.write(instanceId, todos);
+        if (result.success) {
+          this.claudeTodoBase[sessionId] = nextBase;
+          this.lastSyncedWithClaude = new Date();
+          this.saveTasksToProjectJSON();
+        } else {
+          console.error('Failed to write todos back to Claude:', result.error);
+        }
+      } catch (error) {
+        console.error('Failed to write todos back to Claude:', error);
+      }
+    },
+
     // Load tasks from project
     async loadTasksFromProject() {
       if (!this.projectPath) return;
@@ -237,7 +636,8 @@ export const useTasksStore = defineStore('tasks', {
             createdAt: new Date(task.createdAt),
             updatedAt: new Date(task.updatedAt)
           }));
-          
+          this.claudeSessions = data.claudeSessions || {};
+          this.claudeTodoBase = data.claudeTodoBase || {};
         }
       } catch (error) {
         
@@ -280,6 +680,8 @@ export const useTasksStore = defineStore('tasks', {
         const data = {
           tasks: this.tasks,
           lastSyncedWithClaude: this.lastSyncedWithClaude,
+          claudeSessions: this.claudeSessions,
+          claudeTodoBase: this.claudeTodoBase,
           lastUpdated: new Date()
         };
         await window.electronAPI.fs.writeFile(filePath, JSON.stringify(data, null, 2));
@@ -292,83 +694,7 @@ export const useTasksStore = defineStore('tasks', {
     async updateTasksMarkdown() {
       if (!this.tasksMarkdownPath) return;
       
-      const formatTask = (task: SimpleTask, isCompleted = false) => {
-        const checkbox = isCompleted ? '[x]' : '[ ]';
-        const title = isCompleted ? `~~${task.content}~~` : `**${task.content}**`;
-        const emoji = task.status === 'in_progress' ? ' ⏳' : '';
-        
-        let text = `- ${checkbox} ${title}${emoji}`;
-        
-        // Add identifier if present
-        if (task.identifier) {
-          const id = isCompleted ? `~~ID: ${task.identifier}~~` : `ID: ${task.identifier}`;
-          text += `\n  - ${id}`;
-        }
-        
-        // Add structured metadata
-        const assignee = isCompleted ? `~~Assignee: ${task.assignee || 'Claude'}~~` : `Assignee: ${task.assignee || 'Claude'}`;
-        const type = isCompleted ? `~~Type: ${task.type || 'feature'}~~` : `Type: ${task.type || 'feature'}`;
-        const priority = isCompleted ? `~~Priority: ${task.priority}~~` : `Priority: ${task.priority}`;
-        
-        text += `\n  - ${assignee}`;
-        text += `\n  - ${type}`;
-        text += `\n  - ${priority}`;
-        
-        if (task.description) {
-          const desc = isCompleted ? `~~Description: ${task.description}~~` : `Description: ${task.description}`;
-          text += `\n  - ${desc}`;
-        }
-        
-        // Format resources if present
-        if (task.resources && task.resources.length > 0) {
-          const resourceTexts = task.resources.map(r => {
-            if (r.type === 'task') {
-              return `Task: ${r.name}`;
-            } else if (r.type === 'file') {
-              return `File: ${r.name}`;
-            } else {
-              return `${r.type}: ${r.name}`;
-            }
-          });
-          const resourcesStr = resourceTexts.slice(0, 3).join(', ') + (resourceTexts.length > 3 ? '...' : '');
-          const resourcesText = isCompleted ? `~~Resources: ${resourcesStr}~~` : `Resources: ${resourcesStr}`;
-          text += `\n  - ${resourcesText}`;
-        }
-        
-        // Keep filesModified for backward compatibility but show only if no resources
-        if (!task.resources?.length && task.filesModified && task.filesModified.length > 0) {
-          const files = task.filesModified.slice(0, 3).join(', ') + (task.filesModified.length > 3 ? '...' : '');
-          const filesText = isCompleted ? `~~Files: ${files}~~` : `Files: ${files}`;
-          text += `\n  - ${filesText}`;
-        }
-        
-        return text;
-      };
-      
-      const markdown = `# Project Tasks
-
-*This file is synced with Clode Studio and Claude's native TodoWrite system.*  
-*Last updated: ${new Date().toISOString()}*
-
-## Backlog (${this.backlogTasks.length})
-
-${this.backlogTasks.map(task => formatTask(task)).join('\n')}
-
-## To Do (${this.todoTasks.length})
-
-${this.todoTasks.map(task => formatTask(task)).join('\n')}
-
-## In Progress (${this.inProgressTasks.length})
-
-${this.inProgressTasks.map(task => formatTask(task)).join('\n')}
-
-## Completed (${this.completedTasks.length})
-
-${this.completedTasks.map(task => formatTask(task, true)).join('\n')}
-
----
-*To update tasks, use the Kanban board in Clode Studio, ask Claude to modify this file, or use Claude's native TodoWrite system.*
-`;
+      const markdown = formatTasksMarkdown(this.tasks);
       
       // Skip if not in desktop mode (remote mode saves through service layer)
       if (!window.electronAPI?.fs) {
@@ -384,116 +710,14 @@ ${this.completedTasks.map(task => formatTask(task, true)).join('\n')}
 
     // Import tasks from TASKS.md or Claude output
     importTasksFromText(text: string): number {
-      const lines = text.split('\n');
-      const newTasks: Partial<SimpleTask>[] = [];
-      
-      let currentSection: 'backlog' | 'pending' | 'in_progress' | 'completed' | null = null;
-      let currentTask: Partial<SimpleTask> | null = null;
-      
-      for (let i = 0; i < lines.length; i++) {
-        const line = lines[i];
-        
-        // Detect sections
-        if (line.includes('## Backlog')) {
-          currentSection = 'backlog';
-        } else if (line.includes('## To Do')) {
-          currentSection = 'pending';
-        } else if (line.includes('## In Progress')) {
-          currentSection = 'in_progress';
-        } else if (line.includes('## Completed') || line.includes('## Done')) {
-          currentSection = 'completed';
-        }
-        // Parse task header
-        else if (currentSection && line.match(/^[\s-]*\[[ x]\]/)) {
-          // Save previous task if exists
-          if (currentTask && currentTask.content) {
-            newTasks.push(currentTask);
-          }
-          
-          // Start new task
-          let taskLine = line.replace(/^[\s-]*\[[ x]\]\s*/, '');
-          const content = taskLine.replace(/\*\*/g, '').replace(/~~/g, '').replace(/⏳/g, '').trim();
-          
-          currentTask = {
-            content,
-            status: currentSection,
-            priority: 'medium',
-            assignee: 'claude',
-            type: 'feature'
-          };
-        }
-        // Parse task metadata
-        else if (currentTask && line.match(/^\s*-\s*/)) {
-          const metaLine = line.replace(/^\s*-\s*/, '').replace(/~~/g, '').trim();
-          
-          if (metaLine.startsWith('ID:')) {
-            currentTask.identifier = metaLine.replace('ID:', '').trim();
-          } else if (metaLine.startsWith('Assignee:')) {
-            const assignee = metaLine.replace('Assignee:', '').trim().toLowerCase();
-            if (assignee === 'user' || assignee === 'claude' || assignee === 'both') {
-              currentTask.assignee = assignee as SimpleTask['assignee'];
-            }
-          } else if (metaLine.startsWith('Type:')) {
-            const type = metaLine.replace('Type:', '').trim().toLowerCase();
-            if (['feature', 'bugfix', 'refactor', 'documentation', 'research'].includes(type)) {
-              currentTask.type = type as SimpleTask['type'];
-            }
-          } else if (metaLine.startsWith('Priority:')) {
-            const priority = metaLine.replace('Priority:', '').trim().toLowerCase();
-            if (priority === 'high' || priority === 'medium' || priority === 'low') {
-              currentTask.priority = priority;
-            }
-          } else if (metaLine.startsWith('Description:')) {
-            currentTask.description = metaLine.replace('Description:', '').trim();
-          } else if (metaLine.startsWith('Resources:')) {
-            // Parse resources string back to array
-            const resourcesStr = metaLine.replace('Resources:', '').trim();
-            currentTask.resources = [];
-            
-            // Split by comma and parse each resource
-            const resourceParts = resourcesStr.split(',').map(r => r.trim()).filter(r => r);
-            for (const part of resourceParts) {
-              // Format is "Type: Name" e.g., "File: src/api.ts" or "Task: AUTH-01"
-              const colonIndex = part.indexOf(':');
-              if (colonIndex > -1) {
-                const type = part.substring(0, colonIndex).trim().toLowerCase();
-                const name = part.substring(colonIndex + 1).trim();
-                
-                // Map to our resource types
-                const typeMap: Record<string, string> = {
-                  'file': 'file',
-                  'task': 'task',
-                  'knowledge': 'knowledge',
-                  'hook': 'hook',
-                  'mcp': 'mcp',
-                  'command': 'command'
-                };
-                
-                if (typeMap[type]) {
-                  currentTask.resources.push({
-                    type: typeMap[type] as any,
-                    id: `${type}-${name}`, // Generate a simple ID
-                    name: name,
-                    metadata: {}
-                  });
-                }
-              }
-            }
-          } else if (metaLine.startsWith('Files:')) {
-            const files = metaLine.replace('Files:', '').trim();
-            currentTask.filesModified = files.split(',').map(f => f.trim()).filter(f => f);
-          }
-        }
-      }
-      
-      // Don't forget the last task
-      if (currentTask && currentTask.content) {
-        newTasks.push(currentTask);
-      }
+      const parsed = parseTasksMarkdown(text);
+      const newTasks = parsed.map(entry => entry.task);
+      const newRelations = parsed.map(entry => entry.relations);
       
       // Add new tasks
       let imported = 0;
-      for (const task of newTasks) {
+      const created: Array<{ task: SimpleTask; relations: PendingTaskRelations }> = [];
+      for (const [index, task] of newTasks.entries()) {
         if (task.content) {
           const newTask: SimpleTask = {
             id: `task-${Date.now()}-${Math.random().toString(36).substr(2, 5)}`,
@@ -507,19 +731,25 @@ ${this.completedTasks.map(task => formatTask(task, true)).join('\n')}
             type: task.type || 'feature',
             description: task.description || '',
             filesModified: task.filesModified || [],
-            resources: task.resources || []
+            resources: task.resources || [],
+            claudeTodo: task.claudeTodo
           };
           
           this.tasks.push(newTask);
+          created.push({ task: newTask, relations: newRelations[index] });
           imported++;
         }
       }
       
+      // Resolve relation references now that every imported task has an ID
+      resolveTaskRelations(created, this.tasks);
+      
       return imported;
     },
 
     // Clear completed tasks
     clearCompleted() {
+      this.scheduleClaudeTodoPushFor(this.tasks.filter(task => task.status === 'completed'));
       this.tasks = this.tasks.filter(task => task.status !== 'completed');
       
       if (this.isAutoSaveEnabled) {
@@ -529,6 +759,7 @@ ${this.completedTasks.map(task => formatTask(task, true)).join('\n')}
 
     // Clear all tasks
     clearAll() {
+      this.scheduleClaudeTodoPushFor(this.tasks);
       this.tasks = [];
       
       if (this.isAutoSaveEnabled) {
@@ -536,6 +767,40 @@ ${this.completedTasks.map(task => formatTask(task, true)).join('\n')}
       }
     },
 
+    // Keep IDs and creation dates stable across TASKS.md re-imports by matching
+    // re-imported tasks to the tasks they replace
+    preserveTaskIds(previousTasks: SimpleTask[]) {
+      const unmatched = [...previousTasks];
+      const idMap = new Map<string, string>();
+      
+      const take = (predicate: (task: SimpleTask) => boolean) => {
+        const index = unmatched.findIndex(predicate);
+        return index === -1 ? undefined : unmatched.splice(index, 1)[0];
+      };
+      
+      for (const task of this.tasks) {
+        const previous =
+          (task.claudeTodo && take(t =>
+            t.claudeTodo?.sessionId === task.claudeTodo!.sessionId && t.claudeTodo.key === task.claudeTodo!.key
+          )) ||
+          (task.identifier && take(t => t.identifier === task.identifier)) ||
+          take(t => t.content === task.content);
+        
+        if (previous) {
+          idMap.set(task.id, previous.id);
+          task.id = previous.id;
+          task.createdAt = previous.createdAt;
+        }
+      }
+      
+      const remap = (id: string) => idMap.get(id) || id;
+      for (const task of this.tasks) {
+        task.blockedBy = task.blockedBy?.map(remap);
+        task.blocks = task.blocks?.map(remap);
+        if (task.parentId) task.parentId = remap(task.parentId);
+      }
+    },
+
     // Import tasks from TASKS.md file content and replace all existing tasks
     importTasksFromFile(fileContent: string): number {
       // Set flag to prevent infinite loop
@@ -543,10 +808,15 @@ ${this.completedTasks.map(task => formatTask(task, true)).join('\n')}
       
       try {
         // Clear all existing tasks first
+        const previousTasks = this.tasks;
         this.tasks = [];
         
         // Import new tasks from file content
         const imported = this.importTasksFromText(fileContent);
+        this.preserveTaskIds(previousTasks);
+        
+        // Push edits made to Claude-linked tasks in TASKS.md back to their sessions
+        this.scheduleClaudeTodoPushFor([...previousTasks, ...this.tasks]);
         
         // Save to project JSON only (not TASKS.md to avoid loop)
         if (this.isAutoSaveEnabled) {
@@ -585,7 +855,10 @@ ${this.completedTasks.map(task => formatTask(task, true)).join('\n')}
                 updatedAt: task.updatedAt || new Date().toISOString(),
                 description: task.description,
                 filesModified: task.filesModified || [],
-                resources: task.resources || []
+                resources: task.resources || [],
+                blockedBy: task.blockedBy || [],
+                blocks: task.blocks || [],
+                parentId: task.parentId
               };
               allTasks.push(simpleTask);
             });
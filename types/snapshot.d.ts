@@ -48,8 +48,23 @@ export interface ClaudeSnapshot {
   
   // Metadata
   sizeKb: number;
-  createdBy: 'manual' | 'auto-branch' | 'auto-timer' | 'auto-event' | 'auto-checkpoint';
+  createdBy: 'manual' | 'auto-branch' | 'auto-timer' | 'auto-event' | 'auto-checkpoint' | 'auto-claude-turn';
   tags?: string[];
+
+  // Claude turn this snapshot brackets (auto-claude-turn snapshots only).
+  // Kept out of tags so turn snapshots still age out under the retention policy.
+  claudeTurn?: ClaudeTurnInfo;
+}
+
+// A Claude turn: every file edit Claude made in answer to one prompt
+export interface ClaudeTurnInfo {
+  turnId: string;
+  phase: 'before' | 'after';
+  instanceId: string;
+  instanceName?: string;
+  prompt: string;
+  files?: string[];               // Files the turn edited ('after' snapshots)
+  toolUses?: number;
 }
 
 // File change tracking
@@ -110,13 +125,24 @@ export interface SnapshotDiff {
   claudeInstancesChanged: boolean;
 }
 
+// Tiered retention: keep everything for a while, then thin out to one snapshot
+// per hour, then one per day, and drop unprotected snapshots after that
+export interface RetentionPolicy {
+  keepAllHours: number;             // Keep every snapshot younger than this
+  keepHourlyDays: number;           // Then keep the newest snapshot per hour
+  keepDailyDays: number;            // Then keep the newest snapshot per day
+  keepTagged: boolean;              // Never remove snapshots with tags
+  keepManual: boolean;              // Never remove manually created snapshots
+}
+
 export interface SnapshotConfig {
   maxSnapshots: number;
   maxSizeMb: number;
-  autoCleanupDays: number;
+  retention: RetentionPolicy;
   autoSnapshotInterval?: number; // milliseconds
   enableAutoSnapshots: boolean;
   enableClaudePromptSnapshots?: boolean; // Auto-snapshot on Claude prompts
+  enableClaudeTurnSnapshots?: boolean;   // Auto-snapshot before and after each Claude turn that edits files
 }
 
 export interface SnapshotQuickAction {
@@ -138,6 +164,42 @@ export interface RestoreOptions {
   restoreIdeState: boolean;          // Whether to restore IDE state
 }
 
+// Full tree comparison between two snapshots, or a snapshot and the working tree
+export interface SnapshotComparisonSide {
+  id: string;                        // Snapshot id or 'working-tree'
+  name: string;
+  timestamp: string;
+}
+
+export interface SnapshotFileComparison {
+  path: string;
+  status: 'added' | 'removed' | 'modified';
+  fromHash?: string;
+  toHash?: string;
+  fromSize: number;
+  toSize: number;
+  isTextFile: boolean;
+  linesAdded: number;
+  linesRemoved: number;
+  patch?: string;                    // Unified diff (text files only)
+  patchOmitted?: boolean;            // Too large to diff, or content missing from storage
+}
+
+export interface SnapshotComparison {
+  from: SnapshotComparisonSide;
+  to: SnapshotComparisonSide;
+  files: SnapshotFileComparison[];
+  summary: {
+    filesAdded: number;
+    filesRemoved: number;
+    filesModified: number;
+    filesUnchanged: number;
+    linesAdded: number;
+    linesRemoved: number;
+    bytesChanged: number;
+  };
+}
+
 // Change analysis for restoration planning
 export interface ChangeAnalysis {
   riskLevel: 'low' | 'medium' | 'high';
@@ -170,4 +232,15 @@ export interface StorageInfo {
   oldestSnapshot: string;           // ISO date string
   newestSnapshot: string;           // ISO date string
   storageDirectory: string;         // Full path to storage
+  lastGarbageCollection?: GarbageCollectionReport;
+}
+
+// Result of a retention + mark-and-sweep pass over the snapshot store
+export interface GarbageCollectionReport {
+  runAt: string;                    // ISO date string
+  snapshotsRemoved: number;
+  contentObjectsRemoved: number;
+  diffObjectsRemoved: number;
+  reclaimedBytes: number;
+  dryRun: boolean;
 }
\ No newline at end of file
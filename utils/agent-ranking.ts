@@ -0,0 +1,83 @@
+/**
+ * Ranking of orchestrated agents for the results board
+ */
+
+export interface AgentDiffStats {
+  filesAdded: number;
+  filesRemoved: number;
+  filesModified: number;
+}
+
+export interface RankableAgent {
+  id: string;
+  status: string;
+  diff?: AgentDiffStats | null;
+  test?: { passed: boolean; timedOut?: boolean } | null;
+}
+
+export interface AgentRanking {
+  agentId: string;
+  rank: number;
+  score: number;
+  reasons: string[];
+}
+
+export function countChangedFiles(diff?: AgentDiffStats | null): number {
+  if (!diff) return 0;
+  return diff.filesAdded + diff.filesRemoved + diff.filesModified;
+}
+
+/**
+ * Rank agents best first: passing tests beat untested results, which beat
+ * failing ones; agents that changed something beat those that didn't; and
+ * among equals the smaller diff wins, since it is easier to review and merge.
+ */
+export function rankAgents(agents: RankableAgent[]): AgentRanking[] {
+  const scored = agents.map(agent => {
+    const reasons: string[] = [];
+    let score = 0;
+
+    if (agent.test) {
+      if (agent.test.passed) {
+        score += 1000;
+        reasons.push('Tests pass');
+      } else {
+        reasons.push(agent.test.timedOut ? 'Tests timed out' : 'Tests fail');
+      }
+    } else {
+      score += 500;
+      reasons.push('Tests not run');
+    }
+
+    const changed = countChangedFiles(agent.diff);
+    if (!agent.diff) {
+      reasons.push('Not compared yet');
+    } else if (changed > 0) {
+      // Fewer changed files score higher, but any change beats none
+      score += 100 + Math.max(0, 99 - changed);
+      reasons.push(`${changed} file${changed === 1 ? '' : 's'} changed`);
+    } else {
+      reasons.push('No changes');
+    }
+
+    if (agent.status === 'failed') {
+      score -= 2000;
+      reasons.push('Agent failed');
+    }
+
+    return { agentId: agent.id, score, reasons };
+  });
+
+  scored.sort((a, b) => b.score - a.score);
+
+  // Agents with equal scores share a rank
+  let rank = 0;
+  let lastScore: number | null = null;
+  return scored.map((entry, index) => {
+    if (entry.score !== lastScore) {
+      rank = index + 1;
+      lastScore = entry.score;
+    }
+    return { ...entry, rank };
+  });
+}
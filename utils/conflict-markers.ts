@@ -0,0 +1,118 @@
+/**
+ * Parsing and resolving the conflict markers git writes into unmerged files
+ */
+
+export interface ConflictBlock {
+  // Character offsets of the whole block, markers included
+  from: number;
+  to: number;
+  // Line numbers (1-based) of the opening, base, separator and closing markers
+  startLine: number;
+  baseLine: number | null;
+  separatorLine: number;
+  endLine: number;
+  ours: string;
+  // Only present in the diff3/zdiff3 conflict styles
+  base: string | null;
+  theirs: string;
+  oursLabel: string;
+  theirsLabel: string;
+}
+
+export type ConflictChoice = 'ours' | 'theirs' | 'both' | 'base';
+
+const OURS_MARKER = '<<<<<<<';
+const BASE_MARKER = '|||||||';
+const SEPARATOR = '=======';
+const THEIRS_MARKER = '>>>>>>>';
+
+function isMarker(line: string, marker: string): boolean {
+  return line.startsWith(marker) && (line.length === marker.length || line[marker.length] === ' ');
+}
+
+/**
+ * Find every complete conflict block in a file. Sections keep their trailing
+ * newlines, so joining a block's chosen sections reproduces the lines as-is.
+ */
+export function parseConflictBlocks(text: string): ConflictBlock[] {
+  const blocks: ConflictBlock[] = [];
+  const lines = text.split('\n');
+
+  let offset = 0;
+  let open: {
+    from: number;
+    startLine: number;
+    oursLabel: string;
+    baseLine: number | null;
+    separatorLine: number | null;
+    sections: { ours: string[]; base: string[]; theirs: string[] };
+    section: 'ours' | 'base' | 'theirs';
+  } | null = null;
+
+  lines.forEach((line, index) => {
+    const lineNumber = index + 1;
+    const lineStart = offset;
+    const hasNewline = index < lines.length - 1;
+    offset += line.length + (hasNewline ? 1 : 0);
+    const content = line.replace(/\r$/, '');
+
+    if (isMarker(content, OURS_MARKER)) {
+      // A nested or unterminated block starts over at the latest opening marker
+      open = {
+        from: lineStart,
+        startLine: lineNumber,
+        oursLabel: content.slice(OURS_MARKER.length).trim(),
+        baseLine: null,
+        separatorLine: null,
+        sections: { ours: [], base: [], theirs: [] },
+        section: 'ours'
+      };
+      return;
+    }
+    if (!open) return;
+
+    if (open.section === 'ours' && isMarker(content, BASE_MARKER)) {
+      open.baseLine = lineNumber;
+      open.section = 'base';
+    } else if (open.section !== 'theirs' && content === SEPARATOR) {
+      open.separatorLine = lineNumber;
+      open.section = 'theirs';
+    } else if (open.section === 'theirs' && isMarker(content, THEIRS_MARKER)) {
+      blocks.push({
+        from: open.from,
+        to: offset,
+        startLine: open.startLine,
+        baseLine: open.baseLine,
+        separatorLine: open.separatorLine!,
+        endLine: lineNumber,
+        ours: open.sections.ours.join(''),
+        base: open.baseLine === null ? null : open.sections.base.join(''),
+        theirs: open.sections.theirs.join(''),
+        oursLabel: open.oursLabel,
+        theirsLabel: content.slice(THEIRS_MARKER.length).trim()
+      });
+      open = null;
+    } else {
+      open.sections[open.section].push(line + (hasNewline ? '\n' : ''));
+    }
+  });
+
+  return blocks;
+}
+
+export function hasConflictMarkers(text: string): boolean {
+  return parseConflictBlocks(text).length > 0;
+}
+
+export function conflictBlockText(block: ConflictBlock, choice: ConflictChoice): string {
+  switch (choice) {
+    case 'ours':
+      return block.ours;
+    case 'theirs':
+      return block.theirs;
+    case 'base':
+      return block.base ?? '';
+    case 'both':
+      return block.ours + block.theirs;
+  }
+}
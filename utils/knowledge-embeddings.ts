@@ -0,0 +1,379 @@
+/**
+ * Semantic search for the knowledge base: an embedding index kept next to the
+ * workspace's knowledge, hybrid ranking that blends lunr's keyword scores with
+ * vector similarity, and related-entry suggestions. Embeddings come from a
+ * pluggable provider; the built-in one is a deterministic hashing model that
+ * needs no download, and a local Ollama model can be used instead.
+ */
+/// <reference path="../electron/lunr.d.ts" />
+import type lunr from 'lunr';
+import type { KnowledgeEntry } from '~/electron/knowledge-base';
+
+export const KNOWLEDGE_SEARCH_CONFIG_FILE = '.claude/knowledge-search.json';
+export const KNOWLEDGE_EMBEDDINGS_FILE = '.claude/cache/knowledge-embeddings.json';
+
+const INDEX_VERSION = 1;
+// Embedding models only read the start of long entries
+const MAX_EMBEDDED_LENGTH = 8000;
+
+export interface EmbeddingProvider {
+  // Stored with the index; a different id means every entry is re-embedded
+  id: string;
+  // Similarity below which an entry is not considered related at all
+  minSimilarity: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export type EmbeddingProviderConfig =
+  | { type: 'local'; dimensions?: number }
+  | { type: 'ollama'; model: string; url?: string };
+
+export interface KnowledgeSearchConfig {
+  semantic: boolean;
+  provider: EmbeddingProviderConfig;
+  // Share of the final score given to keyword matches, 0 to 1
+  keywordWeight: number;
+}
+
+export const DEFAULT_KNOWLEDGE_SEARCH_CONFIG: KnowledgeSearchConfig = {
+  semantic: false,
+  provider: { type: 'local' },
+  keywordWeight: 0.5
+};
+
+export interface EmbeddingIndex {
+  version: number;
+  provider: string;
+  entries: Record<string, { hash: string; vector: number[] }>;
+}
+
+export interface EmbeddingIndexUpdate {
+  index: EmbeddingIndex;
+  embedded: number;
+  removed: number;
+}
+
+export interface KnowledgeSearchResult {
+  entry: KnowledgeEntry;
+  score: number;
+  // The parts of the score, each 0 to 1: keyword relative to the best result,
+  // semantic as the raw similarity (0 below the provider's minimum)
+  keywordScore: number;
+  semanticScore: number;
+}
+
+export interface RelatedEntry {
+  entry: KnowledgeEntry;
+  similarity: number;
+}
+
+/**
+ * Fill in a partial or hand-edited config with the defaults
+ */
+export function normalizeSearchConfig(config: Partial<KnowledgeSearchConfig> | null | undefined): KnowledgeSearchConfig {
+  const provider: EmbeddingProviderConfig = config?.provider?.type === 'ollama'
+    ? (config.provider.model ? config.provider : { type: 'local' })
+    : config?.provider?.type === 'local' ? config.provider : { type: 'local' };
+  const keywordWeight = typeof config?.keywordWeight === 'number'
+    ? Math.min(1, Math.max(0, config.keywordWeight))
+    : DEFAULT_KNOWLEDGE_SEARCH_CONFIG.keywordWeight;
+  return { semantic: !!config?.semantic, provider, keywordWeight };
+}
+
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  return config.type === 'ollama'
+    ? createOllamaEmbeddingProvider(config.model, config.url)
+    : createLocalEmbeddingProvider(config.dimensions);
+}
+
+// ---------------------------------------------------------------------------
+// Local hashing model
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'how',
+  'i', 'if', 'in', 'into', 'is', 'it', 'its', 'of', 'on', 'or', 'so', 'that', 'the', 'then', 'there',
+  'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will', 'with',
+  'you', 'your'
+]);
+
+// Words developers use interchangeably; each group shares a feature so
+// paraphrases land near each other
+const SYNONYM_GROUPS = [
+  ['error', 'bug', 'failure', 'fail', 'exception', 'crash', 'broken', 'issue', 'problem', 'fault'],
+  ['fix', 'resolve', 'solve', 'repair', 'patch', 'workaround', 'solution'],
+  ['auth', 'authentication', 'authenticate', 'login', 'logon', 'signin', 'sign', 'credential', 'password', 'session'],
+  ['permission', 'authorization', 'authorize', 'access', 'role', 'privilege'],
+  ['database', 'db', 'sql', 'postgres', 'postgresql', 'mysql', 'sqlite', 'mongo', 'mongodb', 'query', 'table'],
+  ['config', 'configuration', 'configure', 'setting', 'option', 'preference', 'env', 'environment'],
+  ['delete', 'remove', 'drop', 'erase', 'purge', 'destroy'],
+  ['create', 'add', 'new', 'insert', 'generate'],
+  ['update', 'change', 'modify', 'edit', 'alter'],
+  ['fast', 'faster', 'quick', 'slow', 'slower', 'speed', 'performance', 'latency', 'optimize', 'optimization', 'cache', 'perf'],
+  ['test', 'testing', 'spec', 'unit', 'e2e', 'jest', 'vitest', 'assert'],
+  ['deploy', 'deployment', 'release', 'ship', 'publish', 'production', 'prod'],
+  ['build', 'compile', 'bundle', 'bundler', 'webpack', 'vite', 'transpile'],
+  ['ui', 'frontend', 'interface', 'component', 'view', 'screen', 'page', 'layout'],
+  ['server', 'backend', 'service', 'api', 'endpoint', 'route', 'handler'],
+  ['request', 'http', 'fetch', 'call', 'response', 'rest'],
+  ['user', 'account', 'customer', 'member', 'profile'],
+  ['log', 'logging', 'logger', 'trace', 'debug', 'monitor', 'monitoring'],
+  ['style', 'css', 'theme', 'color', 'design'],
+  ['doc', 'documentation', 'guide', 'readme', 'manual', 'tutorial'],
+  ['start', 'begin', 'launch', 'run', 'boot', 'init', 'initialize', 'startup'],
+  ['stop', 'end', 'finish', 'terminate', 'kill', 'shutdown'],
+  ['file', 'path', 'directory', 'folder'],
+  ['secret', 'key', 'token', 'apikey'],
+  ['dependency', 'package', 'library', 'module', 'npm', 'import']
+];
+
+const CONCEPTS = new Map<string, number>();
+SYNONYM_GROUPS.forEach((group, index) => group.forEach(word => CONCEPTS.set(stem(word), index)));
+
+// Light suffix stripping so plurals and tenses share features
+function stem(word: string): string {
+  if (word.length > 5 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 5 && word.endsWith('ing')) return word.slice(0, -3);
+  if (word.length > 4 && word.endsWith('ed')) return word.slice(0, -2);
+  if (word.length > 4 && word.endsWith('es') && !word.endsWith('ses')) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+  return word;
+}
+
+function tokenize(text: string): string[] {
+  const words = text
+    // Split camelCase and PascalCase identifiers
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) || [];
+  return words.filter(word => !STOP_WORDS.has(word)).map(stem);
+}
+
+// FNV-1a; stable across runs and platforms
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function addFeature(vector: Float64Array, feature: string, weight: number): void {
+  const hash = hashString(feature);
+  // The low bit picks the sign so colliding features tend to cancel out
+  vector[(hash >>> 1) % vector.length] += hash & 1 ? weight : -weight;
+}
+
+function normalize(vector: ArrayLike<number>): number[] {
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+  norm = Math.sqrt(norm);
+  return Array.from(vector, value => (norm ? value / norm : 0));
+}
+
+/**
+ * A bag of words, synonym groups and character trigrams hashed into a fixed
+ * number of dimensions. Deterministic, instant and dependency free; it catches
+ * inflections, shared vocabulary and common paraphrases but not arbitrary ones.
+ */
+export function createLocalEmbeddingProvider(dimensions = 384): EmbeddingProvider {
+  const embedOne = (text: string): number[] => {
+    const counts = new Map<string, number>();
+    const count = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) || 0) + weight);
+
+    const tokens = tokenize(text);
+    tokens.forEach((token, index) => {
+      count(`w:${token}`, 1);
+      const concept = CONCEPTS.get(token);
+      if (concept !== undefined) count(`c:${concept}`, 1);
+      if (index > 0) count(`b:${tokens[index - 1]} ${token}`, 0.5);
+      const padded = ` ${token} `;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        count(`t:${padded.slice(i, i + 3)}`, 0.25);
+      }
+    });
+
+    const vector = new Float64Array(dimensions);
+    // Damp repeated terms so long entries aren't dominated by one word
+    counts.forEach((weight, feature) => addFeature(vector, feature, 1 + Math.log(weight)));
+    return normalize(vector);
+  };
+
+  return {
+    id: `local-hash-v1:${dimensions}`,
+    minSimilarity: 0.15,
+    embed: async texts => texts.map(embedOne)
+  };
+}
+
+/**
+ * Embeddings from a model served by a local Ollama, e.g. nomic-embed-text
+ */
+export function createOllamaEmbeddingProvider(model: string, url = 'http://localhost:11434'): EmbeddingProvider {
+  return {
+    id: `ollama:${model}`,
+    minSimilarity: 0.45,
+    embed: async texts => {
+      const response = await fetch(`${url.replace(/\/$/, '')}/api/embed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model, input: texts })
+      });
+      if (!response.ok) {
+        throw new Error(`Ollama returned ${response.status}: ${await response.text()}`);
+      }
+      const data = await response.json();
+      if (!Array.isArray(data.embeddings) || data.embeddings.length !== texts.length) {
+        throw new Error('Ollama returned no embeddings');
+      }
+      return data.embeddings.map(normalize);
+    }
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Index
+
+/**
+ * The text an entry is embedded from
+ */
+export function embeddingText(entry: KnowledgeEntry): string {
+  return [
+    entry.title,
+    (entry.metadata.aliases || []).join(' '),
+    entry.metadata.tags.join(' '),
+    entry.metadata.category,
+    entry.content.slice(0, MAX_EMBEDDED_LENGTH)
+  ].filter(Boolean).join('\n');
+}
+
+export function createEmbeddingIndex(provider: EmbeddingProvider): EmbeddingIndex {
+  return { version: INDEX_VERSION, provider: provider.id, entries: {} };
+}
+
+/**
+ * Embed only the entries that are new or changed since the index was built,
+ * and drop entries that no longer exist. An index from another provider or
+ * format version is rebuilt from scratch.
+ */
+export async function updateEmbeddingIndex(
+  index: EmbeddingIndex | null,
+  entries: KnowledgeEntry[],
+  provider: EmbeddingProvider,
+  batchSize = 16
+): Promise<EmbeddingIndexUpdate> {
+  const current = index && index.version === INDEX_VERSION && index.provider === provider.id
+    ? index
+    : createEmbeddingIndex(provider);
+  const next: EmbeddingIndex = { ...current, entries: {} };
+  const pending: { id: string; hash: string; text: string }[] = [];
+
+  for (const entry of entries) {
+    const text = embeddingText(entry);
+    const hash = hashString(text).toString(16);
+    const existing = current.entries[entry.id];
+    if (existing?.hash === hash) {
+      next.entries[entry.id] = existing;
+    } else {
+      pending.push({ id: entry.id, hash, text });
+    }
+  }
+
+  for (let i = 0; i < pending.length; i += batchSize) {
+    const batch = pending.slice(i, i + batchSize);
+    const vectors = await provider.embed(batch.map(item => item.text));
+    batch.forEach((item, j) => {
+      // Four decimals keep the index file small without changing rankings
+      next.entries[item.id] = { hash: item.hash, vector: vectors[j].map(value => Math.round(value * 1e4) / 1e4) };
+    });
+  }
+
+  const removed = Object.keys(current.entries).filter(id => !next.entries[id]).length;
+  return { index: next, embedded: pending.length, removed };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// ---------------------------------------------------------------------------
+// Search
+
+/**
+ * Rank entries by a blend of lunr's BM25 score, scaled against the best result,
+ * and raw embedding similarity, so a weak best match doesn't count as a strong
+ * one. Entries that match no keyword are included when they are similar enough
+ * to the query on their own.
+ */
+export async function hybridSearch(
+  keywordIndex: lunr.Index,
+  embeddingIndex: EmbeddingIndex,
+  entries: KnowledgeEntry[],
+  query: string,
+  provider: EmbeddingProvider,
+  keywordWeight = DEFAULT_KNOWLEDGE_SEARCH_CONFIG.keywordWeight
+): Promise<KnowledgeSearchResult[]> {
+  const keywordScores = new Map<string, number>();
+  try {
+    keywordIndex.search(query).forEach(result => keywordScores.set(result.ref, result.score));
+  } catch {
+    // Natural language queries can trip lunr's query syntax; rank on meaning alone
+  }
+
+  const [queryVector] = await provider.embed([query]);
+  const similarities = new Map<string, number>();
+  for (const entry of entries) {
+    const indexed = embeddingIndex.entries[entry.id];
+    if (indexed) similarities.set(entry.id, Math.max(0, cosineSimilarity(queryVector, indexed.vector)));
+  }
+
+  const maxKeyword = Math.max(0, ...keywordScores.values());
+
+  const results: KnowledgeSearchResult[] = [];
+  for (const entry of entries) {
+    const keyword = keywordScores.get(entry.id) || 0;
+    const similarity = similarities.get(entry.id) || 0;
+    if (!keyword && similarity < provider.minSimilarity) continue;
+
+    const keywordScore = maxKeyword ? keyword / maxKeyword : 0;
+    const semanticScore = similarity >= provider.minSimilarity ? similarity : 0;
+    results.push({
+      entry,
+      score: keywordWeight * keywordScore + (1 - keywordWeight) * semanticScore,
+      keywordScore,
+      semanticScore
+    });
+  }
+
+  return results.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The entries closest in meaning to an entry, most similar first
+ */
+export function findRelatedEntries(
+  embeddingIndex: EmbeddingIndex,
+  entries: KnowledgeEntry[],
+  entryId: string,
+  provider: EmbeddingProvider,
+  limit = 5
+): RelatedEntry[] {
+  const source = embeddingIndex.entries[entryId];
+  if (!source) return [];
+
+  return entries
+    .filter(entry => entry.id !== entryId && embeddingIndex.entries[entry.id])
+    .map(entry => ({ entry, similarity: cosineSimilarity(source.vector, embeddingIndex.entries[entry.id].vector) }))
+    .filter(related => related.similarity >= provider.minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
@@ -0,0 +1,218 @@
+/**
+ * Wiki-style links between knowledge entries: [[Title]], [[alias]],
+ * [[Title#Heading]] and [[Title|label]]. Resolves links against entry titles,
+ * aliases and filenames, computes backlinks and broken links, rewrites links
+ * when an entry is renamed, and builds the graph of entries and the source
+ * files they reference.
+ */
+import type { KnowledgeEntry } from '~/electron/knowledge-base';
+
+export interface WikiLink {
+  // The entry name as written, without heading or label
+  target: string;
+  heading?: string;
+  label?: string;
+  // Offsets of the whole [[...]] in the content
+  start: number;
+  end: number;
+}
+
+export interface ResolvedLink extends WikiLink {
+  sourceId: string;
+  // Undefined when no entry matches: a broken link
+  targetId?: string;
+}
+
+export interface Backlink {
+  sourceId: string;
+  link: ResolvedLink;
+  // The line the link appears on
+  context: string;
+}
+
+export interface KnowledgeLinkGraph {
+  links: Record<string, ResolvedLink[]>;
+  backlinks: Record<string, Backlink[]>;
+  broken: ResolvedLink[];
+}
+
+export type KnowledgeGraphNodeType = 'entry' | 'file' | 'missing';
+
+export interface KnowledgeGraphNode {
+  id: string;
+  type: KnowledgeGraphNodeType;
+  label: string;
+  // Entry id for entries, path for files, link target for missing entries
+  ref: string;
+  category?: string;
+}
+
+export interface KnowledgeGraphEdge {
+  source: string;
+  target: string;
+  type: 'link' | 'file' | 'broken';
+}
+
+export interface KnowledgeGraph {
+  nodes: KnowledgeGraphNode[];
+  edges: KnowledgeGraphEdge[];
+}
+
+const WIKI_LINK_PATTERN = /\[\[([^\[\]\n|#]+)(?:#([^\[\]\n|]*))?(?:\|([^\[\]\n]*))?\]\]/g;
+
+// Links inside code are examples, not links
+function maskCode(content: string): string {
+  const blank = (match: string) => match.replace(/[^\n]/g, ' ');
+  return content
+    .replace(/^(```|~~~)[^\n]*\n[\s\S]*?^\1[^\n]*$/gm, blank)
+    .replace(/`[^`\n]*`/g, blank);
+}
+
+export function normalizeLinkName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export function parseWikiLinks(content: string): WikiLink[] {
+  const links: WikiLink[] = [];
+  const masked = maskCode(content);
+  let match: RegExpExecArray | null;
+
+  WIKI_LINK_PATTERN.lastIndex = 0;
+  while ((match = WIKI_LINK_PATTERN.exec(masked))) {
+    const target = match[1].trim();
+    if (!target) continue;
+    links.push({
+      target,
+      heading: match[2]?.trim() || undefined,
+      label: match[3]?.trim() || undefined,
+      start: match.index,
+      end: match.index + match[0].length
+    });
+  }
+  return links;
+}
+
+/**
+ * Map every name an entry can be linked by to its id. Titles win over aliases,
+ * aliases over filenames, so an alias never steals another entry's title.
+ */
+export function buildLinkTargets(entries: KnowledgeEntry[]): Map<string, string> {
+  const targets = new Map<string, string>();
+  const add = (name: string | undefined, id: string) => {
+    const key = name ? normalizeLinkName(name) : '';
+    if (key && !targets.has(key)) targets.set(key, id);
+  };
+
+  entries.forEach(entry => add(entry.title, entry.id));
+  entries.forEach(entry => (entry.metadata.aliases || []).forEach(alias => add(alias, entry.id)));
+  entries.forEach(entry => {
+    add(entry.filename?.replace(/\.md$/, ''), entry.id);
+    add(entry.id, entry.id);
+  });
+  return targets;
+}
+
+export function resolveWikiLink(target: string, targets: Map<string, string>): string | undefined {
+  const key = normalizeLinkName(target);
+  // [[api/endpoints]] names an entry in a subdirectory; fall back to the file name
+  return targets.get(key) ?? targets.get(key.split('/').pop() || '');
+}
+
+function lineAt(content: string, offset: number): string {
+  const start = content.lastIndexOf('\n', offset - 1) + 1;
+  const end = content.indexOf('\n', offset);
+  return content.slice(start, end === -1 ? undefined : end).trim();
+}
+
+/**
+ * Outgoing links, backlinks and broken links for every entry
+ */
+export function buildLinkGraph(entries: KnowledgeEntry[]): KnowledgeLinkGraph {
+  const targets = buildLinkTargets(entries);
+  const graph: KnowledgeLinkGraph = { links: {}, backlinks: {}, broken: [] };
+
+  for (const entry of entries) {
+    graph.links[entry.id] = parseWikiLinks(entry.content).map(link => {
+      const resolved: ResolvedLink = { ...link, sourceId: entry.id, targetId: resolveWikiLink(link.target, targets) };
+      if (!resolved.targetId) {
+        graph.broken.push(resolved);
+      } else if (resolved.targetId !== entry.id) {
+        if (!graph.backlinks[resolved.targetId]) graph.backlinks[resolved.targetId] = [];
+        graph.backlinks[resolved.targetId].push({
+          sourceId: entry.id,
+          link: resolved,
+          context: lineAt(entry.content, link.start)
+        });
+      }
+      return resolved;
+    });
+  }
+  return graph;
+}
+
+/**
+ * Point links that named an entry by its old title at its new title, keeping
+ * any heading and label. Links by alias or filename still resolve and are
+ * left alone. Returns the content unchanged when nothing links to the old title.
+ */
+export function renameWikiLinks(content: string, oldTitle: string, newTitle: string): string {
+  const oldKey = normalizeLinkName(oldTitle);
+  const links = parseWikiLinks(content).filter(link => normalizeLinkName(link.target) === oldKey);
+
+  let result = content;
+  // Back to front so earlier offsets stay valid
+  for (const link of links.reverse()) {
+    const heading = link.heading ? `#${link.heading}` : '';
+    const label = link.label ? `|${link.label}` : '';
+    result = `${result.slice(0, link.start)}[[${newTitle}${heading}${label}]]${result.slice(link.end)}`;
+  }
+  return result;
+}
+
+function fileLabel(path: string, workspacePath?: string): string {
+  return workspacePath && path.startsWith(`${workspacePath}/`) ? path.slice(workspacePath.length + 1) : path;
+}
+
+/**
+ * Nodes for entries, the source files they list in relatedFiles and the
+ * missing entries that broken links point at
+ */
+export function buildKnowledgeGraph(entries: KnowledgeEntry[], workspacePath?: string): KnowledgeGraph {
+  const linkGraph = buildLinkGraph(entries);
+  const nodes = new Map<string, KnowledgeGraphNode>();
+  const edges = new Map<string, KnowledgeGraphEdge>();
+  const addEdge = (edge: KnowledgeGraphEdge) => edges.set(`${edge.source}->${edge.target}`, edge);
+
+  for (const entry of entries) {
+    nodes.set(`entry:${entry.id}`, {
+      id: `entry:${entry.id}`,
+      type: 'entry',
+      label: entry.title,
+      ref: entry.id,
+      category: entry.metadata.category
+    });
+  }
+
+  for (const entry of entries) {
+    for (const link of linkGraph.links[entry.id] || []) {
+      if (link.targetId) {
+        if (link.targetId !== entry.id) {
+          addEdge({ source: `entry:${entry.id}`, target: `entry:${link.targetId}`, type: 'link' });
+        }
+        continue;
+      }
+      const id = `missing:${normalizeLinkName(link.target)}`;
+      if (!nodes.has(id)) nodes.set(id, { id, type: 'missing', label: link.target, ref: link.target });
+      addEdge({ source: `entry:${entry.id}`, target: id, type: 'broken' });
+    }
+
+    for (const path of entry.metadata.relatedFiles || []) {
+      const label = fileLabel(path, workspacePath);
+      const id = `file:${label}`;
+      if (!nodes.has(id)) nodes.set(id, { id, type: 'file', label, ref: path });
+      addEdge({ source: `entry:${entry.id}`, target: id, type: 'file' });
+    }
+  }
+
+  return { nodes: Array.from(nodes.values()), edges: Array.from(edges.values()) };
+}